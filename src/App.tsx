@@ -1,12 +1,104 @@
-import { useState, useCallback } from 'react'
-import { GraphVisualization } from './components/GraphVisualization'
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react'
+import { GraphVisualization, type GraphVisualizationHandle } from './components/GraphVisualization'
+import { CanvasGraphVisualization } from './components/CanvasGraphVisualization'
 import { ChatInterface } from './components/ChatInterface'
 import { NodeDetailsPanel } from './components/NodeDetailsPanel'
 import { QueryBuilder } from './components/QueryBuilder'
-import { sampleGraphData, sampleQueries } from './data/sampleGraph'
-import type { Message, GraphNode, GraphData } from './types'
-import { streamText } from './lib/utils'
-import { Network, Sparkles } from 'lucide-react'
+import { LLMSettingsPanel } from './components/LLMSettingsPanel'
+import { ImportDialog } from './components/ImportDialog'
+import { IngestionDialog } from './components/IngestionDialog'
+import { ExportPanel, type ExportScope } from './components/ExportPanel'
+import { LayoutPanel } from './components/LayoutPanel'
+import { ExplorationTrail } from './components/ExplorationTrail'
+import { PathFinderPanel } from './components/PathFinderPanel'
+import { FilterPanel } from './components/FilterPanel'
+import { ChangeLogPanel } from './components/ChangeLogPanel'
+import { SchemaView } from './components/SchemaView'
+import { AnalyticsPanel } from './components/AnalyticsPanel'
+import { GraphContextMenu, type GraphMenu } from './components/GraphContextMenu'
+import { SessionSidebar, type SessionExportFormat } from './components/SessionSidebar'
+import { findSampleQuery } from './data/sampleGraph'
+import type { ChatSession, Message, GraphNode, GraphData, GraphDataSource, GraphPath, GraphRelationship, QueryMode, HybridScope, RAGContext, LLMConfig, LLMProvider, ExpandOptions, SchemaElement, GraphMetrics, MetricKey } from './types'
+import { cn, downloadFile } from './lib/utils'
+import { createDefaultDataSource, createInMemoryDataSource, createPendingEditsDataSource } from './lib/dataSources'
+import { cloneNode, endpointId, getNeighborhood, nodeLabels, subgraph } from './lib/graph'
+import {
+  collapseNode,
+  describeExpansion,
+  expandNode,
+  startExploration,
+  type ExplorationStep
+} from './lib/exploration'
+import { pathToCypher } from './lib/paths'
+import { changedData, runTimedCypher } from './lib/results'
+import { describeSchemaElement, extractSchema, extractSchemaGraph } from './lib/schema'
+import { applyFilter, defaultGraphFilter, filterGraph, isFilterActive, type GraphFilter } from './lib/filters'
+import {
+  applyEdit,
+  createNodeEdit,
+  createRelationshipEdit,
+  createSubgraphEdit,
+  deleteNodeEdit,
+  deleteRelationshipEdit,
+  editToCypher,
+  editWasApplied,
+  emptyEditHistory,
+  recordEdit,
+  revertEdit,
+  unusedId,
+  updateNodeEdit,
+  type EditHistory,
+  type GraphEdit
+} from './lib/editing'
+import { svgToPng } from './lib/exporters'
+import { createGraphAnalytics, scaleMetric } from './lib/analytics'
+import { componentColor, metricColor, metricRadius } from './lib/styles'
+import {
+  defaultLayoutSettings,
+  deleteSavedLayout,
+  graphKey,
+  loadSavedLayouts,
+  saveLayout,
+  type LayoutSettings,
+  type Point,
+  type SavedLayout
+} from './lib/layout'
+import {
+  createSession,
+  createSessionStore,
+  DEFAULT_SESSION_NAME,
+  newSessionId,
+  parseSessionsJson,
+  sessionFileName,
+  sessionsToJson,
+  sessionTitle,
+  sessionToMarkdown
+} from './lib/sessions'
+import { buildConversationState, resolveFollowUp } from './lib/conversation'
+import { retrieveScopedContext, defaultRetrievalOptions, type RetrievalOptions } from './lib/retrieval'
+import { createLLMProvider, loadLLMConfig, saveLLMConfig } from './lib/llm'
+import { createLLMCypherGenerator, createRuleBasedCypherGenerator, generateCypher, validateCypher } from './lib/textToCypher'
+import { Bot, Download, Eraser, FileText, FileUp, Filter, Gauge, History, Info, LayoutGrid, Network, Route, Shapes, Sparkles, X } from 'lucide-react'
+
+type GraphRenderer = 'svg' | 'canvas'
+
+type SidePanel = 'details' | 'paths' | 'filter' | 'changes' | 'metrics'
+
+interface Highlight {
+  nodeIds: string[]
+  relationshipIds?: string[]
+  /** Relationships drawn bolder and labelled: an answer's reasoning path */
+  emphasizedRelationshipIds?: string[]
+  /** Message whose subgraph is highlighted */
+  messageId?: string
+}
+
+// Node count above which the canvas renderer is used unless the user picks one
+const LARGE_GRAPH_NODES = 500
+// Most relationships fetched when expanding a single node
+const EXPAND_LIMIT = 100
+// Stable empty list while the sessions load
+const NO_MESSAGES: Message[] = []
 
 /**
  * GraphRAG Explorer - Interactive demonstration of Graph-Powered GenAI
@@ -19,109 +111,844 @@ import { Network, Sparkles } from 'lucide-react'
  * 5. Modern React patterns and best practices
  *
  * Architecture decisions:
- * - React 18 with TypeScript for type safety
- * - D3.js for sophisticated graph visualization
+ * - React 19 with TypeScript for type safety
+ * - D3.js for graph visualization, with a canvas renderer for large graphs
  * - Tailwind CSS for efficient, maintainable styling
- * - Simulated streaming to demonstrate async handling
+ * - Answers streamed from the configured LLM provider (a mock one offline)
  * - Component-based architecture for reusability
  */
 function App() {
-  const [graphData] = useState<GraphData>(sampleGraphData)
-  const [messages, setMessages] = useState<Message[]>([])
+  const [dataSource, setDataSource] = useState<GraphDataSource>(createDefaultDataSource)
+  const [graphData, setGraphData] = useState<GraphData>({ nodes: [], relationships: [] })
+  const [graphError, setGraphError] = useState<string | null>(null)
+  const sessionStore = useMemo(() => createSessionStore(), [])
+  // Conversations, the active one shown in the chat; empty until they have loaded
+  const [sessions, setSessions] = useState<ChatSession[]>([])
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null)
+  const [sessionError, setSessionError] = useState<string | null>(null)
+  const [showSessions, setShowSessions] = useState(false)
+  // Version of each session last written to the store
+  const savedSessionsRef = useRef(new Map<string, ChatSession>())
+  const activeSession = sessions.find(session => session.id === activeSessionId)
+  const messages = activeSession?.messages ?? NO_MESSAGES
   const [selectedNode, setSelectedNode] = useState<GraphNode | null>(null)
-  const [highlightedNodes, setHighlightedNodes] = useState<string[]>([])
+  // Highlighted nodes, plus the relationships to emphasise among them (e.g. a path);
+  // without relationshipIds every relationship between highlighted nodes is emphasised.
+  // Highlights stay until replaced or cleared
+  const [highlight, setHighlight] = useState<Highlight>({ nodeIds: [] })
+  const highlightedNodes = highlight.nodeIds
   const [isLoading, setIsLoading] = useState(false)
+  const [queryMode, setQueryMode] = useState<QueryMode>('natural')
+  const [hybridScope, setHybridScope] = useState<HybridScope | null>(null)
+  const [retrievalOptions, setRetrievalOptions] = useState<RetrievalOptions>(defaultRetrievalOptions)
+  const [llmConfig, setLLMConfig] = useState<LLMConfig>(loadLLMConfig)
+  const [showLLMSettings, setShowLLMSettings] = useState(false)
+  const [showImport, setShowImport] = useState(false)
+  const [showIngest, setShowIngest] = useState(false)
+  const [showExport, setShowExport] = useState(false)
+  // Message whose sources the export panel was opened for
+  const [exportMessage, setExportMessage] = useState<Message | null>(null)
+  const graphRef = useRef<GraphVisualizationHandle>(null)
+  // Expansion history; the last step is on screen, none shows the loaded graph
+  const [explorationSteps, setExplorationSteps] = useState<ExplorationStep[]>([])
+  const [expandOptions, setExpandOptions] = useState<ExpandOptions>({})
+  const [isExpanding, setIsExpanding] = useState(false)
+  const [explorationNotice, setExplorationNotice] = useState<string | null>(null)
+  const exploration = explorationSteps.at(-1)?.exploration ?? null
+  const viewData = exploration?.graph ?? graphData
+  // Renderer picked by the user; null follows the graph size
+  const [rendererChoice, setRendererChoice] = useState<GraphRenderer | null>(null)
+  const renderer = rendererChoice ?? (viewData.nodes.length > LARGE_GRAPH_NODES ? 'canvas' : 'svg')
+  const Visualization = renderer === 'canvas' ? CanvasGraphVisualization : GraphVisualization
+  const [layoutSettings, setLayoutSettings] = useState<LayoutSettings>(defaultLayoutSettings)
+  const [pinnedNodes, setPinnedNodes] = useState<Record<string, Point>>({})
+  const [showLayout, setShowLayout] = useState(false)
+  const [sidePanel, setSidePanel] = useState<SidePanel>('details')
+  const layoutKey = useMemo(() => graphKey(viewData), [viewData])
+  const [savedLayouts, setSavedLayouts] = useState(() => ({ key: layoutKey, layouts: loadSavedLayouts(layoutKey) }))
+  // Saved layouts belong to a graph, so they are reloaded when the graph changes
+  if (savedLayouts.key !== layoutKey) {
+    setSavedLayouts({ key: layoutKey, layouts: loadSavedLayouts(layoutKey) })
+  }
+  const relationshipTypes = useMemo(
+    () => [...new Set(graphData.relationships.map(rel => rel.type))].sort(),
+    [graphData]
+  )
+  const [filter, setFilter] = useState<GraphFilter>(defaultGraphFilter)
+  // Labels and relationship patterns on screen, for the schema view and query helpers
+  const schemaGraph = useMemo(() => extractSchemaGraph(viewData), [viewData])
+  const [showSchema, setShowSchema] = useState(false)
+  // Schema of the loaded graph, which editor queries run against
+  const cypherSchema = useMemo(() => extractSchema(graphData), [graphData])
+  const filterResult = useMemo(() => applyFilter(viewData, filter), [viewData, filter])
+  // Ids the renderers leave out or dim, none while no filter is set
+  const filteredOut = useMemo(() => isFilterActive(filter)
+    ? {
+      nodeIds: viewData.nodes.filter(node => !filterResult.nodeIds.has(node.id)).map(node => node.id),
+      relationshipIds: viewData.relationships.filter(rel => !filterResult.relationshipIds.has(rel.id)).map(rel => rel.id)
+    }
+    : null, [viewData, filter, filterResult])
+  const llmProvider = useMemo(() => createLLMProvider(llmConfig), [llmConfig])
+  // Edits made in the graph; `done` is the change set not yet applied to the data source
+  const [editHistory, setEditHistory] = useState<EditHistory>(emptyEditHistory)
+  const [graphMenu, setGraphMenu] = useState<GraphMenu | null>(null)
+  // Reads that should see unapplied edits (chat retrieval, expansion, node details) go through this
+  const editedSource = useMemo(() => editHistory.done.length > 0
+    ? createPendingEditsDataSource(dataSource, editHistory.done, graphData)
+    : dataSource, [dataSource, editHistory, graphData])
+  const labels = useMemo(() => [...new Set(graphData.nodes.flatMap(nodeLabels))].sort(), [graphData])
+  const analytics = useMemo(() => createGraphAnalytics(), [])
+  // Centrality metrics of the graph on screen, kept while they are recomputed
+  const [metrics, setMetrics] = useState<{ data: GraphData; metrics: GraphMetrics } | null>(null)
+  const [metricsError, setMetricsError] = useState<string | null>(null)
+  const [metricStyle, setMetricStyle] = useState<{ sizeBy: MetricKey | null; colorBy: MetricKey | null }>({ sizeBy: null, colorBy: null })
+  const nodeMetrics = metrics?.metrics ?? null
+  const nodeSizes = useMemo(() => {
+    const { sizeBy } = metricStyle
+    if (!sizeBy || !nodeMetrics) return undefined
+    const scaled = scaleMetric(nodeMetrics, sizeBy)
+    return Object.fromEntries(Object.entries(scaled).map(([id, value]) => [id, metricRadius(value)]))
+  }, [nodeMetrics, metricStyle])
+  const nodeColors = useMemo(() => {
+    const { colorBy } = metricStyle
+    if (!colorBy || !nodeMetrics) return undefined
+    if (colorBy === 'component') {
+      return Object.fromEntries(Object.entries(nodeMetrics).map(([id, node]) => [id, componentColor(node.component)]))
+    }
+    const scaled = scaleMetric(nodeMetrics, colorBy)
+    return Object.fromEntries(Object.entries(scaled).map(([id, value]) => [id, metricColor(value)]))
+  }, [nodeMetrics, metricStyle])
+
+  // Load the graph whenever the data source changes
+  useEffect(() => {
+    let cancelled = false
+    dataSource.loadGraph()
+      .then(data => {
+        if (cancelled) return
+        setGraphData(data)
+        setExplorationSteps([])
+        setEditHistory(emptyEditHistory)
+        setGraphError(null)
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setGraphError(error.message)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [dataSource])
 
   /**
-   * Simulates GraphRAG query processing
+   * Reloads the graph after a query wrote to the data source, with the
+   * pending edits applied on top; explorations are dropped as they may be stale
+   */
+  const reloadGraph = useCallback(async () => {
+    try {
+      const data = await dataSource.loadGraph()
+      setGraphData(editHistory.done.reduce(applyEdit, data))
+      setExplorationSteps([])
+      setSelectedNode(null)
+      setGraphError(null)
+    } catch (error) {
+      setGraphError((error as Error).message)
+    }
+  }, [dataSource, editHistory])
+
+  // Recompute metrics whenever the graph on screen changes
+  useEffect(() => {
+    let cancelled = false
+    analytics.analyze(viewData)
+      .then(result => {
+        if (cancelled) return
+        setMetrics({ data: viewData, metrics: result })
+        setMetricsError(null)
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setMetricsError(error.message)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [analytics, viewData])
+
+  useEffect(() => () => analytics.dispose(), [analytics])
+
+  // Reopen the most recent conversation, or start one
+  useEffect(() => {
+    let cancelled = false
+    sessionStore.list()
+      .then(stored => {
+        if (cancelled) return
+        stored.forEach(session => savedSessionsRef.current.set(session.id, session))
+        const initial = stored.length > 0 ? stored : [createSession()]
+        setSessions(initial)
+        setActiveSessionId(initial[0].id)
+      })
+      .catch((error: Error) => {
+        if (cancelled) return
+        const session = createSession()
+        setSessions([session])
+        setActiveSessionId(session.id)
+        setSessionError(`Conversations will not be saved: ${error.message}`)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [sessionStore])
+
+  // Persist sessions that changed since they were last saved, once no answer is streaming
+  useEffect(() => {
+    sessions.forEach(session => {
+      if (savedSessionsRef.current.get(session.id) === session) return
+      if (session.messages.some(message => message.isStreaming)) return
+      savedSessionsRef.current.set(session.id, session)
+      sessionStore.save(session).catch((error: Error) => {
+        setSessionError(`Could not save "${session.name}": ${error.message}`)
+      })
+    })
+  }, [sessions, sessionStore])
+
+  const updateSession = useCallback((id: string, update: (session: ChatSession) => ChatSession) => {
+    setSessions(list => list.map(session => (
+      session.id === id ? { ...update(session), updatedAt: new Date() } : session
+    )))
+  }, [])
+
+  /**
+   * GraphRAG query processing
+   *
+   * 1. Retrieve ranked nodes and relationships from the loaded graph, edits included
+   * 2. Generate schema-validated Cypher for the question
+   * 3. Pass the graph context to the configured LLM provider
+   * 4. Stream the response back into the assistant message
+   *
+   * In cypher mode the input is executed directly; in hybrid mode retrieval
+   * is restricted to the pinned scope subgraph. Follow-ups ("which of those
+   * companies use it?") are first rewritten into a standalone question by
+   * resolving their references against the entities of earlier turns
    *
-   * Real implementation would:
-   * 1. Convert natural language to Cypher query
-   * 2. Execute query against Neo4j database
-   * 3. Retrieve relevant nodes and relationships
-   * 4. Pass context to LLM with prompt
-   * 5. Stream response back to user
+   * Messages go to the session the question was asked in, even if the user
+   * switches conversation while the answer streams
    */
   const handleSendMessage = useCallback(async (content: string) => {
+    const sessionId = activeSessionId
+    if (!sessionId) return
+    const updateMessages = (update: (messages: Message[]) => Message[]) =>
+      updateSession(sessionId, session => ({ ...session, messages: update(session.messages) }))
+    const mode = queryMode
+    const scopeQuery = mode === 'hybrid' ? hybridScope?.cypher : undefined
+    const scopeParams = mode === 'hybrid' ? hybridScope?.params : undefined
     const userMessage: Message = {
       id: `msg-${Date.now()}`,
       role: 'user',
       content,
-      timestamp: new Date()
+      timestamp: new Date(),
+      mode,
+      scopeQuery,
+      scopeParams
     }
 
-    setMessages(prev => [...prev, userMessage])
+    updateSession(sessionId, session => ({
+      ...session,
+      // Untitled conversations are named after their first question
+      name: session.messages.length === 0 && session.name === DEFAULT_SESSION_NAME ? sessionTitle(content) : session.name,
+      messages: [...session.messages, userMessage]
+    }))
     setIsLoading(true)
 
-    // Simulate graph query processing delay
-    await new Promise(resolve => setTimeout(resolve, 800))
+    if (mode === 'cypher') {
+      const assistantMessage = await answerWithCypher(content, dataSource)
+      if (assistantMessage.queryResult && changedData(assistantMessage.queryResult)) await reloadGraph()
+      setHighlight(messageHighlight(assistantMessage))
+      updateMessages(prev => [...prev, assistantMessage])
+      setIsLoading(false)
+      return
+    }
 
-    // Find relevant sample query or generate response
-    const matchingQuery = sampleQueries.find(q =>
-      content.toLowerCase().includes(q.natural.toLowerCase().split(' ').slice(0, 3).join(' ').toLowerCase())
-    )
+    let question: string
+    let context: RAGContext
+    let assistantMessage: Message
+    try {
+      // The graph on screen already has the unapplied edits in it
+      const fullGraph = graphData
 
-    // Simulate retrieving relevant nodes based on query
-    const relevantNodes = matchingQuery
-      ? await simulateGraphRetrieval(content, graphData)
-      : await simulateGraphRetrieval(content, graphData)
+      const conversation = buildConversationState(messages, fullGraph.nodes, selectedNode)
+      const { query, references } = resolveFollowUp(content, conversation, fullGraph.nodes)
+      const standaloneQuery = references.length > 0 ? query : undefined
+      if (standaloneQuery) {
+        updateMessages(prev => prev.map(msg => (msg.id === userMessage.id ? { ...msg, standaloneQuery } : msg)))
+      }
+      question = standaloneQuery ?? content
 
-    setHighlightedNodes(relevantNodes.map(n => n.id))
+      // Rank and expand relevant nodes for the query, within the active filter if asked to
+      context = retrieveScopedContext(
+        question,
+        filter.limitRetrieval && isFilterActive(filter) ? filterGraph(fullGraph, filter) : fullGraph,
+        mode === 'hybrid' ? hybridScope : null,
+        retrievalOptions,
+        nodeMetrics ?? undefined
+      )
+      const relevantNodes = context.retrievedNodes
 
-    // Generate response with streaming
-    const responseText = await generateResponse(content, relevantNodes, matchingQuery)
+      // Sample questions fall back to their curated query when generation fails,
+      // as long as it is still valid for the graph loaded now
+      const generated = await questionToCypher(question, fullGraph, dataSource, llmConfig, llmProvider)
+      const sampleQuery = findSampleQuery(content)?.cypher
+      const cypherQuery = generated?.query ??
+        (sampleQuery && validateCypher(sampleQuery, cypherSchema).length === 0 ? sampleQuery : undefined)
 
-    const assistantMessage: Message = {
-      id: `msg-${Date.now()}-assistant`,
-      role: 'assistant',
-      content: '',
-      timestamp: new Date(),
-      sources: relevantNodes,
-      cypherQuery: matchingQuery?.cypher,
-      isStreaming: true
-    }
+      assistantMessage = {
+        id: `msg-${Date.now()}-assistant`,
+        role: 'assistant',
+        content: '',
+        timestamp: new Date(),
+        mode,
+        sources: relevantNodes,
+        sourceScores: context.nodeScores,
+        subgraph: {
+          nodes: context.retrievedNodes,
+          relationships: context.retrievedRelationships,
+          reasoningRelationshipIds: context.traversedRelationshipIds
+        },
+        cypherQuery,
+        cypherParams: generated?.query ? generated.params : undefined,
+        cypherAttempts: generated?.query ? generated.attempts.length : undefined,
+        scopeQuery,
+        scopeParams,
+        isStreaming: true
+      }
 
-    setMessages(prev => [...prev, assistantMessage])
-    setIsLoading(false)
+      setHighlight(messageHighlight(assistantMessage))
+      updateMessages(prev => [...prev, assistantMessage])
+    } catch (error) {
+      updateMessages(prev => [...prev, {
+        id: `msg-${Date.now()}-assistant`,
+        role: 'assistant',
+        content: `⚠️ Retrieval failed: ${(error as Error).message}`,
+        timestamp: new Date(),
+        mode
+      }])
+      return
+    } finally {
+      setIsLoading(false)
+    }
 
-    // Stream the response
+    // Stream tokens from the LLM into the message
     let streamedContent = ''
-    for await (const chunk of streamText(responseText, 30)) {
-      streamedContent += chunk
-      setMessages(prev =>
+    try {
+      for await (const chunk of llmProvider.streamAnswer(question, context)) {
+        streamedContent += chunk
+        updateMessages(prev =>
+          prev.map(msg =>
+            msg.id === assistantMessage.id
+              ? { ...msg, content: streamedContent }
+              : msg
+          )
+        )
+      }
+    } catch (error) {
+      const notice = `${streamedContent ? '\n\n' : ''}⚠️ ${llmProvider.name} failed: ${(error as Error).message}`
+      updateMessages(prev =>
         prev.map(msg =>
           msg.id === assistantMessage.id
-            ? { ...msg, content: streamedContent }
+            ? { ...msg, content: streamedContent + notice }
             : msg
         )
       )
     }
 
     // Mark streaming as complete
-    setMessages(prev =>
+    updateMessages(prev =>
       prev.map(msg =>
         msg.id === assistantMessage.id
           ? { ...msg, isStreaming: false }
           : msg
       )
     )
+  }, [activeSessionId, updateSession, messages, selectedNode, filter, dataSource, reloadGraph, graphData, cypherSchema, queryMode, hybridScope, retrievalOptions, nodeMetrics, llmConfig, llmProvider])
+
+  const handleSaveLLMConfig = useCallback((config: LLMConfig) => {
+    saveLLMConfig(config)
+    setLLMConfig(config)
+    setShowLLMSettings(false)
+  }, [])
+
+  /**
+   * Pins the subgraph matched by a Cypher query as the hybrid retrieval scope
+   */
+  const handlePinScope = useCallback(async (cypher: string) => {
+    const result = await dataSource.runCypher(cypher)
+    if (changedData(result)) await reloadGraph()
+    if (result.nodes.length === 0) {
+      throw new Error('The scope query did not match any nodes')
+    }
+    const nodeIds = result.nodes.map(n => n.id)
+    setHybridScope({
+      cypher,
+      nodeIds,
+      relationshipIds: result.relationships.map(r => r.id)
+    })
+    setHighlight({ nodeIds })
+  }, [dataSource, reloadGraph])
+
+  /**
+   * Runs a Cypher query through the data source and highlights what it matched
+   * A query that wrote to the source reloads the graph, so the canvas shows the change
+   */
+  const handleExecuteCypher = useCallback(async (query: string, params?: Record<string, unknown>) => {
+    const result = await runTimedCypher(dataSource, query, params)
+    if (changedData(result)) await reloadGraph()
+    setSelectedNode(null)
+    setHighlight({ nodeIds: result.nodes.map(n => n.id) })
+    return result
+  }, [dataSource, reloadGraph])
+
+  /**
+   * Switches to an in-memory source holding the imported graph
+   * Selection, highlights and the hybrid scope refer to the old graph, so they are reset
+   */
+  const handleImport = useCallback((data: GraphData, name: string) => {
+    setDataSource(createInMemoryDataSource(data, name))
+    setSelectedNode(null)
+    setHighlight({ nodeIds: [] })
+    setHybridScope(null)
+    setPinnedNodes({})
+    setShowImport(false)
+  }, [])
+
+  const handleSaveLayout = useCallback((name: string) => {
+    const layouts = saveLayout(layoutKey, {
+      name,
+      savedAt: new Date().toISOString(),
+      settings: layoutSettings,
+      positions: graphRef.current?.getPositions() ?? {},
+      pinned: Object.keys(pinnedNodes)
+    })
+    setSavedLayouts({ key: layoutKey, layouts })
+  }, [layoutKey, layoutSettings, pinnedNodes])
+
+  const handleRestoreLayout = useCallback((saved: SavedLayout) => {
+    setLayoutSettings(saved.settings)
+    setPinnedNodes(Object.fromEntries(saved.pinned
+      .filter(id => saved.positions[id])
+      .map(id => [id, saved.positions[id]])))
+    graphRef.current?.setPositions(saved.positions)
+  }, [])
+
+  const handleDeleteLayout = useCallback((name: string) => {
+    setSavedLayouts({ key: layoutKey, layouts: deleteSavedLayout(layoutKey, name) })
+  }, [layoutKey])
 
-    // Clear highlights after a delay
-    setTimeout(() => setHighlightedNodes([]), 3000)
+  const handleTogglePin = useCallback((node: GraphNode) => {
+    setPinnedNodes(pinned => {
+      if (pinned[node.id]) {
+        return Object.fromEntries(Object.entries(pinned).filter(([id]) => id !== node.id))
+      }
+      const position = graphRef.current?.getPositions()[node.id]
+      return position ? { ...pinned, [node.id]: position } : pinned
+    })
+  }, [])
+
+  /**
+   * Fetches a node's neighbours through the data source and merges them into view
+   */
+  const handleExpand = useCallback(async (node: GraphNode, options: ExpandOptions) => {
+    setIsExpanding(true)
+    setExplorationNotice(null)
+    try {
+      const neighbors = await editedSource.getNeighbors(node.id, { ...options, limit: EXPAND_LIMIT })
+      const inView = new Set(viewData.nodes.map(n => n.id))
+      if (neighbors.nodes.every(n => inView.has(n.id))) {
+        setExplorationNotice(`No further neighbours of ${node.label} to add`)
+      }
+      setExplorationSteps(steps => {
+        const current = steps.at(-1)?.exploration ?? startExploration(graphData)
+        const next = expandNode(current, node.id, neighbors)
+        if (next.graph.nodes === current.graph.nodes && next.graph.relationships === current.graph.relationships) {
+          return steps
+        }
+        const added = next.graph.nodes.length - current.graph.nodes.length
+        return [...steps, {
+          id: `step-${Date.now()}`,
+          label: `${describeExpansion(node, options)} (+${added})`,
+          exploration: next
+        }]
+      })
+    } catch (error) {
+      setExplorationNotice(`Could not expand ${node.label}: ${(error as Error).message}`)
+    } finally {
+      setIsExpanding(false)
+    }
+  }, [editedSource, graphData, viewData])
+
+  const handleCollapse = useCallback((node: GraphNode) => {
+    setExplorationNotice(null)
+    setExplorationSteps(steps => {
+      const current = steps.at(-1)?.exploration
+      if (!current) return steps
+      const next = collapseNode(current, node.id)
+      const removed = current.graph.nodes.length - next.graph.nodes.length
+      return [...steps, { id: `step-${Date.now()}`, label: `Collapse ${node.label} (−${removed})`, exploration: next }]
+    })
+  }, [])
+
+  /**
+   * Replaces the view with the given nodes, to expand from there
+   * Nodes already on screen keep their objects so they stay where they are
+   */
+  const handleExploreFrom = useCallback((nodes: GraphNode[], label: string) => {
+    setExplorationNotice(null)
+    setExplorationSteps(steps => {
+      const current = steps.at(-1)?.exploration.graph ?? graphData
+      const seeds = subgraph(current, nodes.map(node => node.id))
+      const placed = new Set(seeds.nodes.map(node => node.id))
+      const graph = {
+        nodes: [...seeds.nodes, ...nodes.filter(node => !placed.has(node.id)).map(cloneNode)],
+        relationships: seeds.relationships
+      }
+      return [...steps, { id: `step-${Date.now()}`, label: `Start: ${label}`, exploration: startExploration(graph) }]
+    })
   }, [graphData])
 
+  const handleExploreHighlighted = useCallback(() => {
+    const byId = new Map([...graphData.nodes, ...viewData.nodes].map(node => [node.id, node]))
+    const seeds = highlightedNodes.flatMap(id => byId.get(id) ?? [])
+    handleExploreFrom(seeds, `${seeds.length} highlighted`)
+  }, [graphData, viewData, highlightedNodes, handleExploreFrom])
+
+  const handleJumpToStep = useCallback((index: number) => {
+    setExplorationNotice(null)
+    setExplorationSteps(steps => steps.slice(0, index + 1))
+  }, [])
+
+  const handleUndoStep = useCallback(() => {
+    setExplorationNotice(null)
+    setExplorationSteps(steps => steps.slice(0, -1))
+  }, [])
+
+  const exportScopes = useMemo((): ExportScope[] => {
+    const scopes: ExportScope[] = [{ id: 'full', label: 'Full graph', data: graphData }]
+    if (exploration) {
+      scopes.push({ id: 'view', label: 'Explored view', data: exploration.graph })
+    }
+    if (highlightedNodes.length > 0) {
+      scopes.push({ id: 'highlighted', label: 'Highlighted nodes', data: subgraph(graphData, highlightedNodes) })
+    }
+    if (selectedNode) {
+      scopes.push({
+        id: 'selected',
+        label: `${selectedNode.label} and neighbours`,
+        data: getNeighborhood(graphData, selectedNode.id)
+      })
+    }
+    if (exportMessage?.sources) {
+      scopes.push({
+        id: 'sources',
+        label: 'Chat answer sources',
+        data: subgraph(graphData, exportMessage.sources.map(node => node.id))
+      })
+    }
+    return scopes
+  }, [graphData, exploration, highlightedNodes, selectedNode, exportMessage])
+
+  const handleExportImage = useCallback(async (format: 'svg' | 'png') => {
+    const image = graphRef.current?.exportSvg()
+    if (!image) throw new Error('The graph is not rendered yet')
+    if (format === 'svg') {
+      downloadFile(image.markup, 'graph.svg', 'image/svg+xml')
+    } else {
+      downloadFile(await svgToPng(image.markup, image.width, image.height), 'graph.png')
+    }
+  }, [])
+
+  const handleExportSources = useCallback((message: Message) => {
+    setExportMessage(message)
+    setShowExport(true)
+  }, [])
+
+  const closeExport = useCallback(() => {
+    setShowExport(false)
+    setExportMessage(null)
+  }, [])
+
   const handleNodeSelect = useCallback((node: GraphNode | null) => {
     setSelectedNode(node)
     if (node) {
-      setHighlightedNodes([node.id])
+      setHighlight({ nodeIds: [node.id] })
     } else {
-      setHighlightedNodes([])
+      setHighlight({ nodeIds: [] })
     }
   }, [])
 
+  // A double-click's clicks toggle the selection off again, so select the node here
+  const handleNodeExpand = useCallback((node: GraphNode) => {
+    setSelectedNode(node)
+    setHighlight({ nodeIds: [node.id] })
+    handleExpand(node, expandOptions)
+  }, [handleExpand, expandOptions])
+
+  const handleHighlightPath = useCallback((path: GraphPath | null) => {
+    setHighlight(path
+      ? { nodeIds: path.nodes.map(node => node.id), relationshipIds: path.relationships.map(rel => rel.id) }
+      : { nodeIds: [] })
+  }, [])
+
+  /**
+   * Scopes chat retrieval to a path, so follow-up questions are answered from it
+   */
+  const handleSendPathToChat = useCallback((path: GraphPath) => {
+    const { query, params } = pathToCypher(path)
+    setHybridScope({
+      cypher: query,
+      params,
+      nodeIds: path.nodes.map(node => node.id),
+      relationshipIds: path.relationships.map(rel => rel.id)
+    })
+    setQueryMode('hybrid')
+  }, [])
+
+  // Clicking the highlighted message again clears its highlight
+  const handleMessageSelect = useCallback((message: Message) => {
+    setHighlight(current => current.messageId === message.id ? { nodeIds: [] } : messageHighlight(message))
+  }, [])
+
+  const handleSelectSession = useCallback((id: string) => {
+    setActiveSessionId(id)
+    setHighlight({ nodeIds: [] })
+    setShowSessions(false)
+  }, [])
+
+  const handleCreateSession = useCallback(() => {
+    // An empty conversation is already a fresh start
+    if (activeSession?.messages.length === 0) {
+      setShowSessions(false)
+      return
+    }
+    const session = createSession()
+    setSessions(list => [session, ...list])
+    handleSelectSession(session.id)
+  }, [activeSession, handleSelectSession])
+
+  const handleRenameSession = useCallback((id: string, name: string) => {
+    updateSession(id, session => ({ ...session, name }))
+  }, [updateSession])
+
+  /**
+   * Deletes a session, switching to the most recent remaining one (or a new one)
+   */
+  const handleDeleteSession = useCallback((id: string) => {
+    savedSessionsRef.current.delete(id)
+    sessionStore.remove(id).catch((error: Error) => {
+      setSessionError(`Could not delete the conversation: ${error.message}`)
+    })
+    const remaining = sessions.filter(session => session.id !== id)
+    const next = remaining.length > 0 ? remaining : [createSession()]
+    setSessions(next)
+    if (id === activeSessionId) {
+      const latest = next.reduce((a, b) => (b.updatedAt > a.updatedAt ? b : a))
+      setActiveSessionId(latest.id)
+      setHighlight({ nodeIds: [] })
+    }
+  }, [sessions, activeSessionId, sessionStore])
+
+  const handleExportSession = useCallback((session: ChatSession, format: SessionExportFormat) => {
+    if (format === 'markdown') {
+      downloadFile(sessionToMarkdown(session), sessionFileName(session.name, 'md'), 'text/markdown')
+    } else {
+      downloadFile(sessionsToJson([session]), sessionFileName(session.name, 'json'), 'application/json')
+    }
+  }, [])
+
+  /**
+   * Adds exported sessions under fresh ids, so importing twice never overwrites one
+   */
+  const handleImportSessions = useCallback(async (text: string) => {
+    const imported = parseSessionsJson(text).map(session => ({ ...session, id: newSessionId() }))
+    setSessions(list => [...imported, ...list])
+    handleSelectSession(imported[0].id)
+  }, [handleSelectSession])
+
+  /**
+   * Selects a search result and pans the graph to it
+   */
+  const handleFocusNode = useCallback((node: GraphNode) => {
+    setSelectedNode(node)
+    setHighlight({ nodeIds: [node.id] })
+    graphRef.current?.focusNode(node.id)
+  }, [])
+
+  /**
+   * Highlights a relationship picked in a result and its endpoints
+   */
+  const handleFocusRelationship = useCallback((relationship: GraphRelationship) => {
+    const endpoints = [endpointId(relationship.source), endpointId(relationship.target)]
+    setSelectedNode(null)
+    setHighlight({ nodeIds: endpoints, relationshipIds: [relationship.id] })
+    graphRef.current?.focusNode(endpoints[0])
+  }, [])
+
+  const handleHighlightMatches = useCallback((nodes: GraphNode[]) => {
+    setHighlight({ nodeIds: nodes.map(node => node.id) })
+  }, [])
+
+  const handleLabelToggle = useCallback((label: string) => {
+    setFilter(current => ({
+      ...current,
+      hiddenLabels: current.hiddenLabels.includes(label)
+        ? current.hiddenLabels.filter(hidden => hidden !== label)
+        : [...current.hiddenLabels, label]
+    }))
+  }, [])
+
+  /**
+   * Filters the graph to the instances of a schema element and shows them
+   */
+  const handleSchemaSelect = useCallback((element: SchemaElement | null) => {
+    setFilter(current => ({ ...current, schema: element }))
+    if (element) setShowSchema(false)
+  }, [])
+
+  /**
+   * Applies a change to the loaded graph and to every exploration step
+   * The selection follows the edited node: running the change on a graph of
+   * just that node yields its new version, or nothing once it is deleted
+   */
+  const changeGraph = useCallback((change: (data: GraphData) => GraphData) => {
+    setGraphData(change)
+    setExplorationSteps(steps => steps.map(step => ({
+      ...step,
+      exploration: { ...step.exploration, graph: change(step.exploration.graph) }
+    })))
+    setSelectedNode(node => node && (change({ nodes: [node], relationships: [] }).nodes[0] ?? null))
+  }, [])
+
+  const commitEdit = useCallback((edit: GraphEdit) => {
+    changeGraph(data => applyEdit(data, edit))
+    setEditHistory(history => recordEdit(history, edit))
+  }, [changeGraph])
+
+  const handleUndoEdit = useCallback(() => {
+    const edit = editHistory.done.at(-1)
+    if (!edit) return
+    changeGraph(data => revertEdit(data, edit))
+    setEditHistory(({ done, undone }) => ({ done: done.slice(0, -1), undone: [...undone, edit] }))
+  }, [editHistory, changeGraph])
+
+  const handleRedoEdit = useCallback(() => {
+    const edit = editHistory.undone.at(-1)
+    if (!edit) return
+    changeGraph(data => applyEdit(data, edit))
+    setEditHistory(({ done, undone }) => ({ done: [...done, edit], undone: undone.slice(0, -1) }))
+  }, [editHistory, changeGraph])
+
+  // Ctrl/Cmd+Z undoes an edit, Ctrl/Cmd+Shift+Z or Ctrl+Y redoes it, except while typing
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (!(event.ctrlKey || event.metaKey)) return
+      if (event.target instanceof HTMLElement && event.target.closest('input, textarea, select, [contenteditable="true"]')) return
+      const key = event.key.toLowerCase()
+      if (key === 'z' && !event.shiftKey) {
+        handleUndoEdit()
+      } else if (key === 'z' || key === 'y') {
+        handleRedoEdit()
+      } else {
+        return
+      }
+      event.preventDefault()
+    }
+    window.addEventListener('keydown', onKeyDown)
+    return () => window.removeEventListener('keydown', onKeyDown)
+  }, [handleUndoEdit, handleRedoEdit])
+
+  const closeGraphMenu = useCallback(() => setGraphMenu(null), [])
+
+  const handleAddNode = useCallback((caption: string, label: string, position: Point) => {
+    const node: GraphNode = {
+      id: unusedId('node', [...graphData.nodes, ...viewData.nodes]),
+      label: caption,
+      type: label,
+      properties: {}
+    }
+    commitEdit(createNodeEdit(node))
+    // Added nodes stay where they were put, like dropped ones
+    setPinnedNodes(pinned => ({ ...pinned, [node.id]: position }))
+    setSelectedNode(node)
+    setSidePanel('details')
+    setGraphMenu(null)
+  }, [graphData, viewData, commitEdit])
+
+  const handleConnect = useCallback((source: GraphNode, target: GraphNode, type: string) => {
+    commitEdit(createRelationshipEdit({
+      id: unusedId('rel', [...graphData.relationships, ...viewData.relationships]),
+      source: source.id,
+      target: target.id,
+      type,
+      properties: {}
+    }))
+    setGraphMenu(null)
+  }, [graphData, viewData, commitEdit])
+
+  const handleUpdateNode = useCallback((after: GraphNode) => {
+    const before = viewData.nodes.find(node => node.id === after.id)
+    if (!before || JSON.stringify(cloneNode(before)) === JSON.stringify(cloneNode(after))) return
+    commitEdit(updateNodeEdit(before, after))
+  }, [viewData, commitEdit])
+
+  const handleEditNode = useCallback((node: GraphNode) => {
+    setSelectedNode(node)
+    setSidePanel('details')
+    setGraphMenu(null)
+  }, [])
+
+  const handleDeleteNode = useCallback((node: GraphNode) => {
+    // Relationships come from the explored view too, so undo can restore them everywhere
+    const relationships = new Map([...graphData.relationships, ...viewData.relationships].map(rel => [rel.id, rel]))
+    commitEdit(deleteNodeEdit({ nodes: [], relationships: [...relationships.values()] }, node))
+    setGraphMenu(null)
+  }, [graphData, viewData, commitEdit])
+
+  /**
+   * Adds an ingested document as pending edits, one per node and relationship,
+   * so it stays on the current data source and is saved by applying the changes
+   */
+  const handleIngest = useCallback((ingested: GraphData) => {
+    commitEdit(createSubgraphEdit(ingested))
+    setShowIngest(false)
+    setSidePanel('changes')
+  }, [commitEdit])
+
+  const handleDeleteRelationship = useCallback((relationship: GraphRelationship) => {
+    commitEdit(deleteRelationshipEdit(relationship))
+    setGraphMenu(null)
+  }, [commitEdit])
+
+  /**
+   * Runs the change set against the data source one statement at a time
+   * When a statement fails, the ones before it are dropped from the log
+   */
+  const handleApplyEdits = useCallback(async () => {
+    const edits = editHistory.done
+    for (let i = 0; i < edits.length; i++) {
+      try {
+        const { query, params } = editToCypher(edits[i])
+        const result = await dataSource.runCypher(query, params)
+        if (!editWasApplied(result)) throw new Error('it matched nothing, so the data source is unchanged')
+      } catch (error) {
+        setEditHistory({ done: edits.slice(i), undone: [] })
+        throw new Error(`Change ${i + 1} failed after ${i} applied: ${(error as Error).message}`)
+      }
+    }
+    setEditHistory(emptyEditHistory)
+  }, [dataSource, editHistory])
+
+  const nodeCaption = useCallback(
+    (id: string) => viewData.nodes.find(node => node.id === id)?.label ?? graphData.nodes.find(node => node.id === id)?.label ?? id,
+    [graphData, viewData]
+  )
+
   const handleSourceClick = useCallback((node: GraphNode) => {
     setSelectedNode(node)
-    setHighlightedNodes([node.id])
+    setHighlight({ nodeIds: [node.id] })
   }, [])
 
   return (
@@ -144,9 +971,61 @@ function App() {
             </div>
           </div>
           <div className="flex items-center gap-4 text-sm text-slate-600">
-            <div className="flex items-center gap-2">
-              <div className="w-2 h-2 rounded-full bg-green-500"></div>
-              <span>Knowledge Graph Active</span>
+            <button
+              onClick={() => setShowImport(true)}
+              className="flex items-center gap-2 rounded-lg border border-slate-200 px-3 py-1.5 hover:bg-slate-50 transition-colors"
+            >
+              <FileUp className="w-4 h-4 text-neo4j-blue" />
+              <span>Import</span>
+            </button>
+            <button
+              onClick={() => setShowIngest(true)}
+              className="flex items-center gap-2 rounded-lg border border-slate-200 px-3 py-1.5 hover:bg-slate-50 transition-colors"
+            >
+              <FileText className="w-4 h-4 text-neo4j-blue" />
+              <span>Ingest</span>
+            </button>
+            <div className="relative">
+              <button
+                onClick={() => (showExport ? closeExport() : setShowExport(true))}
+                className="flex items-center gap-2 rounded-lg border border-slate-200 px-3 py-1.5 hover:bg-slate-50 transition-colors"
+                aria-expanded={showExport}
+              >
+                <Download className="w-4 h-4 text-neo4j-blue" />
+                <span>Export</span>
+              </button>
+              {showExport && (
+                <ExportPanel
+                  key={exportMessage?.id ?? 'graph'}
+                  scopes={exportScopes}
+                  initialScopeId={exportMessage ? 'sources' : undefined}
+                  onExportImage={handleExportImage}
+                  onClose={closeExport}
+                  className="absolute right-0 top-full mt-2 z-20"
+                />
+              )}
+            </div>
+            <div className="relative">
+              <button
+                onClick={() => setShowLLMSettings(!showLLMSettings)}
+                className="flex items-center gap-2 rounded-lg border border-slate-200 px-3 py-1.5 hover:bg-slate-50 transition-colors"
+                aria-expanded={showLLMSettings}
+              >
+                <Bot className="w-4 h-4 text-neo4j-blue" />
+                <span>{llmProvider.name}</span>
+              </button>
+              {showLLMSettings && (
+                <LLMSettingsPanel
+                  config={llmConfig}
+                  onSave={handleSaveLLMConfig}
+                  onClose={() => setShowLLMSettings(false)}
+                  className="absolute right-0 top-full mt-2 z-20"
+                />
+              )}
+            </div>
+            <div className="flex items-center gap-2" title={graphError ?? undefined}>
+              <div className={cn('w-2 h-2 rounded-full', graphError ? 'bg-red-500' : 'bg-green-500')}></div>
+              <span>{graphError ? `${dataSource.name} unavailable` : dataSource.name}</span>
             </div>
           </div>
         </div>
@@ -156,50 +1035,308 @@ function App() {
       <div className="flex-1 overflow-hidden p-6 gap-6 grid grid-cols-12">
         {/* Left Column - Graph Visualization */}
         <div className="col-span-7 flex flex-col gap-4">
-          <GraphVisualization
-            data={graphData}
-            selectedNode={selectedNode}
-            onNodeSelect={handleNodeSelect}
-            highlightedNodes={highlightedNodes}
-            className="flex-1"
+          <ExplorationTrail
+            rootLabel={dataSource.name}
+            steps={explorationSteps}
+            onJump={handleJumpToStep}
+            onUndo={handleUndoStep}
+            expandOptions={expandOptions}
+            onExpandOptionsChange={setExpandOptions}
+            relationshipTypes={relationshipTypes}
+            highlightedCount={highlightedNodes.length}
+            onExploreHighlighted={handleExploreHighlighted}
+            isExpanding={isExpanding}
+            notice={explorationNotice}
           />
+          <div className="relative flex-1 min-h-0">
+            <Visualization
+              ref={graphRef}
+              data={viewData}
+              selectedNode={selectedNode}
+              onNodeSelect={handleNodeSelect}
+              onNodeExpand={handleNodeExpand}
+              highlightedNodes={highlightedNodes}
+              highlightedRelationships={highlight.relationshipIds}
+              emphasizedRelationships={highlight.emphasizedRelationshipIds}
+              filteredOutNodes={filteredOut?.nodeIds}
+              filteredOutRelationships={filteredOut?.relationshipIds}
+              filterMode={filter.mode}
+              hiddenLabels={filter.hiddenLabels}
+              onLabelToggle={handleLabelToggle}
+              onContextMenu={target => setGraphMenu({ kind: 'target', target })}
+              onConnect={(source, target, clientX, clientY) => setGraphMenu({ kind: 'connect', source, target, clientX, clientY })}
+              layout={layoutSettings}
+              pinnedNodes={pinnedNodes}
+              onPinnedNodesChange={setPinnedNodes}
+              nodeSizes={nodeSizes}
+              nodeColors={nodeColors}
+            />
+            {showSchema && (
+              <SchemaView
+                schema={schemaGraph}
+                selected={filter.schema}
+                onSelect={handleSchemaSelect}
+                onClose={() => setShowSchema(false)}
+                className="absolute inset-0"
+              />
+            )}
+            <div className="absolute top-4 left-4 flex items-start gap-2">
+              <div
+                className="flex rounded-lg border border-slate-200 bg-white/90 backdrop-blur-sm p-0.5 text-xs"
+                role="radiogroup"
+                aria-label="Renderer"
+              >
+                {(['svg', 'canvas'] as const).map(option => (
+                  <button
+                    key={option}
+                    role="radio"
+                    aria-checked={renderer === option}
+                    onClick={() => setRendererChoice(option)}
+                    className={cn(
+                      'px-2.5 py-1 rounded-md transition-colors',
+                      renderer === option ? 'bg-neo4j-blue text-white' : 'text-slate-600 hover:bg-slate-100'
+                    )}
+                    title={option === 'canvas' ? 'Faster for large graphs' : 'Crisp rendering for small graphs'}
+                  >
+                    {option === 'svg' ? 'SVG' : 'Canvas'}
+                  </button>
+                ))}
+              </div>
+              <div className="relative">
+                <button
+                  onClick={() => setShowLayout(!showLayout)}
+                  className="flex items-center gap-1.5 rounded-lg border border-slate-200 bg-white/90 backdrop-blur-sm px-2.5 py-1.5 text-xs text-slate-600 hover:bg-slate-100 transition-colors"
+                  aria-expanded={showLayout}
+                >
+                  <LayoutGrid className="w-3.5 h-3.5 text-neo4j-blue" />
+                  Layout
+                </button>
+                {showLayout && (
+                  <LayoutPanel
+                    settings={layoutSettings}
+                    onSettingsChange={setLayoutSettings}
+                    relationshipTypes={relationshipTypes}
+                    pinnedCount={Object.keys(pinnedNodes).length}
+                    onUnpinAll={() => setPinnedNodes({})}
+                    savedLayouts={savedLayouts.layouts}
+                    onSaveLayout={handleSaveLayout}
+                    onRestoreLayout={handleRestoreLayout}
+                    onDeleteLayout={handleDeleteLayout}
+                    onClose={() => setShowLayout(false)}
+                    className="absolute left-0 top-full mt-2 z-20"
+                  />
+                )}
+              </div>
+              <button
+                onClick={() => setShowSchema(!showSchema)}
+                className={cn(
+                  'flex items-center gap-1.5 rounded-lg border px-2.5 py-1.5 text-xs transition-colors',
+                  showSchema
+                    ? 'border-neo4j-blue bg-neo4j-blue text-white'
+                    : 'border-slate-200 bg-white/90 backdrop-blur-sm text-slate-600 hover:bg-slate-100'
+                )}
+                aria-pressed={showSchema}
+                title="Labels and relationship types in the graph"
+              >
+                <Shapes className={cn('w-3.5 h-3.5', !showSchema && 'text-neo4j-blue')} />
+                Schema
+              </button>
+              {filter.schema && (
+                <span className="flex items-center gap-1.5 rounded-lg border border-neo4j-blue/40 bg-white/90 backdrop-blur-sm px-2.5 py-1.5 font-mono text-xs text-neo4j-blue">
+                  {describeSchemaElement(filter.schema)}
+                  <button onClick={() => handleSchemaSelect(null)} aria-label="Clear schema filter">
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              )}
+              {highlightedNodes.length > 0 && (
+                <button
+                  onClick={() => setHighlight({ nodeIds: [] })}
+                  className="flex items-center gap-1.5 rounded-lg border border-slate-200 bg-white/90 backdrop-blur-sm px-2.5 py-1.5 text-xs text-slate-600 hover:bg-slate-100 transition-colors"
+                >
+                  <Eraser className="w-3.5 h-3.5 text-neo4j-purple" />
+                  Clear highlight
+                </button>
+              )}
+            </div>
+          </div>
           <QueryBuilder
-            onQueryExecute={handleSendMessage}
+            onQueryExecute={handleExecuteCypher}
+            onNodeClick={handleFocusNode}
+            onRelationshipClick={handleFocusRelationship}
+            schema={cypherSchema}
             className="h-auto max-h-[300px] overflow-y-auto scrollbar-thin"
           />
         </div>
 
         {/* Middle Column - Chat Interface */}
-        <div className="col-span-3">
+        <div className="col-span-3 relative min-h-0">
           <ChatInterface
             messages={messages}
             onSendMessage={handleSendMessage}
-            isLoading={isLoading}
+            isLoading={isLoading || !activeSession}
+            sessionName={activeSession?.name}
+            onShowSessions={() => setShowSessions(!showSessions)}
             onSourceClick={handleSourceClick}
+            onRelationshipClick={handleFocusRelationship}
+            onMessageSelect={handleMessageSelect}
+            activeMessageId={highlight.messageId}
+            onExportSources={handleExportSources}
+            mode={queryMode}
+            onModeChange={setQueryMode}
+            scope={hybridScope}
+            onPinScope={handlePinScope}
+            onClearScope={() => setHybridScope(null)}
+            retrievalOptions={retrievalOptions}
+            onRetrievalOptionsChange={setRetrievalOptions}
           />
+          {showSessions && (
+            <SessionSidebar
+              sessions={sessions}
+              activeSessionId={activeSessionId}
+              onSelect={handleSelectSession}
+              onCreate={handleCreateSession}
+              onRename={handleRenameSession}
+              onDelete={handleDeleteSession}
+              onExport={handleExportSession}
+              onImport={handleImportSessions}
+              error={sessionError}
+              onClose={() => setShowSessions(false)}
+              className="absolute inset-y-0 left-0 w-full max-w-xs z-10"
+            />
+          )}
         </div>
 
-        {/* Right Column - Node Details */}
-        <div className="col-span-2">
-          {selectedNode ? (
-            <NodeDetailsPanel
-              node={selectedNode}
-              graphData={graphData}
-              onClose={() => setSelectedNode(null)}
-              onNodeClick={handleNodeSelect}
-            />
-          ) : (
-            <div className="h-full bg-white rounded-lg border border-slate-200 flex items-center justify-center text-center p-6">
-              <div className="text-slate-400">
-                <Network className="w-12 h-12 mx-auto mb-3 opacity-50" />
-                <p className="text-sm font-medium mb-1">No node selected</p>
-                <p className="text-xs">Click on a node to view details</p>
-              </div>
+        {/* Right Column - Node Details and Path Finder */}
+        <div className="col-span-2 flex flex-col gap-2 min-h-0">
+          <div className="flex rounded-lg border border-slate-200 bg-white p-0.5 text-xs" role="tablist">
+            {([
+              { panel: 'details', label: 'Details', icon: Info },
+              { panel: 'paths', label: 'Paths', icon: Route },
+              { panel: 'filter', label: 'Filter', icon: Filter },
+              { panel: 'changes', label: 'Changes', icon: History },
+              { panel: 'metrics', label: 'Metrics', icon: Gauge }
+            ] as const).map(({ panel, label, icon: Icon }) => (
+              <button
+                key={panel}
+                role="tab"
+                title={label}
+                aria-selected={sidePanel === panel}
+                onClick={() => setSidePanel(panel)}
+                className={cn(
+                  'flex-1 flex items-center justify-center gap-1 px-2 py-1 rounded-md transition-colors',
+                  sidePanel === panel ? 'bg-neo4j-blue text-white' : 'text-slate-600 hover:bg-slate-100'
+                )}
+              >
+                <Icon className="w-3.5 h-3.5" />
+                {label}
+                {panel === 'changes' && editHistory.done.length > 0 && ` (${editHistory.done.length})`}
+              </button>
+            ))}
+          </div>
+          {/* Kept mounted so searches survive switching tabs */}
+          <FilterPanel
+            data={viewData}
+            filter={filter}
+            onFilterChange={setFilter}
+            result={filterResult}
+            onFocusNode={handleFocusNode}
+            onHighlightMatches={handleHighlightMatches}
+            className={cn('flex-1 min-h-0', sidePanel !== 'filter' && 'hidden')}
+          />
+          <PathFinderPanel
+            data={graphData}
+            selectedNode={selectedNode}
+            relationshipTypes={relationshipTypes}
+            onHighlightPath={handleHighlightPath}
+            onSendToChat={handleSendPathToChat}
+            className={cn('flex-1 min-h-0', sidePanel !== 'paths' && 'hidden')}
+          />
+          <ChangeLogPanel
+            history={editHistory}
+            nodeLabel={nodeCaption}
+            onUndo={handleUndoEdit}
+            onRedo={handleRedoEdit}
+            onApply={handleApplyEdits}
+            sourceName={dataSource.name}
+            className={cn('flex-1 min-h-0', sidePanel !== 'changes' && 'hidden')}
+          />
+          <AnalyticsPanel
+            data={viewData}
+            metrics={nodeMetrics}
+            isComputing={metrics?.data !== viewData && !metricsError}
+            error={metricsError}
+            sizeBy={metricStyle.sizeBy}
+            onSizeByChange={sizeBy => setMetricStyle(style => ({ ...style, sizeBy }))}
+            colorBy={metricStyle.colorBy}
+            onColorByChange={colorBy => setMetricStyle(style => ({ ...style, colorBy }))}
+            selectedNodeId={selectedNode?.id}
+            onFocusNode={handleFocusNode}
+            className={cn('flex-1 min-h-0', sidePanel !== 'metrics' && 'hidden')}
+          />
+          {sidePanel === 'details' && (
+            <div className="flex-1 min-h-0">
+              {selectedNode ? (
+                <NodeDetailsPanel
+                  node={selectedNode}
+                  dataSource={editedSource}
+                  onClose={() => setSelectedNode(null)}
+                  onNodeClick={handleNodeSelect}
+                  pinned={Boolean(pinnedNodes[selectedNode.id])}
+                  onTogglePin={() => handleTogglePin(selectedNode)}
+                  onExpand={options => handleExpand(selectedNode, options)}
+                  onCollapse={exploration?.expanded.includes(selectedNode.id) ? () => handleCollapse(selectedNode) : undefined}
+                  onExploreFrom={() => handleExploreFrom([selectedNode], selectedNode.label)}
+                  onUpdate={handleUpdateNode}
+                  onDelete={() => handleDeleteNode(selectedNode)}
+                  onDeleteRelationship={handleDeleteRelationship}
+                  metrics={nodeMetrics?.[selectedNode.id]}
+                />
+              ) : (
+                <div className="h-full bg-white rounded-lg border border-slate-200 flex items-center justify-center text-center p-6">
+                  <div className="text-slate-400">
+                    <Network className="w-12 h-12 mx-auto mb-3 opacity-50" />
+                    <p className="text-sm font-medium mb-1">No node selected</p>
+                    <p className="text-xs">Click on a node to view details</p>
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </div>
       </div>
 
+      {graphMenu && (
+        <GraphContextMenu
+          menu={graphMenu}
+          labels={labels}
+          relationshipTypes={relationshipTypes}
+          onAddNode={handleAddNode}
+          onConnect={handleConnect}
+          onEditNode={handleEditNode}
+          onDeleteNode={handleDeleteNode}
+          onDeleteRelationship={handleDeleteRelationship}
+          onClose={closeGraphMenu}
+        />
+      )}
+
+      {showImport && (
+        <ImportDialog
+          currentGraph={graphData}
+          onImport={handleImport}
+          onClose={() => setShowImport(false)}
+        />
+      )}
+
+      {showIngest && (
+        <IngestionDialog
+          currentGraph={graphData}
+          llmProvider={llmConfig.provider === 'mock' ? undefined : llmProvider}
+          onIngest={handleIngest}
+          onClose={() => setShowIngest(false)}
+        />
+      )}
+
       {/* Footer */}
       <footer className="bg-white border-t border-slate-200 px-6 py-3 flex-shrink-0">
         <div className="flex items-center justify-between text-xs text-slate-600">
@@ -216,92 +1353,79 @@ function App() {
 }
 
 /**
- * Simulates retrieving relevant nodes from knowledge graph
- * In production, this would be a Cypher query against Neo4j
+ * Highlight of a message's retrieved subgraph, with its reasoning path emphasised
  */
-async function simulateGraphRetrieval(
-  query: string,
-  graphData: GraphData
-): Promise<GraphNode[]> {
-  await new Promise(resolve => setTimeout(resolve, 500))
-
-  const keywords = query.toLowerCase().split(' ')
-
-  // Find nodes matching query keywords
-  return graphData.nodes.filter(node => {
-    const nodeText = `${node.label} ${JSON.stringify(node.properties)}`.toLowerCase()
-    return keywords.some(keyword => keyword.length > 3 && nodeText.includes(keyword))
-  }).slice(0, 3)
+function messageHighlight(message: Message): Highlight {
+  const { subgraph } = message
+  if (!subgraph) return { nodeIds: message.sources?.map(node => node.id) ?? [], messageId: message.id }
+  return {
+    nodeIds: subgraph.nodes.map(node => node.id),
+    relationshipIds: subgraph.relationships.map(rel => rel.id),
+    emphasizedRelationshipIds: subgraph.reasoningRelationshipIds,
+    messageId: message.id
+  }
 }
 
 /**
- * Generates contextual response based on retrieved nodes
- * In production, this would be an LLM call with graph context
+ * Answers a cypher-mode message by executing it against the data source
  */
-async function generateResponse(
-  query: string,
-  sources: GraphNode[],
-  matchingQuery?: typeof sampleQueries[0]
-): Promise<string> {
-  if (matchingQuery) {
-    // Use predefined responses for sample queries
-    const responses: Record<string, string> = {
-      'How does GraphRAG improve AI accuracy?': `GraphRAG significantly improves AI accuracy by leveraging graph databases to provide relationship-aware context to language models. Unlike traditional RAG systems that retrieve isolated documents, GraphRAG understands how entities are connected. This enables the AI to:
-
-1. Follow multi-hop relationships to find relevant context
-2. Understand semantic connections between concepts
-3. Provide citations that show the reasoning path
-4. Reduce hallucinations by grounding responses in structured knowledge
-
-The graph structure naturally encodes the relationships that make responses more accurate and explainable.`,
-
-      'What companies use Neo4j and for what purpose?': `Several leading organizations use Neo4j for mission-critical applications:
-
-NASA uses Neo4j for mission planning and resource optimization, which helped them reach Mars 2 years earlier than originally planned. The graph database's ability to model complex relationships between resources, schedules, and constraints was essential.
-
-The International Consortium of Investigative Journalists (ICIJ) used Neo4j to break the Panama Papers story, uncovering hidden financial networks by traversing relationships between shell companies, individuals, and transactions.
-
-These use cases demonstrate how graph databases excel at revealing patterns in highly connected data.`,
-
-      'How is GraphRAG different from regular RAG?': `GraphRAG enhances traditional RAG by replacing or augmenting vector databases with graph databases:
-
-Traditional RAG typically uses vector databases for similarity-based retrieval, which finds semantically similar documents but doesn't capture relationships between entities.
-
-GraphRAG uses Neo4j's graph structure to:
-- Query with Cypher for precise pattern matching
-- Traverse relationships to find multi-hop context
-- Understand how entities are connected
-- Provide transparent reasoning paths
-
-While vector databases are great for similarity search, they miss the semantic relationships that graphs naturally encode. The ideal architecture often combines both: vectors for similarity, graphs for relationships.`,
-
-      'What are the main challenges facing GenAI?': `Generative AI faces several critical challenges that graph databases help address:
-
-1. **Response Accuracy**: LLMs tend to hallucinate or generate plausible-sounding but incorrect information. GraphRAG grounds responses in factual, structured knowledge from the graph.
-
-2. **AI Explainability**: Understanding how an AI arrived at a conclusion is crucial for trust and compliance. Graphs provide transparent reasoning paths by showing the relationships traversed to generate a response.
-
-3. **Contextual Understanding**: Comprehending complex relationships between entities is difficult for traditional approaches. Graphs naturally encode context through their relationship structure.
+async function answerWithCypher(
+  cypher: string,
+  dataSource: GraphDataSource
+): Promise<Message> {
+  const base = {
+    id: `msg-${Date.now()}-assistant`,
+    role: 'assistant' as const,
+    timestamp: new Date(),
+    mode: 'cypher' as const,
+    cypherQuery: cypher
+  }
 
-These challenges are especially severe in regulated industries where accuracy and explainability are mandatory.`
+  try {
+    const result = await runTimedCypher(dataSource, cypher)
+    const rowCount = `${result.rows.length} ${result.rows.length === 1 ? 'row' : 'rows'}`
+    return {
+      ...base,
+      content: `The query returned ${rowCount}, matching ${result.nodes.length} nodes and ${result.relationships.length} relationships.`,
+      sources: result.nodes,
+      subgraph: {
+        nodes: result.nodes,
+        relationships: result.relationships,
+        reasoningRelationshipIds: result.relationships.map(rel => rel.id)
+      },
+      queryResult: result
     }
-
-    const matchingResponse = Object.entries(responses).find(([key]) =>
-      matchingQuery.natural.includes(key)
-    )
-
-    if (matchingResponse) {
-      return matchingResponse[1]
+  } catch (error) {
+    return {
+      ...base,
+      content: `The query could not be executed: ${(error as Error).message}`
     }
   }
+}
 
-  // Generate generic response based on sources
-  if (sources.length === 0) {
-    return `I searched the knowledge graph but couldn't find specific information about "${query}". The graph contains information about GenAI, graph databases, and their real-world applications. Try asking about GraphRAG, Neo4j use cases, or how graphs improve AI accuracy.`
+/**
+ * Writes schema-validated Cypher for a question
+ * The mock provider uses the offline rule-based generator, checked against
+ * the loaded graph; an LLM is checked against the data source's schema. Generation
+ * failures are treated as "no query" so the answer still streams
+ */
+async function questionToCypher(
+  question: string,
+  graph: GraphData,
+  dataSource: GraphDataSource,
+  config: LLMConfig,
+  provider: LLMProvider
+) {
+  try {
+    // Queries are checked against the schema of the graph they were written from:
+    // the rule-based generator reads the loaded graph, edits included
+    if (config.provider === 'mock') {
+      return await generateCypher(question, extractSchema(graph), createRuleBasedCypherGenerator(graph))
+    }
+    return await generateCypher(question, await dataSource.getSchema(), createLLMCypherGenerator(provider))
+  } catch {
+    return undefined
   }
-
-  const sourceNames = sources.map(s => s.label).join(', ')
-  return `Based on the knowledge graph, I found relevant information in ${sourceNames}. ${sources[0].properties.description || 'These concepts are interconnected in the graph, showing how they relate to your question.'} The graph structure helps me understand these relationships and provide more accurate, explainable responses.`
 }
 
 export default App
@@ -0,0 +1,198 @@
+import { useMemo, useState } from 'react'
+import { ArrowDown, ArrowUp, Gauge, Loader2 } from 'lucide-react'
+import type { GraphData, GraphMetrics, GraphNode, MetricKey } from '../types'
+import { cn } from '../lib/utils'
+import { metricColor, nodeColor } from '../lib/styles'
+import { centralityMetrics, formatMetric, metricLabels } from '../lib/analytics'
+
+interface AnalyticsPanelProps {
+  /** Graph the metrics were computed for */
+  data: GraphData
+  /** Null while the first computation runs */
+  metrics: GraphMetrics | null
+  isComputing: boolean
+  error: string | null
+  /** Metric nodes are sized by, none for the default size */
+  sizeBy: MetricKey | null
+  onSizeByChange: (key: MetricKey | null) => void
+  /** Metric nodes are coloured by, none for their label colour */
+  colorBy: MetricKey | null
+  onColorByChange: (key: MetricKey | null) => void
+  selectedNodeId?: string
+  /** Selects a node and centres the view on it */
+  onFocusNode: (node: GraphNode) => void
+  className?: string
+}
+
+type SortKey = MetricKey | 'label'
+
+// Column headings, with the full name as a tooltip
+const COLUMNS: { key: MetricKey; heading: string }[] = [
+  { key: 'degree', heading: 'Deg' },
+  { key: 'inDegree', heading: 'In' },
+  { key: 'outDegree', heading: 'Out' },
+  { key: 'pageRank', heading: 'PR' },
+  { key: 'betweenness', heading: 'Betw' },
+  { key: 'closeness', heading: 'Clos' },
+  { key: 'component', heading: 'Comp' }
+]
+
+// Rows rendered at most; the rest are reachable by sorting
+const ROW_LIMIT = 200
+
+/**
+ * Centrality metrics of every node as a sortable table, plus the metrics
+ * the graph sizes and colours its nodes by
+ */
+export function AnalyticsPanel({
+  data,
+  metrics,
+  isComputing,
+  error,
+  sizeBy,
+  onSizeByChange,
+  colorBy,
+  onColorByChange,
+  selectedNodeId,
+  onFocusNode,
+  className
+}: AnalyticsPanelProps) {
+  const [sort, setSort] = useState<{ key: SortKey; descending: boolean }>({ key: 'pageRank', descending: true })
+
+  const rows = useMemo(() => {
+    if (!metrics) return []
+    const measured = data.nodes.filter(node => metrics[node.id])
+    const direction = sort.descending ? -1 : 1
+    return measured.sort((a, b) => direction * (sort.key === 'label'
+      ? a.label.localeCompare(b.label)
+      : metrics[a.id][sort.key] - metrics[b.id][sort.key] || a.label.localeCompare(b.label)))
+  }, [data, metrics, sort])
+
+  const componentCount = useMemo(
+    () => (metrics ? new Set(Object.values(metrics).map(node => node.component)).size : 0),
+    [metrics]
+  )
+
+  const sortBy = (key: SortKey) => setSort(current => ({
+    key,
+    // Metrics start highest first, names alphabetically
+    descending: current.key === key ? !current.descending : key !== 'label'
+  }))
+
+  const heading = (key: SortKey, text: string, title?: string) => (
+    <th scope="col" className="px-1.5 py-1 font-medium" aria-sort={sort.key === key ? (sort.descending ? 'descending' : 'ascending') : undefined}>
+      <button
+        onClick={() => sortBy(key)}
+        className={cn('inline-flex items-center gap-0.5 hover:text-neo4j-blue', sort.key === key && 'text-neo4j-blue')}
+        title={title}
+      >
+        {text}
+        {sort.key === key && (sort.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />)}
+      </button>
+    </th>
+  )
+
+  const selectClass = 'flex-1 min-w-0 rounded border border-slate-300 bg-white px-1 py-0.5'
+
+  return (
+    <div className={cn('h-full bg-white rounded-lg border border-slate-200 overflow-hidden flex flex-col', className)}>
+      <div className="px-4 py-3 border-b border-slate-200">
+        <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+          <Gauge className="w-4 h-4 text-neo4j-blue" />
+          Graph metrics
+          {isComputing && <Loader2 className="w-3.5 h-3.5 animate-spin text-slate-400" aria-label="Computing" />}
+        </h3>
+        {metrics && (
+          <p className="text-xs text-slate-500 mt-0.5">
+            {rows.length} nodes · {componentCount} {componentCount === 1 ? 'component' : 'components'}
+          </p>
+        )}
+      </div>
+
+      <div className="border-b border-slate-200 px-4 py-2 space-y-1.5 text-xs text-slate-700">
+        <label className="flex items-center gap-2">
+          <span className="w-16 flex-shrink-0">Size by</span>
+          <select
+            value={sizeBy ?? ''}
+            onChange={(e) => onSizeByChange((e.target.value || null) as MetricKey | null)}
+            className={selectClass}
+          >
+            <option value="">Nothing</option>
+            {centralityMetrics.map(key => <option key={key} value={key}>{metricLabels[key]}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          <span className="w-16 flex-shrink-0">Colour by</span>
+          <select
+            value={colorBy ?? ''}
+            onChange={(e) => onColorByChange((e.target.value || null) as MetricKey | null)}
+            className={selectClass}
+          >
+            <option value="">Label</option>
+            {(Object.keys(metricLabels) as MetricKey[]).map(key => <option key={key} value={key}>{metricLabels[key]}</option>)}
+          </select>
+        </label>
+        {colorBy && colorBy !== 'component' && (
+          <div className="flex items-center gap-2 text-slate-500" aria-label={`Colour scale for ${metricLabels[colorBy]}`}>
+            <span className="w-16 flex-shrink-0" />
+            <span>low</span>
+            <span
+              className="flex-1 h-2 rounded-full"
+              style={{ background: `linear-gradient(to right, ${[0, 0.25, 0.5, 0.75, 1].map(metricColor).join(', ')})` }}
+            />
+            <span>high</span>
+          </div>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-auto scrollbar-thin">
+        {error ? (
+          <p className="p-4 text-xs text-red-600">Metrics could not be computed: {error}</p>
+        ) : !metrics ? (
+          <p className="p-4 text-xs text-slate-500 flex items-center gap-2">
+            <Loader2 className="w-3 h-3 animate-spin" />
+            Computing metrics…
+          </p>
+        ) : (
+          <table className="w-full text-[11px] text-right">
+            <thead className="sticky top-0 bg-white border-b border-slate-200 text-slate-600">
+              <tr>
+                {heading('label', 'Node')}
+                {COLUMNS.map(({ key, heading: text }) => heading(key, text, metricLabels[key]))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.slice(0, ROW_LIMIT).map(node => (
+                <tr
+                  key={node.id}
+                  onClick={() => onFocusNode(node)}
+                  className={cn(
+                    'cursor-pointer border-b border-slate-100 hover:bg-slate-50',
+                    node.id === selectedNodeId && 'bg-neo4j-blue/10'
+                  )}
+                >
+                  <td className="px-1.5 py-1 text-left max-w-[8rem]">
+                    <span className="flex items-center gap-1">
+                      <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: nodeColor(node) }} />
+                      <span className="truncate" title={node.label}>{node.label}</span>
+                    </span>
+                  </td>
+                  {COLUMNS.map(({ key }) => (
+                    <td key={key} className="px-1.5 py-1 font-mono text-slate-700">
+                      {formatMetric(key, metrics[node.id][key])}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {rows.length > ROW_LIMIT && (
+          <p className="p-2 text-center text-xs text-slate-500">
+            Showing the first {ROW_LIMIT} of {rows.length} nodes
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
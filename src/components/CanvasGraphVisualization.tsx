@@ -0,0 +1,646 @@
+import { useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react'
+import * as d3 from 'd3'
+import type { GraphData, GraphNode } from '../types'
+import type { GraphVisualizationProps } from './GraphVisualization'
+import { cn } from '../lib/utils'
+import { endpointId } from '../lib/graph'
+import { renderGraphSvg } from '../lib/exporters'
+import { createForceLayout, defaultLayoutSettings, layoutTargets, type ForceLayout, type LayoutState } from '../lib/layout'
+import { graphLegend, nodeColor, NODE_RADIUS } from '../lib/styles'
+import { GraphLegend } from './GraphLegend'
+
+// How much larger the selected node is drawn
+const SELECTED_GROWTH = 8
+// Zoom scale from which node captions and type badges are drawn
+const LABEL_ZOOM = 0.6
+// Zoom scale from which relationship types are drawn
+const LINK_LABEL_ZOOM = 1.2
+// Captions drawn per frame at most, so zooming in on a dense area stays smooth
+const MAX_LABELS = 1500
+
+/**
+ * Everything the draw loop needs, kept outside React state so selection,
+ * highlight and position updates only cost a redraw
+ */
+interface Scene {
+  nodes: GraphNode[]
+  index: Map<string, number>
+  /** Source and target node index per relationship, -1 when missing */
+  links: Int32Array
+  linkIds: string[]
+  linkTypes: string[]
+  /** Fill and radius per node, from the label or a metric */
+  colors: string[]
+  radii: Float32Array
+  /** Largest radius, how far from a point hit-testing looks */
+  maxRadius: number
+  positions: Float32Array | null
+  quadtree: d3.Quadtree<number> | null
+  selectedId: string | null
+  highlighted: Set<string>
+  /** Relationships to emphasise; null emphasises those between highlighted nodes */
+  highlightedLinks: Set<string> | null
+  /** Relationships drawn bolder and always labelled */
+  emphasizedLinks: Set<string>
+  /** Nodes and relationships left out by the filter, hidden or drawn faintly */
+  filteredOut: Set<string>
+  filteredOutLinks: Set<string>
+  hideFiltered: boolean
+  pinned: Set<string>
+  /** Shift-drag in progress: the node dragged from and the pointer, in layout coordinates */
+  connecting: { source: number; x: number; y: number } | null
+  transform: d3.ZoomTransform
+  width: number
+  height: number
+  /** Whether the view was already fitted to the graph, or the user took over */
+  fitted: boolean
+}
+
+function sceneGraph(data: GraphData): Pick<Scene, 'nodes' | 'index' | 'links' | 'linkIds' | 'linkTypes'> {
+  const index = new Map(data.nodes.map((node, i) => [node.id, i]))
+  const links = new Int32Array(data.relationships.length * 2)
+  data.relationships.forEach((rel, i) => {
+    links[i * 2] = index.get(endpointId(rel.source)) ?? -1
+    links[i * 2 + 1] = index.get(endpointId(rel.target)) ?? -1
+  })
+  return {
+    nodes: data.nodes,
+    index,
+    links,
+    linkIds: data.relationships.map(rel => rel.id),
+    linkTypes: data.relationships.map(rel => rel.type.replace(/_/g, ' '))
+  }
+}
+
+/**
+ * Node under a point in screen coordinates, found through a quadtree that is
+ * rebuilt lazily after the layout moves or the filter changes
+ */
+function nodeAt(scene: Scene, screenX: number, screenY: number): number | undefined {
+  const { positions } = scene
+  if (!positions) return undefined
+  if (!scene.quadtree) {
+    scene.quadtree = d3.quadtree<number>()
+      .x(i => positions[i * 2])
+      .y(i => positions[i * 2 + 1])
+      .addAll(d3.range(scene.nodes.length).filter(i => !scene.hideFiltered || !scene.filteredOut.has(scene.nodes[i].id)))
+  }
+  const [x, y] = scene.transform.invert([screenX, screenY])
+  const index = scene.quadtree.find(x, y, scene.maxRadius + SELECTED_GROWTH)
+  if (index === undefined) return undefined
+  const grow = scene.nodes[index].id === scene.selectedId ? SELECTED_GROWTH : 0
+  return Math.hypot(positions[index * 2] - x, positions[index * 2 + 1] - y) <= scene.radii[index] + grow ? index : undefined
+}
+
+function drawScene(context: CanvasRenderingContext2D, scene: Scene, pixelRatio: number) {
+  const { positions, transform, nodes, links, radii, highlighted, highlightedLinks, emphasizedLinks, width, height } = scene
+  context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0)
+  context.clearRect(0, 0, width, height)
+  if (!positions) return
+
+  context.translate(transform.x, transform.y)
+  context.scale(transform.k, transform.k)
+
+  // Visible area in layout coordinates, with room for captions
+  const [left, top] = transform.invert([-40, -40])
+  const [right, bottom] = transform.invert([width + 40, height + 40])
+  const x = (i: number) => positions[i * 2]
+  const y = (i: number) => positions[i * 2 + 1]
+  const visible = (i: number) => x(i) >= left && x(i) <= right && y(i) >= top && y(i) <= bottom
+
+  const dimming = highlighted.size > 0
+  const lit = (i: number) => highlighted.has(nodes[i].id)
+  const nodeOut = (i: number) => scene.filteredOut.has(nodes[i].id)
+  const linkOut = (i: number) => scene.filteredOutLinks.has(scene.linkIds[i])
+  const linkLit = (i: number) => dimming && (highlightedLinks
+    ? highlightedLinks.has(scene.linkIds[i])
+    : lit(links[i * 2]) && lit(links[i * 2 + 1]))
+
+  // Relationships, batched into one path per style
+  const linkCount = links.length / 2
+  const drawLinks = (include: (i: number) => boolean, stroke: string, lineWidth: number, alpha: number) => {
+    context.beginPath()
+    for (let i = 0; i < linkCount; i++) {
+      const source = links[i * 2]
+      const target = links[i * 2 + 1]
+      if (source < 0 || target < 0 || !include(i)) continue
+      if (!visible(source) && !visible(target) &&
+        (Math.max(x(source), x(target)) < left || Math.min(x(source), x(target)) > right ||
+          Math.max(y(source), y(target)) < top || Math.min(y(source), y(target)) > bottom)) continue
+      context.moveTo(x(source), y(source))
+      context.lineTo(x(target), y(target))
+    }
+    context.globalAlpha = alpha
+    context.strokeStyle = stroke
+    context.lineWidth = lineWidth
+    context.stroke()
+  }
+  const emphasized = (i: number) => emphasizedLinks.has(scene.linkIds[i]) && !linkOut(i)
+  if (!scene.hideFiltered && scene.filteredOutLinks.size > 0) drawLinks(linkOut, '#cbd5e1', 1.5, 0.05)
+  drawLinks(i => !linkOut(i) && !linkLit(i) && !emphasized(i), '#cbd5e1', 1.5, dimming ? 0.1 : 0.6)
+  if (dimming) drawLinks(i => !linkOut(i) && linkLit(i) && !emphasized(i), '#008CC1', 3, 0.6)
+  if (emphasizedLinks.size > 0) drawLinks(emphasized, '#9C27B0', 4, 0.9)
+
+  if (scene.connecting) {
+    const { source } = scene.connecting
+    context.globalAlpha = 1
+    context.beginPath()
+    context.moveTo(x(source), y(source))
+    context.lineTo(scene.connecting.x, scene.connecting.y)
+    context.setLineDash([6, 4])
+    context.strokeStyle = '#008CC1'
+    context.lineWidth = 2
+    context.stroke()
+    context.setLineDash([])
+  }
+
+  // Nodes, batched by colour: filtered-out ones faintest, then dimmed ones,
+  // so highlighted ones stay on top
+  const groups = new Map<string, number[]>()
+  const faded = new Map<string, number[]>()
+  const labelled: number[] = []
+  for (let i = 0; i < nodes.length; i++) {
+    if (!visible(i)) continue
+    const out = nodeOut(i)
+    if (out && scene.hideFiltered) continue
+    const target = out ? faded : groups
+    const group = target.get(scene.colors[i]) ?? []
+    group.push(i)
+    target.set(scene.colors[i], group)
+  }
+  const outline = transform.k * NODE_RADIUS >= 4
+  context.globalAlpha = 0.08
+  faded.forEach((group, color) => {
+    context.beginPath()
+    group.forEach(i => {
+      context.moveTo(x(i) + radii[i], y(i))
+      context.arc(x(i), y(i), radii[i], 0, Math.PI * 2)
+    })
+    context.fillStyle = color
+    context.fill()
+  })
+  for (const pass of dimming ? [false, true] : [true]) {
+    context.globalAlpha = pass ? 1 : 0.2
+    groups.forEach((group, color) => {
+      context.beginPath()
+      group.forEach(i => {
+        if (dimming && lit(i) !== pass) return
+        const radius = radii[i] + (nodes[i].id === scene.selectedId ? SELECTED_GROWTH : 0)
+        context.moveTo(x(i) + radius, y(i))
+        context.arc(x(i), y(i), radius, 0, Math.PI * 2)
+        if (pass) labelled.push(i)
+      })
+      context.fillStyle = color
+      context.fill()
+      if (outline) {
+        context.strokeStyle = '#fff'
+        context.lineWidth = 2
+        context.stroke()
+      }
+    })
+  }
+
+  if (outline) {
+    context.globalAlpha = 1
+    context.beginPath()
+    scene.pinned.forEach(id => {
+      const i = scene.index.get(id)
+      if (i === undefined || !visible(i) || (scene.hideFiltered && nodeOut(i))) return
+      const offset = radii[i] * 0.75
+      context.moveTo(x(i) + offset + 4, y(i) - offset)
+      context.arc(x(i) + offset, y(i) - offset, 4, 0, Math.PI * 2)
+    })
+    context.fillStyle = '#1e293b'
+    context.fill()
+    context.strokeStyle = '#fff'
+    context.lineWidth = 1.5
+    context.stroke()
+  }
+
+  const selected = scene.selectedId === null ? undefined : scene.index.get(scene.selectedId)
+  if (selected !== undefined) {
+    context.globalAlpha = 1
+    context.beginPath()
+    context.arc(x(selected), y(selected), radii[selected] + SELECTED_GROWTH, 0, Math.PI * 2)
+    context.strokeStyle = '#1e293b'
+    context.lineWidth = 3
+    context.stroke()
+  }
+
+  context.textAlign = 'center'
+  context.globalAlpha = 1
+
+  // Relationship types once zoomed in; emphasised ones at any zoom
+  const drawLinkLabels = (include: (i: number) => boolean, font: string, fill: string, alpha: number) => {
+    context.font = font
+    context.fillStyle = fill
+    context.globalAlpha = alpha
+    for (let i = 0; i < linkCount; i++) {
+      const source = links[i * 2]
+      const target = links[i * 2 + 1]
+      if (source < 0 || target < 0 || !include(i)) continue
+      if (!visible(source) && !visible(target)) continue
+      context.fillText(scene.linkTypes[i], (x(source) + x(target)) / 2, (y(source) + y(target)) / 2 - 5)
+    }
+  }
+  if (transform.k >= LINK_LABEL_ZOOM) {
+    drawLinkLabels(i => !linkOut(i) && !emphasized(i) && (!dimming || linkLit(i)), '10px system-ui, sans-serif', '#475569', 0.7)
+  }
+  if (emphasizedLinks.size > 0) {
+    drawLinkLabels(emphasized, `600 ${Math.max(10, 10 / transform.k)}px system-ui, sans-serif`, '#9C27B0', 1)
+  }
+
+  // Captions: every visible node once zoomed in, otherwise only the selection and highlights
+  const captions = transform.k >= LABEL_ZOOM
+    ? labelled
+    : labelled.filter(i => nodes[i].id === scene.selectedId || (dimming && lit(i)))
+  context.globalAlpha = 1
+  captions.slice(0, MAX_LABELS).forEach(i => {
+    if (transform.k >= LABEL_ZOOM) {
+      context.font = 'bold 10px system-ui, sans-serif'
+      context.fillStyle = '#fff'
+      context.fillText(nodes[i].type.charAt(0), x(i), y(i) + 4)
+    }
+    context.font = '500 12px system-ui, sans-serif'
+    context.fillStyle = '#334155'
+    context.fillText(nodes[i].label, x(i), y(i) + radii[i] + 19)
+  })
+}
+
+/**
+ * Canvas renderer for large graphs, with the same props as GraphVisualization
+ *
+ * - Layouts run in a Web Worker and survive selection and highlight changes
+ * - Relationships and nodes are drawn in batched paths, culled to the viewport
+ * - Clicks, drags and right-clicks are hit-tested through a quadtree; Shift-dragging
+ *   onto another node connects the two
+ * - Nodes added by an expansion start beside a neighbour and settle into place
+ * - Captions appear once zoomed in far enough
+ * - Filtered-out elements are skipped (and not hit-tested) or drawn faintly
+ * - Nodes can be sized and coloured by a metric
+ */
+export function CanvasGraphVisualization({
+  data,
+  selectedNode,
+  onNodeSelect,
+  onNodeExpand,
+  highlightedNodes = [],
+  highlightedRelationships,
+  emphasizedRelationships,
+  filteredOutNodes,
+  filteredOutRelationships,
+  filterMode = 'dim',
+  hiddenLabels,
+  onLabelToggle,
+  nodeSizes,
+  nodeColors,
+  onContextMenu,
+  onConnect,
+  layout = defaultLayoutSettings,
+  pinnedNodes,
+  onPinnedNodesChange,
+  className,
+  ref
+}: GraphVisualizationProps) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const layoutRef = useRef<ForceLayout | null>(null)
+  const sceneRef = useRef<Scene>({
+    ...sceneGraph({ nodes: [], relationships: [] }),
+    colors: [],
+    radii: new Float32Array(0),
+    maxRadius: NODE_RADIUS,
+    positions: null,
+    quadtree: null,
+    selectedId: null,
+    highlighted: new Set(),
+    highlightedLinks: null,
+    emphasizedLinks: new Set(),
+    filteredOut: new Set(),
+    filteredOutLinks: new Set(),
+    hideFiltered: false,
+    pinned: new Set(),
+    connecting: null,
+    transform: d3.zoomIdentity,
+    width: 0,
+    height: 0,
+    fitted: false
+  })
+  // Graph last handed to the layout worker
+  const laidOutRef = useRef<GraphData | null>(null)
+  const drawRef = useRef<() => void>(() => {})
+  const fitRef = useRef<() => void>(() => {})
+  const focusRef = useRef<(index: number) => void>(() => {})
+  const callbacksRef = useRef({
+    onNodeSelect,
+    onNodeExpand,
+    onPinnedNodesChange,
+    onContextMenu,
+    onConnect,
+    selectedId: selectedNode?.id,
+    pinnedNodes
+  })
+  const [size, setSize] = useState({ width: 800, height: 600 })
+  const legend = useMemo(() => graphLegend(data), [data])
+
+  const focusId = layout.kind === 'radial' ? selectedNode?.id : undefined
+  const layoutState = useMemo((): LayoutState => {
+    const center = { x: size.width / 2, y: size.height / 2 }
+    return { settings: layout, center, targets: layoutTargets(data, layout, { center, focusId }) }
+  }, [data, layout, size, focusId])
+
+  useImperativeHandle(ref, () => ({
+    exportSvg: () => {
+      const scene = sceneRef.current
+      const { positions } = scene
+      return renderGraphSvg(data, id => {
+        const i = scene.index.get(id)
+        return positions && i !== undefined ? { x: positions[i * 2], y: positions[i * 2 + 1] } : undefined
+      }, legend)
+    },
+    getPositions: () => {
+      const { positions, nodes } = sceneRef.current
+      if (!positions) return {}
+      return Object.fromEntries(nodes.map((node, i) => [node.id, { x: positions[i * 2], y: positions[i * 2 + 1] }]))
+    },
+    setPositions: positions => layoutRef.current?.setPositions(positions),
+    focusNode: id => {
+      const index = sceneRef.current.index.get(id)
+      if (index !== undefined) focusRef.current(index)
+    }
+  }), [data, legend])
+
+  useEffect(() => {
+    callbacksRef.current = {
+      onNodeSelect,
+      onNodeExpand,
+      onPinnedNodesChange,
+      onContextMenu,
+      onConnect,
+      selectedId: selectedNode?.id,
+      pinnedNodes
+    }
+  }, [onNodeSelect, onNodeExpand, onPinnedNodesChange, onContextMenu, onConnect, selectedNode, pinnedNodes])
+
+  // Canvas, worker, zoom and pointer handling live as long as the component
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const container = containerRef.current
+    const context = canvas?.getContext('2d')
+    if (!canvas || !container || !context) return
+    const scene = sceneRef.current
+
+    let frame = 0
+    const draw = () => {
+      if (frame) return
+      frame = requestAnimationFrame(() => {
+        frame = 0
+        drawScene(context, scene, window.devicePixelRatio || 1)
+      })
+    }
+    drawRef.current = draw
+
+    const selection = d3.select(canvas)
+    const zoom = d3.zoom<HTMLCanvasElement, unknown>()
+      .scaleExtent([0.02, 4])
+      .on('zoom', event => {
+        scene.transform = event.transform
+        if (event.sourceEvent) scene.fitted = true
+        draw()
+      })
+
+    fitRef.current = () => {
+      const { positions } = scene
+      if (!positions || positions.length === 0) return
+      let minX = Infinity
+      let minY = Infinity
+      let maxX = -Infinity
+      let maxY = -Infinity
+      for (let i = 0; i < positions.length; i += 2) {
+        minX = Math.min(minX, positions[i])
+        maxX = Math.max(maxX, positions[i])
+        minY = Math.min(minY, positions[i + 1])
+        maxY = Math.max(maxY, positions[i + 1])
+      }
+      const padding = 60
+      const k = Math.min(
+        1,
+        scene.width / (maxX - minX + padding * 2),
+        scene.height / (maxY - minY + padding * 2)
+      )
+      selection.call(zoom.transform, d3.zoomIdentity
+        .translate(scene.width / 2, scene.height / 2)
+        .scale(k)
+        .translate(-(minX + maxX) / 2, -(minY + maxY) / 2))
+    }
+
+    focusRef.current = index => {
+      const { positions } = scene
+      if (!positions) return
+      scene.fitted = true
+      selection.transition().duration(500).call(zoom.transform, d3.zoomIdentity
+        .translate(scene.width / 2, scene.height / 2)
+        .scale(Math.max(scene.transform.k, 1))
+        .translate(-positions[index * 2], -positions[index * 2 + 1]))
+    }
+
+    const layout = createForceLayout((positions, settled) => {
+      scene.positions = positions
+      scene.quadtree = null
+      if (settled && !scene.fitted) {
+        scene.fitted = true
+        fitRef.current()
+      }
+      draw()
+    })
+    layoutRef.current = layout
+
+    // Where the dragged node was last moved to, in layout coordinates
+    let dropped: { x: number; y: number } | null = null
+    const drag = d3.drag<HTMLCanvasElement, unknown, { index: number } | undefined>()
+      .container(canvas)
+      .subject(event => {
+        const index = nodeAt(scene, event.x, event.y)
+        return index === undefined ? undefined : { index }
+      })
+      .on('start', event => {
+        dropped = null
+        if (event.subject && callbacksRef.current.onConnect && event.sourceEvent.shiftKey) {
+          const [x, y] = scene.transform.invert([event.x, event.y])
+          scene.connecting = { source: event.subject.index, x, y }
+        }
+      })
+      .on('drag', event => {
+        if (!event.subject) return
+        const [x, y] = scene.transform.invert([event.x, event.y])
+        if (scene.connecting) {
+          scene.connecting = { ...scene.connecting, x, y }
+          draw()
+          return
+        }
+        dropped = { x, y }
+        layout.drag(event.subject.index, x, y)
+      })
+      // Dropped nodes stay pinned where they were left; a connecting drag
+      // ends on the node under the pointer, if any
+      .on('end', event => {
+        if (scene.connecting) {
+          const { source } = scene.connecting
+          scene.connecting = null
+          draw()
+          const target = nodeAt(scene, event.x, event.y)
+          if (target !== undefined && target !== source) {
+            const { clientX, clientY } = event.sourceEvent as MouseEvent
+            callbacksRef.current.onConnect?.(scene.nodes[source], scene.nodes[target], clientX, clientY)
+          }
+          return
+        }
+        layout.dragEnd()
+        if (!event.subject || !dropped) return
+        const { onPinnedNodesChange, pinnedNodes } = callbacksRef.current
+        onPinnedNodesChange?.({ ...pinnedNodes, [scene.nodes[event.subject.index].id]: dropped })
+      })
+
+    // Drag registers first so grabbing a node doesn't pan the view
+    selection
+      .call(drag)
+      .call(zoom)
+      .on('dblclick.zoom', null)
+      .on('click', (event: MouseEvent) => {
+        const [x, y] = d3.pointer(event)
+        const index = nodeAt(scene, x, y)
+        const { onNodeSelect, selectedId } = callbacksRef.current
+        if (index === undefined) {
+          onNodeSelect(null)
+          return
+        }
+        const node = scene.nodes[index]
+        onNodeSelect(selectedId === node.id ? null : node)
+      })
+      .on('dblclick', (event: MouseEvent) => {
+        const [x, y] = d3.pointer(event)
+        const index = nodeAt(scene, x, y)
+        if (index !== undefined) callbacksRef.current.onNodeExpand?.(scene.nodes[index])
+      })
+      .on('mousemove', (event: MouseEvent) => {
+        const [x, y] = d3.pointer(event)
+        canvas.style.cursor = nodeAt(scene, x, y) === undefined ? 'grab' : 'pointer'
+      })
+      .on('contextmenu', (event: MouseEvent) => {
+        const { onContextMenu } = callbacksRef.current
+        if (!onContextMenu) return
+        event.preventDefault()
+        const [x, y] = d3.pointer(event)
+        const index = nodeAt(scene, x, y)
+        const [layoutX, layoutY] = scene.transform.invert([x, y])
+        onContextMenu({
+          node: index === undefined ? undefined : scene.nodes[index],
+          position: { x: layoutX, y: layoutY },
+          clientX: event.clientX,
+          clientY: event.clientY
+        })
+      })
+
+    const resize = () => {
+      const pixelRatio = window.devicePixelRatio || 1
+      scene.width = container.clientWidth
+      scene.height = container.clientHeight
+      canvas.width = Math.round(scene.width * pixelRatio)
+      canvas.height = Math.round(scene.height * pixelRatio)
+      setSize({ width: scene.width, height: scene.height })
+      draw()
+    }
+    const observer = new ResizeObserver(resize)
+    observer.observe(container)
+
+    return () => {
+      observer.disconnect()
+      cancelAnimationFrame(frame)
+      selection.on('.zoom', null).on('.drag', null).on('click', null).on('dblclick', null).on('mousemove', null).on('contextmenu', null)
+      layout.dispose()
+      layoutRef.current = null
+      laidOutRef.current = null
+    }
+  }, [])
+
+  // A new graph restarts the layout, keeping positions of nodes seen before;
+  // a new layout only re-targets it
+  useEffect(() => {
+    const layout = layoutRef.current
+    if (!layout) return
+    if (laidOutRef.current === data) {
+      layout.setLayout(layoutState)
+      return
+    }
+
+    laidOutRef.current = data
+    const scene = sceneRef.current
+    // Fit the view again when most of the graph is new
+    const kept = data.nodes.filter(node => scene.index.has(node.id)).length
+    if (kept < data.nodes.length / 2) scene.fitted = false
+    Object.assign(scene, sceneGraph(data), { quadtree: null })
+    if (data.nodes.length === 0) scene.positions = null
+    layout.setGraph(data, layoutState, callbacksRef.current.pinnedNodes ?? {})
+    drawRef.current()
+  }, [data, layoutState])
+
+  // Runs after the graph effect above, so colours and radii follow a new graph
+  useEffect(() => {
+    const scene = sceneRef.current
+    scene.colors = data.nodes.map(node => nodeColors?.[node.id] ?? nodeColor(node))
+    scene.radii = Float32Array.from(data.nodes, node => nodeSizes?.[node.id] ?? NODE_RADIUS)
+    scene.maxRadius = scene.radii.reduce((max, radius) => Math.max(max, radius), NODE_RADIUS)
+    drawRef.current()
+  }, [data, nodeSizes, nodeColors])
+
+  useEffect(() => {
+    sceneRef.current.pinned = new Set(Object.keys(pinnedNodes ?? {}))
+    layoutRef.current?.setPins(pinnedNodes ?? {})
+    drawRef.current()
+  }, [pinnedNodes])
+
+  // Selection and highlights only redraw
+  useEffect(() => {
+    const scene = sceneRef.current
+    scene.selectedId = selectedNode?.id ?? null
+    scene.highlighted = new Set(highlightedNodes)
+    scene.highlightedLinks = highlightedRelationships ? new Set(highlightedRelationships) : null
+    scene.emphasizedLinks = new Set(emphasizedRelationships)
+    drawRef.current()
+  }, [selectedNode, highlightedNodes, highlightedRelationships, emphasizedRelationships])
+
+  useEffect(() => {
+    const scene = sceneRef.current
+    scene.filteredOut = new Set(filteredOutNodes)
+    scene.filteredOutLinks = new Set(filteredOutRelationships)
+    scene.hideFiltered = filterMode === 'hide'
+    scene.quadtree = null
+    drawRef.current()
+  }, [filteredOutNodes, filteredOutRelationships, filterMode])
+
+  return (
+    <div
+      ref={containerRef}
+      className={cn('relative w-full h-full bg-white rounded-lg border border-slate-200 overflow-hidden', className)}
+    >
+      <canvas
+        ref={canvasRef}
+        className="absolute inset-0 w-full h-full"
+        role="img"
+        aria-label={`Knowledge graph with ${data.nodes.length} nodes and ${data.relationships.length} relationships`}
+      />
+
+      <GraphLegend legend={legend} hiddenLabels={hiddenLabels} onToggle={onLabelToggle} />
+
+      {/* Controls hint */}
+      <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur-sm rounded-lg border border-slate-200 px-3 py-2 text-xs text-slate-600">
+        <div className="flex items-center gap-4">
+          <span>
+            Drag to pan • Scroll to zoom • Click nodes to explore • Double-click to expand • Drag a node to pin it • Zoom in for labels
+            {onConnect && ' • Shift-drag between nodes to connect them'}
+          </span>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,131 @@
+import { useState } from 'react'
+import { Copy, DatabaseZap, Download, History, Loader2, Redo2, Undo2 } from 'lucide-react'
+import { cn, downloadFile } from '../lib/utils'
+import { describeEdit, editToCypher, type EditHistory } from '../lib/editing'
+import { toCypherScriptText } from '../lib/cypher'
+import { CypherCode } from './CypherEditor'
+
+interface ChangeLogPanelProps {
+  history: EditHistory
+  /** Caption of a node, for naming relationship endpoints */
+  nodeLabel: (id: string) => string
+  onUndo: () => void
+  onRedo: () => void
+  /** Runs the change set against the data source */
+  onApply: () => Promise<void>
+  /** Name of the data source the changes would be applied to */
+  sourceName: string
+  className?: string
+}
+
+/**
+ * Edits made in the graph, oldest first, each with its Cypher statement
+ *
+ * The change set can be copied or downloaded as a script, or applied to the
+ * data source, after which it is cleared
+ */
+export function ChangeLogPanel({
+  history,
+  nodeLabel,
+  onUndo,
+  onRedo,
+  onApply,
+  sourceName,
+  className
+}: ChangeLogPanelProps) {
+  const [isApplying, setIsApplying] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+  const { done, undone } = history
+  const script = toCypherScriptText(done.map(editToCypher))
+
+  const apply = async () => {
+    setIsApplying(true)
+    setError(null)
+    try {
+      await onApply()
+    } catch (applyError) {
+      setError((applyError as Error).message)
+    } finally {
+      setIsApplying(false)
+    }
+  }
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(script)
+    setCopied(true)
+    setTimeout(() => setCopied(false), 1500)
+  }
+
+  const buttonClass = 'flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-xs text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed'
+
+  return (
+    <div className={cn('h-full bg-white rounded-lg border border-slate-200 overflow-hidden flex flex-col', className)}>
+      <div className="px-4 py-3 border-b border-slate-200 flex items-center justify-between">
+        <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+          <History className="w-4 h-4 text-neo4j-blue" />
+          Changes
+        </h3>
+        <div className="flex gap-1">
+          <button onClick={onUndo} disabled={done.length === 0} className={buttonClass} title="Undo (Ctrl+Z)">
+            <Undo2 className="w-3 h-3" />
+            Undo
+          </button>
+          <button onClick={onRedo} disabled={undone.length === 0} className={buttonClass} title="Redo (Ctrl+Shift+Z)">
+            <Redo2 className="w-3 h-3" />
+            Redo
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2 scrollbar-thin">
+        {done.length === 0 ? (
+          <p className="text-sm text-slate-500">
+            No unsaved changes. Right-click the graph to add or delete nodes, Shift-drag between
+            nodes to connect them, and edit a selected node in its details.
+          </p>
+        ) : (
+          <ol className="space-y-2">
+            {done.map((edit, index) => (
+              <li key={index} className="rounded-lg border border-slate-200 p-2">
+                <div className="text-xs text-slate-700 mb-1">
+                  <span className="text-slate-400 mr-1">{index + 1}.</span>
+                  {describeEdit(edit, nodeLabel)}
+                </div>
+                <CypherCode {...editToCypher(edit)} className="rounded p-2 text-[11px] break-all" />
+              </li>
+            ))}
+          </ol>
+        )}
+      </div>
+
+      {done.length > 0 && (
+        <div className="border-t border-slate-200 p-3 space-y-2">
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex flex-wrap gap-2">
+            <button onClick={copy} className={buttonClass}>
+              <Copy className="w-3 h-3" />
+              {copied ? 'Copied' : 'Copy script'}
+            </button>
+            <button
+              onClick={() => downloadFile(`${script}\n`, 'graph-changes.cypher', 'text/plain')}
+              className={buttonClass}
+            >
+              <Download className="w-3 h-3" />
+              Download
+            </button>
+            <button
+              onClick={apply}
+              disabled={isApplying}
+              className="ml-auto flex items-center gap-1 rounded-lg bg-neo4j-blue px-2 py-1 text-xs font-medium text-white hover:bg-neo4j-blue/90 disabled:opacity-50"
+              title={`Run the ${done.length} statements against ${sourceName}`}
+            >
+              {isApplying ? <Loader2 className="w-3 h-3 animate-spin" /> : <DatabaseZap className="w-3 h-3" />}
+              Apply {done.length}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
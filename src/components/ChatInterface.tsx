@@ -1,13 +1,49 @@
 import { useState, useRef, useEffect } from 'react'
-import { Send, Loader2, Database, Sparkles } from 'lucide-react'
-import type { Message, GraphNode } from '../types'
+import { Send, Loader2, Database, Sparkles, Pin, X, SlidersHorizontal, Download, MessagesSquare, CornerDownRight } from 'lucide-react'
+import type { Message, GraphNode, GraphRelationship, QueryMode, HybridScope, MetricKey } from '../types'
 import { cn } from '../lib/utils'
+import type { RetrievalOptions } from '../lib/retrieval'
+import { centralityMetrics, metricLabels } from '../lib/analytics'
+import { cypherParamLines } from '../lib/cypher'
+import { CypherCode } from './CypherEditor'
+import { ResultViewer } from './ResultViewer'
 
 interface ChatInterfaceProps {
   messages: Message[]
   onSendMessage: (content: string) => void
   isLoading: boolean
+  /** Name of the conversation shown, from the session sidebar */
+  sessionName?: string
+  /** Opens the list of saved conversations */
+  onShowSessions?: () => void
   onSourceClick?: (node: GraphNode) => void
+  /** Called when a relationship in a query result is clicked */
+  onRelationshipClick?: (relationship: GraphRelationship) => void
+  /** Re-highlights the subgraph an answer was grounded in */
+  onMessageSelect?: (message: Message) => void
+  /** Message whose subgraph is currently highlighted */
+  activeMessageId?: string
+  /** Opens the export panel for a message's sources */
+  onExportSources?: (message: Message) => void
+  mode: QueryMode
+  onModeChange: (mode: QueryMode) => void
+  scope: HybridScope | null
+  onPinScope: (cypher: string) => Promise<void>
+  onClearScope: () => void
+  retrievalOptions: RetrievalOptions
+  onRetrievalOptionsChange: (options: RetrievalOptions) => void
+}
+
+const modeOptions: { mode: QueryMode; label: string; placeholder: string }[] = [
+  { mode: 'natural', label: 'Natural', placeholder: 'Ask a question about the knowledge graph...' },
+  { mode: 'cypher', label: 'Cypher', placeholder: 'MATCH (n:Technology) RETURN n.label LIMIT 5' },
+  { mode: 'hybrid', label: 'Hybrid', placeholder: 'Ask a question within the pinned scope...' }
+]
+
+const modeLabels: Record<QueryMode, string> = {
+  natural: 'Natural language',
+  cypher: 'Cypher',
+  hybrid: 'Hybrid'
 }
 
 /**
@@ -16,18 +52,36 @@ interface ChatInterfaceProps {
  * Features:
  * - Streaming message display with typing animation
  * - Source citations with clickable graph nodes
+ * - Clicking an answer highlights its retrieved subgraph and reasoning path
  * - Cypher query display for transparency
  * - Accessible keyboard navigation
  * - Auto-scroll to latest message
  * - Loading states and error handling
+ * - Natural, Cypher and hybrid (scoped retrieval) input modes
+ * - Named conversations, switched from the session sidebar
+ * - Follow-up questions show the standalone query they were rewritten to
  */
 export function ChatInterface({
   messages,
   onSendMessage,
   isLoading,
-  onSourceClick
+  sessionName,
+  onShowSessions,
+  onSourceClick,
+  onRelationshipClick,
+  onMessageSelect,
+  activeMessageId,
+  onExportSources,
+  mode,
+  onModeChange,
+  scope,
+  onPinScope,
+  onClearScope,
+  retrievalOptions,
+  onRetrievalOptionsChange
 }: ChatInterfaceProps) {
   const [input, setInput] = useState('')
+  const [showSettings, setShowSettings] = useState(false)
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLTextAreaElement>(null)
 
@@ -57,12 +111,63 @@ export function ChatInterface({
       {/* Header */}
       <div className="flex items-center gap-3 px-4 py-3 border-b border-slate-200 bg-gradient-to-r from-neo4j-blue/5 to-neo4j-purple/5">
         <Sparkles className="w-5 h-5 text-neo4j-blue" />
-        <div>
+        <div className="flex-1 min-w-0">
           <h2 className="font-semibold text-slate-900">GraphRAG Assistant</h2>
-          <p className="text-xs text-slate-600">
-            Ask questions about GenAI and graph databases
+          <p className="text-xs text-slate-600 truncate" title={sessionName}>
+            {sessionName ?? 'Ask questions about GenAI and graph databases'}
           </p>
         </div>
+        {onShowSessions && (
+          <button
+            onClick={onShowSessions}
+            className="p-1.5 rounded-lg text-slate-500 hover:bg-slate-100 transition-colors"
+            aria-label="Conversations"
+            title="Conversations"
+          >
+            <MessagesSquare className="w-4 h-4" />
+          </button>
+        )}
+        <button
+          onClick={() => setShowSettings(!showSettings)}
+          className={cn(
+            'p-1.5 rounded-lg transition-colors',
+            showSettings ? 'bg-neo4j-blue/10 text-neo4j-blue' : 'text-slate-500 hover:bg-slate-100'
+          )}
+          aria-label="Retrieval settings"
+          aria-expanded={showSettings}
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+        </button>
+      </div>
+
+      {showSettings && (
+        <RetrievalSettings options={retrievalOptions} onChange={onRetrievalOptionsChange} />
+      )}
+
+      {/* Mode switch */}
+      <div className="px-4 pt-3 space-y-2">
+        <div className="flex rounded-lg bg-slate-100 p-1 text-xs font-medium" role="radiogroup" aria-label="Query mode">
+          {modeOptions.map(option => (
+            <button
+              key={option.mode}
+              role="radio"
+              aria-checked={mode === option.mode}
+              onClick={() => onModeChange(option.mode)}
+              className={cn(
+                'flex-1 rounded-md px-2 py-1 transition-colors',
+                mode === option.mode
+                  ? 'bg-white text-neo4j-blue shadow-sm'
+                  : 'text-slate-600 hover:text-slate-900'
+              )}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'hybrid' && (
+          <ScopePanel scope={scope} onPinScope={onPinScope} onClearScope={onClearScope} />
+        )}
       </div>
 
       {/* Messages */}
@@ -81,6 +186,10 @@ export function ChatInterface({
               key={message.id}
               message={message}
               onSourceClick={onSourceClick}
+              onRelationshipClick={onRelationshipClick}
+              onSelect={onMessageSelect}
+              isActive={message.id === activeMessageId}
+              onExportSources={onExportSources}
             />
           ))
         )}
@@ -103,8 +212,12 @@ export function ChatInterface({
             value={input}
             onChange={(e) => setInput(e.target.value)}
             onKeyDown={handleKeyDown}
-            placeholder="Ask a question about the knowledge graph..."
-            className="flex-1 resize-none rounded-lg border border-slate-300 px-4 py-3 text-sm focus:outline-none focus:ring-2 focus:ring-neo4j-blue focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed"
+            placeholder={modeOptions.find(option => option.mode === mode)?.placeholder}
+            className={cn(
+              'flex-1 resize-none rounded-lg border border-slate-300 px-4 py-3 text-sm focus:outline-none',
+              'focus:ring-2 focus:ring-neo4j-blue focus:border-transparent disabled:opacity-50 disabled:cursor-not-allowed',
+              mode === 'cypher' && 'font-mono text-xs'
+            )}
             rows={2}
             disabled={isLoading}
             aria-label="Message input"
@@ -128,12 +241,23 @@ export function ChatInterface({
 
 function MessageBubble({
   message,
-  onSourceClick
+  onSourceClick,
+  onRelationshipClick,
+  onSelect,
+  isActive = false,
+  onExportSources
 }: {
   message: Message
   onSourceClick?: (node: GraphNode) => void
+  onRelationshipClick?: (relationship: GraphRelationship) => void
+  onSelect?: (message: Message) => void
+  isActive?: boolean
+  onExportSources?: (message: Message) => void
 }) {
   const isUser = message.role === 'user'
+  const { subgraph } = message
+  // Answers grounded in a subgraph are clickable to highlight it again
+  const Bubble = subgraph && onSelect ? 'button' : 'div'
 
   return (
     <div
@@ -144,12 +268,19 @@ function MessageBubble({
     >
       <div className={cn('flex flex-col gap-2 max-w-[80%]', isUser && 'items-end')}>
         {/* Message bubble */}
-        <div
+        <Bubble
+          {...(Bubble === 'button' && {
+            onClick: () => onSelect?.(message),
+            'aria-pressed': isActive,
+            title: isActive ? 'Clear the highlight' : 'Highlight the subgraph behind this answer'
+          })}
           className={cn(
-            'rounded-lg px-4 py-3 text-sm',
+            'rounded-lg px-4 py-3 text-sm text-left',
             isUser
               ? 'bg-neo4j-blue text-white'
-              : 'bg-slate-100 text-slate-900 border border-slate-200'
+              : 'bg-slate-100 text-slate-900 border border-slate-200',
+            Bubble === 'button' && 'hover:border-neo4j-purple transition-colors',
+            isActive && 'ring-2 ring-neo4j-purple'
           )}
         >
           {message.isStreaming ? (
@@ -160,7 +291,24 @@ function MessageBubble({
           ) : (
             <p className="whitespace-pre-wrap">{message.content}</p>
           )}
-        </div>
+        </Bubble>
+
+        {/* Follow-up rewritten with its references resolved */}
+        {message.standaloneQuery && isUser && (
+          <p className="flex items-start gap-1 text-xs text-slate-500 text-right" title="Question as searched, with references to earlier turns resolved">
+            <CornerDownRight className="w-3 h-3 mt-0.5 flex-shrink-0" />
+            <span>Searched as “{message.standaloneQuery}”</span>
+          </p>
+        )}
+
+        {/* Query result rows (cypher mode) */}
+        {message.queryResult && !isUser && (
+          <ResultViewer
+            result={message.queryResult}
+            onNodeClick={onSourceClick}
+            onRelationshipClick={onRelationshipClick}
+          />
+        )}
 
         {/* Cypher query display */}
         {message.cypherQuery && !isUser && (
@@ -168,10 +316,16 @@ function MessageBubble({
             <div className="flex items-center gap-2 mb-2">
               <Database className="w-3 h-3 text-neo4j-blue" />
               <span className="font-semibold text-slate-700">Cypher Query</span>
+              {message.cypherAttempts !== undefined && (
+                <span
+                  className="ml-auto font-sans text-neo4j-green"
+                  title="Generated from the question and checked against the graph schema"
+                >
+                  validated{message.cypherAttempts > 1 && ` after ${message.cypherAttempts} attempts`}
+                </span>
+              )}
             </div>
-            <pre className="text-slate-600 whitespace-pre-wrap">
-              {message.cypherQuery}
-            </pre>
+            <CypherCode query={message.cypherQuery} params={message.cypherParams} />
           </div>
         )}
 
@@ -179,24 +333,198 @@ function MessageBubble({
         {message.sources && message.sources.length > 0 && !isUser && (
           <div className="flex flex-wrap gap-2">
             <span className="text-xs text-slate-600">Sources:</span>
-            {message.sources.map((source) => (
+            {message.sources.map((source) => {
+              const score = message.sourceScores?.[source.id]
+              return (
+                <button
+                  key={source.id}
+                  onClick={() => onSourceClick?.(source)}
+                  className="text-xs bg-white border border-slate-200 rounded-full px-3 py-1 hover:bg-slate-50 hover:border-neo4j-blue transition-colors"
+                  aria-label={`View source: ${source.label}`}
+                  title={score !== undefined ? `Retrieval score ${score.toFixed(3)}` : undefined}
+                >
+                  {source.label}
+                  {score !== undefined && (
+                    <span className="ml-1.5 font-mono text-neo4j-blue">{score.toFixed(2)}</span>
+                  )}
+                </button>
+              )
+            })}
+            {onExportSources && (
               <button
-                key={source.id}
-                onClick={() => onSourceClick?.(source)}
-                className="text-xs bg-white border border-slate-200 rounded-full px-3 py-1 hover:bg-slate-50 hover:border-neo4j-blue transition-colors"
-                aria-label={`View source: ${source.label}`}
+                onClick={() => onExportSources(message)}
+                className="p-1 text-slate-500 hover:text-neo4j-blue transition-colors"
+                aria-label="Export sources"
+                title="Export sources"
               >
-                {source.label}
+                <Download className="w-3.5 h-3.5" />
               </button>
-            ))}
+            )}
           </div>
         )}
 
-        {/* Timestamp */}
+        {/* Timestamp and mode */}
         <span className="text-xs text-slate-500">
           {message.timestamp.toLocaleTimeString()}
+          {message.mode && ` • ${modeLabels[message.mode]}`}
+          {subgraph && !isUser && (
+            ` • ${subgraph.nodes.length} nodes, ${subgraph.relationships.length} relationships` +
+            (subgraph.reasoningRelationshipIds.length > 0 ? `, ${subgraph.reasoningRelationshipIds.length} traversed` : '')
+          )}
+          {message.scopeQuery && (
+            <span
+              className="block font-mono truncate max-w-[240px]"
+              title={[...cypherParamLines(message.scopeParams ?? {}), message.scopeQuery].join('\n')}
+            >
+              Scope: {message.scopeQuery}
+            </span>
+          )}
         </span>
       </div>
     </div>
   )
 }
+
+interface RetrievalSlider {
+  key: 'topK' | 'hops' | 'decay' | 'priorWeight'
+  label: string
+  min: number
+  max: number
+  step: number
+}
+
+const retrievalSliders: RetrievalSlider[] = [
+  { key: 'topK', label: 'Top-k seeds', min: 1, max: 10, step: 1 },
+  { key: 'hops', label: 'Hop depth', min: 0, max: 3, step: 1 },
+  { key: 'decay', label: 'Decay per hop', min: 0.1, max: 1, step: 0.1 }
+]
+
+const priorWeightSlider: RetrievalSlider = { key: 'priorWeight', label: 'Prior weight', min: 0.1, max: 2, step: 0.1 }
+
+/**
+ * Sliders for tuning top-k, hop depth and decay of the retriever, plus the
+ * centrality metric (and its weight) used as a ranking prior
+ */
+function RetrievalSettings({
+  options,
+  onChange
+}: {
+  options: RetrievalOptions
+  onChange: (options: RetrievalOptions) => void
+}) {
+  const slider = ({ key, label, min, max, step }: RetrievalSlider) => (
+    <label key={key} className="flex items-center gap-3 text-xs text-slate-700">
+      <span className="w-24 flex-shrink-0">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={options[key]}
+        onChange={(e) => onChange({ ...options, [key]: Number(e.target.value) })}
+        className="flex-1 accent-neo4j-blue"
+      />
+      <span className="w-8 text-right font-mono">{options[key]}</span>
+    </label>
+  )
+
+  return (
+    <div className="px-4 py-3 border-b border-slate-200 bg-slate-50 space-y-2">
+      {retrievalSliders.map(slider)}
+      <label className="flex items-center gap-3 text-xs text-slate-700">
+        <span className="w-24 flex-shrink-0">Centrality prior</span>
+        <select
+          value={options.prior ?? ''}
+          onChange={(e) => onChange({ ...options, prior: (e.target.value || null) as MetricKey | null })}
+          className="flex-1 rounded border border-slate-300 bg-white px-1 py-0.5"
+          title="Favour central nodes when picking the seeds"
+        >
+          <option value="">None</option>
+          {centralityMetrics.map(key => <option key={key} value={key}>{metricLabels[key]}</option>)}
+        </select>
+      </label>
+      {options.prior && slider(priorWeightSlider)}
+    </div>
+  )
+}
+
+/**
+ * Pin/unpin control for the hybrid-mode Cypher scope
+ */
+function ScopePanel({
+  scope,
+  onPinScope,
+  onClearScope
+}: {
+  scope: HybridScope | null
+  onPinScope: (cypher: string) => Promise<void>
+  onClearScope: () => void
+}) {
+  const [cypher, setCypher] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isPinning, setIsPinning] = useState(false)
+
+  if (scope) {
+    return (
+      <div className="flex items-start gap-2 rounded-lg border border-neo4j-purple/30 bg-neo4j-purple/5 p-2 text-xs">
+        <Pin className="w-3 h-3 mt-0.5 text-neo4j-purple flex-shrink-0" />
+        <div className="flex-1 min-w-0">
+          <div
+            className="font-mono text-slate-700 truncate"
+            title={[...cypherParamLines(scope.params ?? {}), scope.cypher].join('\n')}
+          >
+            {scope.cypher}
+          </div>
+          <div className="text-slate-500">
+            Retrieval limited to {scope.nodeIds.length} nodes
+          </div>
+        </div>
+        <button
+          onClick={onClearScope}
+          className="p-0.5 rounded hover:bg-slate-200"
+          aria-label="Unpin scope"
+        >
+          <X className="w-3 h-3 text-slate-600" />
+        </button>
+      </div>
+    )
+  }
+
+  const handlePin = async () => {
+    if (!cypher.trim()) return
+    setIsPinning(true)
+    setError(null)
+    try {
+      await onPinScope(cypher.trim())
+      setCypher('')
+    } catch (e) {
+      setError((e as Error).message)
+    } finally {
+      setIsPinning(false)
+    }
+  }
+
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-2">
+        <input
+          value={cypher}
+          onChange={(e) => setCypher(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && handlePin()}
+          placeholder="MATCH (n)-[*0..1]-(m:Company) RETURN n, m"
+          className="flex-1 min-w-0 rounded-lg border border-slate-300 px-2 py-1 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-neo4j-purple"
+          aria-label="Scope Cypher query"
+        />
+        <button
+          onClick={handlePin}
+          disabled={!cypher.trim() || isPinning}
+          className="flex items-center gap-1 rounded-lg bg-neo4j-purple px-2 py-1 text-xs font-medium text-white disabled:opacity-50"
+        >
+          {isPinning ? <Loader2 className="w-3 h-3 animate-spin" /> : <Pin className="w-3 h-3" />}
+          Pin scope
+        </button>
+      </div>
+      {error && <p className="text-xs text-red-600 font-mono">{error}</p>}
+    </div>
+  )
+}
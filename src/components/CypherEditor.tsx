@@ -0,0 +1,315 @@
+import { useMemo, useRef, useState, type KeyboardEvent } from 'react'
+import { AlertCircle, AlertTriangle } from 'lucide-react'
+import type { GraphSchema } from '../types'
+import { cn } from '../lib/utils'
+import { cypherParamLines } from '../lib/cypher'
+import {
+  completeCypher,
+  highlightCypher,
+  lineAndColumn,
+  lintCypher,
+  matchBracket,
+  type Completion,
+  type EditorDiagnostic,
+  type HighlightKind
+} from '../lib/cypherEditor'
+
+interface CypherEditorProps {
+  value: string
+  onChange: (value: string) => void
+  /** Called on Ctrl+Enter (Cmd+Enter on macOS) */
+  onRun: () => void
+  /** Labels, relationship types and property keys offered and checked */
+  schema: GraphSchema
+  placeholder?: string
+  className?: string
+}
+
+// Colours on the editor's dark background
+const TOKEN_CLASSES: Partial<Record<HighlightKind, string>> = {
+  keyword: 'text-sky-400 font-semibold',
+  label: 'text-emerald-400',
+  relationshipType: 'text-amber-300',
+  property: 'text-fuchsia-300',
+  function: 'text-cyan-300',
+  string: 'text-lime-300',
+  number: 'text-orange-300',
+  parameter: 'text-rose-300',
+  comment: 'text-slate-500 italic',
+  invalid: 'text-red-400'
+}
+
+const COMPLETION_KINDS: Record<Completion['items'][number]['kind'], string> = {
+  label: 'label',
+  relationshipType: 'type',
+  property: 'key',
+  keyword: 'keyword',
+  function: 'fn',
+  variable: 'var'
+}
+
+// Matches the textarea's padding and line height (p-3, leading-5)
+const PADDING = 12
+const LINE_HEIGHT = 20
+
+interface OpenCompletion extends Completion {
+  active: number
+  /** Where the list is drawn, under the start of the word */
+  top: number
+  left: string
+}
+
+/**
+ * Cypher editor: a transparent textarea over a highlighted copy of its text
+ *
+ * - Tokenizer-based highlighting rendered as React elements, never as HTML
+ * - The bracket at the cursor and its partner are marked, unbalanced ones in red
+ * - Labels, relationship types, property keys, keywords and functions are
+ *   suggested while typing (or on Ctrl+Space); arrows pick, Enter or Tab accept
+ * - Syntax errors and unknown schema elements are underlined and listed below
+ */
+export function CypherEditor({ value, onChange, onRun, schema, placeholder, className }: CypherEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const overlayRef = useRef<HTMLPreElement>(null)
+  const [cursor, setCursor] = useState<number | null>(null)
+  const [completion, setCompletion] = useState<OpenCompletion | null>(null)
+
+  const tokens = useMemo(() => highlightCypher(value), [value])
+  const diagnostics = useMemo(() => lintCypher(value, schema), [value, schema])
+  const bracket = useMemo(() => (cursor === null ? null : matchBracket(value, cursor)), [value, cursor])
+
+  const openCompletion = (text: string, position: number, explicit: boolean) => {
+    const textarea = textareaRef.current
+    const found = completeCypher(text, position, schema, explicit)
+    if (!found || !textarea) {
+      setCompletion(null)
+      return
+    }
+    const { line, column } = lineAndColumn(text, found.from)
+    setCompletion({
+      ...found,
+      active: 0,
+      top: PADDING + (line - 1) * LINE_HEIGHT - textarea.scrollTop,
+      left: `calc(${PADDING - textarea.scrollLeft}px + ${column - 1}ch)`
+    })
+  }
+
+  const moveCursor = (position: number) => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    textarea.focus()
+    // After React has written the new value
+    requestAnimationFrame(() => textarea.setSelectionRange(position, position))
+    setCursor(position)
+  }
+
+  const accept = (index: number) => {
+    if (!completion) return
+    const { insert } = completion.items[index]
+    onChange(value.slice(0, completion.from) + insert + value.slice(completion.to))
+    moveCursor(completion.from + insert.length)
+    setCompletion(null)
+  }
+
+  const handleChange = (text: string, position: number) => {
+    onChange(text)
+    setCursor(position)
+    // Suggest while a name is being typed or right after : . | { and ,
+    const typed = text[position - 1] ?? ''
+    if (text.length > value.length && /[A-Za-z0-9_:.|{,]/.test(typed)) {
+      openCompletion(text, position, false)
+    } else {
+      setCompletion(null)
+    }
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault()
+      setCompletion(null)
+      onRun()
+      return
+    }
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault()
+      openCompletion(value, e.currentTarget.selectionStart, true)
+      return
+    }
+    if (!completion) return
+    const count = completion.items.length
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setCompletion({ ...completion, active: (completion.active + step + count) % count })
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault()
+      accept(completion.active)
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      setCompletion(null)
+    }
+  }
+
+  const handleSelect = () => {
+    const textarea = textareaRef.current
+    if (!textarea) return
+    setCursor(textarea.selectionStart === textarea.selectionEnd ? textarea.selectionStart : null)
+  }
+
+  const handleScroll = () => {
+    if (!overlayRef.current || !textareaRef.current) return
+    overlayRef.current.scrollTop = textareaRef.current.scrollTop
+    overlayRef.current.scrollLeft = textareaRef.current.scrollLeft
+    setCompletion(null)
+  }
+
+  const underline = (start: number, end: number) => {
+    const hit = diagnostics.find(d => d.start !== undefined && d.start < end && (d.end ?? d.start + 1) > start)
+    if (!hit) return undefined
+    return cn(
+      'underline decoration-wavy underline-offset-4',
+      hit.severity === 'error' ? 'decoration-red-500' : 'decoration-amber-400'
+    )
+  }
+
+  const bracketClass = (start: number) => {
+    if (!bracket || (start !== bracket.at && start !== bracket.match)) return undefined
+    return bracket.match === null ? 'bg-red-500/40' : 'bg-sky-400/30 outline outline-1 outline-sky-400/60'
+  }
+
+  return (
+    <div className={className}>
+      <div className="relative rounded-lg bg-slate-900 font-mono text-xs leading-5">
+        <pre
+          ref={overlayRef}
+          aria-hidden="true"
+          className="absolute inset-0 m-0 p-3 overflow-hidden whitespace-pre text-slate-100 pointer-events-none"
+        >
+          {tokens.map(token => (
+            <span
+              key={token.start}
+              className={cn(
+                TOKEN_CLASSES[token.kind],
+                token.kind !== 'whitespace' && underline(token.start, token.end),
+                bracketClass(token.start)
+              )}
+            >
+              {token.text}
+            </span>
+          ))}
+          {/* Keeps a trailing newline visible, as the textarea shows it */}
+          {' '}
+        </pre>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => handleChange(e.target.value, e.target.selectionStart)}
+          onKeyDown={handleKeyDown}
+          onSelect={handleSelect}
+          onScroll={handleScroll}
+          onBlur={() => setCompletion(null)}
+          placeholder={placeholder}
+          spellCheck={false}
+          wrap="off"
+          rows={6}
+          aria-label="Cypher query"
+          aria-autocomplete="list"
+          aria-expanded={completion !== null}
+          aria-controls={completion ? 'cypher-completions' : undefined}
+          className="relative block w-full resize-y p-3 bg-transparent text-transparent caret-white placeholder:text-slate-500 selection:bg-sky-400/30 whitespace-pre overflow-auto rounded-lg focus:outline-none focus:ring-2 focus:ring-neo4j-blue"
+        />
+
+        {completion && (
+          <ul
+            id="cypher-completions"
+            role="listbox"
+            className="absolute z-20 max-h-48 min-w-40 overflow-y-auto scrollbar-thin rounded-md border border-slate-200 bg-white py-1 text-slate-800 shadow-lg"
+            style={{ top: completion.top + LINE_HEIGHT, left: completion.left }}
+          >
+            {completion.items.map((item, index) => (
+              <li
+                key={`${item.kind}:${item.label}`}
+                role="option"
+                aria-selected={index === completion.active}
+                // Keeps focus in the textarea
+                onMouseDown={(e) => {
+                  e.preventDefault()
+                  accept(index)
+                }}
+                className={cn(
+                  'flex items-center justify-between gap-3 px-2 py-0.5 cursor-pointer',
+                  index === completion.active ? 'bg-neo4j-blue text-white' : 'hover:bg-slate-100'
+                )}
+              >
+                <span>{item.label}</span>
+                <span className={cn('text-[10px]', index === completion.active ? 'text-white/80' : 'text-slate-400')}>
+                  {COMPLETION_KINDS[item.kind]}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {diagnostics.length > 0 && (
+        <ul className="mt-2 space-y-1" aria-live="polite">
+          {diagnostics.map((diagnostic, index) => (
+            <DiagnosticItem
+              key={index}
+              diagnostic={diagnostic}
+              position={diagnostic.start !== undefined ? lineAndColumn(value, diagnostic.start) : undefined}
+              onClick={diagnostic.start !== undefined ? () => moveCursor(diagnostic.start!) : undefined}
+            />
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+function DiagnosticItem({ diagnostic, position, onClick }: {
+  diagnostic: EditorDiagnostic
+  position?: { line: number; column: number }
+  onClick?: () => void
+}) {
+  const Icon = diagnostic.severity === 'error' ? AlertCircle : AlertTriangle
+  return (
+    <li>
+      <button
+        onClick={onClick}
+        disabled={!onClick}
+        className={cn(
+          'w-full flex items-start gap-2 text-left text-xs rounded px-1 py-0.5 enabled:hover:bg-slate-100',
+          diagnostic.severity === 'error' ? 'text-red-700' : 'text-amber-700'
+        )}
+      >
+        <Icon className="w-3 h-3 mt-0.5 flex-shrink-0" />
+        <span className="flex-1">{diagnostic.message}</span>
+        {position && <span className="font-mono text-slate-400">{position.line}:{position.column}</span>}
+      </button>
+    </li>
+  )
+}
+
+/**
+ * Read-only highlighted Cypher, for queries shown rather than edited
+ * Parameters are listed above the query as the `:param` commands setting them
+ */
+export function CypherCode({ query, params, className }: {
+  query: string
+  params?: Record<string, unknown>
+  className?: string
+}) {
+  const tokens = useMemo(() => highlightCypher(query), [query])
+  const paramLines = params ? cypherParamLines(params) : []
+  return (
+    <pre className={cn('bg-slate-900 rounded-lg p-3 font-mono text-xs text-slate-100 overflow-x-auto whitespace-pre-wrap', className)}>
+      {paramLines.length > 0 && (
+        <span className="block mb-2 pb-2 border-b border-slate-700 text-slate-400">{paramLines.join('\n')}</span>
+      )}
+      {tokens.map(token => (
+        <span key={token.start} className={TOKEN_CLASSES[token.kind]}>{token.text}</span>
+      ))}
+    </pre>
+  )
+}
@@ -0,0 +1,131 @@
+import { ChevronRight, History, Loader2, Sprout, Undo2 } from 'lucide-react'
+import type { ExpandDirection, ExpandOptions } from '../types'
+import type { ExplorationStep } from '../lib/exploration'
+import { cn } from '../lib/utils'
+
+interface ExplorationTrailProps {
+  /** Name of the loaded graph, the first breadcrumb */
+  rootLabel: string
+  steps: ExplorationStep[]
+  /** Goes back to the step at `index`; -1 returns to the loaded graph */
+  onJump: (index: number) => void
+  onUndo: () => void
+  /** Filter applied when double-clicking a node */
+  expandOptions: ExpandOptions
+  onExpandOptionsChange: (options: ExpandOptions) => void
+  relationshipTypes: string[]
+  /** Number of highlighted nodes that can seed a new exploration */
+  highlightedCount: number
+  onExploreHighlighted: () => void
+  isExpanding?: boolean
+  notice?: string | null
+  className?: string
+}
+
+const directionLabels: Record<ExpandDirection, string> = {
+  both: 'Both directions',
+  outgoing: 'Outgoing',
+  incoming: 'Incoming'
+}
+
+/**
+ * Breadcrumbs of the expansion steps that built the current view, with undo
+ * and the filter used when double-clicking a node to expand it
+ */
+export function ExplorationTrail({
+  rootLabel,
+  steps,
+  onJump,
+  onUndo,
+  expandOptions,
+  onExpandOptionsChange,
+  relationshipTypes,
+  highlightedCount,
+  onExploreHighlighted,
+  isExpanding = false,
+  notice,
+  className
+}: ExplorationTrailProps) {
+  const selectedType = expandOptions.types?.[0] ?? ''
+
+  return (
+    <div className={cn('bg-white rounded-lg border border-slate-200 px-3 py-2 text-xs text-slate-600 space-y-1.5', className)}>
+      <div className="flex items-center gap-2">
+        <History className="w-3.5 h-3.5 text-neo4j-blue flex-shrink-0" />
+        <nav className="flex-1 min-w-0 flex items-center gap-1 overflow-x-auto scrollbar-thin" aria-label="Exploration history">
+          <button
+            onClick={() => onJump(-1)}
+            className={cn(
+              'whitespace-nowrap rounded px-1.5 py-0.5 hover:bg-slate-100',
+              steps.length === 0 && 'font-semibold text-slate-900'
+            )}
+            aria-current={steps.length === 0 ? 'step' : undefined}
+          >
+            {rootLabel}
+          </button>
+          {steps.map((step, i) => (
+            <span key={step.id} className="flex items-center gap-1">
+              <ChevronRight className="w-3 h-3 text-slate-400 flex-shrink-0" />
+              <button
+                onClick={() => onJump(i)}
+                className={cn(
+                  'whitespace-nowrap rounded px-1.5 py-0.5 hover:bg-slate-100',
+                  i === steps.length - 1 && 'font-semibold text-slate-900'
+                )}
+                aria-current={i === steps.length - 1 ? 'step' : undefined}
+              >
+                {step.label}
+              </button>
+            </span>
+          ))}
+          {isExpanding && <Loader2 className="w-3.5 h-3.5 animate-spin text-neo4j-blue flex-shrink-0" />}
+        </nav>
+        <button
+          onClick={onUndo}
+          disabled={steps.length === 0}
+          className="flex items-center gap-1 rounded border border-slate-200 px-2 py-1 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <Undo2 className="w-3 h-3" />
+          Undo
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <span>Double-click expands</span>
+        <select
+          value={expandOptions.direction ?? 'both'}
+          onChange={(e) => onExpandOptionsChange({ ...expandOptions, direction: e.target.value as ExpandDirection })}
+          className="rounded border border-slate-300 px-1.5 py-0.5 focus:outline-none focus:ring-2 focus:ring-neo4j-blue"
+          aria-label="Expansion direction"
+        >
+          {(Object.keys(directionLabels) as ExpandDirection[]).map(direction => (
+            <option key={direction} value={direction}>{directionLabels[direction]}</option>
+          ))}
+        </select>
+        <select
+          value={selectedType}
+          onChange={(e) => onExpandOptionsChange({ ...expandOptions, types: e.target.value ? [e.target.value] : undefined })}
+          className="rounded border border-slate-300 px-1.5 py-0.5 font-mono focus:outline-none focus:ring-2 focus:ring-neo4j-blue"
+          aria-label="Expansion relationship type"
+        >
+          <option value="">All types</option>
+          {relationshipTypes.map(type => (
+            <option key={type} value={type}>{type}</option>
+          ))}
+        </select>
+        {highlightedCount > 0 && (
+          <button
+            onClick={onExploreHighlighted}
+            className="ml-auto flex items-center gap-1 rounded border border-slate-200 px-2 py-1 hover:bg-slate-50"
+            title="Replace the view with the highlighted nodes and expand from there"
+          >
+            <Sprout className="w-3 h-3 text-neo4j-green" />
+            Start from {highlightedCount} highlighted
+          </button>
+        )}
+      </div>
+
+      {notice && <p className="text-slate-500">{notice}</p>}
+    </div>
+  )
+}
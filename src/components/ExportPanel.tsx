@@ -0,0 +1,117 @@
+import { useState } from 'react'
+import { Download, Image, X } from 'lucide-react'
+import type { GraphData } from '../types'
+import { exportFormats, exportGraph, type ExportFormat } from '../lib/exporters'
+import { cn, downloadFile } from '../lib/utils'
+
+/** A named part of the graph that can be exported */
+export interface ExportScope {
+  id: string
+  label: string
+  data: GraphData
+}
+
+interface ExportPanelProps {
+  scopes: ExportScope[]
+  initialScopeId?: string
+  onExportImage: (format: 'svg' | 'png') => Promise<void>
+  onClose: () => void
+  className?: string
+}
+
+/**
+ * Popover for downloading the graph, a subgraph or a chat answer's sources
+ * as data files, and the visualization as an image
+ */
+export function ExportPanel({ scopes, initialScopeId, onExportImage, onClose, className }: ExportPanelProps) {
+  const [scopeId, setScopeId] = useState(initialScopeId ?? scopes[0]?.id)
+  const [imageError, setImageError] = useState<string | null>(null)
+  const scope = scopes.find(s => s.id === scopeId) ?? scopes[0]
+
+  const exportData = (format: ExportFormat) => {
+    if (!scope) return
+    const baseName = `graph-${scope.id}`
+    exportGraph(scope.data, format, baseName).forEach(file =>
+      downloadFile(file.content, file.fileName, file.mimeType)
+    )
+  }
+
+  const exportImage = async (format: 'svg' | 'png') => {
+    try {
+      setImageError(null)
+      await onExportImage(format)
+    } catch (error) {
+      setImageError((error as Error).message)
+    }
+  }
+
+  const buttonClass = 'rounded-lg border border-slate-200 px-3 py-1.5 text-xs font-medium hover:bg-slate-50 hover:border-neo4j-blue transition-colors disabled:opacity-50 disabled:cursor-not-allowed'
+
+  return (
+    <div className={cn('w-80 bg-white rounded-lg border border-slate-200 shadow-lg p-4 space-y-4', className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+          <Download className="w-4 h-4 text-neo4j-blue" />
+          Export
+        </h3>
+        <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded" aria-label="Close export">
+          <X className="w-4 h-4 text-slate-600" />
+        </button>
+      </div>
+
+      <div className="space-y-2" role="radiogroup" aria-label="What to export">
+        {scopes.map(option => (
+          <label
+            key={option.id}
+            className={cn(
+              'flex items-center justify-between gap-2 rounded-lg border px-3 py-2 cursor-pointer text-sm',
+              scope?.id === option.id ? 'border-neo4j-blue bg-neo4j-blue/5' : 'border-slate-200'
+            )}
+          >
+            <span className="flex items-center gap-2">
+              <input
+                type="radio"
+                name="export-scope"
+                checked={scope?.id === option.id}
+                onChange={() => setScopeId(option.id)}
+                className="accent-neo4j-blue"
+              />
+              {option.label}
+            </span>
+            <span className="text-xs text-slate-500">
+              {option.data.nodes.length} / {option.data.relationships.length}
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-slate-700 mb-2">Data</p>
+        <div className="flex flex-wrap gap-2">
+          {(Object.keys(exportFormats) as ExportFormat[]).map(format => (
+            <button
+              key={format}
+              onClick={() => exportData(format)}
+              disabled={!scope || scope.data.nodes.length === 0}
+              className={buttonClass}
+            >
+              {exportFormats[format]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <p className="text-xs font-medium text-slate-700 mb-2 flex items-center gap-1.5">
+          <Image className="w-3 h-3" />
+          Visualization (whole graph with legend)
+        </p>
+        <div className="flex gap-2">
+          <button onClick={() => exportImage('svg')} className={buttonClass}>SVG</button>
+          <button onClick={() => exportImage('png')} className={buttonClass}>PNG</button>
+        </div>
+        {imageError && <p className="text-xs text-red-600 mt-2">{imageError}</p>}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,343 @@
+import { useMemo, useRef, useState } from 'react'
+import { Filter, Highlighter, Plus, RotateCcw, Search, X } from 'lucide-react'
+import type { GraphData, GraphNode } from '../types'
+import { cn } from '../lib/utils'
+import { graphLegend, nodeColor } from '../lib/styles'
+import {
+  defaultGraphFilter,
+  describePredicate,
+  isFilterActive,
+  nodeDegrees,
+  parsePredicate,
+  type FilterMode,
+  type FilterResult,
+  type GraphFilter
+} from '../lib/filters'
+import { searchNodes } from '../lib/search'
+import { describeSchemaElement } from '../lib/schema'
+
+interface FilterPanelProps {
+  /** Graph on screen, searched and filtered */
+  data: GraphData
+  filter: GraphFilter
+  onFilterChange: (filter: GraphFilter) => void
+  /** What the filter currently keeps, for the counts */
+  result: FilterResult
+  /** Selects a search result and centres the view on it */
+  onFocusNode: (node: GraphNode) => void
+  /** Highlights every search result in the graph */
+  onHighlightMatches: (nodes: GraphNode[]) => void
+  className?: string
+}
+
+const SEARCH_LIMIT = 20
+
+const filterModes: Record<FilterMode, string> = {
+  dim: 'Dim',
+  hide: 'Hide'
+}
+
+/**
+ * Fuzzy node search plus filters by label, relationship type, property
+ * predicate, degree and schema element, applied to the graph view (and optionally to chat retrieval)
+ */
+export function FilterPanel({
+  data,
+  filter,
+  onFilterChange,
+  result,
+  onFocusNode,
+  onHighlightMatches,
+  className
+}: FilterPanelProps) {
+  const [query, setQuery] = useState('')
+  const [predicateText, setPredicateText] = useState('')
+  const [predicateError, setPredicateError] = useState<string | null>(null)
+  const searchRef = useRef<HTMLInputElement>(null)
+  const resultsRef = useRef<HTMLUListElement>(null)
+
+  const matches = useMemo(() => searchNodes(data.nodes, query, SEARCH_LIMIT), [data, query])
+  const legend = useMemo(() => graphLegend(data), [data])
+  const relationshipTypes = useMemo(() => {
+    const counts = new Map<string, number>()
+    data.relationships.forEach(rel => counts.set(rel.type, (counts.get(rel.type) ?? 0) + 1))
+    return [...counts].sort(([a], [b]) => a.localeCompare(b))
+  }, [data])
+  const propertyKeys = useMemo(
+    () => [...new Set(data.nodes.flatMap(node => Object.keys(node.properties)))].sort(),
+    [data]
+  )
+  const maxDegree = useMemo(() => Math.max(0, ...nodeDegrees(data).values()), [data])
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter(item => item !== value) : [...list, value]
+
+  const addPredicate = () => {
+    const predicate = parsePredicate(predicateText)
+    if (!predicate) {
+      setPredicateError('Try "key = value", "key > 3", "key contains text" or "has key"')
+      return
+    }
+    onFilterChange({ ...filter, predicates: [...filter.predicates, predicate] })
+    setPredicateText('')
+    setPredicateError(null)
+  }
+
+  // Arrow keys move between the search box and its results
+  const moveFocus = (e: React.KeyboardEvent, index: number) => {
+    const buttons = resultsRef.current?.querySelectorAll<HTMLButtonElement>('button')
+    if (!buttons) return
+    if (e.key === 'ArrowDown') {
+      e.preventDefault()
+      buttons[Math.min(index + 1, buttons.length - 1)]?.focus()
+    } else if (e.key === 'ArrowUp' && index >= 0) {
+      e.preventDefault()
+      if (index === 0) searchRef.current?.focus()
+      else buttons[index - 1]?.focus()
+    }
+  }
+
+  const chip = (active: boolean) => cn(
+    'flex items-center gap-1 rounded-full border px-2 py-0.5 transition-colors',
+    active ? 'border-slate-200 text-slate-700 hover:border-neo4j-blue' : 'border-dashed border-slate-300 text-slate-400 line-through'
+  )
+
+  return (
+    <div className={cn('h-full bg-white rounded-lg border border-slate-200 overflow-hidden flex flex-col', className)}>
+      <div className="px-4 py-3 border-b border-slate-200">
+        <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+          <Filter className="w-4 h-4 text-neo4j-blue" />
+          Search and filter
+        </h3>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 scrollbar-thin text-xs">
+        <section className="space-y-2">
+          <div className="relative">
+            <Search className="w-3.5 h-3.5 text-slate-400 absolute left-2 top-1/2 -translate-y-1/2" />
+            <input
+              ref={searchRef}
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && matches[0]) onFocusNode(matches[0].node)
+                else moveFocus(e, -1)
+              }}
+              placeholder="Search labels and properties…"
+              className="w-full rounded-lg border border-slate-300 pl-7 pr-2 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-neo4j-blue"
+              aria-label="Search nodes"
+            />
+          </div>
+          {query.trim() && (
+            <>
+              <div className="flex items-center justify-between text-slate-500">
+                <span>{matches.length === 0 ? 'No matches' : `${matches.length}${matches.length === SEARCH_LIMIT ? '+' : ''} matches`}</span>
+                {matches.length > 0 && (
+                  <button
+                    onClick={() => onHighlightMatches(matches.map(match => match.node))}
+                    className="flex items-center gap-1 text-neo4j-purple hover:underline"
+                  >
+                    <Highlighter className="w-3 h-3" />
+                    Highlight all
+                  </button>
+                )}
+              </div>
+              <ul ref={resultsRef} className="space-y-1" aria-label="Search results">
+                {matches.map((match, index) => (
+                  <li key={match.node.id}>
+                    <button
+                      onClick={() => onFocusNode(match.node)}
+                      onKeyDown={(e) => moveFocus(e, index)}
+                      className={cn(
+                        'w-full text-left rounded-lg border border-slate-200 px-2 py-1.5 hover:border-neo4j-blue hover:bg-slate-50 focus:outline-none focus:ring-2 focus:ring-neo4j-blue',
+                        !result.nodeIds.has(match.node.id) && 'opacity-60'
+                      )}
+                      title={result.nodeIds.has(match.node.id) ? undefined : 'Filtered out'}
+                    >
+                      <span className="flex items-center gap-1.5 font-medium text-slate-900">
+                        <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: nodeColor(match.node) }} />
+                        <span className="truncate">{match.node.label}</span>
+                      </span>
+                      {match.field !== 'label' && (
+                        <span className="block truncate text-slate-500">
+                          <span className="font-mono">{match.field}</span>: {match.value}
+                        </span>
+                      )}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </>
+          )}
+        </section>
+
+        {filter.schema && (
+          <section>
+            <p className="font-medium text-slate-700 mb-1.5">Schema element</p>
+            <span className="inline-flex items-center gap-1 rounded-full bg-neo4j-blue/10 px-2 py-0.5 font-mono text-neo4j-blue">
+              {describeSchemaElement(filter.schema)}
+              <button onClick={() => onFilterChange({ ...filter, schema: null })} aria-label="Clear schema element">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          </section>
+        )}
+
+        <section>
+          <p className="font-medium text-slate-700 mb-1.5">Labels</p>
+          <div className="flex flex-wrap gap-1">
+            {legend.map(({ label, color, count }) => {
+              const shown = !filter.hiddenLabels.includes(label)
+              return (
+                <button
+                  key={label}
+                  onClick={() => onFilterChange({ ...filter, hiddenLabels: toggle(filter.hiddenLabels, label) })}
+                  aria-pressed={shown}
+                  className={chip(shown)}
+                >
+                  <span className="w-2 h-2 rounded-full" style={{ backgroundColor: color }} />
+                  {label} ({count})
+                </button>
+              )
+            })}
+          </div>
+        </section>
+
+        {relationshipTypes.length > 0 && (
+          <section>
+            <p className="font-medium text-slate-700 mb-1.5">Relationship types</p>
+            <div className="flex flex-wrap gap-1">
+              {relationshipTypes.map(([type, count]) => {
+                const shown = !filter.hiddenRelationshipTypes.includes(type)
+                return (
+                  <button
+                    key={type}
+                    onClick={() => onFilterChange({ ...filter, hiddenRelationshipTypes: toggle(filter.hiddenRelationshipTypes, type) })}
+                    aria-pressed={shown}
+                    className={cn(chip(shown), 'font-mono')}
+                  >
+                    {type} ({count})
+                  </button>
+                )
+              })}
+            </div>
+          </section>
+        )}
+
+        <section className="space-y-1.5">
+          <p className="font-medium text-slate-700">Property conditions</p>
+          <div className="flex gap-1">
+            <input
+              value={predicateText}
+              onChange={(e) => {
+                setPredicateText(e.target.value)
+                setPredicateError(null)
+              }}
+              onKeyDown={(e) => e.key === 'Enter' && addPredicate()}
+              list="filter-property-keys"
+              placeholder="severity = high, has achievement"
+              className="flex-1 min-w-0 rounded border border-slate-300 px-2 py-1 font-mono focus:outline-none focus:ring-2 focus:ring-neo4j-blue"
+              aria-label="Property condition"
+            />
+            <datalist id="filter-property-keys">
+              {propertyKeys.flatMap(key => [
+                <option key={`has-${key}`} value={`has ${key}`} />,
+                <option key={`eq-${key}`} value={`${key} = `} />
+              ])}
+            </datalist>
+            <button
+              onClick={addPredicate}
+              disabled={!predicateText.trim()}
+              className="p-1.5 rounded border border-slate-200 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              aria-label="Add condition"
+            >
+              <Plus className="w-3.5 h-3.5 text-neo4j-blue" />
+            </button>
+          </div>
+          {predicateError && <p className="text-red-600">{predicateError}</p>}
+          {filter.predicates.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {filter.predicates.map((predicate, index) => (
+                <span
+                  key={`${describePredicate(predicate)}-${index}`}
+                  className="flex items-center gap-1 rounded-full bg-neo4j-blue/10 px-2 py-0.5 font-mono text-neo4j-blue"
+                >
+                  {describePredicate(predicate)}
+                  <button
+                    onClick={() => onFilterChange({ ...filter, predicates: filter.predicates.filter((_, i) => i !== index) })}
+                    aria-label={`Remove condition ${describePredicate(predicate)}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </section>
+
+        <section>
+          <label className="block font-medium text-slate-700">
+            <span className="flex justify-between">
+              Minimum relationships
+              <span className="font-mono text-slate-500">{filter.minDegree}</span>
+            </span>
+            <input
+              type="range"
+              min={0}
+              max={Math.max(maxDegree, 1)}
+              value={Math.min(filter.minDegree, Math.max(maxDegree, 1))}
+              onChange={(e) => onFilterChange({ ...filter, minDegree: Number(e.target.value) })}
+              className="w-full accent-neo4j-blue"
+            />
+          </label>
+        </section>
+
+        <section className="space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="text-slate-700">Filtered out</span>
+            <div className="flex rounded-lg border border-slate-200 p-0.5" role="radiogroup" aria-label="Filtered-out elements">
+              {(Object.keys(filterModes) as FilterMode[]).map(mode => (
+                <button
+                  key={mode}
+                  role="radio"
+                  aria-checked={filter.mode === mode}
+                  onClick={() => onFilterChange({ ...filter, mode })}
+                  className={cn(
+                    'px-2 py-0.5 rounded-md transition-colors',
+                    filter.mode === mode ? 'bg-neo4j-blue text-white' : 'text-slate-600 hover:bg-slate-100'
+                  )}
+                >
+                  {filterModes[mode]}
+                </button>
+              ))}
+            </div>
+          </div>
+          <label className="flex items-center gap-2 text-slate-700">
+            <input
+              type="checkbox"
+              checked={filter.limitRetrieval}
+              onChange={(e) => onFilterChange({ ...filter, limitRetrieval: e.target.checked })}
+              className="accent-neo4j-blue"
+            />
+            Only retrieve filtered nodes in chat
+          </label>
+        </section>
+      </div>
+
+      <div className="flex items-center justify-between gap-2 border-t border-slate-200 px-4 py-2 text-xs text-slate-600">
+        <span>
+          {result.nodeIds.size} of {data.nodes.length} nodes · {result.relationshipIds.size} of {data.relationships.length} relationships
+        </span>
+        <button
+          onClick={() => onFilterChange({ ...defaultGraphFilter, mode: filter.mode, limitRetrieval: filter.limitRetrieval })}
+          disabled={!isFilterActive(filter)}
+          className="flex items-center gap-1 rounded border border-slate-200 px-2 py-1 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <RotateCcw className="w-3 h-3" />
+          Reset
+        </button>
+      </div>
+    </div>
+  )
+}
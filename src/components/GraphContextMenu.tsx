@@ -0,0 +1,180 @@
+import { useEffect, useRef, useState, type FormEvent } from 'react'
+import { ArrowRight, Pencil, Plus, Trash2 } from 'lucide-react'
+import type { GraphNode, GraphRelationship } from '../types'
+import type { GraphContextTarget } from './GraphVisualization'
+import type { Point } from '../lib/layout'
+import { cn } from '../lib/utils'
+
+/** A right-click on the graph, or a Shift-drag waiting for its relationship type */
+export type GraphMenu =
+  | { kind: 'target'; target: GraphContextTarget }
+  | { kind: 'connect'; source: GraphNode; target: GraphNode; clientX: number; clientY: number }
+
+interface GraphContextMenuProps {
+  menu: GraphMenu
+  /** Existing labels and relationship types, offered as suggestions */
+  labels: string[]
+  relationshipTypes: string[]
+  onAddNode: (caption: string, label: string, position: Point) => void
+  onConnect: (source: GraphNode, target: GraphNode, type: string) => void
+  onEditNode: (node: GraphNode) => void
+  onDeleteNode: (node: GraphNode) => void
+  onDeleteRelationship: (relationship: GraphRelationship) => void
+  onClose: () => void
+}
+
+const MENU_WIDTH = 256
+
+/**
+ * Menu opened at the pointer: adds a node on the background, edits or
+ * deletes a node or relationship, or names the relationship a Shift-drag
+ * is about to create. Escape or a click elsewhere closes it
+ */
+export function GraphContextMenu({
+  menu,
+  labels,
+  relationshipTypes,
+  onAddNode,
+  onConnect,
+  onEditNode,
+  onDeleteNode,
+  onDeleteRelationship,
+  onClose
+}: GraphContextMenuProps) {
+  const menuRef = useRef<HTMLDivElement>(null)
+  const [caption, setCaption] = useState('')
+  const [label, setLabel] = useState(labels[0] ?? 'Concept')
+  const [type, setType] = useState(relationshipTypes[0] ?? 'RELATED_TO')
+
+  useEffect(() => {
+    const closeOutside = (event: MouseEvent) => {
+      if (!menuRef.current?.contains(event.target as Node)) onClose()
+    }
+    const closeOnEscape = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose()
+    }
+    document.addEventListener('mousedown', closeOutside)
+    document.addEventListener('keydown', closeOnEscape)
+    return () => {
+      document.removeEventListener('mousedown', closeOutside)
+      document.removeEventListener('keydown', closeOnEscape)
+    }
+  }, [onClose])
+
+  const { clientX, clientY } = menu.kind === 'connect' ? menu : menu.target
+  const style = {
+    left: Math.max(8, Math.min(clientX, window.innerWidth - MENU_WIDTH - 8)),
+    top: Math.max(8, Math.min(clientY, window.innerHeight - 220)),
+    width: MENU_WIDTH
+  }
+
+  const inputClass = 'w-full rounded border border-slate-200 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-neo4j-blue'
+  const itemClass = 'w-full flex items-center gap-2 rounded px-2 py-1.5 text-left text-sm text-slate-700 hover:bg-slate-100'
+
+  const submitNode = (event: FormEvent) => {
+    event.preventDefault()
+    if (menu.kind !== 'target' || !caption.trim() || !label.trim()) return
+    onAddNode(caption.trim(), label.trim(), menu.target.position)
+  }
+
+  const submitRelationship = (event: FormEvent) => {
+    event.preventDefault()
+    if (menu.kind !== 'connect' || !type.trim()) return
+    onConnect(menu.source, menu.target, type.trim())
+  }
+
+  const { node, relationship } = menu.kind === 'target' ? menu.target : {}
+
+  return (
+    <div
+      ref={menuRef}
+      role="menu"
+      className="fixed z-50 bg-white rounded-lg border border-slate-200 shadow-lg p-2 text-sm"
+      style={style}
+      onContextMenu={event => event.preventDefault()}
+    >
+      {menu.kind === 'connect' && (
+        <form onSubmit={submitRelationship} className="space-y-2 p-1">
+          <p className="text-xs text-slate-600 flex items-center gap-1 flex-wrap">
+            <span className="font-medium text-slate-900">{menu.source.label}</span>
+            <ArrowRight className="w-3 h-3" />
+            <span className="font-medium text-slate-900">{menu.target.label}</span>
+          </p>
+          <input
+            value={type}
+            onChange={event => setType(event.target.value)}
+            list="context-menu-relationship-types"
+            className={cn(inputClass, 'font-mono')}
+            aria-label="Relationship type"
+            autoFocus
+          />
+          <datalist id="context-menu-relationship-types">
+            {relationshipTypes.map(option => <option key={option} value={option} />)}
+          </datalist>
+          <button type="submit" className="w-full rounded-lg bg-neo4j-blue text-white px-3 py-1.5 text-xs font-medium hover:bg-neo4j-blue/90">
+            Create relationship
+          </button>
+        </form>
+      )}
+
+      {menu.kind === 'target' && node && (
+        <>
+          <div className="px-2 py-1 text-xs font-medium text-slate-500 truncate">{node.label}</div>
+          <button role="menuitem" className={itemClass} onClick={() => onEditNode(node)}>
+            <Pencil className="w-4 h-4 text-neo4j-blue" />
+            Edit node
+          </button>
+          <button role="menuitem" className={cn(itemClass, 'text-red-600')} onClick={() => onDeleteNode(node)}>
+            <Trash2 className="w-4 h-4" />
+            Delete node and its relationships
+          </button>
+        </>
+      )}
+
+      {menu.kind === 'target' && relationship && (
+        <>
+          <div className="px-2 py-1 text-xs font-mono text-slate-500">{relationship.type}</div>
+          <button role="menuitem" className={cn(itemClass, 'text-red-600')} onClick={() => onDeleteRelationship(relationship)}>
+            <Trash2 className="w-4 h-4" />
+            Delete relationship
+          </button>
+        </>
+      )}
+
+      {menu.kind === 'target' && !node && !relationship && (
+        <form onSubmit={submitNode} className="space-y-2 p-1">
+          <p className="text-xs font-medium text-slate-700 flex items-center gap-1">
+            <Plus className="w-3 h-3 text-neo4j-green" />
+            Add node here
+          </p>
+          <input
+            value={caption}
+            onChange={event => setCaption(event.target.value)}
+            placeholder="Caption"
+            className={inputClass}
+            aria-label="Caption"
+            autoFocus
+          />
+          <input
+            value={label}
+            onChange={event => setLabel(event.target.value)}
+            list="context-menu-labels"
+            placeholder="Label"
+            className={inputClass}
+            aria-label="Label"
+          />
+          <datalist id="context-menu-labels">
+            {labels.map(option => <option key={option} value={option} />)}
+          </datalist>
+          <button
+            type="submit"
+            disabled={!caption.trim() || !label.trim()}
+            className="w-full rounded-lg bg-neo4j-blue text-white px-3 py-1.5 text-xs font-medium hover:bg-neo4j-blue/90 disabled:opacity-50"
+          >
+            Add node
+          </button>
+        </form>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,50 @@
+import type { LabelStyle } from '../lib/styles'
+import { cn } from '../lib/utils'
+
+interface GraphLegendProps {
+  legend: LabelStyle[]
+  /** Labels filtered out of the graph */
+  hiddenLabels?: string[]
+  /** Makes each entry a toggle that filters its label out or back in */
+  onToggle?: (label: string) => void
+  className?: string
+}
+
+/**
+ * Label colours and node counts, overlaid on the graph renderers
+ */
+export function GraphLegend({ legend, hiddenLabels = [], onToggle, className }: GraphLegendProps) {
+  return (
+    <div className={cn('absolute top-4 right-4 max-h-64 overflow-y-auto scrollbar-thin bg-white/90 backdrop-blur-sm rounded-lg border border-slate-200 p-3 text-xs', className)}>
+      <div className="font-semibold mb-2 text-slate-700">Labels</div>
+      {legend.map(({ label, color, count }) => {
+        const hidden = hiddenLabels.includes(label)
+        const content = (
+          <>
+            <div
+              className={cn('w-3 h-3 rounded-full', hidden && 'opacity-30')}
+              style={{ backgroundColor: color }}
+            />
+            <span className={cn('text-slate-600', hidden && 'line-through text-slate-400')}>{label}</span>
+            <span className="ml-auto pl-2 text-slate-400">{count}</span>
+          </>
+        )
+        return onToggle ? (
+          <button
+            key={label}
+            onClick={() => onToggle(label)}
+            aria-pressed={!hidden}
+            title={hidden ? `Show ${label} nodes` : `Filter out ${label} nodes`}
+            className="w-full flex items-center gap-2 mb-1 rounded px-1 -mx-1 text-left hover:bg-slate-100"
+          >
+            {content}
+          </button>
+        ) : (
+          <div key={label} className="flex items-center gap-2 mb-1">
+            {content}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
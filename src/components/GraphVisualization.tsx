@@ -1,14 +1,79 @@
-import { useEffect, useRef, useState } from 'react'
+import { useEffect, useImperativeHandle, useMemo, useRef, useState, type Ref } from 'react'
 import * as d3 from 'd3'
-import type { GraphData, GraphNode } from '../types'
+import type { GraphData, GraphNode, GraphRelationship } from '../types'
 import { cn } from '../lib/utils'
+import { endpointId } from '../lib/graph'
+import { serializeGraphSvg, type StandaloneSvg } from '../lib/exporters'
+import { configureForces, defaultLayoutSettings, layoutTargets, type LayoutSettings, type Point } from '../lib/layout'
+import { graphLegend, nodeColor, NODE_RADIUS } from '../lib/styles'
+import type { FilterMode } from '../lib/filters'
+import { GraphLegend } from './GraphLegend'
 
-interface GraphVisualizationProps {
+/** Imperative API exposed through the component's ref */
+export interface GraphVisualizationHandle {
+  /** Standalone SVG of the whole graph, including the legend */
+  exportSvg: () => StandaloneSvg
+  /** Current position of every laid out node */
+  getPositions: () => Record<string, Point>
+  /** Moves nodes to the given positions, e.g. from a saved layout */
+  setPositions: (positions: Record<string, Point>) => void
+  /** Pans (and zooms in if needed) to centre a node */
+  focusNode: (id: string) => void
+}
+
+/** What a context menu was opened on; neither node nor relationship means the background */
+export interface GraphContextTarget {
+  node?: GraphNode
+  relationship?: GraphRelationship
+  /** Clicked point in layout coordinates, where a new node would go */
+  position: Point
+  /** Clicked point on screen, where the menu opens */
+  clientX: number
+  clientY: number
+}
+
+/** Props shared by the SVG and canvas renderers */
+export interface GraphVisualizationProps {
   data: GraphData
   selectedNode: GraphNode | null
   onNodeSelect: (node: GraphNode | null) => void
+  /** Called when a node is double-clicked, to merge in its neighbours */
+  onNodeExpand?: (node: GraphNode) => void
   highlightedNodes?: string[]
+  /**
+   * Relationships to emphasise, e.g. the hops of a path
+   * Without them every relationship between highlighted nodes is emphasised
+   */
+  highlightedRelationships?: string[]
+  /** Relationships drawn bolder and always labelled, e.g. an answer's reasoning path */
+  emphasizedRelationships?: string[]
+  /** Nodes and relationships left out by the search and filter panel */
+  filteredOutNodes?: string[]
+  filteredOutRelationships?: string[]
+  /** Whether filtered-out elements are hidden or drawn faintly */
+  filterMode?: FilterMode
+  /** Labels filtered out, shown struck through in the legend */
+  hiddenLabels?: string[]
+  /** Turns legend entries into toggles that filter their label */
+  onLabelToggle?: (label: string) => void
+  /** Radius per node id, e.g. sized by a metric; other nodes keep the default */
+  nodeSizes?: Record<string, number>
+  /** Fill per node id, replacing the colour of its label */
+  nodeColors?: Record<string, string>
+  /** Called on right-click instead of the browser menu */
+  onContextMenu?: (target: GraphContextTarget) => void
+  /** Enables Shift-dragging from one node onto another to connect them */
+  onConnect?: (source: GraphNode, target: GraphNode, clientX: number, clientY: number) => void
+  /** Layout algorithm and its parameters, force-directed by default */
+  layout?: LayoutSettings
+  /** Nodes held in place, with their positions */
+  pinnedNodes?: Record<string, Point>
+  /** Called with the new pins when dropping a dragged node pins it */
+  onPinnedNodesChange?: (pinned: Record<string, Point>) => void
+  /** Leaves out the legend and controls hint, for small embedded views */
+  compact?: boolean
   className?: string
+  ref?: Ref<GraphVisualizationHandle>
 }
 
 // D3 simulation node type - GraphNode already has all required simulation properties
@@ -21,23 +86,26 @@ type SimulationNode = GraphNode
 // - After init: node object references
 type SimulationLink = d3.SimulationLinkDatum<SimulationNode>
 
-// Color mapping for node types - using Neo4j brand colors
-const nodeColors: Record<string, string> = {
-  Person: '#FF6B6B',
-  Company: '#4ECDC4',
-  Technology: '#008CC1', // Neo4j blue
-  Concept: '#9C27B0', // Neo4j purple
-  Document: '#95E1D3'
+/** Selections created for the current graph, restyled without rebuilding */
+interface Elements {
+  link: d3.Selection<SVGLineElement, GraphRelationship, SVGGElement, unknown>
+  linkLabel: d3.Selection<SVGTextElement, GraphRelationship, SVGGElement, unknown>
+  node: d3.Selection<SVGGElement, SimulationNode, SVGGElement, unknown>
 }
 
 /**
  * Interactive graph visualization using D3.js force simulation
  *
  * Key features demonstrated:
- * - Force-directed layout for natural clustering
+ * - Force-directed, hierarchical, radial, circular and grid layouts
  * - Interactive node selection and exploration
+ * - Double-click expansion, with new nodes growing out of their neighbours
+ * - Dragging a node pins it in place; Shift-dragging onto another connects them
+ * - Right-click menus for the background, nodes and relationships
  * - Zoom and pan controls
  * - Highlight paths for RAG context visualization
+ * - Filtered-out elements hidden or dimmed, with the legend as label toggles
+ * - Nodes sized and coloured by a metric
  * - Responsive canvas sizing
  * - Accessible keyboard navigation
  */
@@ -45,11 +113,93 @@ export function GraphVisualization({
   data,
   selectedNode,
   onNodeSelect,
+  onNodeExpand,
   highlightedNodes = [],
-  className
+  highlightedRelationships,
+  emphasizedRelationships,
+  filteredOutNodes,
+  filteredOutRelationships,
+  filterMode = 'dim',
+  hiddenLabels,
+  onLabelToggle,
+  nodeSizes,
+  nodeColors,
+  onContextMenu,
+  onConnect,
+  layout = defaultLayoutSettings,
+  pinnedNodes,
+  onPinnedNodesChange,
+  compact = false,
+  className,
+  ref
 }: GraphVisualizationProps) {
   const svgRef = useRef<SVGSVGElement>(null)
+  const zoomRef = useRef<d3.ZoomBehavior<SVGSVGElement, unknown> | null>(null)
+  const simulationRef = useRef<d3.Simulation<SimulationNode, SimulationLink> | null>(null)
+  const elementsRef = useRef<Elements | null>(null)
+  const callbacksRef = useRef({
+    onNodeSelect,
+    onNodeExpand,
+    onPinnedNodesChange,
+    onContextMenu,
+    onConnect,
+    selectedId: selectedNode?.id,
+    pinnedNodes
+  })
   const [dimensions, setDimensions] = useState({ width: 800, height: 600 })
+  const legend = useMemo(() => graphLegend(data), [data])
+
+  const focusId = layout.kind === 'radial' ? selectedNode?.id : undefined
+  const targets = useMemo(
+    () => layoutTargets(data, layout, {
+      center: { x: dimensions.width / 2, y: dimensions.height / 2 },
+      focusId
+    }),
+    [data, layout, dimensions, focusId]
+  )
+
+  useImperativeHandle(ref, () => ({
+    exportSvg: () => {
+      if (!svgRef.current) throw new Error('The graph is not rendered yet')
+      return serializeGraphSvg(svgRef.current, legend)
+    },
+    getPositions: () => Object.fromEntries(data.nodes.flatMap(node =>
+      node.x === undefined || node.y === undefined ? [] : [[node.id, { x: node.x, y: node.y }]]
+    )),
+    setPositions: positions => {
+      data.nodes.forEach(node => {
+        const position = positions[node.id]
+        if (!position) return
+        node.x = position.x
+        node.y = position.y
+        node.vx = 0
+        node.vy = 0
+      })
+      simulationRef.current?.alpha(0.05).restart()
+    },
+    focusNode: id => {
+      const node = data.nodes.find(n => n.id === id)
+      if (!svgRef.current || !zoomRef.current || node?.x === undefined || node.y === undefined) return
+      const svg = d3.select(svgRef.current)
+      const scale = Math.max(d3.zoomTransform(svgRef.current).k, 1)
+      svg.transition().duration(500).call(
+        zoomRef.current.transform,
+        d3.zoomIdentity.translate(dimensions.width / 2, dimensions.height / 2).scale(scale).translate(-node.x, -node.y)
+      )
+    }
+  }), [data, legend, dimensions])
+
+  useEffect(() => {
+    callbacksRef.current = {
+      onNodeSelect,
+      onNodeExpand,
+      onPinnedNodesChange,
+      onContextMenu,
+      onConnect,
+      selectedId: selectedNode?.id,
+      pinnedNodes
+    }
+  }, [onNodeSelect, onNodeExpand, onPinnedNodesChange, onContextMenu, onConnect, selectedNode, pinnedNodes])
 
   useEffect(() => {
     // Update dimensions on resize
@@ -65,16 +215,16 @@ export function GraphVisualization({
     return () => window.removeEventListener('resize', updateDimensions)
   }, [])
 
+  // Elements and simulation are rebuilt only when the graph itself changes
   useEffect(() => {
     if (!svgRef.current || !data.nodes.length) return
 
     const svg = d3.select(svgRef.current)
     svg.selectAll('*').remove()
 
-    const { width, height } = dimensions
-
-    // Create main group for zoom/pan
+    // Create main group for zoom/pan, keeping the current view when the graph grows
     const g = svg.append('g')
+      .attr('transform', d3.zoomTransform(svgRef.current).toString())
 
     // Setup zoom behavior
     const zoom = d3.zoom<SVGSVGElement, unknown>()
@@ -83,54 +233,44 @@ export function GraphVisualization({
         g.attr('transform', event.transform)
       })
 
-    svg.call(zoom)
+    svg.call(zoom).on('dblclick.zoom', null)
+    zoomRef.current = zoom
+
+    // Nodes added to a graph that is already laid out start next to a placed
+    // neighbour and fade in, so an expansion grows out of the expanded node
+    const byId = new Map(data.nodes.map(node => [node.id, node]))
+    const hasPlacedNodes = data.nodes.some(node => node.x !== undefined)
+    const fresh = new Set(hasPlacedNodes ? data.nodes.filter(node => node.x === undefined).map(node => node.id) : [])
+    data.relationships.forEach(rel => {
+      const source = byId.get(endpointId(rel.source))
+      const target = byId.get(endpointId(rel.target))
+      if (!source || !target) return
+      const [anchor, node] = source.x === undefined ? [target, source] : [source, target]
+      if (anchor.x === undefined || anchor.y === undefined || node.x !== undefined) return
+      node.x = anchor.x + (Math.random() - 0.5) * 40
+      node.y = anchor.y + (Math.random() - 0.5) * 40
+    })
 
-    // Create force simulation
-    const simulation = d3.forceSimulation<SimulationNode>(data.nodes)
-      .force('link', d3.forceLink<SimulationNode, SimulationLink>(data.relationships)
-        .id((d) => d.id)
-        .distance(100))
-      .force('charge', d3.forceManyBody().strength(-300))
-      .force('center', d3.forceCenter(width / 2, height / 2))
-      .force('collision', d3.forceCollide().radius(40))
+    // Forces are set by the layout effect below
+    const simulation = d3.forceSimulation<SimulationNode, SimulationLink>(data.nodes)
+    simulationRef.current = simulation
 
     // Draw relationships
     const link = g.append('g')
-      .selectAll('line')
+      .selectAll<SVGLineElement, GraphRelationship>('line')
       .data(data.relationships)
       .join('line')
-      .attr('stroke', d =>
-        highlightedNodes.includes(d.source as string) && highlightedNodes.includes(d.target as string)
-          ? '#008CC1'
-          : '#cbd5e1'
-      )
-      .attr('stroke-width', d =>
-        highlightedNodes.includes(d.source as string) && highlightedNodes.includes(d.target as string)
-          ? 3
-          : 1.5
-      )
-      .attr('stroke-opacity', d =>
-        highlightedNodes.length === 0 ||
-        (highlightedNodes.includes(d.source as string) && highlightedNodes.includes(d.target as string))
-          ? 0.6
-          : 0.1
-      )
+      .on('contextmenu', (event: MouseEvent, d) => openContextMenu(event, { relationship: d }))
 
     // Draw relationship labels
     const linkLabel = g.append('g')
-      .selectAll('text')
+      .selectAll<SVGTextElement, GraphRelationship>('text')
       .data(data.relationships)
       .join('text')
       .attr('class', 'text-[10px] fill-slate-600 pointer-events-none')
       .attr('text-anchor', 'middle')
       .attr('dy', -5)
       .text(d => d.type.replace(/_/g, ' '))
-      .attr('opacity', d =>
-        highlightedNodes.length === 0 ||
-        (highlightedNodes.includes(d.source as string) && highlightedNodes.includes(d.target as string))
-          ? 0.7
-          : 0
-      )
 
     // Draw nodes
     const node = g.append('g')
@@ -145,26 +285,22 @@ export function GraphVisualization({
 
     // Node circles
     node.append('circle')
-      .attr('r', d => selectedNode?.id === d.id ? 28 : 20)
-      .attr('fill', d => nodeColors[d.type] || '#94a3b8')
-      .attr('stroke', d => selectedNode?.id === d.id ? '#1e293b' : '#fff')
-      .attr('stroke-width', d => selectedNode?.id === d.id ? 3 : 2)
-      .attr('opacity', d =>
-        highlightedNodes.length === 0 || highlightedNodes.includes(d.id) ? 1 : 0.2
-      )
+      .attr('class', 'node')
       .on('click', (event, d) => {
         event.stopPropagation()
-        onNodeSelect(selectedNode?.id === d.id ? null : d)
+        const { onNodeSelect, selectedId } = callbacksRef.current
+        onNodeSelect(selectedId === d.id ? null : d)
+      })
+      .on('dblclick', (event, d) => {
+        event.stopPropagation()
+        callbacksRef.current.onNodeExpand?.(d)
       })
+      .on('contextmenu', (event: MouseEvent, d) => openContextMenu(event, { node: d }))
 
     // Node labels
     node.append('text')
-      .attr('dy', 35)
+      .attr('class', 'caption text-xs font-medium fill-slate-700 pointer-events-none')
       .attr('text-anchor', 'middle')
-      .attr('class', 'text-xs font-medium fill-slate-700 pointer-events-none')
-      .attr('opacity', d =>
-        highlightedNodes.length === 0 || highlightedNodes.includes(d.id) ? 1 : 0.2
-      )
       .text(d => d.label)
 
     // Node type badges
@@ -174,22 +310,82 @@ export function GraphVisualization({
       .attr('class', 'text-[10px] font-bold fill-white pointer-events-none')
       .text(d => d.type.charAt(0))
 
+    // Pin marker, shown for pinned nodes
+    node.append('circle')
+      .attr('class', 'pin pointer-events-none')
+      .attr('r', 4)
+      .attr('fill', '#1e293b')
+      .attr('stroke', '#fff')
+      .attr('stroke-width', 1.5)
+      .attr('display', 'none')
+
+    elementsRef.current = { link, linkLabel, node }
+
+    if (fresh.size > 0) {
+      const isFresh = (rel: GraphRelationship) =>
+        fresh.has(endpointId(rel.source)) || fresh.has(endpointId(rel.target))
+      // Transitioning the inline style to null ends on the opacity set by the style effect below
+      node.filter(d => fresh.has(d.id)).style('opacity', 0).transition().duration(600).style('opacity', null)
+      link.filter(isFresh).style('opacity', 0).transition().duration(600).style('opacity', null)
+      linkLabel.filter(isFresh).style('opacity', 0).transition().duration(600).style('opacity', null)
+    }
+
+    function openContextMenu(event: MouseEvent, target: Pick<GraphContextTarget, 'node' | 'relationship'>) {
+      const { onContextMenu } = callbacksRef.current
+      if (!onContextMenu) return
+      event.preventDefault()
+      event.stopPropagation()
+      const [x, y] = d3.pointer(event, g.node())
+      onContextMenu({ ...target, position: { x, y }, clientX: event.clientX, clientY: event.clientY })
+    }
+
+    // Line drawn while Shift-dragging from a node to connect it
+    const connector = g.append('line')
+      .attr('stroke', '#008CC1')
+      .attr('stroke-width', 2)
+      .attr('stroke-dasharray', '6 4')
+      .attr('pointer-events', 'none')
+      .attr('display', 'none')
+    let connecting = false
+
     // Drag handlers
     function dragstarted(event: d3.D3DragEvent<SVGGElement, SimulationNode, SimulationNode>, d: SimulationNode) {
+      connecting = Boolean(callbacksRef.current.onConnect && (event.sourceEvent as MouseEvent).shiftKey)
+      if (connecting) {
+        connector.attr('display', null)
+          .attr('x1', d.x ?? 0).attr('y1', d.y ?? 0)
+          .attr('x2', d.x ?? 0).attr('y2', d.y ?? 0)
+        return
+      }
       if (!event.active) simulation.alphaTarget(0.3).restart()
       d.fx = d.x
       d.fy = d.y
     }
 
     function dragged(event: d3.D3DragEvent<SVGGElement, SimulationNode, SimulationNode>, d: SimulationNode) {
+      if (connecting) {
+        connector.attr('x2', event.x).attr('y2', event.y)
+        return
+      }
       d.fx = event.x
       d.fy = event.y
     }
 
+    // Dropped nodes stay pinned where they were left; a connecting drag
+    // ends on the node under the pointer, if any
     function dragended(event: d3.D3DragEvent<SVGGElement, SimulationNode, SimulationNode>, d: SimulationNode) {
+      if (connecting) {
+        connecting = false
+        connector.attr('display', 'none')
+        const target = data.nodes.find(other => other !== d &&
+          Math.hypot((other.x ?? 0) - event.x, (other.y ?? 0) - event.y) <= 28)
+        const { clientX, clientY } = event.sourceEvent as MouseEvent
+        if (target) callbacksRef.current.onConnect?.(d, target, clientX, clientY)
+        return
+      }
       if (!event.active) simulation.alphaTarget(0)
-      d.fx = null
-      d.fy = null
+      const { onPinnedNodesChange, pinnedNodes } = callbacksRef.current
+      onPinnedNodesChange?.({ ...pinnedNodes, [d.id]: { x: d.fx ?? event.x, y: d.fy ?? event.y } })
     }
 
     // Update positions on simulation tick
@@ -208,13 +404,110 @@ export function GraphVisualization({
     })
 
     // Click on background to deselect
-    svg.on('click', () => onNodeSelect(null))
+    svg.on('click', () => callbacksRef.current.onNodeSelect(null))
+    svg.on('contextmenu', (event: MouseEvent) => openContextMenu(event, {}))
 
     // Cleanup
     return () => {
       simulation.stop()
+      simulationRef.current = null
+      elementsRef.current = null
+      zoomRef.current = null
     }
-  }, [data, dimensions, selectedNode, highlightedNodes, onNodeSelect])
+  }, [data])
+
+  // Layout changes re-target the running simulation instead of restarting it
+  useEffect(() => {
+    const simulation = simulationRef.current
+    if (!simulation) return
+    configureForces(simulation, {
+      settings: layout,
+      links: data.relationships as SimulationLink[],
+      center: { x: dimensions.width / 2, y: dimensions.height / 2 },
+      target: targets ? node => targets.get(node.id) : null,
+      nodeId: node => node.id
+    })
+    simulation.alpha(Math.max(simulation.alpha(), 0.5)).restart()
+  }, [data, layout, targets, dimensions])
+
+  // Pinned nodes are fixed in place; all others move freely
+  useEffect(() => {
+    const simulation = simulationRef.current
+    const elements = elementsRef.current
+    if (!simulation || !elements) return
+    data.nodes.forEach(node => {
+      const pin = pinnedNodes?.[node.id]
+      node.fx = pin?.x ?? null
+      node.fy = pin?.y ?? null
+    })
+    elements.node.select('circle.pin').attr('display', d => (pinnedNodes?.[d.id] ? null : 'none'))
+    simulation.alpha(Math.max(simulation.alpha(), 0.1)).restart()
+  }, [data, pinnedNodes])
+
+  // Selection, highlights and metric styling only restyle
+  useEffect(() => {
+    const elements = elementsRef.current
+    if (!elements) return
+    const { link, linkLabel, node } = elements
+
+    // The link force has replaced endpoint ids with node objects by now
+    const nodeIds = new Set(highlightedNodes)
+    const relationshipIds = highlightedRelationships ? new Set(highlightedRelationships) : null
+    const emphasized = new Set(emphasizedRelationships)
+    const nodesOut = new Set(filteredOutNodes)
+    const linksOut = new Set(filteredOutRelationships)
+    const hiding = filterMode === 'hide'
+    const isHighlighted = (d: GraphRelationship) => relationshipIds
+      ? relationshipIds.has(d.id)
+      : nodeIds.has(endpointId(d.source)) && nodeIds.has(endpointId(d.target))
+
+    // Hidden elements keep their place in the layout, so toggling filters doesn't reshuffle it
+    link.attr('display', d => (hiding && linksOut.has(d.id) ? 'none' : null))
+    linkLabel.attr('display', d => (hiding && linksOut.has(d.id) ? 'none' : null))
+    node.attr('display', d => (hiding && nodesOut.has(d.id) ? 'none' : null))
+
+    link
+      .attr('stroke', d => emphasized.has(d.id) ? '#9C27B0' : isHighlighted(d) ? '#008CC1' : '#cbd5e1')
+      .attr('stroke-width', d => emphasized.has(d.id) ? 4 : isHighlighted(d) ? 3 : 1.5)
+      .attr('stroke-opacity', d =>
+        linksOut.has(d.id) ? 0.05 : emphasized.has(d.id) ? 0.9 : nodeIds.size === 0 || isHighlighted(d) ? 0.6 : 0.1
+      )
+
+    linkLabel
+      .attr('opacity', d =>
+        linksOut.has(d.id) ? 0 : emphasized.has(d.id) ? 1 : nodeIds.size === 0 || isHighlighted(d) ? 0.7 : 0
+      )
+      .style('fill', d => (emphasized.has(d.id) ? '#9C27B0' : null))
+      .style('font-weight', d => (emphasized.has(d.id) ? '600' : null))
+
+    // Sizes and colours set here, as they can follow a metric
+    const radius = (d: SimulationNode) => nodeSizes?.[d.id] ?? NODE_RADIUS
+    node.select('circle.node')
+      .attr('r', d => radius(d) + (selectedNode?.id === d.id ? 8 : 0))
+      .attr('fill', d => nodeColors?.[d.id] ?? nodeColor(d))
+      .attr('stroke', d => selectedNode?.id === d.id ? '#1e293b' : '#fff')
+      .attr('stroke-width', d => selectedNode?.id === d.id ? 3 : 2)
+      .attr('opacity', d => nodesOut.has(d.id) ? 0.08 : nodeIds.size === 0 || nodeIds.has(d.id) ? 1 : 0.2)
+
+    node.select('circle.pin')
+      .attr('cx', d => radius(d) * 0.75)
+      .attr('cy', d => -radius(d) * 0.75)
+
+    node.select('text.caption')
+      .attr('dy', d => radius(d) + 15)
+      .attr('opacity', d => nodesOut.has(d.id) ? 0.08 : nodeIds.size === 0 || nodeIds.has(d.id) ? 1 : 0.2)
+  }, [
+    data,
+    selectedNode,
+    highlightedNodes,
+    highlightedRelationships,
+    emphasizedRelationships,
+    filteredOutNodes,
+    filteredOutRelationships,
+    filterMode,
+    nodeSizes,
+    nodeColors
+  ])
 
   return (
     <div className={cn('relative w-full h-full bg-white rounded-lg border border-slate-200', className)}>
@@ -225,26 +518,21 @@ export function GraphVisualization({
         aria-label="Interactive knowledge graph visualization"
       />
 
-      {/* Legend */}
-      <div className="absolute top-4 right-4 bg-white/90 backdrop-blur-sm rounded-lg border border-slate-200 p-3 text-xs">
-        <div className="font-semibold mb-2 text-slate-700">Node Types</div>
-        {Object.entries(nodeColors).map(([type, color]) => (
-          <div key={type} className="flex items-center gap-2 mb-1">
-            <div
-              className="w-3 h-3 rounded-full"
-              style={{ backgroundColor: color }}
-            />
-            <span className="text-slate-600">{type}</span>
+      {!compact && (
+        <>
+          <GraphLegend legend={legend} hiddenLabels={hiddenLabels} onToggle={onLabelToggle} />
+
+          {/* Controls hint */}
+          <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur-sm rounded-lg border border-slate-200 px-3 py-2 text-xs text-slate-600">
+            <div className="flex items-center gap-4">
+              <span>
+                Drag to pan • Scroll to zoom • Click nodes to explore • Double-click to expand • Drag a node to pin it
+                {onConnect && ' • Shift-drag between nodes to connect them'}
+              </span>
+            </div>
           </div>
-        ))}
-      </div>
-
-      {/* Controls hint */}
-      <div className="absolute bottom-4 left-4 bg-white/90 backdrop-blur-sm rounded-lg border border-slate-200 px-3 py-2 text-xs text-slate-600">
-        <div className="flex items-center gap-4">
-          <span>Drag to pan • Scroll to zoom • Click nodes to explore</span>
-        </div>
-      </div>
+        </>
+      )}
     </div>
   )
 }
@@ -0,0 +1,396 @@
+import { useMemo, useRef, useState } from 'react'
+import { AlertTriangle, ArrowLeftRight, CheckCircle2, FileUp, Info, Upload, X } from 'lucide-react'
+import type { GraphData, ImportFormat, ImportMode, ImportReport, ParsedImport } from '../types'
+import {
+  applyImport,
+  csvToGraph,
+  detectFormat,
+  guessCsvMapping,
+  importFormats,
+  parseCsv,
+  parseImport,
+  validateImport,
+  type CsvMapping
+} from '../lib/importers'
+import { cn } from '../lib/utils'
+
+interface ImportDialogProps {
+  currentGraph: GraphData
+  onImport: (data: GraphData, name: string) => void
+  onClose: () => void
+}
+
+interface ImportFile {
+  name: string
+  text: string
+}
+
+// Issues listed per category before collapsing into "and N more"
+const MAX_LISTED = 5
+
+/**
+ * Modal for importing a graph from a file, with a validation report
+ * shown before the import replaces or merges into the current graph
+ */
+export function ImportDialog({ currentGraph, onImport, onClose }: ImportDialogProps) {
+  const [files, setFiles] = useState<ImportFile[]>([])
+  const [format, setFormat] = useState<ImportFormat>('json')
+  const [mapping, setMapping] = useState<CsvMapping | null>(null)
+  const [mode, setMode] = useState<ImportMode>('replace')
+  const [isDragging, setIsDragging] = useState(false)
+  const [readError, setReadError] = useState<string | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const csvTables = useMemo(
+    () => (format === 'csv' && files.length === 2 ? files.map(file => parseCsv(file.text)) : null),
+    [format, files]
+  )
+
+  const parsed = useMemo((): { result?: ParsedImport; error?: string } => {
+    if (files.length === 0) return {}
+    try {
+      if (format === 'csv') {
+        if (!csvTables || !mapping) return { error: 'CSV imports need a node file and a relationship file' }
+        return { result: csvToGraph(csvTables[0], csvTables[1], mapping) }
+      }
+      return { result: parseImport(format, files[0].text) }
+    } catch (error) {
+      return { error: (error as Error).message }
+    }
+  }, [files, format, csvTables, mapping])
+
+  const report = parsed.result ? validateImport(parsed.result, currentGraph, mode) : null
+
+  const loadFiles = async (list: FileList | null) => {
+    if (!list || list.length === 0) return
+    try {
+      const loaded = await Promise.all([...list].slice(0, 2).map(async file => ({
+        name: file.name,
+        text: await file.text()
+      })))
+      const detected = detectFormat(loaded[0].name, loaded[0].text)
+      const ordered = orderCsvFiles(detected, loaded)
+      setReadError(null)
+      setFiles(ordered)
+      selectFormat(detected, ordered)
+    } catch (error) {
+      setReadError((error as Error).message)
+    }
+  }
+
+  const selectFormat = (next: ImportFormat, current: ImportFile[] = files) => {
+    setFormat(next)
+    if (next === 'csv' && current.length === 2) {
+      const [nodes, relationships] = current.map(file => parseCsv(file.text))
+      setMapping(guessCsvMapping(nodes.headers, relationships.headers))
+    }
+  }
+
+  const swapCsvFiles = () => {
+    const swapped = [...files].reverse()
+    setFiles(swapped)
+    selectFormat('csv', swapped)
+  }
+
+  const handleImport = () => {
+    if (!parsed.result) return
+    onImport(
+      applyImport(parsed.result.data, currentGraph, mode),
+      files.map(file => file.name).join(' + ')
+    )
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-30 bg-slate-900/40 flex items-center justify-center p-6"
+      onClick={onClose}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="import-dialog-title"
+        className="w-full max-w-2xl max-h-full overflow-y-auto scrollbar-thin bg-white rounded-lg border border-slate-200 shadow-xl p-6 space-y-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="import-dialog-title" className="font-semibold text-slate-900 flex items-center gap-2">
+            <FileUp className="w-5 h-5 text-neo4j-blue" />
+            Import Graph
+          </h2>
+          <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded" aria-label="Close import">
+            <X className="w-4 h-4 text-slate-600" />
+          </button>
+        </div>
+
+        {/* Drop zone */}
+        <div
+          onDragOver={(e) => {
+            e.preventDefault()
+            setIsDragging(true)
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={(e) => {
+            e.preventDefault()
+            setIsDragging(false)
+            loadFiles(e.dataTransfer.files)
+          }}
+          className={cn(
+            'rounded-lg border-2 border-dashed p-6 text-center transition-colors',
+            isDragging ? 'border-neo4j-blue bg-neo4j-blue/5' : 'border-slate-300'
+          )}
+        >
+          <Upload className="w-8 h-8 mx-auto mb-2 text-slate-400" />
+          <p className="text-sm text-slate-700">
+            Drop a file here or{' '}
+            <button onClick={() => inputRef.current?.click()} className="text-neo4j-blue font-medium hover:underline">
+              browse
+            </button>
+          </p>
+          <p className="text-xs text-slate-500 mt-1">
+            {Object.values(importFormats).map(f => f.label).join(' • ')} — drop both CSV files together
+          </p>
+          <input
+            ref={inputRef}
+            type="file"
+            multiple
+            className="hidden"
+            accept={[...new Set(Object.values(importFormats).flatMap(f => f.extensions))].join(',')}
+            onChange={(e) => {
+              loadFiles(e.target.files)
+              e.target.value = ''
+            }}
+          />
+          {files.length > 0 && (
+            <p className="text-xs font-mono text-slate-600 mt-3">{files.map(file => file.name).join(', ')}</p>
+          )}
+        </div>
+
+        {readError && <p className="text-sm text-red-600">{readError}</p>}
+
+        {files.length > 0 && (
+          <label className="flex items-center gap-3 text-sm text-slate-700">
+            Format
+            <select
+              value={format}
+              onChange={(e) => selectFormat(e.target.value as ImportFormat)}
+              className="rounded-lg border border-slate-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-neo4j-blue"
+            >
+              {(Object.keys(importFormats) as ImportFormat[]).map(key => (
+                <option key={key} value={key}>{importFormats[key].label}</option>
+              ))}
+            </select>
+          </label>
+        )}
+
+        {format === 'csv' && csvTables && mapping && (
+          <CsvMappingEditor
+            fileNames={files.map(file => file.name)}
+            nodeHeaders={csvTables[0].headers}
+            relationshipHeaders={csvTables[1].headers}
+            mapping={mapping}
+            onChange={setMapping}
+            onSwap={swapCsvFiles}
+          />
+        )}
+
+        {parsed.error && (
+          <div className="flex items-start gap-2 rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            {parsed.error}
+          </div>
+        )}
+
+        {report && <ImportReportView report={report} mode={mode} />}
+
+        {report && (
+          <div className="flex items-center gap-4 text-sm text-slate-700" role="radiogroup" aria-label="Import mode">
+            {(['replace', 'merge'] as ImportMode[]).map(option => (
+              <label key={option} className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="radio"
+                  name="import-mode"
+                  checked={mode === option}
+                  onChange={() => setMode(option)}
+                  className="accent-neo4j-blue"
+                />
+                {option === 'replace' ? 'Replace current graph' : 'Merge into current graph'}
+              </label>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm rounded-lg border border-slate-300 hover:bg-slate-50 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleImport}
+            disabled={!report || report.nodeCount === 0}
+            className="px-4 py-2 text-sm font-medium rounded-lg bg-neo4j-blue text-white hover:bg-neo4j-blue/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            Import
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Puts the relationship file second when two CSV files are dropped
+ */
+function orderCsvFiles(format: ImportFormat, files: ImportFile[]): ImportFile[] {
+  if (format !== 'csv' || files.length !== 2) return files
+  const looksLikeRelationships = (file: ImportFile) =>
+    /(^|,)\s*"?(:?start_id|source|from|start)\b/i.test(file.text.split(/\r?\n/)[0])
+  return looksLikeRelationships(files[0]) && !looksLikeRelationships(files[1]) ? [files[1], files[0]] : files
+}
+
+function CsvMappingEditor({ fileNames, nodeHeaders, relationshipHeaders, mapping, onChange, onSwap }: {
+  fileNames: string[]
+  nodeHeaders: string[]
+  relationshipHeaders: string[]
+  mapping: CsvMapping
+  onChange: (mapping: CsvMapping) => void
+  onSwap: () => void
+}) {
+  const selectClass = 'w-full mt-1 rounded border border-slate-300 px-2 py-1 text-xs font-mono focus:outline-none focus:ring-2 focus:ring-neo4j-blue'
+
+  const columnSelect = (
+    headers: string[],
+    value: string | undefined,
+    update: (value: string | undefined) => void,
+    optional: boolean
+  ) => (
+    <select value={value ?? ''} onChange={(e) => update(e.target.value || undefined)} className={selectClass}>
+      {optional && <option value="">(none)</option>}
+      {headers.map(header => <option key={header} value={header}>{header}</option>)}
+    </select>
+  )
+
+  const setNodes = (patch: Partial<CsvMapping['nodes']>) =>
+    onChange({ ...mapping, nodes: { ...mapping.nodes, ...patch } })
+  const setRelationships = (patch: Partial<CsvMapping['relationships']>) =>
+    onChange({ ...mapping, relationships: { ...mapping.relationships, ...patch } })
+
+  return (
+    <div className="grid grid-cols-2 gap-4 rounded-lg border border-slate-200 p-4">
+      <div className="space-y-2">
+        <h3 className="text-xs font-semibold text-slate-700 truncate" title={fileNames[0]}>
+          Nodes: <span className="font-mono font-normal">{fileNames[0]}</span>
+        </h3>
+        <label className="block text-xs text-slate-600">
+          Id column
+          {columnSelect(nodeHeaders, mapping.nodes.id, value => setNodes({ id: value ?? '' }), false)}
+        </label>
+        <label className="block text-xs text-slate-600">
+          Label column
+          {columnSelect(nodeHeaders, mapping.nodes.label, value => setNodes({ label: value }), true)}
+        </label>
+        <label className="block text-xs text-slate-600">
+          Type column
+          {columnSelect(nodeHeaders, mapping.nodes.type, value => setNodes({ type: value }), true)}
+        </label>
+        <label className="block text-xs text-slate-600">
+          Default type
+          <input
+            value={mapping.nodes.defaultType}
+            onChange={(e) => setNodes({ defaultType: e.target.value })}
+            className={selectClass}
+          />
+        </label>
+      </div>
+      <div className="space-y-2">
+        <h3 className="text-xs font-semibold text-slate-700 flex items-center gap-2">
+          <span className="truncate" title={fileNames[1]}>
+            Relationships: <span className="font-mono font-normal">{fileNames[1]}</span>
+          </span>
+          <button onClick={onSwap} className="p-1 hover:bg-slate-100 rounded" title="Swap node and relationship files">
+            <ArrowLeftRight className="w-3 h-3" />
+          </button>
+        </h3>
+        <label className="block text-xs text-slate-600">
+          Source column
+          {columnSelect(relationshipHeaders, mapping.relationships.source, value => setRelationships({ source: value ?? '' }), false)}
+        </label>
+        <label className="block text-xs text-slate-600">
+          Target column
+          {columnSelect(relationshipHeaders, mapping.relationships.target, value => setRelationships({ target: value ?? '' }), false)}
+        </label>
+        <label className="block text-xs text-slate-600">
+          Type column
+          {columnSelect(relationshipHeaders, mapping.relationships.type, value => setRelationships({ type: value }), true)}
+        </label>
+        <label className="block text-xs text-slate-600">
+          Default type
+          <input
+            value={mapping.relationships.defaultType}
+            onChange={(e) => setRelationships({ defaultType: e.target.value })}
+            className={selectClass}
+          />
+        </label>
+      </div>
+    </div>
+  )
+}
+
+function ImportReportView({ report, mode }: { report: ImportReport; mode: ImportMode }) {
+  const problems = report.duplicateNodeIds.length + report.duplicateRelationshipIds.length +
+    report.danglingRelationships.length
+
+  return (
+    <div className="rounded-lg border border-slate-200 p-4 space-y-3 text-sm">
+      <div className="flex items-center gap-2 font-medium text-slate-900">
+        {problems === 0
+          ? <CheckCircle2 className="w-4 h-4 text-neo4j-green" />
+          : <AlertTriangle className="w-4 h-4 text-amber-500" />}
+        {report.nodeCount} nodes and {report.relationshipCount} relationships will be imported
+        {mode === 'merge' && report.updatedNodeIds.length > 0 && `, updating ${report.updatedNodeIds.length} existing nodes`}
+      </div>
+
+      <ReportList
+        title="Duplicate node ids (first occurrence kept)"
+        items={report.duplicateNodeIds}
+        tone="warning"
+      />
+      <ReportList
+        title="Duplicate relationship ids (first occurrence kept)"
+        items={report.duplicateRelationshipIds}
+        tone="warning"
+      />
+      <ReportList
+        title="Dangling relationships (skipped)"
+        items={report.danglingRelationships.map(rel => `${rel.id} [:${rel.type}] → missing ${rel.missing.join(', ')}`)}
+        tone="warning"
+      />
+      <ReportList title="Node types not in the current graph" items={report.unknownNodeTypes} tone="info" />
+      <ReportList
+        title="Relationship types not in the current graph"
+        items={report.unknownRelationshipTypes}
+        tone="info"
+      />
+      <ReportList title="Parser notes" items={report.warnings} tone="info" />
+    </div>
+  )
+}
+
+function ReportList({ title, items, tone }: { title: string; items: string[]; tone: 'warning' | 'info' }) {
+  if (items.length === 0) return null
+  const Icon = tone === 'warning' ? AlertTriangle : Info
+
+  return (
+    <div>
+      <p className={cn('flex items-center gap-1.5 text-xs font-semibold', tone === 'warning' ? 'text-amber-700' : 'text-slate-600')}>
+        <Icon className="w-3 h-3" />
+        {title} ({items.length})
+      </p>
+      <ul className="mt-1 ml-5 text-xs font-mono text-slate-600 space-y-0.5">
+        {items.slice(0, MAX_LISTED).map(item => <li key={item}>{item}</li>)}
+        {items.length > MAX_LISTED && <li className="font-sans text-slate-400">and {items.length - MAX_LISTED} more</li>}
+      </ul>
+    </div>
+  )
+}
@@ -0,0 +1,441 @@
+import { useMemo, useRef, useState, type ReactNode } from 'react'
+import { AlertTriangle, ArrowLeft, ArrowRight, FileText, Loader2, Upload, X } from 'lucide-react'
+import type { DocumentFormat, GraphData, IngestionProposal, LLMProvider } from '../types'
+import {
+  createDictionaryExtractor,
+  createLLMExtractor,
+  defaultChunkOptions,
+  ingestDocument,
+  ingestionToGraph
+} from '../lib/ingestion'
+import { extractSchema } from '../lib/schema'
+import { labelColor } from '../lib/styles'
+import { cn } from '../lib/utils'
+
+interface IngestionDialogProps {
+  currentGraph: GraphData
+  /** Offered as the extractor when an LLM is configured */
+  llmProvider?: LLMProvider
+  /** Receives the accepted Document, Chunk and entity nodes and their relationships, all new */
+  onIngest: (ingested: GraphData) => void
+  onClose: () => void
+}
+
+type ExtractorChoice = 'rules' | 'llm'
+
+const formatLabels: Record<DocumentFormat, string> = {
+  text: 'Plain text',
+  markdown: 'Markdown',
+  pdf: 'PDF-extracted text'
+}
+
+const inputClass = 'rounded-lg border border-slate-300 px-3 py-1.5 text-sm focus:outline-none focus:ring-2 focus:ring-neo4j-blue'
+
+/**
+ * Modal for growing the graph from a document: the text is chunked,
+ * entities and relations are extracted and matched to existing nodes, and
+ * the result is reviewed before it is added to the graph
+ */
+export function IngestionDialog({ currentGraph, llmProvider, onIngest, onClose }: IngestionDialogProps) {
+  const [title, setTitle] = useState('')
+  const [text, setText] = useState('')
+  const [format, setFormat] = useState<DocumentFormat>('text')
+  const [maxChars, setMaxChars] = useState(defaultChunkOptions.maxChars)
+  const [extractor, setExtractor] = useState<ExtractorChoice>(llmProvider ? 'llm' : 'rules')
+  const [isDragging, setIsDragging] = useState(false)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [proposal, setProposal] = useState<IngestionProposal | null>(null)
+  const [rejectedEntities, setRejectedEntities] = useState<Set<string>>(new Set())
+  const [rejectedTriples, setRejectedTriples] = useState<Set<string>>(new Set())
+  const inputRef = useRef<HTMLInputElement>(null)
+  const abortRef = useRef<AbortController | null>(null)
+
+  const loadFile = async (list: FileList | null) => {
+    const file = list?.[0]
+    if (!file) return
+    try {
+      const content = await file.text()
+      setText(content)
+      setTitle(file.name.replace(/\.[^.]+$/, ''))
+      setFormat(/\.(md|markdown)$/i.test(file.name) || /^#{1,6}\s/m.test(content) ? 'markdown' : 'text')
+      setError(null)
+    } catch (readError) {
+      setError((readError as Error).message)
+    }
+  }
+
+  const extract = async () => {
+    const controller = new AbortController()
+    abortRef.current = controller
+    setError(null)
+    setProgress({ done: 0, total: 0 })
+    const rules = createDictionaryExtractor(currentGraph)
+    try {
+      const result = await ingestDocument(
+        { title: title.trim() || 'Untitled document', text, format },
+        currentGraph,
+        extractor === 'llm' && llmProvider ? createLLMExtractor(llmProvider, extractSchema(currentGraph)) : rules,
+        {
+          chunking: { ...defaultChunkOptions, maxChars },
+          signal: controller.signal,
+          onProgress: (done, total) => setProgress({ done, total }),
+          fallback: rules
+        }
+      )
+      setProposal(result)
+      setRejectedEntities(new Set())
+      setRejectedTriples(new Set())
+    } catch (extractError) {
+      if (!controller.signal.aborted) setError((extractError as Error).message)
+    } finally {
+      abortRef.current = null
+      setProgress(null)
+    }
+  }
+
+  const close = () => {
+    abortRef.current?.abort()
+    onClose()
+  }
+
+  const add = () => {
+    if (!proposal) return
+    onIngest(ingestionToGraph(proposal, { entities: rejectedEntities, triples: rejectedTriples }))
+  }
+
+  return (
+    <div
+      className="fixed inset-0 z-30 bg-slate-900/40 flex items-center justify-center p-6"
+      onClick={close}
+    >
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="ingestion-dialog-title"
+        className="w-full max-w-3xl max-h-full overflow-y-auto scrollbar-thin bg-white rounded-lg border border-slate-200 shadow-xl p-6 space-y-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="ingestion-dialog-title" className="font-semibold text-slate-900 flex items-center gap-2">
+            <FileText className="w-5 h-5 text-neo4j-blue" />
+            {proposal ? `Review: ${proposal.document.title}` : 'Ingest Document'}
+          </h2>
+          <button onClick={close} className="p-1 hover:bg-slate-100 rounded" aria-label="Close ingestion">
+            <X className="w-4 h-4 text-slate-600" />
+          </button>
+        </div>
+
+        {proposal ? (
+          <IngestionReview
+            proposal={proposal}
+            rejectedEntities={rejectedEntities}
+            rejectedTriples={rejectedTriples}
+            onRejectedEntitiesChange={setRejectedEntities}
+            onRejectedTriplesChange={setRejectedTriples}
+          />
+        ) : (
+          <>
+            <div className="grid grid-cols-[1fr_auto] gap-3">
+              <label className="flex flex-col gap-1 text-xs text-slate-600">
+                Title
+                <input
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="Untitled document"
+                  className={inputClass}
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-xs text-slate-600">
+                Format
+                <select
+                  value={format}
+                  onChange={(e) => setFormat(e.target.value as DocumentFormat)}
+                  className={inputClass}
+                >
+                  {(Object.keys(formatLabels) as DocumentFormat[]).map(key => (
+                    <option key={key} value={key}>{formatLabels[key]}</option>
+                  ))}
+                </select>
+              </label>
+            </div>
+
+            <div
+              onDragOver={(e) => {
+                e.preventDefault()
+                setIsDragging(true)
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={(e) => {
+                e.preventDefault()
+                setIsDragging(false)
+                loadFile(e.dataTransfer.files)
+              }}
+              className={cn(
+                'rounded-lg border-2 border-dashed transition-colors',
+                isDragging ? 'border-neo4j-blue bg-neo4j-blue/5' : 'border-slate-300'
+              )}
+            >
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                rows={10}
+                placeholder="Paste text, Markdown or text copied out of a PDF…"
+                aria-label="Document text"
+                className="w-full resize-y rounded-t-lg bg-transparent p-3 text-sm font-mono text-slate-800 focus:outline-none"
+              />
+              <div className="flex items-center justify-between border-t border-dashed border-slate-300 px-3 py-2 text-xs text-slate-500">
+                <span className="flex items-center gap-1.5">
+                  <Upload className="w-3.5 h-3.5" />
+                  Drop a .txt or .md file here or{' '}
+                  <button onClick={() => inputRef.current?.click()} className="text-neo4j-blue font-medium hover:underline">
+                    browse
+                  </button>
+                </span>
+                <span>{text.length.toLocaleString()} characters</span>
+              </div>
+              <input
+                ref={inputRef}
+                type="file"
+                className="hidden"
+                accept=".txt,.text,.md,.markdown"
+                onChange={(e) => {
+                  loadFile(e.target.files)
+                  e.target.value = ''
+                }}
+              />
+            </div>
+
+            <div className="flex flex-wrap items-center gap-6 text-sm text-slate-700">
+              <label className="flex items-center gap-2">
+                Chunk size
+                <input
+                  type="number"
+                  min={200}
+                  max={4000}
+                  step={100}
+                  value={maxChars}
+                  onChange={(e) => setMaxChars(Math.max(200, Number(e.target.value) || defaultChunkOptions.maxChars))}
+                  className={cn(inputClass, 'w-24')}
+                />
+                <span className="text-xs text-slate-500">characters</span>
+              </label>
+              <div className="flex items-center gap-4" role="radiogroup" aria-label="Extractor">
+                {(['rules', 'llm'] as ExtractorChoice[]).map(option => (
+                  <label
+                    key={option}
+                    className={cn('flex items-center gap-2', option === 'llm' && !llmProvider ? 'opacity-50' : 'cursor-pointer')}
+                    title={option === 'llm' && !llmProvider ? 'Configure an LLM provider to extract with it' : undefined}
+                  >
+                    <input
+                      type="radio"
+                      name="ingestion-extractor"
+                      checked={extractor === option}
+                      disabled={option === 'llm' && !llmProvider}
+                      onChange={() => setExtractor(option)}
+                      className="accent-neo4j-blue"
+                    />
+                    {option === 'rules' ? 'Rule-based' : `LLM${llmProvider ? ` (${llmProvider.name})` : ''}`}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            {error && (
+              <div className="flex items-start gap-2 rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                {error}
+              </div>
+            )}
+          </>
+        )}
+
+        <div className="flex items-center justify-end gap-2">
+          {progress && (
+            <span className="mr-auto flex items-center gap-2 text-xs text-slate-600">
+              <Loader2 className="w-3.5 h-3.5 animate-spin" />
+              {progress.total > 0 ? `Extracting chunk ${progress.done} of ${progress.total}` : 'Chunking…'}
+            </span>
+          )}
+          {proposal ? (
+            <button
+              onClick={() => setProposal(null)}
+              className="mr-auto flex items-center gap-1.5 px-4 py-2 text-sm rounded-lg border border-slate-300 hover:bg-slate-50 transition-colors"
+            >
+              <ArrowLeft className="w-4 h-4" />
+              Back
+            </button>
+          ) : null}
+          <button
+            onClick={progress ? () => abortRef.current?.abort() : close}
+            className="px-4 py-2 text-sm rounded-lg border border-slate-300 hover:bg-slate-50 transition-colors"
+          >
+            {progress ? 'Stop' : 'Cancel'}
+          </button>
+          {proposal ? (
+            <button
+              onClick={add}
+              className="px-4 py-2 text-sm font-medium rounded-lg bg-neo4j-blue text-white hover:bg-neo4j-blue/90 transition-colors"
+            >
+              Add to graph
+            </button>
+          ) : (
+            <button
+              onClick={extract}
+              disabled={!text.trim() || progress !== null}
+              className="flex items-center gap-1.5 px-4 py-2 text-sm font-medium rounded-lg bg-neo4j-blue text-white hover:bg-neo4j-blue/90 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+            >
+              Extract
+              <ArrowRight className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Entities and triples of a proposal, each with a checkbox; a triple is
+ * only added when both of its entities are accepted
+ */
+function IngestionReview({ proposal, rejectedEntities, rejectedTriples, onRejectedEntitiesChange, onRejectedTriplesChange }: {
+  proposal: IngestionProposal
+  rejectedEntities: Set<string>
+  rejectedTriples: Set<string>
+  onRejectedEntitiesChange: (ids: Set<string>) => void
+  onRejectedTriplesChange: (ids: Set<string>) => void
+}) {
+  const entityById = useMemo(() => new Map(proposal.entities.map(entity => [entity.id, entity])), [proposal])
+  const newCount = proposal.entities.filter(entity => !entity.existing).length
+  const acceptedEntities = proposal.entities.filter(entity => !rejectedEntities.has(entity.id))
+  const acceptedTriples = proposal.triples.filter(triple =>
+    !rejectedTriples.has(triple.id) && !rejectedEntities.has(triple.source) && !rejectedEntities.has(triple.target)
+  )
+
+  const toggle = (ids: Set<string>, id: string, update: (ids: Set<string>) => void) => {
+    const next = new Set(ids)
+    if (next.has(id)) next.delete(id)
+    else next.add(id)
+    update(next)
+  }
+
+  return (
+    <div className="space-y-4 text-sm">
+      <p className="text-slate-700">
+        {proposal.chunks.length} chunks, {proposal.entities.length} entities ({proposal.entities.length - newCount} matched
+        to existing nodes, {newCount} new) and {proposal.triples.length} relationships. Adding them creates a Document node,
+        its chunks and {acceptedEntities.filter(entity => !entity.existing).length} new entities, linked by MENTIONS,
+        and {acceptedTriples.length} relationships as pending changes, applied to the data source from the Changes tab.
+      </p>
+
+      {proposal.warnings.length > 0 && (
+        <ul className="rounded-lg bg-amber-50 border border-amber-200 p-3 text-xs text-amber-800 space-y-1">
+          {proposal.warnings.map(warning => (
+            <li key={warning} className="flex items-start gap-1.5">
+              <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+              {warning}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ReviewSection
+        title="Entities"
+        accepted={acceptedEntities.length}
+        total={proposal.entities.length}
+        onAcceptAll={() => onRejectedEntitiesChange(new Set())}
+        onRejectAll={() => onRejectedEntitiesChange(new Set(proposal.entities.map(entity => entity.id)))}
+      >
+        {proposal.entities.map(entity => (
+          <li key={entity.id}>
+            <label className="flex items-center gap-2 px-3 py-1.5 hover:bg-slate-50 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={!rejectedEntities.has(entity.id)}
+                onChange={() => toggle(rejectedEntities, entity.id, onRejectedEntitiesChange)}
+                className="accent-neo4j-blue"
+              />
+              <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: labelColor(entity.type) }} />
+              <span className="font-medium text-slate-900 truncate">{entity.name}</span>
+              <span className="text-xs text-slate-500">{entity.type}</span>
+              <span className="ml-auto text-xs text-slate-400">
+                {entity.chunkIndexes.length} {entity.chunkIndexes.length === 1 ? 'chunk' : 'chunks'}
+              </span>
+              <span
+                className={cn(
+                  'text-[10px] font-semibold uppercase rounded px-1.5 py-0.5',
+                  entity.existing ? 'bg-neo4j-green/10 text-neo4j-green' : 'bg-neo4j-blue/10 text-neo4j-blue'
+                )}
+              >
+                {entity.existing ? 'matched' : 'new'}
+              </span>
+            </label>
+          </li>
+        ))}
+      </ReviewSection>
+
+      <ReviewSection
+        title="Relationships"
+        accepted={acceptedTriples.length}
+        total={proposal.triples.length}
+        onAcceptAll={() => onRejectedTriplesChange(new Set())}
+        onRejectAll={() => onRejectedTriplesChange(new Set(proposal.triples.map(triple => triple.id)))}
+      >
+        {proposal.triples.length === 0 && (
+          <li className="px-3 py-2 text-xs text-slate-500">No relationships were found between the entities</li>
+        )}
+        {proposal.triples.map(triple => {
+          const endpointRejected = rejectedEntities.has(triple.source) || rejectedEntities.has(triple.target)
+          return (
+            <li key={triple.id}>
+              <label
+                className={cn('flex items-start gap-2 px-3 py-1.5', endpointRejected ? 'opacity-50' : 'hover:bg-slate-50 cursor-pointer')}
+                title={endpointRejected ? 'An entity of this relationship is rejected' : undefined}
+              >
+                <input
+                  type="checkbox"
+                  checked={!rejectedTriples.has(triple.id) && !endpointRejected}
+                  disabled={endpointRejected}
+                  onChange={() => toggle(rejectedTriples, triple.id, onRejectedTriplesChange)}
+                  className="accent-neo4j-blue mt-1"
+                />
+                <span className="min-w-0">
+                  <span className="text-slate-900">
+                    {entityById.get(triple.source)?.name}
+                    <span className="mx-1.5 font-mono text-xs text-neo4j-blue">-[:{triple.type}]→</span>
+                    {entityById.get(triple.target)?.name}
+                  </span>
+                  <span className="block text-xs text-slate-500 truncate" title={triple.evidence}>
+                    #{triple.chunkIndex + 1} · {triple.evidence}
+                  </span>
+                </span>
+              </label>
+            </li>
+          )
+        })}
+      </ReviewSection>
+    </div>
+  )
+}
+
+function ReviewSection({ title, accepted, total, onAcceptAll, onRejectAll, children }: {
+  title: string
+  accepted: number
+  total: number
+  onAcceptAll: () => void
+  onRejectAll: () => void
+  children: ReactNode
+}) {
+  return (
+    <section className="rounded-lg border border-slate-200">
+      <div className="flex items-center gap-3 border-b border-slate-200 px-3 py-2">
+        <h3 className="text-xs font-semibold text-slate-700">{title}</h3>
+        <span className="text-xs text-slate-500">{accepted} of {total} accepted</span>
+        <button onClick={onAcceptAll} className="ml-auto text-xs text-neo4j-blue hover:underline">Accept all</button>
+        <button onClick={onRejectAll} className="text-xs text-slate-500 hover:underline">Reject all</button>
+      </div>
+      <ul className="max-h-60 overflow-y-auto scrollbar-thin divide-y divide-slate-100">{children}</ul>
+    </section>
+  )
+}
@@ -0,0 +1,113 @@
+import { useState } from 'react'
+import { Bot, X } from 'lucide-react'
+import type { LLMConfig, LLMProviderKind } from '../types'
+import { providerDefaults } from '../lib/llm'
+import { cn } from '../lib/utils'
+
+interface LLMSettingsPanelProps {
+  config: LLMConfig
+  onSave: (config: LLMConfig) => void
+  onClose: () => void
+  className?: string
+}
+
+const providers: { kind: LLMProviderKind; label: string; hint: string }[] = [
+  { kind: 'mock', label: 'Mock', hint: 'Offline, deterministic answers' },
+  { kind: 'openai', label: 'OpenAI-compatible', hint: 'Any /chat/completions endpoint with SSE streaming' },
+  { kind: 'ollama', label: 'Ollama', hint: 'Local models served by Ollama' }
+]
+
+/**
+ * Popover for choosing the LLM provider, endpoint, model and API key at runtime
+ *
+ * The API key is only stored in this browser's localStorage and sent
+ * directly to the configured endpoint
+ */
+export function LLMSettingsPanel({ config, onSave, onClose, className }: LLMSettingsPanelProps) {
+  const [draft, setDraft] = useState<LLMConfig>(config)
+
+  const selectProvider = (provider: LLMProviderKind) => {
+    setDraft({ ...draft, provider, ...providerDefaults[provider] })
+  }
+
+  const inputClass = 'w-full rounded-lg border border-slate-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-neo4j-blue disabled:bg-slate-50 disabled:text-slate-400'
+
+  return (
+    <div className={cn('w-80 bg-white rounded-lg border border-slate-200 shadow-lg p-4 space-y-4', className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+          <Bot className="w-4 h-4 text-neo4j-blue" />
+          Language Model
+        </h3>
+        <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded" aria-label="Close settings">
+          <X className="w-4 h-4 text-slate-600" />
+        </button>
+      </div>
+
+      <div className="space-y-2" role="radiogroup" aria-label="Provider">
+        {providers.map(provider => (
+          <label
+            key={provider.kind}
+            className={cn(
+              'flex items-start gap-2 rounded-lg border p-2 cursor-pointer text-sm',
+              draft.provider === provider.kind ? 'border-neo4j-blue bg-neo4j-blue/5' : 'border-slate-200'
+            )}
+          >
+            <input
+              type="radio"
+              name="llm-provider"
+              checked={draft.provider === provider.kind}
+              onChange={() => selectProvider(provider.kind)}
+              className="mt-1 accent-neo4j-blue"
+            />
+            <span>
+              <span className="font-medium text-slate-900 block">{provider.label}</span>
+              <span className="text-xs text-slate-600">{provider.hint}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      <div className="space-y-3">
+        <label className="block text-xs font-medium text-slate-700">
+          Endpoint
+          <input
+            className={cn(inputClass, 'mt-1 font-mono text-xs')}
+            value={draft.endpoint}
+            onChange={(e) => setDraft({ ...draft, endpoint: e.target.value })}
+            disabled={draft.provider === 'mock'}
+          />
+        </label>
+        <label className="block text-xs font-medium text-slate-700">
+          Model
+          <input
+            className={cn(inputClass, 'mt-1 font-mono text-xs')}
+            value={draft.model}
+            onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+            disabled={draft.provider === 'mock'}
+          />
+        </label>
+        {draft.provider === 'openai' && (
+          <label className="block text-xs font-medium text-slate-700">
+            API key
+            <input
+              type="password"
+              autoComplete="off"
+              className={cn(inputClass, 'mt-1 font-mono text-xs')}
+              value={draft.apiKey}
+              onChange={(e) => setDraft({ ...draft, apiKey: e.target.value })}
+              placeholder="sk-..."
+            />
+          </label>
+        )}
+      </div>
+
+      <button
+        onClick={() => onSave(draft)}
+        className="w-full bg-neo4j-blue text-white rounded-lg px-4 py-2 text-sm font-medium hover:bg-neo4j-blue/90 transition-colors"
+      >
+        Save
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,224 @@
+import { useState } from 'react'
+import { LayoutGrid, PinOff, RotateCcw, Save, Trash2, X } from 'lucide-react'
+import {
+  defaultLayoutSettings,
+  layoutKinds,
+  type ForceParameters,
+  type LayoutKind,
+  type LayoutSettings,
+  type SavedLayout
+} from '../lib/layout'
+import { cn } from '../lib/utils'
+
+interface LayoutPanelProps {
+  settings: LayoutSettings
+  onSettingsChange: (settings: LayoutSettings) => void
+  /** Relationship types of the graph, offered for the hierarchical layout */
+  relationshipTypes: string[]
+  pinnedCount: number
+  onUnpinAll: () => void
+  savedLayouts: SavedLayout[]
+  onSaveLayout: (name: string) => void
+  onRestoreLayout: (layout: SavedLayout) => void
+  onDeleteLayout: (name: string) => void
+  onClose: () => void
+  className?: string
+}
+
+const forceSliders: { key: keyof ForceParameters; label: string; min: number; max: number; step: number }[] = [
+  { key: 'linkDistance', label: 'Link distance', min: 20, max: 300, step: 10 },
+  { key: 'charge', label: 'Repulsion', min: -1000, max: -10, step: 10 },
+  { key: 'collisionRadius', label: 'Collision radius', min: 0, max: 100, step: 5 }
+]
+
+/**
+ * Popover for picking the layout algorithm and its parameters, releasing
+ * pinned nodes and saving or restoring named layouts of the current graph
+ */
+export function LayoutPanel({
+  settings,
+  onSettingsChange,
+  relationshipTypes,
+  pinnedCount,
+  onUnpinAll,
+  savedLayouts,
+  onSaveLayout,
+  onRestoreLayout,
+  onDeleteLayout,
+  onClose,
+  className
+}: LayoutPanelProps) {
+  const [name, setName] = useState('')
+
+  const setForce = (key: keyof ForceParameters, value: number) =>
+    onSettingsChange({ ...settings, force: { ...settings.force, [key]: value } })
+
+  const toggleHierarchyType = (type: string) => {
+    const types = settings.hierarchyTypes.includes(type)
+      ? settings.hierarchyTypes.filter(t => t !== type)
+      : [...settings.hierarchyTypes, type]
+    onSettingsChange({ ...settings, hierarchyTypes: types })
+  }
+
+  const save = () => {
+    if (!name.trim()) return
+    onSaveLayout(name.trim())
+    setName('')
+  }
+
+  return (
+    <div className={cn('w-80 max-h-[70vh] overflow-y-auto scrollbar-thin bg-white rounded-lg border border-slate-200 shadow-lg p-4 space-y-4', className)}>
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+          <LayoutGrid className="w-4 h-4 text-neo4j-blue" />
+          Layout
+        </h3>
+        <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded" aria-label="Close layout settings">
+          <X className="w-4 h-4 text-slate-600" />
+        </button>
+      </div>
+
+      <div className="space-y-1.5" role="radiogroup" aria-label="Layout algorithm">
+        {(Object.keys(layoutKinds) as LayoutKind[]).map(kind => (
+          <label
+            key={kind}
+            className={cn(
+              'flex items-start gap-2 rounded-lg border px-2 py-1.5 cursor-pointer text-sm',
+              settings.kind === kind ? 'border-neo4j-blue bg-neo4j-blue/5' : 'border-slate-200'
+            )}
+          >
+            <input
+              type="radio"
+              name="layout-kind"
+              checked={settings.kind === kind}
+              onChange={() => onSettingsChange({ ...settings, kind })}
+              className="mt-1 accent-neo4j-blue"
+            />
+            <span>
+              <span className="font-medium text-slate-900 block">{layoutKinds[kind].label}</span>
+              <span className="text-xs text-slate-600">{layoutKinds[kind].hint}</span>
+            </span>
+          </label>
+        ))}
+      </div>
+
+      {settings.kind === 'force' && (
+        <div className="space-y-2">
+          {forceSliders.map(slider => (
+            <label key={slider.key} className="block text-xs font-medium text-slate-700">
+              <span className="flex justify-between">
+                {slider.label}
+                <span className="font-mono text-slate-500">{settings.force[slider.key]}</span>
+              </span>
+              <input
+                type="range"
+                min={slider.min}
+                max={slider.max}
+                step={slider.step}
+                value={settings.force[slider.key]}
+                onChange={(e) => setForce(slider.key, Number(e.target.value))}
+                className="w-full accent-neo4j-blue"
+              />
+            </label>
+          ))}
+          <button
+            onClick={() => onSettingsChange({ ...settings, force: defaultLayoutSettings.force })}
+            className="text-xs text-neo4j-blue hover:underline"
+          >
+            Reset to defaults
+          </button>
+        </div>
+      )}
+
+      {settings.kind === 'hierarchical' && relationshipTypes.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-slate-700 mb-1.5">
+            Levels follow {settings.hierarchyTypes.length === 0 ? 'all relationship types' : 'these types'}
+          </p>
+          <div className="flex flex-wrap gap-1.5">
+            {relationshipTypes.map(type => (
+              <button
+                key={type}
+                onClick={() => toggleHierarchyType(type)}
+                aria-pressed={settings.hierarchyTypes.includes(type)}
+                className={cn(
+                  'rounded-full border px-2 py-0.5 text-xs font-mono transition-colors',
+                  settings.hierarchyTypes.includes(type)
+                    ? 'border-neo4j-blue bg-neo4j-blue text-white'
+                    : 'border-slate-200 text-slate-600 hover:border-neo4j-blue'
+                )}
+              >
+                {type}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-between border-t border-slate-200 pt-3 text-xs text-slate-600">
+        <span>{pinnedCount} pinned {pinnedCount === 1 ? 'node' : 'nodes'}</span>
+        <button
+          onClick={onUnpinAll}
+          disabled={pinnedCount === 0}
+          className="flex items-center gap-1 rounded border border-slate-200 px-2 py-1 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          <PinOff className="w-3 h-3" />
+          Unpin all
+        </button>
+      </div>
+
+      <div className="border-t border-slate-200 pt-3 space-y-2">
+        <p className="text-xs font-medium text-slate-700">Saved layouts for this graph</p>
+        <div className="flex gap-2">
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && save()}
+            placeholder="Layout name"
+            className="flex-1 min-w-0 rounded-lg border border-slate-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-neo4j-blue"
+          />
+          <button
+            onClick={save}
+            disabled={!name.trim()}
+            className="flex items-center gap-1 rounded-lg bg-neo4j-blue px-2 py-1 text-xs font-medium text-white hover:bg-neo4j-blue/90 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save className="w-3 h-3" />
+            Save
+          </button>
+        </div>
+        {savedLayouts.length === 0 ? (
+          <p className="text-xs text-slate-500">No saved layouts yet</p>
+        ) : (
+          <ul className="space-y-1">
+            {savedLayouts.map(saved => (
+              <li key={saved.name} className="flex items-center gap-2 rounded border border-slate-200 px-2 py-1 text-sm">
+                <span className="flex-1 min-w-0">
+                  <span className="block truncate text-slate-900">{saved.name}</span>
+                  <span className="block text-xs text-slate-500">
+                    {layoutKinds[saved.settings.kind].label} · {new Date(saved.savedAt).toLocaleString()}
+                  </span>
+                </span>
+                <button
+                  onClick={() => onRestoreLayout(saved)}
+                  className="p-1 hover:bg-slate-100 rounded"
+                  aria-label={`Restore layout ${saved.name}`}
+                  title="Restore"
+                >
+                  <RotateCcw className="w-3.5 h-3.5 text-neo4j-blue" />
+                </button>
+                <button
+                  onClick={() => onDeleteLayout(saved.name)}
+                  className="p-1 hover:bg-slate-100 rounded"
+                  aria-label={`Delete layout ${saved.name}`}
+                  title="Delete"
+                >
+                  <Trash2 className="w-3.5 h-3.5 text-slate-500" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -1,57 +1,186 @@
-import { X, ExternalLink, Database } from 'lucide-react'
-import type { GraphNode, GraphData } from '../types'
+import { useEffect, useState, type FormEvent } from 'react'
+import { AlertTriangle, X, ExternalLink, Database, Pin, PinOff, Expand, Shrink, Sprout, Pencil, Plus, Trash2, Check, Gauge } from 'lucide-react'
+import type { GraphNode, GraphData, GraphDataSource, GraphRelationship, ExpandOptions, MetricKey, NodeMetrics } from '../types'
 import { cn } from '../lib/utils'
+import { endpointId, nodeLabels } from '../lib/graph'
+import { labelColor, nodeColor, FALLBACK_COLOR } from '../lib/styles'
+import { parsePropertyValue, propertyText, propertyType, propertyTypes, type PropertyType } from '../lib/editing'
+import { formatMetric, metricLabels } from '../lib/analytics'
+import { createCypherBuilder, idPredicate } from '../lib/cypher'
+import { CypherCode } from './CypherEditor'
 
 interface NodeDetailsPanelProps {
   node: GraphNode | null
-  graphData: GraphData
+  dataSource: GraphDataSource
   onClose: () => void
   onNodeClick: (node: GraphNode) => void
+  /** Whether the node is pinned in the visualization */
+  pinned?: boolean
+  onTogglePin?: () => void
+  /** Merges the node's neighbours into the graph view */
+  onExpand?: (options: ExpandOptions) => void
+  /** Removes what expanding the node added; only set while it is expanded */
+  onCollapse?: () => void
+  /** Replaces the graph view with this node, to expand from there */
+  onExploreFrom?: () => void
+  /** Saves an edited caption, labels or properties; without it the panel is read-only */
+  onUpdate?: (node: GraphNode) => void
+  /** Deletes the node together with its relationships */
+  onDelete?: () => void
+  onDeleteRelationship?: (relationship: GraphRelationship) => void
+  /** Centrality metrics of the node, once computed */
+  metrics?: NodeMetrics
 }
 
+/** Property being edited, or added when there is no originalKey */
+interface PropertyDraft {
+  nodeId: string
+  originalKey?: string
+  key: string
+  type: PropertyType
+  text: string
+  error?: string
+}
+
+// Keys the panel doesn't offer: `id` is the node id and `label` its caption
+const RESERVED_KEYS = ['id', 'label']
+
 /**
  * Side panel displaying detailed node information and connections
  *
  * Shows:
- * - Node properties and metadata
+ * - Node properties and metadata, and its centrality metrics
  * - Connected nodes (relationships)
  * - Cypher query to retrieve this node
- * - Quick actions for exploration
+ * - Quick actions for exploration: expand by relationship type, collapse
+ * - When editable: inline caption, label and typed property edits, and
+ *   deleting the node or one of its relationships
  */
 export function NodeDetailsPanel({
   node,
-  graphData,
+  dataSource,
   onClose,
-  onNodeClick
+  onNodeClick,
+  pinned = false,
+  onTogglePin,
+  onExpand,
+  onCollapse,
+  onExploreFrom,
+  onUpdate,
+  onDelete,
+  onDeleteRelationship,
+  metrics
 }: NodeDetailsPanelProps) {
+  // The node's neighbourhood, or why it could not be loaded
+  const [neighborhood, setNeighborhood] = useState<{ nodeId: string; data?: GraphData; error?: string } | null>(null)
+  // Drafts remember their node, so selecting another node drops them
+  const [captionDraft, setCaptionDraft] = useState<{ nodeId: string; text: string } | null>(null)
+  const [labelDraft, setLabelDraft] = useState<{ nodeId: string; text: string } | null>(null)
+  const [propertyDraft, setPropertyDraft] = useState<PropertyDraft | null>(null)
+  const nodeId = node?.id
+
+  // Fetch the neighbourhood from the data source whenever the node changes
+  useEffect(() => {
+    if (!nodeId) return
+    let cancelled = false
+    dataSource.getNeighbors(nodeId)
+      .then(data => {
+        if (!cancelled) setNeighborhood({ nodeId, data })
+      })
+      .catch((error: Error) => {
+        if (!cancelled) setNeighborhood({ nodeId, error: error.message })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [dataSource, nodeId])
+
   if (!node) return null
 
+  const current = neighborhood?.nodeId === node.id ? neighborhood : null
+  const neighbors = current?.data ?? { nodes: [], relationships: [] }
+
   // Find all relationships connected to this node
-  const connections = graphData.relationships.filter(
-    rel => rel.source === node.id || rel.target === node.id
+  const connections = neighbors.relationships.filter(
+    rel => endpointId(rel.source) === node.id || endpointId(rel.target) === node.id
   )
 
   // Get connected nodes
   const connectedNodes = connections.map(rel => {
-    const connectedId = rel.source === node.id ? rel.target : rel.source
-    const connectedNode = graphData.nodes.find(n => n.id === connectedId)
+    const outgoing = endpointId(rel.source) === node.id
+    const connectedId = outgoing ? endpointId(rel.target) : endpointId(rel.source)
+    const connectedNode = neighbors.nodes.find(n => n.id === connectedId)
     return {
       node: connectedNode,
       relationship: rel,
-      direction: rel.source === node.id ? 'outgoing' : 'incoming'
+      direction: outgoing ? 'outgoing' as const : 'incoming' as const
     }
   }).filter(c => c.node)
 
+  // Relationship type and direction pairs the node can be expanded along
+  const expansions = new Map<string, { type: string; direction: 'outgoing' | 'incoming'; count: number }>()
+  connectedNodes.forEach(({ relationship, direction }) => {
+    const key = `${direction}:${relationship.type}`
+    const expansion = expansions.get(key) ?? { type: relationship.type, direction, count: 0 }
+    expansion.count++
+    expansions.set(key, expansion)
+  })
+
   // Generate Cypher query for this node
-  const cypherQuery = `MATCH (n:${node.type} {id: '${node.id}'})
-RETURN n`
-
-  const nodeColors: Record<string, string> = {
-    Person: '#FF6B6B',
-    Company: '#4ECDC4',
-    Technology: '#008CC1',
-    Concept: '#9C27B0',
-    Document: '#95E1D3'
+  const labels = nodeLabels(node)
+  const cypher = createCypherBuilder()
+  const nodeQuery = cypher.build(`MATCH (n${cypher.labels(labels)})
+WHERE ${idPredicate(cypher, 'n', node.id)}
+RETURN n`)
+
+  const color = nodeColor(node)
+  const editingCaption = captionDraft?.nodeId === node.id ? captionDraft : null
+  const editingLabel = labelDraft?.nodeId === node.id ? labelDraft : null
+  const editingProperty = propertyDraft?.nodeId === node.id ? propertyDraft : null
+
+  const saveCaption = (event: FormEvent) => {
+    event.preventDefault()
+    const caption = editingCaption?.text.trim()
+    if (caption && caption !== node.label) onUpdate?.({ ...node, label: caption })
+    setCaptionDraft(null)
+  }
+
+  const setLabels = (next: string[]) => {
+    onUpdate?.({ ...node, type: next[0], labels: next.length > 1 ? next : undefined })
+  }
+
+  const addLabel = (event: FormEvent) => {
+    event.preventDefault()
+    const label = editingLabel?.text.trim()
+    if (label && !labels.includes(label)) setLabels([...labels, label])
+    setLabelDraft(null)
+  }
+
+  const saveProperty = (event: FormEvent) => {
+    event.preventDefault()
+    if (!editingProperty) return
+    const key = editingProperty.key.trim()
+    const fail = (error: string) => setPropertyDraft({ ...editingProperty, error })
+    if (!key) return fail('Enter a property key')
+    if (RESERVED_KEYS.includes(key)) return fail(`"${key}" is reserved`)
+    if (key !== editingProperty.originalKey && key in node.properties) return fail(`"${key}" already exists`)
+    let value: unknown
+    try {
+      value = parsePropertyValue(editingProperty.text, editingProperty.type)
+    } catch (error) {
+      return fail((error as Error).message)
+    }
+    const properties = { ...node.properties }
+    if (editingProperty.originalKey !== undefined) delete properties[editingProperty.originalKey]
+    properties[key] = value
+    onUpdate?.({ ...node, properties })
+    setPropertyDraft(null)
+  }
+
+  const removeProperty = (key: string) => {
+    const properties = { ...node.properties }
+    delete properties[key]
+    onUpdate?.({ ...node, properties })
   }
 
   return (
@@ -60,36 +189,129 @@ RETURN n`
       <div
         className="px-4 py-3 border-b border-slate-200"
         style={{
-          background: `linear-gradient(135deg, ${nodeColors[node.type]}15 0%, ${nodeColors[node.type]}05 100%)`
+          background: `linear-gradient(135deg, color-mix(in srgb, ${color} 8%, transparent) 0%, color-mix(in srgb, ${color} 2%, transparent) 100%)`
         }}
       >
         <div className="flex items-start justify-between">
           <div className="flex items-center gap-3">
             <div
               className="w-10 h-10 rounded-full flex items-center justify-center text-white font-bold"
-              style={{ backgroundColor: nodeColors[node.type] }}
+              style={{ backgroundColor: color }}
             >
               {node.type.charAt(0)}
             </div>
-            <div>
-              <h3 className="font-semibold text-slate-900">{node.label}</h3>
-              <span className="text-xs text-slate-600">{node.type}</span>
+            <div className="min-w-0">
+              {editingCaption ? (
+                <form onSubmit={saveCaption} className="flex items-center gap-1">
+                  <input
+                    value={editingCaption.text}
+                    onChange={event => setCaptionDraft({ nodeId: node.id, text: event.target.value })}
+                    onKeyDown={event => event.key === 'Escape' && setCaptionDraft(null)}
+                    className="min-w-0 rounded border border-slate-300 px-1.5 py-0.5 text-sm font-semibold focus:outline-none focus:ring-2 focus:ring-neo4j-blue"
+                    aria-label="Caption"
+                    autoFocus
+                  />
+                  <button type="submit" className="p-1 hover:bg-slate-100 rounded" aria-label="Save caption">
+                    <Check className="w-4 h-4 text-neo4j-green" />
+                  </button>
+                </form>
+              ) : (
+                <h3 className="font-semibold text-slate-900 flex items-center gap-1">
+                  {node.label}
+                  {onUpdate && (
+                    <button
+                      onClick={() => setCaptionDraft({ nodeId: node.id, text: node.label })}
+                      className="p-0.5 hover:bg-slate-100 rounded"
+                      aria-label="Edit caption"
+                    >
+                      <Pencil className="w-3 h-3 text-slate-500" />
+                    </button>
+                  )}
+                </h3>
+              )}
+              <div className="flex flex-wrap gap-1 mt-1" aria-label="Labels">
+                {labels.map(label => (
+                  <span
+                    key={label}
+                    className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-white/70 px-2 py-0.5 text-xs text-slate-700"
+                  >
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: labelColor(label) }} />
+                    {label}
+                    {onUpdate && labels.length > 1 && (
+                      <button
+                        onClick={() => setLabels(labels.filter(other => other !== label))}
+                        className="hover:text-red-600"
+                        aria-label={`Remove label ${label}`}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    )}
+                  </span>
+                ))}
+                {onUpdate && (editingLabel ? (
+                  <form onSubmit={addLabel}>
+                    <input
+                      value={editingLabel.text}
+                      onChange={event => setLabelDraft({ nodeId: node.id, text: event.target.value })}
+                      onKeyDown={event => event.key === 'Escape' && setLabelDraft(null)}
+                      onBlur={() => setLabelDraft(null)}
+                      className="w-24 rounded-full border border-slate-300 px-2 py-0.5 text-xs focus:outline-none focus:ring-2 focus:ring-neo4j-blue"
+                      placeholder="Label"
+                      aria-label="New label"
+                      autoFocus
+                    />
+                  </form>
+                ) : (
+                  <button
+                    onClick={() => setLabelDraft({ nodeId: node.id, text: '' })}
+                    className="inline-flex items-center rounded-full border border-dashed border-slate-300 px-1.5 py-0.5 text-xs text-slate-500 hover:border-neo4j-blue hover:text-neo4j-blue"
+                    aria-label="Add label"
+                  >
+                    <Plus className="w-3 h-3" />
+                  </button>
+                ))}
+              </div>
             </div>
           </div>
-          <button
-            onClick={onClose}
-            className="p-1 hover:bg-slate-100 rounded transition-colors"
-            aria-label="Close panel"
-          >
-            <X className="w-5 h-5 text-slate-600" />
-          </button>
+          <div className="flex items-center gap-1">
+            {onDelete && (
+              <button
+                onClick={onDelete}
+                className="p-1 hover:bg-red-50 rounded transition-colors"
+                aria-label="Delete node"
+                title="Delete this node and its relationships"
+              >
+                <Trash2 className="w-4 h-4 text-red-600" />
+              </button>
+            )}
+            {onTogglePin && (
+              <button
+                onClick={onTogglePin}
+                className="p-1 hover:bg-slate-100 rounded transition-colors"
+                aria-label={pinned ? 'Unpin node' : 'Pin node'}
+                aria-pressed={pinned}
+                title={pinned ? 'Unpin: let the layout move this node' : 'Pin: keep this node where it is'}
+              >
+                {pinned
+                  ? <PinOff className="w-4 h-4 text-neo4j-blue" />
+                  : <Pin className="w-4 h-4 text-slate-600" />}
+              </button>
+            )}
+            <button
+              onClick={onClose}
+              className="p-1 hover:bg-slate-100 rounded transition-colors"
+              aria-label="Close panel"
+            >
+              <X className="w-5 h-5 text-slate-600" />
+            </button>
+          </div>
         </div>
       </div>
 
       {/* Content */}
       <div className="flex-1 overflow-y-auto p-4 space-y-6 scrollbar-thin">
         {/* Properties */}
-        {Object.keys(node.properties).length > 0 && (
+        {(Object.keys(node.properties).length > 0 || onUpdate) && (
           <section>
             <h4 className="text-sm font-semibold text-slate-900 mb-3 flex items-center gap-2">
               <Database className="w-4 h-4" />
@@ -97,23 +319,97 @@ RETURN n`
             </h4>
             <div className="space-y-2">
               {Object.entries(node.properties).map(([key, value]) => (
-                <div
-                  key={key}
-                  className="bg-slate-50 rounded-lg p-3 border border-slate-200"
-                >
-                  <div className="text-xs font-medium text-slate-600 mb-1">
-                    {key.replace(/([A-Z])/g, ' $1').trim()}
-                  </div>
-                  <div className="text-sm text-slate-900">
-                    {typeof value === 'object' ? JSON.stringify(value) : String(value)}
+                editingProperty?.originalKey === key ? (
+                  <PropertyForm
+                    key={key}
+                    draft={editingProperty}
+                    onChange={setPropertyDraft}
+                    onSubmit={saveProperty}
+                    onCancel={() => setPropertyDraft(null)}
+                  />
+                ) : (
+                  <div
+                    key={key}
+                    className="group bg-slate-50 rounded-lg p-3 border border-slate-200"
+                  >
+                    <div className="flex items-center gap-1 text-xs font-medium text-slate-600 mb-1">
+                      {key.replace(/([A-Z])/g, ' $1').trim()}
+                      {onUpdate && (
+                        <span className="ml-auto flex gap-0.5 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100">
+                          <button
+                            onClick={() => setPropertyDraft({
+                              nodeId: node.id,
+                              originalKey: key,
+                              key,
+                              type: propertyType(value),
+                              text: propertyText(value)
+                            })}
+                            className="p-0.5 hover:bg-slate-200 rounded"
+                            aria-label={`Edit ${key}`}
+                          >
+                            <Pencil className="w-3 h-3" />
+                          </button>
+                          <button
+                            onClick={() => removeProperty(key)}
+                            className="p-0.5 hover:bg-red-100 hover:text-red-600 rounded"
+                            aria-label={`Remove ${key}`}
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </button>
+                        </span>
+                      )}
+                    </div>
+                    <div className="text-sm text-slate-900">
+                      {typeof value === 'object' ? JSON.stringify(value) : String(value)}
+                    </div>
                   </div>
-                </div>
+                )
+              ))}
+              {onUpdate && (editingProperty && editingProperty.originalKey === undefined ? (
+                <PropertyForm
+                  draft={editingProperty}
+                  onChange={setPropertyDraft}
+                  onSubmit={saveProperty}
+                  onCancel={() => setPropertyDraft(null)}
+                />
+              ) : (
+                <button
+                  onClick={() => setPropertyDraft({ nodeId: node.id, key: '', type: 'string', text: '' })}
+                  className="w-full flex items-center justify-center gap-1 rounded-lg border border-dashed border-slate-300 p-2 text-xs text-slate-500 hover:border-neo4j-blue hover:text-neo4j-blue"
+                >
+                  <Plus className="w-3 h-3" />
+                  Add property
+                </button>
               ))}
             </div>
           </section>
         )}
 
+        {/* Metrics */}
+        {metrics && (
+          <section>
+            <h4 className="text-sm font-semibold text-slate-900 mb-3 flex items-center gap-2">
+              <Gauge className="w-4 h-4" />
+              Graph Metrics
+            </h4>
+            <dl className="grid grid-cols-2 gap-2">
+              {(Object.keys(metricLabels) as MetricKey[]).map(key => (
+                <div key={key} className="bg-slate-50 rounded-lg px-3 py-2 border border-slate-200">
+                  <dt className="text-xs font-medium text-slate-600">{metricLabels[key]}</dt>
+                  <dd className="text-sm font-mono text-slate-900">{formatMetric(key, metrics[key])}</dd>
+                </div>
+              ))}
+            </dl>
+          </section>
+        )}
+
         {/* Connections */}
+        {current?.error && (
+          <div className="flex items-start gap-2 rounded-lg bg-red-50 border border-red-200 p-3 text-sm text-red-700">
+            <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+            Connections could not be loaded: {current.error}
+          </div>
+        )}
         {connectedNodes.length > 0 && (
           <section>
             <h4 className="text-sm font-semibold text-slate-900 mb-3 flex items-center gap-2">
@@ -122,45 +418,110 @@ RETURN n`
             </h4>
             <div className="space-y-2">
               {connectedNodes.map(({ node: connectedNode, relationship, direction }) => (
-                <button
-                  key={relationship.id}
-                  onClick={() => connectedNode && onNodeClick(connectedNode)}
-                  className="w-full bg-white border border-slate-200 rounded-lg p-3 hover:border-neo4j-blue hover:bg-slate-50 transition-colors text-left group"
-                >
-                  <div className="flex items-center gap-3">
-                    <div
-                      className="w-8 h-8 rounded-full flex items-center justify-center text-white text-xs font-bold flex-shrink-0"
-                      style={{ backgroundColor: connectedNode ? nodeColors[connectedNode.type] : '#94a3b8' }}
-                    >
-                      {connectedNode?.type.charAt(0)}
-                    </div>
-                    <div className="flex-1 min-w-0">
-                      <div className="text-sm font-medium text-slate-900 truncate">
-                        {connectedNode?.label}
+                <div key={relationship.id} className="flex items-stretch gap-1">
+                  <button
+                    onClick={() => connectedNode && onNodeClick(connectedNode)}
+                    className="flex-1 min-w-0 bg-white border border-slate-200 rounded-lg p-3 hover:border-neo4j-blue hover:bg-slate-50 transition-colors text-left group"
+                  >
+                    <div className="flex items-center gap-3">
+                      <div
+                        className="w-8 h-8 rounded-full flex items-center justify-center text-white text-xs font-bold flex-shrink-0"
+                        style={{ backgroundColor: connectedNode ? nodeColor(connectedNode) : FALLBACK_COLOR }}
+                      >
+                        {connectedNode?.type.charAt(0)}
                       </div>
-                      <div className="text-xs text-slate-600 mt-0.5">
-                        <span className={cn(
-                          'font-mono',
-                          direction === 'outgoing' ? 'text-neo4j-blue' : 'text-neo4j-purple'
-                        )}>
-                          {direction === 'outgoing' ? '→' : '←'} {relationship.type.replace(/_/g, ' ')}
-                        </span>
+                      <div className="flex-1 min-w-0">
+                        <div className="text-sm font-medium text-slate-900 truncate">
+                          {connectedNode?.label}
+                        </div>
+                        <div className="text-xs text-slate-600 mt-0.5">
+                          <span className={cn(
+                            'font-mono',
+                            direction === 'outgoing' ? 'text-neo4j-blue' : 'text-neo4j-purple'
+                          )}>
+                            {direction === 'outgoing' ? '→' : '←'} {relationship.type.replace(/_/g, ' ')}
+                          </span>
+                        </div>
                       </div>
+                      <ExternalLink className="w-4 h-4 text-slate-400 group-hover:text-neo4j-blue transition-colors" />
                     </div>
-                    <ExternalLink className="w-4 h-4 text-slate-400 group-hover:text-neo4j-blue transition-colors" />
-                  </div>
-                </button>
+                  </button>
+                  {onDeleteRelationship && (
+                    <button
+                      onClick={() => onDeleteRelationship(relationship)}
+                      className="px-2 rounded-lg border border-slate-200 text-slate-400 hover:text-red-600 hover:border-red-200 hover:bg-red-50"
+                      aria-label={`Delete ${relationship.type} relationship to ${connectedNode?.label}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
+                </div>
               ))}
             </div>
           </section>
         )}
 
+        {/* Expansion */}
+        {(onExpand || onCollapse || onExploreFrom) && (
+          <section>
+            <h4 className="text-sm font-semibold text-slate-900 mb-3 flex items-center gap-2">
+              <Expand className="w-4 h-4" />
+              Explore
+            </h4>
+            {onExpand && expansions.size > 0 && (
+              <div className="flex flex-wrap gap-1.5 mb-2">
+                {[...expansions.values()].map(({ type, direction, count }) => (
+                  <button
+                    key={`${direction}:${type}`}
+                    onClick={() => onExpand({ types: [type], direction })}
+                    className={cn(
+                      'rounded-full border border-slate-200 px-2 py-0.5 text-xs font-mono hover:border-neo4j-blue hover:bg-slate-50 transition-colors',
+                      direction === 'outgoing' ? 'text-neo4j-blue' : 'text-neo4j-purple'
+                    )}
+                    title={`Add ${direction} ${type} neighbours to the graph`}
+                  >
+                    {direction === 'outgoing' ? '→' : '←'} {type} ({count})
+                  </button>
+                ))}
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {onExpand && (
+                <button
+                  onClick={() => onExpand({})}
+                  className="flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-xs text-slate-700 hover:bg-slate-50"
+                >
+                  <Expand className="w-3 h-3 text-neo4j-blue" />
+                  All neighbours
+                </button>
+              )}
+              {onCollapse && (
+                <button
+                  onClick={onCollapse}
+                  className="flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-xs text-slate-700 hover:bg-slate-50"
+                >
+                  <Shrink className="w-3 h-3 text-neo4j-purple" />
+                  Collapse
+                </button>
+              )}
+              {onExploreFrom && (
+                <button
+                  onClick={onExploreFrom}
+                  className="flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1 text-xs text-slate-700 hover:bg-slate-50"
+                  title="Show only this node and expand from there"
+                >
+                  <Sprout className="w-3 h-3 text-neo4j-green" />
+                  Explore from here
+                </button>
+              )}
+            </div>
+          </section>
+        )}
+
         {/* Cypher Query */}
         <section>
           <h4 className="text-sm font-semibold text-slate-900 mb-3">Cypher Query</h4>
-          <div className="bg-slate-900 rounded-lg p-4 font-mono text-xs text-slate-100 overflow-x-auto">
-            <pre className="whitespace-pre-wrap">{cypherQuery}</pre>
-          </div>
+          <CypherCode query={nodeQuery.query} params={nodeQuery.params} className="p-4" />
           <p className="text-xs text-slate-600 mt-2">
             Use this query to retrieve this node in Neo4j
           </p>
@@ -169,3 +530,78 @@ RETURN n`
     </div>
   )
 }
+
+interface PropertyFormProps {
+  draft: PropertyDraft
+  onChange: (draft: PropertyDraft) => void
+  onSubmit: (event: FormEvent) => void
+  onCancel: () => void
+}
+
+/**
+ * Key, type and value inputs for editing or adding a property
+ */
+function PropertyForm({ draft, onChange, onSubmit, onCancel }: PropertyFormProps) {
+  const inputClass = 'rounded border border-slate-300 bg-white px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-neo4j-blue'
+  const change = (changes: Partial<PropertyDraft>) => onChange({ ...draft, ...changes, error: undefined })
+
+  return (
+    <form
+      onSubmit={onSubmit}
+      onKeyDown={event => event.key === 'Escape' && onCancel()}
+      className="bg-slate-50 rounded-lg p-3 border border-neo4j-blue space-y-2"
+    >
+      <div className="flex gap-2">
+        <input
+          value={draft.key}
+          onChange={event => change({ key: event.target.value })}
+          placeholder="key"
+          className={cn(inputClass, 'flex-1 min-w-0 font-mono text-xs')}
+          aria-label="Property key"
+          autoFocus={draft.originalKey === undefined}
+        />
+        <select
+          value={draft.type}
+          onChange={event => {
+            const type = event.target.value as PropertyType
+            change(type === 'boolean' ? { type, text: String(/^true$/i.test(draft.text.trim())) } : { type })
+          }}
+          className={cn(inputClass, 'text-xs')}
+          aria-label="Property type"
+        >
+          {propertyTypes.map(type => <option key={type} value={type}>{type}</option>)}
+        </select>
+      </div>
+      {draft.type === 'boolean' ? (
+        <select
+          value={/^true$/i.test(draft.text.trim()) ? 'true' : 'false'}
+          onChange={event => change({ text: event.target.value })}
+          className={cn(inputClass, 'w-full')}
+          aria-label="Property value"
+        >
+          <option value="true">true</option>
+          <option value="false">false</option>
+        </select>
+      ) : (
+        <input
+          value={draft.text}
+          onChange={event => change({ text: event.target.value })}
+          placeholder={draft.type === 'list' ? 'a, b, c' : 'value'}
+          inputMode={draft.type === 'number' ? 'decimal' : undefined}
+          className={cn(inputClass, 'w-full')}
+          aria-label="Property value"
+          autoFocus={draft.originalKey !== undefined}
+        />
+      )}
+      {draft.error && <p className="text-xs text-red-600">{draft.error}</p>}
+      <div className="flex justify-end gap-2">
+        <button type="button" onClick={onCancel} className="rounded px-2 py-1 text-xs text-slate-600 hover:bg-slate-200">
+          Cancel
+        </button>
+        <button type="submit" className="rounded bg-neo4j-blue px-2 py-1 text-xs font-medium text-white hover:bg-neo4j-blue/90">
+          Save
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -0,0 +1,303 @@
+import { useMemo, useState } from 'react'
+import {
+  ArrowDownUp,
+  ChevronLeft,
+  ChevronRight,
+  Crosshair,
+  Eraser,
+  MessageSquarePlus,
+  Route,
+  Search
+} from 'lucide-react'
+import type { ExpandDirection, GraphData, GraphNode, GraphPath } from '../types'
+import { cn } from '../lib/utils'
+import { nodeColor } from '../lib/styles'
+import {
+  defaultPathSearchOptions,
+  findPaths,
+  isForwardHop,
+  pathModes,
+  type PathMode,
+  type PathSearchOptions
+} from '../lib/paths'
+
+interface PathFinderPanelProps {
+  /** Graph searched for paths */
+  data: GraphData
+  selectedNode: GraphNode | null
+  relationshipTypes: string[]
+  /** Highlights a path in the graph, or clears the highlight */
+  onHighlightPath: (path: GraphPath | null) => void
+  /** Makes a path the chat's retrieval scope */
+  onSendToChat: (path: GraphPath) => void
+  className?: string
+}
+
+const directionLabels: Record<ExpandDirection, string> = {
+  both: 'Any direction',
+  outgoing: 'Start → end',
+  incoming: 'End → start'
+}
+
+/**
+ * Finds shortest, all shortest or all simple paths between two nodes and
+ * steps through them, highlighting each in the graph
+ */
+export function PathFinderPanel({
+  data,
+  selectedNode,
+  relationshipTypes,
+  onHighlightPath,
+  onSendToChat,
+  className
+}: PathFinderPanelProps) {
+  const [startId, setStartId] = useState(selectedNode?.id ?? '')
+  const [endId, setEndId] = useState('')
+  const [options, setOptions] = useState<PathSearchOptions>(defaultPathSearchOptions)
+  const [paths, setPaths] = useState<GraphPath[] | null>(null)
+  const [activeIndex, setActiveIndex] = useState(0)
+
+  const nodes = useMemo(
+    () => [...data.nodes].sort((a, b) => a.label.localeCompare(b.label)),
+    [data]
+  )
+
+  const activate = (found: GraphPath[], index: number) => {
+    setActiveIndex(index)
+    onHighlightPath(found[index] ?? null)
+  }
+
+  const search = () => {
+    const found = findPaths(data, startId, endId, options)
+    setPaths(found)
+    activate(found, 0)
+  }
+
+  const clear = () => {
+    setPaths(null)
+    onHighlightPath(null)
+  }
+
+  const toggleType = (type: string) => {
+    const types = options.types.includes(type)
+      ? options.types.filter(t => t !== type)
+      : [...options.types, type]
+    setOptions({ ...options, types })
+  }
+
+  const nodePicker = (label: string, value: string, onChange: (id: string) => void) => (
+    <div>
+      <label className="block text-xs font-medium text-slate-700 mb-1">{label}</label>
+      <div className="flex gap-1">
+        <select
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="flex-1 min-w-0 rounded-lg border border-slate-300 px-2 py-1 text-sm focus:outline-none focus:ring-2 focus:ring-neo4j-blue"
+        >
+          <option value="">Choose a node…</option>
+          {nodes.map(node => (
+            <option key={node.id} value={node.id}>{node.label} ({node.type})</option>
+          ))}
+        </select>
+        <button
+          onClick={() => selectedNode && onChange(selectedNode.id)}
+          disabled={!selectedNode}
+          className="p-1.5 rounded-lg border border-slate-200 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+          aria-label={`Use the selected node as ${label.toLowerCase()}`}
+          title="Use the selected node"
+        >
+          <Crosshair className="w-3.5 h-3.5 text-neo4j-blue" />
+        </button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className={cn('h-full bg-white rounded-lg border border-slate-200 overflow-hidden flex flex-col', className)}>
+      <div className="px-4 py-3 border-b border-slate-200">
+        <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+          <Route className="w-4 h-4 text-neo4j-blue" />
+          Path finder
+        </h3>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 scrollbar-thin">
+        <div className="space-y-2">
+          {nodePicker('Start', startId, setStartId)}
+          <button
+            onClick={() => {
+              setStartId(endId)
+              setEndId(startId)
+            }}
+            className="flex items-center gap-1 text-xs text-neo4j-blue hover:underline"
+          >
+            <ArrowDownUp className="w-3 h-3" />
+            Swap
+          </button>
+          {nodePicker('End', endId, setEndId)}
+        </div>
+
+        <div className="space-y-2 text-xs">
+          <div className="flex rounded-lg border border-slate-200 p-0.5" role="radiogroup" aria-label="Path search">
+            {(Object.keys(pathModes) as PathMode[]).map(mode => (
+              <button
+                key={mode}
+                role="radio"
+                aria-checked={options.mode === mode}
+                onClick={() => setOptions({ ...options, mode })}
+                className={cn(
+                  'flex-1 px-1.5 py-1 rounded-md transition-colors',
+                  options.mode === mode ? 'bg-neo4j-blue text-white' : 'text-slate-600 hover:bg-slate-100'
+                )}
+              >
+                {pathModes[mode]}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <label className="flex items-center gap-1 text-slate-700">
+              Max hops
+              <input
+                type="number"
+                min={1}
+                max={8}
+                value={options.maxHops}
+                onChange={(e) => setOptions({ ...options, maxHops: Math.min(8, Math.max(1, Number(e.target.value) || 1)) })}
+                className="w-12 rounded border border-slate-300 px-1 py-0.5 focus:outline-none focus:ring-2 focus:ring-neo4j-blue"
+              />
+            </label>
+            <select
+              value={options.direction}
+              onChange={(e) => setOptions({ ...options, direction: e.target.value as ExpandDirection })}
+              className="flex-1 min-w-0 rounded border border-slate-300 px-1 py-0.5 focus:outline-none focus:ring-2 focus:ring-neo4j-blue"
+              aria-label="Relationship direction"
+            >
+              {(Object.keys(directionLabels) as ExpandDirection[]).map(direction => (
+                <option key={direction} value={direction}>{directionLabels[direction]}</option>
+              ))}
+            </select>
+          </div>
+          {relationshipTypes.length > 0 && (
+            <div>
+              <p className="text-slate-700 mb-1">
+                Follow {options.types.length === 0 ? 'any relationship type' : 'only these types'}
+              </p>
+              <div className="flex flex-wrap gap-1">
+                {relationshipTypes.map(type => (
+                  <button
+                    key={type}
+                    onClick={() => toggleType(type)}
+                    aria-pressed={options.types.includes(type)}
+                    className={cn(
+                      'rounded-full border px-2 py-0.5 font-mono transition-colors',
+                      options.types.includes(type)
+                        ? 'border-neo4j-blue bg-neo4j-blue text-white'
+                        : 'border-slate-200 text-slate-600 hover:border-neo4j-blue'
+                    )}
+                  >
+                    {type}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+
+        <div className="flex gap-2">
+          <button
+            onClick={search}
+            disabled={!startId || !endId || startId === endId}
+            className="flex-1 flex items-center justify-center gap-1.5 rounded-lg bg-neo4j-blue px-3 py-1.5 text-sm font-medium text-white hover:bg-neo4j-blue/90 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Search className="w-4 h-4" />
+            Find paths
+          </button>
+          {paths && (
+            <button
+              onClick={clear}
+              className="flex items-center gap-1 rounded-lg border border-slate-200 px-2 py-1.5 text-sm text-slate-700 hover:bg-slate-50"
+            >
+              <Eraser className="w-4 h-4" />
+              Clear
+            </button>
+          )}
+        </div>
+
+        {paths && (
+          <section className="space-y-2">
+            <div className="flex items-center justify-between text-xs text-slate-600">
+              <span>
+                {paths.length === 0
+                  ? `No paths within ${options.maxHops} ${options.maxHops === 1 ? 'hop' : 'hops'}`
+                  : `Path ${activeIndex + 1} of ${paths.length}`}
+              </span>
+              {paths.length > 1 && (
+                <span className="flex gap-1">
+                  <button
+                    onClick={() => activate(paths, (activeIndex - 1 + paths.length) % paths.length)}
+                    className="p-1 rounded border border-slate-200 hover:bg-slate-50"
+                    aria-label="Previous path"
+                  >
+                    <ChevronLeft className="w-3 h-3" />
+                  </button>
+                  <button
+                    onClick={() => activate(paths, (activeIndex + 1) % paths.length)}
+                    className="p-1 rounded border border-slate-200 hover:bg-slate-50"
+                    aria-label="Next path"
+                  >
+                    <ChevronRight className="w-3 h-3" />
+                  </button>
+                </span>
+              )}
+            </div>
+            <ol className="space-y-2">
+              {paths.map((path, index) => (
+                <li
+                  key={path.relationships.map(rel => rel.id).join('|')}
+                  className={cn(
+                    'rounded-lg border p-2 text-xs',
+                    index === activeIndex ? 'border-neo4j-blue bg-neo4j-blue/5' : 'border-slate-200'
+                  )}
+                >
+                  <button
+                    onClick={() => activate(paths, index)}
+                    className="w-full text-left"
+                    aria-current={index === activeIndex}
+                  >
+                    <span className="block text-slate-500 mb-1">
+                      {path.relationships.length} {path.relationships.length === 1 ? 'hop' : 'hops'}
+                    </span>
+                    <span className="flex flex-wrap items-center gap-1">
+                      {path.nodes.map((node, i) => (
+                        <span key={`${node.id}-${i}`} className="flex items-center gap-1">
+                          {i > 0 && (
+                            <span className="font-mono text-slate-500">
+                              {isForwardHop(path, i - 1)
+                                ? `-[${path.relationships[i - 1].type}]→`
+                                : `←[${path.relationships[i - 1].type}]-`}
+                            </span>
+                          )}
+                          <span className="inline-flex items-center gap-1 font-medium text-slate-900">
+                            <span className="w-2 h-2 rounded-full" style={{ backgroundColor: nodeColor(node) }} />
+                            {node.label}
+                          </span>
+                        </span>
+                      ))}
+                    </span>
+                  </button>
+                  <button
+                    onClick={() => onSendToChat(path)}
+                    className="mt-2 flex items-center gap-1 text-neo4j-purple hover:underline"
+                  >
+                    <MessageSquarePlus className="w-3 h-3" />
+                    Ask about this path in chat
+                  </button>
+                </li>
+              ))}
+            </ol>
+          </section>
+        )}
+      </div>
+    </div>
+  )
+}
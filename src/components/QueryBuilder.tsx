@@ -1,75 +1,449 @@
-import { useState } from 'react'
-import { Code2, Lightbulb, Play } from 'lucide-react'
-import { sampleQueries } from '../data/sampleGraph'
-import { cn } from '../lib/utils'
+import { useId, useMemo, useRef, useState } from 'react'
+import {
+  AlertCircle,
+  Bookmark,
+  BookmarkPlus,
+  CheckCircle2,
+  Code2,
+  FileDown,
+  FileUp,
+  History,
+  Lightbulb,
+  Loader2,
+  Lock,
+  PencilLine,
+  Play,
+  Search,
+  Trash2
+} from 'lucide-react'
+import type { CypherResult, GraphNode, GraphRelationship, GraphSchema, QueryParameter, QueryParameterType, SavedQuery } from '../types'
+import { cn, downloadFile } from '../lib/utils'
+import { loadQueryHistory, recordQuery } from '../lib/cypherEditor'
+import {
+  loadSavedQueries,
+  mergeSavedQueries,
+  newQueryId,
+  parseParameters,
+  parseSavedQueriesJson,
+  parseTags,
+  queryParameterNames,
+  queryParameterTypes,
+  savedQueriesToJson,
+  starterQueries,
+  storeSavedQueries
+} from '../lib/queryLibrary'
+import { CypherCode, CypherEditor } from './CypherEditor'
+import { ResultViewer } from './ResultViewer'
 
 interface QueryBuilderProps {
-  onQueryExecute: (query: string) => void
+  onQueryExecute: (cypher: string, params?: Record<string, unknown>) => Promise<CypherResult>
+  /** Called when a node or relationship in a result is clicked */
+  onNodeClick?: (node: GraphNode) => void
+  onRelationshipClick?: (relationship: GraphRelationship) => void
+  /** Schema of the loaded graph, for autocomplete and diagnostics */
+  schema: GraphSchema
   className?: string
 }
 
+type ExecutionState =
+  | { status: 'running' }
+  | { status: 'done'; result: CypherResult }
+  | { status: 'error'; message: string }
+
+interface SaveDraft {
+  title: string
+  explanation: string
+  tags: string
+}
+
+const inputClass = 'w-full rounded border border-slate-300 px-2 py-1 text-xs focus:outline-none focus:ring-2 focus:ring-neo4j-blue'
+
 /**
- * Interactive query builder with sample queries
+ * Cypher editor with a session query history, plus a library of saved
+ * queries and a read-only starter pack
  *
  * Demonstrates:
  * - Cypher query patterns
  * - Natural language to Cypher translation
  * - Educational tooltips for query understanding
  * - Quick execution of common patterns
+ *
+ * `$name` placeholders become typed inputs; entries are converted to their
+ * type and passed as query parameters
  */
-export function QueryBuilder({ onQueryExecute, className }: QueryBuilderProps) {
-  const [selectedQuery, setSelectedQuery] = useState<number | null>(null)
+export function QueryBuilder({ onQueryExecute, onNodeClick, onRelationshipClick, schema, className }: QueryBuilderProps) {
+  // Where the last query came from: a library query's id or the editor
+  const [execution, setExecution] = useState<{ target: string; state: ExecutionState } | null>(null)
+  const [query, setQuery] = useState('')
+  const [history, setHistory] = useState(loadQueryHistory)
+  const [showHistory, setShowHistory] = useState(false)
+  // Types picked for the editor's parameters, and the values entered for them
+  const [parameterTypes, setParameterTypes] = useState<Record<string, QueryParameterType>>({})
+  const [editorValues, setEditorValues] = useState<Record<string, string>>({})
+  // Saved query the editor was loaded from; saving updates it
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [saveDraft, setSaveDraft] = useState<SaveDraft | null>(null)
+
+  const [library, setLibrary] = useState(loadSavedQueries)
+  const [libraryError, setLibraryError] = useState<string | null>(null)
+  const [expanded, setExpanded] = useState<string | null>(null)
+  const [libraryValues, setLibraryValues] = useState<Record<string, string>>({})
+  const [search, setSearch] = useState('')
+  const [activeTag, setActiveTag] = useState<string | null>(null)
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const editorParameters = useMemo(
+    () => queryParameterNames(query).map((name): QueryParameter => ({ name, type: parameterTypes[name] ?? 'string' })),
+    [query, parameterTypes]
+  )
+  const editing = library.find(saved => saved.id === editingId)
+
+  const allQueries = useMemo(() => [...library, ...starterQueries], [library])
+  const tags = useMemo(() => [...new Set(allQueries.flatMap(saved => saved.tags))].sort(), [allQueries])
+  const shown = useMemo(() => {
+    const needle = search.trim().toLowerCase()
+    return allQueries.filter(saved =>
+      (!activeTag || saved.tags.includes(activeTag)) &&
+      (!needle || [saved.title, saved.explanation, saved.cypher, ...saved.tags].some(text => text.toLowerCase().includes(needle)))
+    )
+  }, [allQueries, search, activeTag])
+
+  const updateLibrary = (next: SavedQuery[]) => {
+    setLibrary(next)
+    try {
+      storeSavedQueries(next)
+      setLibraryError(null)
+    } catch (error) {
+      setLibraryError(`The library could not be saved: ${(error as Error).message}`)
+    }
+  }
+
+  const execute = async (target: string, cypher: string, parameters: QueryParameter[], values: Record<string, string>) => {
+    let params: Record<string, unknown>
+    try {
+      params = parseParameters(parameters, values)
+    } catch (error) {
+      setExecution({ target, state: { status: 'error', message: (error as Error).message } })
+      return
+    }
+    setExecution({ target, state: { status: 'running' } })
+    try {
+      const result = await onQueryExecute(cypher, parameters.length > 0 ? params : undefined)
+      setExecution({ target, state: { status: 'done', result } })
+    } catch (error) {
+      setExecution({ target, state: { status: 'error', message: (error as Error).message } })
+    }
+  }
+
+  const handleRun = () => {
+    const cypher = query.trim()
+    if (!cypher || execution?.state.status === 'running') return
+    setHistory(recordQuery(cypher))
+    setShowHistory(false)
+    execute('editor', cypher, editorParameters, editorValues)
+  }
+
+  const handleEdit = (saved: SavedQuery) => {
+    setQuery(saved.cypher)
+    setParameterTypes(Object.fromEntries(saved.parameters.map(parameter => [parameter.name, parameter.type])))
+    setEditorValues(Object.fromEntries(saved.parameters.map(parameter => [parameter.name, parameter.defaultValue ?? ''])))
+    // Starter queries are copied: saving creates a query of one's own
+    setEditingId(saved.builtIn ? null : saved.id)
+    setSaveDraft(null)
+  }
+
+  const openSaveForm = () => setSaveDraft(editing
+    ? { title: editing.title, explanation: editing.explanation, tags: editing.tags.join(', ') }
+    : { title: '', explanation: '', tags: '' })
+
+  const handleSave = (asNew: boolean) => {
+    if (!saveDraft || !saveDraft.title.trim() || !query.trim()) return
+    const saved: SavedQuery = {
+      id: editing && !asNew ? editing.id : newQueryId(),
+      title: saveDraft.title.trim(),
+      explanation: saveDraft.explanation.trim(),
+      tags: parseTags(saveDraft.tags),
+      cypher: query.trim(),
+      // Values entered now become the defaults
+      parameters: editorParameters.map(parameter => ({
+        ...parameter,
+        ...(editorValues[parameter.name] ? { defaultValue: editorValues[parameter.name] } : {})
+      })),
+      updatedAt: new Date().toISOString()
+    }
+    updateLibrary(library.some(entry => entry.id === saved.id)
+      ? library.map(entry => (entry.id === saved.id ? saved : entry))
+      : [saved, ...library])
+    setEditingId(saved.id)
+    setSaveDraft(null)
+  }
+
+  const handleDelete = (id: string) => {
+    updateLibrary(library.filter(entry => entry.id !== id))
+    if (editingId === id) setEditingId(null)
+    setConfirmDelete(null)
+  }
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return
+    try {
+      updateLibrary(mergeSavedQueries(library, parseSavedQueriesJson(await file.text())))
+    } catch (error) {
+      setLibraryError(`Could not import ${file.name}: ${(error as Error).message}`)
+    }
+  }
+
+  const toggleExpanded = (saved: SavedQuery) => {
+    setExpanded(expanded === saved.id ? null : saved.id)
+    setLibraryValues(Object.fromEntries(saved.parameters.map(parameter => [parameter.name, parameter.defaultValue ?? ''])))
+    setConfirmDelete(null)
+  }
 
   return (
     <div className={cn('bg-white rounded-lg border border-slate-200 p-4', className)}>
-      <div className="flex items-center gap-2 mb-4">
+      <div className="flex items-center gap-2 mb-3">
         <Code2 className="w-5 h-5 text-neo4j-blue" />
-        <h3 className="font-semibold text-slate-900">Sample Queries</h3>
+        <h3 className="font-semibold text-slate-900 flex-1">Cypher</h3>
+        <button
+          onClick={() => setShowHistory(!showHistory)}
+          disabled={history.length === 0}
+          aria-expanded={showHistory}
+          className={cn(
+            'flex items-center gap-1 text-xs px-2 py-1 rounded-md transition-colors disabled:opacity-40',
+            showHistory ? 'bg-neo4j-blue/10 text-neo4j-blue' : 'text-slate-600 hover:bg-slate-100'
+          )}
+          title="Queries run in this session"
+        >
+          <History className="w-3.5 h-3.5" />
+          History ({history.length})
+        </button>
+      </div>
+
+      {showHistory && (
+        <ul className="mb-3 max-h-32 overflow-y-auto scrollbar-thin rounded-lg border border-slate-200 divide-y divide-slate-100">
+          {history.map(previous => (
+            <li key={previous}>
+              <button
+                onClick={() => {
+                  setQuery(previous)
+                  setShowHistory(false)
+                }}
+                className="w-full text-left px-2 py-1 font-mono text-[11px] text-slate-700 truncate hover:bg-slate-50"
+                title={previous}
+              >
+                {previous.replace(/\s+/g, ' ')}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {editing && (
+        <p className="mb-1 text-xs text-slate-500 flex items-center gap-1">
+          <Bookmark className="w-3 h-3 text-neo4j-blue" />
+          Editing <span className="font-medium text-slate-700">{editing.title}</span>
+        </p>
+      )}
+      <CypherEditor
+        value={query}
+        onChange={setQuery}
+        onRun={handleRun}
+        schema={schema}
+        placeholder="MATCH (n) RETURN n LIMIT 25"
+      />
+      {editorParameters.length > 0 && (
+        <ParameterForm
+          parameters={editorParameters}
+          values={editorValues}
+          onValueChange={(name, value) => setEditorValues(values => ({ ...values, [name]: value }))}
+          onTypeChange={(name, type) => setParameterTypes(types => ({ ...types, [name]: type }))}
+          className="mt-2"
+        />
+      )}
+      <div className="mt-2 flex items-center gap-2">
+        <button
+          onClick={handleRun}
+          disabled={!query.trim() || execution?.state.status === 'running'}
+          className="bg-neo4j-blue text-white rounded-lg px-3 py-1.5 text-sm font-medium hover:bg-neo4j-blue/90 transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          <Play className="w-4 h-4" />
+          Run
+        </button>
+        <button
+          onClick={openSaveForm}
+          disabled={!query.trim()}
+          className="border border-slate-300 text-slate-700 rounded-lg px-3 py-1.5 text-sm hover:bg-slate-50 transition-colors flex items-center gap-2 disabled:opacity-50"
+        >
+          <BookmarkPlus className="w-4 h-4" />
+          Save
+        </button>
+        <span className="text-xs text-slate-400">Ctrl+Enter to run · Ctrl+Space for suggestions</span>
       </div>
+      {saveDraft && (
+        <SaveQueryForm
+          draft={saveDraft}
+          onChange={setSaveDraft}
+          isUpdate={Boolean(editing)}
+          onSave={handleSave}
+          onCancel={() => setSaveDraft(null)}
+        />
+      )}
+      {execution?.target === 'editor' && (
+        <div className="mt-2">
+          <ExecutionStatus state={execution.state} onNodeClick={onNodeClick} onRelationshipClick={onRelationshipClick} />
+        </div>
+      )}
+
+      <div className="mt-4 mb-2 flex items-center gap-2">
+        <h4 className="text-sm font-semibold text-slate-900 flex-1">Query Library</h4>
+        <button
+          onClick={() => downloadFile(savedQueriesToJson(library), 'graphrag-queries.json', 'application/json')}
+          disabled={library.length === 0}
+          className="flex items-center gap-1 text-xs px-2 py-1 rounded-md text-slate-600 hover:bg-slate-100 disabled:opacity-40"
+          title="Download your saved queries as JSON"
+        >
+          <FileDown className="w-3.5 h-3.5" />
+          Export
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 text-xs px-2 py-1 rounded-md text-slate-600 hover:bg-slate-100"
+          title="Add queries from a JSON file; queries with the same id are replaced"
+        >
+          <FileUp className="w-3.5 h-3.5" />
+          Import
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            importFile(e.target.files?.[0])
+            e.target.value = ''
+          }}
+        />
+      </div>
+      {libraryError && <p className="mb-2 text-xs text-red-600">{libraryError}</p>}
+
+      <div className="relative mb-2">
+        <Search className="w-3.5 h-3.5 text-slate-400 absolute left-2 top-1/2 -translate-y-1/2" />
+        <input
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+          placeholder="Search queries"
+          aria-label="Search saved queries"
+          className={cn(inputClass, 'pl-7')}
+        />
+      </div>
+      {tags.length > 0 && (
+        <div className="mb-3 flex flex-wrap gap-1">
+          {tags.map(tag => (
+            <button
+              key={tag}
+              onClick={() => setActiveTag(activeTag === tag ? null : tag)}
+              aria-pressed={activeTag === tag}
+              className={cn(
+                'rounded-full px-2 py-0.5 text-[11px] border transition-colors',
+                activeTag === tag
+                  ? 'border-neo4j-blue bg-neo4j-blue text-white'
+                  : 'border-slate-200 text-slate-600 hover:border-slate-300'
+              )}
+            >
+              #{tag}
+            </button>
+          ))}
+        </div>
+      )}
 
       <div className="space-y-3">
-        {sampleQueries.map((query, index) => (
+        {shown.length === 0 && <p className="text-xs text-slate-500">No saved query matches</p>}
+        {shown.map(saved => (
           <div
-            key={index}
+            key={saved.id}
             className={cn(
               'border rounded-lg transition-all',
-              selectedQuery === index
+              expanded === saved.id
                 ? 'border-neo4j-blue bg-neo4j-blue/5'
                 : 'border-slate-200 hover:border-slate-300'
             )}
           >
             <button
-              onClick={() => setSelectedQuery(selectedQuery === index ? null : index)}
+              onClick={() => toggleExpanded(saved)}
               className="w-full text-left p-3"
             >
               <div className="flex items-start gap-3">
-                <Lightbulb className="w-4 h-4 text-amber-500 mt-0.5 flex-shrink-0" />
+                {saved.builtIn
+                  ? <Lightbulb className="w-4 h-4 text-amber-500 mt-0.5 flex-shrink-0" />
+                  : <Bookmark className="w-4 h-4 text-neo4j-blue mt-0.5 flex-shrink-0" />}
                 <div className="flex-1 min-w-0">
-                  <p className="text-sm font-medium text-slate-900 mb-1">
-                    {query.natural}
-                  </p>
-                  <p className="text-xs text-slate-600">
-                    {query.explanation}
+                  <p className="text-sm font-medium text-slate-900 mb-1 flex items-center gap-1">
+                    {saved.title}
+                    {saved.builtIn && <Lock className="w-3 h-3 text-slate-400 flex-shrink-0" aria-label="Read-only" />}
                   </p>
+                  {saved.explanation && (
+                    <p className="text-xs text-slate-600">
+                      {saved.explanation}
+                    </p>
+                  )}
+                  {saved.tags.length > 0 && (
+                    <p className="mt-1 text-[11px] text-slate-400">{saved.tags.map(tag => `#${tag}`).join(' ')}</p>
+                  )}
                 </div>
               </div>
             </button>
 
-            {selectedQuery === index && (
+            {expanded === saved.id && (
               <div className="border-t border-slate-200 p-3 space-y-3 animate-in slide-in-from-top-2 duration-200">
                 {/* Cypher query display */}
-                <div className="bg-slate-900 rounded-lg p-3 font-mono text-xs text-slate-100 overflow-x-auto">
-                  <pre className="whitespace-pre-wrap">{query.cypher}</pre>
+                <CypherCode query={saved.cypher} />
+
+                {saved.parameters.length > 0 && (
+                  <ParameterForm
+                    parameters={saved.parameters}
+                    values={libraryValues}
+                    onValueChange={(name, value) => setLibraryValues(values => ({ ...values, [name]: value }))}
+                  />
+                )}
+
+                <div className="flex gap-2">
+                  <button
+                    onClick={() => execute(saved.id, saved.cypher, saved.parameters, libraryValues)}
+                    disabled={execution?.target === saved.id && execution.state.status === 'running'}
+                    className="flex-1 bg-neo4j-blue text-white rounded-lg px-4 py-2 text-sm font-medium hover:bg-neo4j-blue/90 transition-colors flex items-center justify-center gap-2 disabled:opacity-50"
+                  >
+                    <Play className="w-4 h-4" />
+                    Execute Query
+                  </button>
+                  <button
+                    onClick={() => handleEdit(saved)}
+                    className="border border-slate-300 text-slate-700 rounded-lg px-3 py-2 text-sm hover:bg-slate-50 transition-colors flex items-center gap-2"
+                    title={saved.builtIn ? 'Copy into the editor' : 'Open in the editor'}
+                  >
+                    <PencilLine className="w-4 h-4" />
+                    Edit
+                  </button>
+                  {!saved.builtIn && (
+                    <button
+                      onClick={() => (confirmDelete === saved.id ? handleDelete(saved.id) : setConfirmDelete(saved.id))}
+                      className={cn(
+                        'border rounded-lg px-3 py-2 text-sm transition-colors flex items-center gap-2',
+                        confirmDelete === saved.id
+                          ? 'border-red-600 bg-red-600 text-white'
+                          : 'border-slate-300 text-red-600 hover:bg-red-50'
+                      )}
+                      aria-label={`Delete ${saved.title}`}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                      {confirmDelete === saved.id && 'Confirm'}
+                    </button>
+                  )}
                 </div>
 
-                {/* Execute button */}
-                <button
-                  onClick={() => onQueryExecute(query.natural)}
-                  className="w-full bg-neo4j-blue text-white rounded-lg px-4 py-2 text-sm font-medium hover:bg-neo4j-blue/90 transition-colors flex items-center justify-center gap-2"
-                >
-                  <Play className="w-4 h-4" />
-                  Execute Query
-                </button>
+                {execution?.target === saved.id && (
+                  <ExecutionStatus state={execution.state} onNodeClick={onNodeClick} onRelationshipClick={onRelationshipClick} />
+                )}
               </div>
             )}
           </div>
@@ -87,3 +461,174 @@ export function QueryBuilder({ onQueryExecute, className }: QueryBuilderProps) {
     </div>
   )
 }
+
+/**
+ * One input per `$parameter`, matching its type; with `onTypeChange` the
+ * type can be picked as well
+ */
+function ParameterForm({ parameters, values, onValueChange, onTypeChange, className }: {
+  parameters: QueryParameter[]
+  values: Record<string, string>
+  onValueChange: (name: string, value: string) => void
+  onTypeChange?: (name: string, type: QueryParameterType) => void
+  className?: string
+}) {
+  const formId = useId()
+  return (
+    <div className={cn('space-y-1.5', className)}>
+      {parameters.map(parameter => {
+        const value = values[parameter.name] ?? parameter.defaultValue ?? ''
+        const id = `${formId}-${parameter.name}`
+        return (
+          <div key={parameter.name} className="flex items-center gap-2 text-xs">
+            <label htmlFor={id} className="w-20 flex-shrink-0 font-mono text-rose-600 truncate" title={`$${parameter.name}`}>
+              ${parameter.name}
+            </label>
+            {onTypeChange ? (
+              <select
+                value={parameter.type}
+                onChange={(e) => onTypeChange(parameter.name, e.target.value as QueryParameterType)}
+                aria-label={`Type of $${parameter.name}`}
+                className="rounded border border-slate-300 bg-white px-1 py-1"
+              >
+                {queryParameterTypes.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            ) : (
+              <span className="w-14 flex-shrink-0 text-slate-400">{parameter.type}</span>
+            )}
+            {parameter.type === 'boolean' ? (
+              <select
+                id={id}
+                value={value}
+                onChange={(e) => onValueChange(parameter.name, e.target.value)}
+                className={cn(inputClass, 'bg-white')}
+              >
+                <option value="">Choose…</option>
+                <option value="true">true</option>
+                <option value="false">false</option>
+              </select>
+            ) : (
+              <input
+                id={id}
+                type={parameter.type === 'integer' || parameter.type === 'float' ? 'number' : 'text'}
+                step={parameter.type === 'integer' ? 1 : 'any'}
+                value={value}
+                onChange={(e) => onValueChange(parameter.name, e.target.value)}
+                placeholder={parameter.type === 'list' ? 'a, b, c or [1, 2]' : undefined}
+                className={inputClass}
+              />
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
+function SaveQueryForm({ draft, onChange, isUpdate, onSave, onCancel }: {
+  draft: SaveDraft
+  onChange: (draft: SaveDraft) => void
+  /** The editor holds a saved query, which Save overwrites */
+  isUpdate: boolean
+  onSave: (asNew: boolean) => void
+  onCancel: () => void
+}) {
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault()
+        onSave(false)
+      }}
+      className="mt-2 space-y-2 rounded-lg border border-slate-200 p-3 text-xs"
+    >
+      <label className="block">
+        <span className="text-slate-600">Title</span>
+        <input
+          value={draft.title}
+          onChange={(e) => onChange({ ...draft, title: e.target.value })}
+          required
+          autoFocus
+          className={cn(inputClass, 'mt-1')}
+        />
+      </label>
+      <label className="block">
+        <span className="text-slate-600">Explanation</span>
+        <textarea
+          value={draft.explanation}
+          onChange={(e) => onChange({ ...draft, explanation: e.target.value })}
+          rows={2}
+          className={cn(inputClass, 'mt-1 resize-y')}
+        />
+      </label>
+      <label className="block">
+        <span className="text-slate-600">Tags</span>
+        <input
+          value={draft.tags}
+          onChange={(e) => onChange({ ...draft, tags: e.target.value })}
+          placeholder="fraud, onboarding"
+          className={cn(inputClass, 'mt-1')}
+        />
+      </label>
+      <p className="text-slate-400">Parameter types and the values entered above are saved with the query.</p>
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={!draft.title.trim()}
+          className="bg-neo4j-blue text-white rounded px-3 py-1 font-medium hover:bg-neo4j-blue/90 disabled:opacity-50"
+        >
+          {isUpdate ? 'Update' : 'Save'}
+        </button>
+        {isUpdate && (
+          <button
+            type="button"
+            onClick={() => onSave(true)}
+            disabled={!draft.title.trim()}
+            className="border border-slate-300 rounded px-3 py-1 text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+          >
+            Save as new
+          </button>
+        )}
+        <button type="button" onClick={onCancel} className="px-3 py-1 text-slate-600 hover:text-slate-900">
+          Cancel
+        </button>
+      </div>
+    </form>
+  )
+}
+
+function ExecutionStatus({ state, onNodeClick, onRelationshipClick }: {
+  state: ExecutionState
+  onNodeClick?: (node: GraphNode) => void
+  onRelationshipClick?: (relationship: GraphRelationship) => void
+}) {
+  if (state.status === 'running') {
+    return (
+      <div className="flex items-center gap-2 text-xs text-slate-600">
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Running query...
+      </div>
+    )
+  }
+
+  if (state.status === 'error') {
+    return (
+      <div className="flex items-start gap-2 text-xs text-red-700 bg-red-50 border border-red-200 rounded-lg p-2">
+        <AlertCircle className="w-3 h-3 mt-0.5 flex-shrink-0" />
+        <span className="font-mono">{state.message}</span>
+      </div>
+    )
+  }
+
+  const { result } = state
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center gap-2 text-xs text-green-800 bg-green-50 border border-green-200 rounded-lg p-2">
+        <CheckCircle2 className="w-3 h-3 flex-shrink-0" />
+        <span>
+          {result.nodes.length} nodes and {result.relationships.length} relationships highlighted
+        </span>
+      </div>
+      <ResultViewer result={result} onNodeClick={onNodeClick} onRelationshipClick={onRelationshipClick} />
+    </div>
+  )
+}
@@ -0,0 +1,264 @@
+import { useMemo, useState } from 'react'
+import { ArrowDown, ArrowUp, Braces, Copy, Download, Network, Table2 } from 'lucide-react'
+import type { CypherResult, GraphNode, GraphRelationship } from '../types'
+import { cn, downloadFile } from '../lib/utils'
+import { formatValue, isGraphNode, isGraphPath, isGraphRelationship, nodeLabels } from '../lib/graph'
+import { nodeColor } from '../lib/styles'
+import { resultGraph, resultToCsv, resultToJson, sortRows } from '../lib/results'
+import { GraphVisualization } from './GraphVisualization'
+
+interface ResultViewerProps {
+  result: CypherResult
+  /** Called when a node chip or a node in the graph tab is clicked */
+  onNodeClick?: (node: GraphNode) => void
+  onRelationshipClick?: (relationship: GraphRelationship) => void
+  className?: string
+}
+
+type ResultTab = 'table' | 'json' | 'graph'
+
+const TABS: { id: ResultTab; label: string; icon: typeof Table2 }[] = [
+  { id: 'table', label: 'Table', icon: Table2 },
+  { id: 'json', label: 'JSON', icon: Braces },
+  { id: 'graph', label: 'Graph', icon: Network }
+]
+
+// Rows rendered before "Show more"; large results stay responsive
+const PAGE_SIZE = 50
+
+/**
+ * Result of a Cypher query, as Neo4j Browser shows one
+ *
+ * - Table with sortable columns; nodes and relationships are clickable chips
+ * - The rows as JSON
+ * - A small graph of the nodes and relationships the query returned
+ *
+ * The header gives the row count and timing, and copies or downloads the
+ * table as CSV
+ */
+export function ResultViewer({ result, onNodeClick, onRelationshipClick, className }: ResultViewerProps) {
+  const [tab, setTab] = useState<ResultTab>('table')
+  const [sort, setSort] = useState<{ column: string; descending: boolean } | null>(null)
+  const [visibleRows, setVisibleRows] = useState(PAGE_SIZE)
+  const [copied, setCopied] = useState(false)
+
+  const rows = useMemo(
+    () => (sort ? sortRows(result.rows, sort.column, sort.descending) : result.rows),
+    [result.rows, sort]
+  )
+  const hasGraph = result.nodes.length > 0
+
+  const toggleSort = (column: string) => {
+    // Ascending, then descending, then the order the query returned
+    setSort(current => {
+      if (current?.column !== column) return { column, descending: false }
+      return current.descending ? null : { column, descending: true }
+    })
+  }
+
+  const copy = async () => {
+    await navigator.clipboard.writeText(tab === 'json' ? resultToJson(result) : resultToCsv(result))
+    setCopied(true)
+    setTimeout(() => setCopied(false), 1500)
+  }
+
+  const rowCount = `${result.rows.length} ${result.rows.length === 1 ? 'row' : 'rows'}`
+  const buttonClass = 'flex items-center gap-1 rounded px-1.5 py-0.5 text-slate-600 hover:bg-slate-100'
+
+  return (
+    <div className={cn('bg-white rounded-lg border border-slate-200 text-xs overflow-hidden', className)}>
+      <div className="flex items-center gap-1 px-2 py-1 border-b border-slate-200 bg-slate-50">
+        <div role="tablist" className="flex items-center gap-0.5">
+          {TABS.map(({ id, label, icon: Icon }) => (
+            <button
+              key={id}
+              role="tab"
+              aria-selected={tab === id}
+              onClick={() => setTab(id)}
+              disabled={id === 'graph' && !hasGraph}
+              title={id === 'graph' && !hasGraph ? 'The query returned no nodes' : undefined}
+              className={cn(
+                'flex items-center gap-1 rounded px-1.5 py-0.5 disabled:opacity-40 disabled:cursor-not-allowed',
+                tab === id ? 'bg-white text-neo4j-blue shadow-sm font-medium' : 'text-slate-600 enabled:hover:bg-slate-100'
+              )}
+            >
+              <Icon className="w-3 h-3" />
+              {label}
+            </button>
+          ))}
+        </div>
+        <span className="flex-1 text-right text-slate-500 truncate">
+          {rowCount}
+          {result.elapsedMs !== undefined && ` · ${formatElapsed(result.elapsedMs)}`}
+        </span>
+        <button
+          onClick={copy}
+          className={buttonClass}
+          title={tab === 'json' ? 'Copy the rows as JSON' : 'Copy the table as CSV'}
+        >
+          <Copy className="w-3 h-3" />
+          {copied ? 'Copied' : 'Copy'}
+        </button>
+        <button
+          onClick={() => downloadFile(resultToCsv(result), 'query-result.csv', 'text/csv')}
+          className={buttonClass}
+          title="Download the table as CSV"
+        >
+          <Download className="w-3 h-3" />
+          CSV
+        </button>
+      </div>
+
+      {tab === 'table' && (
+        result.rows.length === 0 ? (
+          <p className="px-2 py-3 text-slate-500">No rows returned.</p>
+        ) : (
+          <div className="max-h-72 overflow-auto scrollbar-thin">
+            <table className="min-w-full">
+              <thead className="bg-slate-50 sticky top-0">
+                <tr>
+                  {result.columns.map(column => (
+                    <th
+                      key={column}
+                      aria-sort={sort?.column === column ? (sort.descending ? 'descending' : 'ascending') : 'none'}
+                      className="px-2 py-1 text-left font-semibold text-slate-700 font-mono whitespace-nowrap"
+                    >
+                      <button onClick={() => toggleSort(column)} className="flex items-center gap-1 hover:text-neo4j-blue">
+                        {column}
+                        {sort?.column === column && (
+                          sort.descending ? <ArrowDown className="w-3 h-3" /> : <ArrowUp className="w-3 h-3" />
+                        )}
+                      </button>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.slice(0, visibleRows).map((row, i) => (
+                  <tr key={i} className="border-t border-slate-100">
+                    {result.columns.map(column => (
+                      <td key={column} className="px-2 py-1 text-slate-700 align-top">
+                        <ValueCell value={row[column]} onNodeClick={onNodeClick} onRelationshipClick={onRelationshipClick} />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {rows.length > visibleRows && (
+              <button
+                onClick={() => setVisibleRows(count => count + PAGE_SIZE)}
+                className="w-full px-2 py-1 text-left text-neo4j-blue border-t border-slate-100 hover:bg-slate-50"
+              >
+                Show {Math.min(PAGE_SIZE, rows.length - visibleRows)} more of {rows.length - visibleRows} remaining rows
+              </button>
+            )}
+          </div>
+        )
+      )}
+
+      {tab === 'json' && (
+        <pre className="max-h-72 overflow-auto scrollbar-thin p-2 font-mono text-[11px] text-slate-700 whitespace-pre">
+          {resultToJson(result)}
+        </pre>
+      )}
+
+      {tab === 'graph' && hasGraph && (
+        <ResultGraph result={result} onNodeClick={onNodeClick} />
+      )}
+    </div>
+  )
+}
+
+/**
+ * The returned elements in their own small visualization, mounted only while
+ * its tab is open so chat history does not run a simulation per message
+ */
+function ResultGraph({ result, onNodeClick }: { result: CypherResult; onNodeClick?: (node: GraphNode) => void }) {
+  const data = useMemo(() => resultGraph(result), [result])
+  const [selected, setSelected] = useState<GraphNode | null>(null)
+
+  return (
+    <div className="h-64 p-1">
+      <GraphVisualization
+        data={data}
+        selectedNode={selected}
+        onNodeSelect={(node) => {
+          setSelected(node)
+          if (node) onNodeClick?.(node)
+        }}
+        compact
+        className="border-0"
+      />
+    </div>
+  )
+}
+
+function ValueCell({ value, onNodeClick, onRelationshipClick }: {
+  value: unknown
+  onNodeClick?: (node: GraphNode) => void
+  onRelationshipClick?: (relationship: GraphRelationship) => void
+}) {
+  if (value === null || value === undefined) return <span className="text-slate-400 italic">null</span>
+  if (isGraphNode(value)) return <NodeChip node={value} onClick={onNodeClick} />
+  if (isGraphRelationship(value)) return <RelationshipChip relationship={value} onClick={onRelationshipClick} />
+  if (isGraphPath(value)) {
+    return (
+      <span className="inline-flex flex-wrap items-center gap-0.5">
+        {value.nodes.map((node, i) => (
+          <span key={`${node.id}-${i}`} className="inline-flex items-center gap-0.5">
+            <NodeChip node={node} onClick={onNodeClick} />
+            {value.relationships[i] && (
+              <RelationshipChip relationship={value.relationships[i]} onClick={onRelationshipClick} />
+            )}
+          </span>
+        ))}
+      </span>
+    )
+  }
+  if (Array.isArray(value) && value.some(item => isGraphNode(item) || isGraphRelationship(item) || isGraphPath(item))) {
+    return (
+      <span className="inline-flex flex-wrap items-center gap-1">
+        {value.map((item, i) => (
+          <ValueCell key={i} value={item} onNodeClick={onNodeClick} onRelationshipClick={onRelationshipClick} />
+        ))}
+      </span>
+    )
+  }
+  return <span className={cn(typeof value === 'object' && 'font-mono')}>{formatValue(value)}</span>
+}
+
+function NodeChip({ node, onClick }: { node: GraphNode; onClick?: (node: GraphNode) => void }) {
+  return (
+    <button
+      onClick={() => onClick?.(node)}
+      disabled={!onClick}
+      title={`${nodeLabels(node).map(label => `:${label}`).join('')} ${node.id}`}
+      className="inline-flex items-center gap-1 max-w-48 rounded-full border border-slate-200 bg-white pl-1 pr-2 py-0.5 enabled:hover:border-neo4j-blue enabled:hover:bg-blue-50"
+    >
+      <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ backgroundColor: nodeColor(node) }} />
+      <span className="truncate">{node.label}</span>
+    </button>
+  )
+}
+
+function RelationshipChip({ relationship, onClick }: {
+  relationship: GraphRelationship
+  onClick?: (relationship: GraphRelationship) => void
+}) {
+  return (
+    <button
+      onClick={() => onClick?.(relationship)}
+      disabled={!onClick}
+      title={relationship.id}
+      className="inline-flex items-center rounded border border-slate-200 bg-slate-50 px-1.5 py-0.5 font-mono text-[10px] text-slate-600 enabled:hover:border-neo4j-blue enabled:hover:text-neo4j-blue"
+    >
+      [:{relationship.type}]
+    </button>
+  )
+}
+
+function formatElapsed(ms: number): string {
+  if (ms < 1) return '<1 ms'
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(2)} s`
+}
@@ -0,0 +1,267 @@
+import { useMemo, useState } from 'react'
+import * as d3 from 'd3'
+import { Shapes, X } from 'lucide-react'
+import type { SchemaElement, SchemaGraph, SchemaLabel, SchemaProperty, SchemaRelationship } from '../types'
+import { cn } from '../lib/utils'
+import { labelColor } from '../lib/styles'
+import { describeSchemaElement, sameSchemaElement } from '../lib/schema'
+
+interface SchemaViewProps {
+  schema: SchemaGraph
+  /** Element the main view is currently filtered to */
+  selected: SchemaElement | null
+  /** Called with the clicked element, or null when the selected one is clicked again */
+  onSelect: (element: SchemaElement | null) => void
+  onClose: () => void
+  className?: string
+}
+
+interface LabelNode extends d3.SimulationNodeDatum {
+  schema: SchemaLabel
+  radius: number
+}
+
+interface SchemaEdge {
+  schema: SchemaRelationship
+  path: string
+  labelX: number
+  labelY: number
+}
+
+// Room around the laid out nodes for self-loops and edge captions
+const MARGIN = 110
+const LOOP_HEIGHT = 70
+const PAIR_SPACING = 44
+
+/**
+ * Node-and-edge picture of the schema, laid out once with a force simulation
+ *
+ * Edges between the same two labels bend apart, and relationships from a
+ * label to itself are drawn as loops above the node
+ */
+function layoutSchema(schema: SchemaGraph): { nodes: LabelNode[]; edges: SchemaEdge[]; viewBox: string } {
+  const maxCount = Math.max(1, ...schema.labels.map(label => label.count))
+  const radius = d3.scaleSqrt().domain([1, maxCount]).range([26, 44])
+  const nodes: LabelNode[] = schema.labels.map(label => ({ schema: label, radius: radius(label.count) }))
+  const byLabel = new Map(nodes.map(node => [node.schema.label, node]))
+  const links = schema.relationships
+    .filter(rel => rel.source !== rel.target)
+    .map(rel => ({ source: rel.source, target: rel.target }))
+
+  d3.forceSimulation(nodes)
+    .force('link', d3.forceLink<LabelNode, { source: string | LabelNode; target: string | LabelNode }>(links)
+      .id(node => node.schema.label)
+      .distance(200))
+    .force('charge', d3.forceManyBody().strength(-900))
+    .force('collide', d3.forceCollide<LabelNode>(node => node.radius + 40))
+    .force('center', d3.forceCenter(0, 0))
+    .stop()
+    .tick(300)
+
+  const pairs = d3.group(
+    schema.relationships.filter(rel => rel.source !== rel.target),
+    rel => [rel.source, rel.target].sort().join('|')
+  )
+  const loops = d3.group(schema.relationships.filter(rel => rel.source === rel.target), rel => rel.source)
+
+  const edges = schema.relationships.map((rel): SchemaEdge => {
+    const source = byLabel.get(rel.source)!
+    const target = byLabel.get(rel.target)!
+    const sx = source.x ?? 0
+    const sy = source.y ?? 0
+
+    if (source === target) {
+      const siblings = loops.get(rel.source)!
+      const angle = -Math.PI / 2 + (siblings.indexOf(rel) - (siblings.length - 1) / 2) * 0.9
+      const at = (offset: number, distance: number) => [
+        sx + Math.cos(angle + offset) * distance,
+        sy + Math.sin(angle + offset) * distance
+      ]
+      const [x1, y1] = at(-0.35, source.radius)
+      const [x2, y2] = at(0.35, source.radius + 6)
+      const [c1x, c1y] = at(-0.6, source.radius + LOOP_HEIGHT)
+      const [c2x, c2y] = at(0.6, source.radius + LOOP_HEIGHT)
+      const [labelX, labelY] = at(0, source.radius + LOOP_HEIGHT * 0.75 + 8)
+      return { schema: rel, path: `M${x1},${y1} C${c1x},${c1y} ${c2x},${c2y} ${x2},${y2}`, labelX, labelY }
+    }
+
+    // Offsets are measured in the frame of the alphabetically first label, so
+    // edges running in opposite directions still bend apart
+    const siblings = pairs.get([rel.source, rel.target].sort().join('|'))!
+    const offset = (siblings.indexOf(rel) - (siblings.length - 1) / 2) * PAIR_SPACING
+    const tx = target.x ?? 0
+    const ty = target.y ?? 0
+    const length = Math.hypot(tx - sx, ty - sy) || 1
+    const flip = rel.source < rel.target ? 1 : -1
+    const nx = (-(ty - sy) / length) * flip
+    const ny = ((tx - sx) / length) * flip
+    const cx = (sx + tx) / 2 + nx * offset * 2
+    const cy = (sy + ty) / 2 + ny * offset * 2
+    const toward = (x: number, y: number, px: number, py: number, distance: number) => {
+      const d = Math.hypot(px - x, py - y) || 1
+      return [x + ((px - x) / d) * distance, y + ((py - y) / d) * distance]
+    }
+    const [x1, y1] = toward(sx, sy, cx, cy, source.radius)
+    const [x2, y2] = toward(tx, ty, cx, cy, target.radius + 6)
+    return {
+      schema: rel,
+      path: `M${x1},${y1} Q${cx},${cy} ${x2},${y2}`,
+      // Midpoint of the quadratic curve
+      labelX: (x1 + 2 * cx + x2) / 4,
+      labelY: (y1 + 2 * cy + y2) / 4
+    }
+  })
+
+  const xs = nodes.map(node => node.x ?? 0)
+  const ys = nodes.map(node => node.y ?? 0)
+  const minX = Math.min(0, ...xs) - MARGIN
+  const minY = Math.min(0, ...ys) - MARGIN
+  const width = Math.max(0, ...xs) + MARGIN - minX
+  const height = Math.max(0, ...ys) + MARGIN - minY
+  return { nodes, edges, viewBox: `${minX} ${minY} ${width} ${height}` }
+}
+
+/**
+ * Meta-graph of the labels and relationship types on screen, in the spirit
+ * of Neo4j Browser's db.schema.visualization
+ *
+ * Hovering an element lists its property keys with their value types;
+ * clicking it filters the graph to its instances
+ */
+export function SchemaView({ schema, selected, onSelect, onClose, className }: SchemaViewProps) {
+  const [hovered, setHovered] = useState<SchemaElement | null>(null)
+  const { nodes, edges, viewBox } = useMemo(() => layoutSchema(schema), [schema])
+
+  const pick = (element: SchemaElement) => onSelect(sameSchemaElement(element, selected) ? null : element)
+  const shown = hovered ?? selected
+  const details = shown && (shown.kind === 'label'
+    ? schema.labels.find(label => label.label === shown.label)
+    : schema.relationships.find(rel => sameSchemaElement(shown, { kind: 'relationship', ...rel })))
+
+  return (
+    <div className={cn('relative bg-white rounded-lg border border-slate-200 overflow-hidden', className)}>
+      <svg viewBox={viewBox} className="w-full h-full" role="img" aria-label="Graph schema">
+        <defs>
+          <marker id="schema-arrow" viewBox="0 -5 10 10" refX={8} refY={0} markerWidth={7} markerHeight={7} orient="auto">
+            <path d="M0,-5L10,0L0,5" fill="#94a3b8" />
+          </marker>
+          <marker id="schema-arrow-selected" viewBox="0 -5 10 10" refX={8} refY={0} markerWidth={7} markerHeight={7} orient="auto">
+            <path d="M0,-5L10,0L0,5" fill="#008CC1" />
+          </marker>
+        </defs>
+
+        {edges.map(({ schema: rel, path, labelX, labelY }) => {
+          const element: SchemaElement = { kind: 'relationship', source: rel.source, type: rel.type, target: rel.target }
+          const active = sameSchemaElement(element, selected)
+          return (
+            <g
+              key={describeSchemaElement(element)}
+              className="cursor-pointer"
+              onClick={() => pick(element)}
+              onMouseEnter={() => setHovered(element)}
+              onMouseLeave={() => setHovered(null)}
+            >
+              {/* Wide transparent stroke makes thin edges easy to hit */}
+              <path d={path} fill="none" stroke="transparent" strokeWidth={14} />
+              <path
+                d={path}
+                fill="none"
+                stroke={active ? '#008CC1' : '#94a3b8'}
+                strokeWidth={active || sameSchemaElement(element, hovered) ? 3 : 1.5}
+                markerEnd={`url(#${active ? 'schema-arrow-selected' : 'schema-arrow'})`}
+              />
+              <text
+                x={labelX}
+                y={labelY}
+                textAnchor="middle"
+                dy="0.35em"
+                className="font-mono text-[10px] select-none"
+                fill={active ? '#008CC1' : '#475569'}
+                stroke="white"
+                strokeWidth={3}
+                paintOrder="stroke"
+              >
+                {rel.type} ({rel.count})
+              </text>
+            </g>
+          )
+        })}
+
+        {nodes.map(node => {
+          const element: SchemaElement = { kind: 'label', label: node.schema.label }
+          const active = sameSchemaElement(element, selected)
+          return (
+            <g
+              key={node.schema.label}
+              transform={`translate(${node.x ?? 0},${node.y ?? 0})`}
+              className="cursor-pointer"
+              onClick={() => pick(element)}
+              onMouseEnter={() => setHovered(element)}
+              onMouseLeave={() => setHovered(null)}
+            >
+              <circle
+                r={node.radius}
+                fill={labelColor(node.schema.label)}
+                stroke={active ? '#0f172a' : 'white'}
+                strokeWidth={active ? 4 : 2}
+              />
+              <text textAnchor="middle" dy="-0.1em" className="text-[11px] font-semibold select-none" fill="white">
+                {node.schema.label}
+              </text>
+              <text textAnchor="middle" dy="1.2em" className="text-[10px] select-none" fill="white">
+                {node.schema.count}
+              </text>
+            </g>
+          )
+        })}
+      </svg>
+
+      <div className="absolute top-4 right-4 flex items-center gap-2 rounded-lg border border-slate-200 bg-white/90 backdrop-blur-sm px-2.5 py-1.5 text-xs text-slate-600">
+        <Shapes className="w-3.5 h-3.5 text-neo4j-blue" />
+        {schema.labels.length} labels · {schema.relationships.length} relationship patterns
+        <button onClick={onClose} className="ml-1 hover:text-slate-900" aria-label="Close schema view">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {schema.labels.length === 0 && (
+        <p className="absolute inset-0 flex items-center justify-center text-sm text-slate-400">
+          The graph is empty
+        </p>
+      )}
+
+      {shown && details && (
+        <div className="absolute bottom-4 left-4 max-w-xs max-h-[50%] overflow-y-auto scrollbar-thin rounded-lg border border-slate-200 bg-white/95 backdrop-blur-sm p-3 text-xs shadow-sm">
+          <p className="font-mono font-medium text-slate-900 break-all">{describeSchemaElement(shown)}</p>
+          <p className="text-slate-500 mb-2">
+            {details.count} {shown.kind === 'label' ? 'nodes' : 'relationships'}
+            {!hovered && ' · filtering the graph'}
+          </p>
+          <PropertyList properties={details.properties} total={details.count} />
+          <p className="mt-2 text-slate-400">
+            {sameSchemaElement(shown, selected) ? 'Click again to clear the filter' : 'Click to show only these in the graph'}
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function PropertyList({ properties, total }: { properties: SchemaProperty[]; total: number }) {
+  if (properties.length === 0) return <p className="text-slate-400">No properties</p>
+  return (
+    <table className="w-full">
+      <tbody>
+        {properties.map(({ key, types, count }) => (
+          <tr key={key}>
+            <td className="pr-2 font-mono text-slate-700 align-top">{key}</td>
+            <td className="pr-2 font-mono text-neo4j-purple align-top">{types.join(' | ')}</td>
+            <td className="text-right text-slate-400 align-top" title={`Set on ${count} of ${total}`}>
+              {count < total ? `${count}/${total}` : ''}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  )
+}
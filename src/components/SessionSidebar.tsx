@@ -0,0 +1,215 @@
+import { useRef, useState } from 'react'
+import { Check, FileDown, FileJson, FileUp, MessagesSquare, Pencil, Plus, Trash2, X } from 'lucide-react'
+import type { ChatSession } from '../types'
+import { cn } from '../lib/utils'
+
+export type SessionExportFormat = 'markdown' | 'json'
+
+interface SessionSidebarProps {
+  sessions: ChatSession[]
+  activeSessionId: string | null
+  onSelect: (id: string) => void
+  onCreate: () => void
+  onRename: (id: string, name: string) => void
+  onDelete: (id: string) => void
+  onExport: (session: ChatSession, format: SessionExportFormat) => void
+  /** Adds the sessions of an exported JSON file; rejects with a readable error */
+  onImport: (text: string) => Promise<void>
+  /** Persistence problem to show, e.g. IndexedDB being unavailable */
+  error?: string | null
+  onClose: () => void
+  className?: string
+}
+
+/**
+ * Sidebar listing saved conversations, to switch between, rename, delete,
+ * export as Markdown or JSON, and import them again
+ */
+export function SessionSidebar({
+  sessions,
+  activeSessionId,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+  onExport,
+  onImport,
+  error,
+  onClose,
+  className
+}: SessionSidebarProps) {
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null)
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null)
+  const [importError, setImportError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const ordered = [...sessions].sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+  const active = sessions.find(session => session.id === activeSessionId)
+
+  const commitRename = () => {
+    if (editing && editing.name.trim()) onRename(editing.id, editing.name.trim())
+    setEditing(null)
+  }
+
+  const importFile = async (file: File | undefined) => {
+    if (!file) return
+    setImportError(null)
+    try {
+      await onImport(await file.text())
+    } catch (e) {
+      setImportError(`Could not import ${file.name}: ${(e as Error).message}`)
+    }
+  }
+
+  return (
+    <div className={cn('bg-white rounded-lg border border-slate-200 shadow-xl flex flex-col', className)}>
+      <div className="flex items-center justify-between px-4 py-3 border-b border-slate-200">
+        <h3 className="font-semibold text-slate-900 flex items-center gap-2">
+          <MessagesSquare className="w-4 h-4 text-neo4j-blue" />
+          Conversations
+        </h3>
+        <button onClick={onClose} className="p-1 hover:bg-slate-100 rounded" aria-label="Close conversations">
+          <X className="w-4 h-4 text-slate-600" />
+        </button>
+      </div>
+
+      <div className="p-3 border-b border-slate-200">
+        <button
+          onClick={onCreate}
+          className="w-full flex items-center justify-center gap-1.5 rounded-lg bg-neo4j-blue px-3 py-1.5 text-sm font-medium text-white hover:bg-neo4j-blue/90"
+        >
+          <Plus className="w-4 h-4" />
+          New conversation
+        </button>
+      </div>
+
+      <ul className="flex-1 overflow-y-auto p-2 space-y-1 scrollbar-thin" aria-label="Saved conversations">
+        {ordered.map(session => {
+          const isActive = session.id === activeSessionId
+          if (editing?.id === session.id) {
+            return (
+              <li key={session.id} className="flex items-center gap-1 rounded-lg border border-neo4j-blue px-2 py-1.5">
+                <input
+                  autoFocus
+                  value={editing.name}
+                  onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename()
+                    if (e.key === 'Escape') setEditing(null)
+                  }}
+                  className="flex-1 min-w-0 rounded border border-slate-300 px-1.5 py-0.5 text-sm focus:outline-none focus:ring-2 focus:ring-neo4j-blue"
+                  aria-label="Conversation name"
+                />
+                <button onClick={commitRename} className="p-1 hover:bg-slate-100 rounded" aria-label="Save name">
+                  <Check className="w-3.5 h-3.5 text-neo4j-green" />
+                </button>
+              </li>
+            )
+          }
+          return (
+            <li
+              key={session.id}
+              className={cn(
+                'group flex items-center gap-1 rounded-lg border px-2 py-1.5',
+                isActive ? 'border-neo4j-blue bg-neo4j-blue/5' : 'border-transparent hover:bg-slate-50'
+              )}
+            >
+              <button
+                onClick={() => onSelect(session.id)}
+                className="flex-1 min-w-0 text-left"
+                aria-current={isActive}
+              >
+                <span className="block truncate text-sm font-medium text-slate-900">{session.name}</span>
+                <span className="block text-xs text-slate-500">
+                  {session.messages.length} {session.messages.length === 1 ? 'message' : 'messages'} · {session.updatedAt.toLocaleDateString()}
+                </span>
+              </button>
+              {confirmDelete === session.id ? (
+                <>
+                  <button
+                    onClick={() => {
+                      setConfirmDelete(null)
+                      onDelete(session.id)
+                    }}
+                    className="rounded px-1.5 py-0.5 text-xs font-medium text-red-600 hover:bg-red-50"
+                  >
+                    Delete
+                  </button>
+                  <button
+                    onClick={() => setConfirmDelete(null)}
+                    className="p-1 hover:bg-slate-100 rounded"
+                    aria-label="Keep conversation"
+                  >
+                    <X className="w-3.5 h-3.5 text-slate-500" />
+                  </button>
+                </>
+              ) : (
+                <span className="flex opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 transition-opacity">
+                  <button
+                    onClick={() => setEditing({ id: session.id, name: session.name })}
+                    className="p-1 hover:bg-slate-100 rounded"
+                    aria-label={`Rename ${session.name}`}
+                    title="Rename"
+                  >
+                    <Pencil className="w-3.5 h-3.5 text-slate-500" />
+                  </button>
+                  <button
+                    onClick={() => setConfirmDelete(session.id)}
+                    className="p-1 hover:bg-slate-100 rounded"
+                    aria-label={`Delete ${session.name}`}
+                    title="Delete"
+                  >
+                    <Trash2 className="w-3.5 h-3.5 text-slate-500" />
+                  </button>
+                </span>
+              )}
+            </li>
+          )
+        })}
+      </ul>
+
+      <div className="border-t border-slate-200 p-3 space-y-2 text-xs">
+        {active && (
+          <div className="flex items-center gap-2">
+            <span className="text-slate-600">Export current</span>
+            <button
+              onClick={() => onExport(active, 'markdown')}
+              className="flex items-center gap-1 rounded border border-slate-200 px-2 py-1 hover:bg-slate-50"
+              title="Markdown transcript, for sharing"
+            >
+              <FileDown className="w-3 h-3 text-neo4j-blue" />
+              Markdown
+            </button>
+            <button
+              onClick={() => onExport(active, 'json')}
+              className="flex items-center gap-1 rounded border border-slate-200 px-2 py-1 hover:bg-slate-50"
+              title="JSON, for importing again later"
+            >
+              <FileJson className="w-3 h-3 text-neo4j-blue" />
+              JSON
+            </button>
+          </div>
+        )}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 rounded border border-slate-200 px-2 py-1 hover:bg-slate-50"
+        >
+          <FileUp className="w-3 h-3 text-neo4j-purple" />
+          Import JSON
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            importFile(e.target.files?.[0])
+            e.target.value = ''
+          }}
+        />
+        {importError && <p className="text-red-600">{importError}</p>}
+        {error && <p className="text-amber-700">{error}</p>}
+      </div>
+    </div>
+  )
+}
@@ -228,3 +228,12 @@ ORDER BY r.severity DESC`,
     explanation: "Relationship properties used for filtering and sorting"
   }
 ]
+
+/**
+ * Finds the sample query a question refers to, matching on its first three words
+ */
+export function findSampleQuery(question: string) {
+  return sampleQueries.find(q =>
+    question.toLowerCase().includes(q.natural.toLowerCase().split(' ').slice(0, 3).join(' '))
+  )
+}
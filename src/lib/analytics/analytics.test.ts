@@ -0,0 +1,95 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { GraphData } from '../../types'
+import { createGraphAnalytics, type AnalyticsRequest, type AnalyticsResponse } from './analytics'
+import { computeMetrics } from './metrics'
+
+/** Stands in for the Web Worker; answers only when told to */
+class FakeWorker {
+  static created: FakeWorker[] = []
+  onmessage: ((event: MessageEvent<AnalyticsResponse>) => void) | null = null
+  onerror: ((event: ErrorEvent) => void) | null = null
+  requests: AnalyticsRequest[] = []
+  terminated = false
+
+  constructor() {
+    FakeWorker.created.push(this)
+  }
+
+  postMessage(request: AnalyticsRequest) {
+    this.requests.push(request)
+  }
+
+  terminate() {
+    this.terminated = true
+  }
+
+  answer() {
+    const { id, graph } = this.requests.at(-1)!
+    this.onmessage?.({ data: { id, columns: computeMetrics(graph) } } as MessageEvent<AnalyticsResponse>)
+  }
+}
+
+// Large enough to go to the worker
+const chain = (size: number): GraphData => ({
+  nodes: Array.from({ length: size }, (_, i) => ({ id: `n${i}`, label: `N${i}`, type: 'Concept', properties: {} })),
+  relationships: Array.from({ length: size - 1 }, (_, i) => ({
+    id: `r${i}`, source: `n${i}`, target: `n${i + 1}`, type: 'NEXT', properties: {}
+  }))
+})
+
+describe('createGraphAnalytics', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    FakeWorker.created = []
+  })
+
+  it('computes small graphs without a worker', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+
+    const metrics = await createGraphAnalytics().analyze(chain(3))
+
+    expect(metrics.n1.degree).toBe(2)
+    expect(FakeWorker.created).toEqual([])
+  })
+
+  it('drops a superseded analysis and its worker', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const analytics = createGraphAnalytics()
+
+    const first = analytics.analyze(chain(400))
+    const second = analytics.analyze(chain(500))
+
+    await expect(first).rejects.toThrow('Superseded by a newer analysis')
+    const [stale, fresh] = FakeWorker.created
+    expect(stale.terminated).toBe(true)
+    expect(fresh.terminated).toBe(false)
+    fresh.answer()
+    expect(Object.keys(await second)).toHaveLength(500)
+  })
+
+  it('keeps the worker between analyses that have finished', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const analytics = createGraphAnalytics()
+
+    const first = analytics.analyze(chain(400))
+    FakeWorker.created[0].answer()
+    await first
+    const second = analytics.analyze(chain(400))
+    FakeWorker.created[0].answer()
+    await second
+
+    expect(FakeWorker.created).toHaveLength(1)
+    expect(FakeWorker.created[0].terminated).toBe(false)
+  })
+
+  it('rejects the pending analysis when disposed', async () => {
+    vi.stubGlobal('Worker', FakeWorker)
+    const analytics = createGraphAnalytics()
+
+    const pending = analytics.analyze(chain(400))
+    analytics.dispose()
+
+    await expect(pending).rejects.toThrow('Graph analytics was stopped')
+    expect(FakeWorker.created[0].terminated).toBe(true)
+  })
+})
@@ -0,0 +1,81 @@
+import type { GraphData, GraphMetrics } from '../../types'
+import { computeMetrics, indexGraph, metricsByNode, type IndexedGraph, type MetricColumns } from './metrics'
+
+export interface AnalyticsRequest {
+  id: number
+  graph: IndexedGraph
+}
+
+export interface AnalyticsResponse {
+  id: number
+  columns: MetricColumns
+}
+
+export interface GraphAnalytics {
+  /** Metrics of every node in the graph; rejects if a newer analysis supersedes it */
+  analyze: (data: GraphData) => Promise<GraphMetrics>
+  /** Stops the worker and rejects the pending analysis; a later analysis starts a new one */
+  dispose: () => void
+}
+
+// Graphs with more nodes than this are analysed in a Web Worker; betweenness
+// and closeness take a breadth-first search per node
+const WORKER_THRESHOLD = 300
+
+/**
+ * Computes centrality metrics, in a Web Worker for larger graphs so the
+ * page stays responsive. Only the latest request runs: a new one terminates
+ * the worker busy with an older graph and rejects that request
+ */
+export function createGraphAnalytics(): GraphAnalytics {
+  let worker: Worker | null = null
+  let nextId = 0
+  let pending: { id: number; resolve: (columns: MetricColumns) => void; reject: (error: Error) => void } | null = null
+
+  const start = () => {
+    const created = new Worker(new URL('./analytics.worker.ts', import.meta.url), { type: 'module' })
+    created.onmessage = (event: MessageEvent<AnalyticsResponse>) => {
+      if (pending?.id !== event.data.id) return
+      pending.resolve(event.data.columns)
+      pending = null
+    }
+    created.onerror = event => {
+      pending?.reject(new Error(event.message || 'Graph analytics failed'))
+      pending = null
+    }
+    return created
+  }
+
+  // The worker cannot be interrupted mid-computation, so it is replaced
+  const cancel = (reason: string) => {
+    if (!pending) return
+    worker?.terminate()
+    worker = null
+    pending.reject(new Error(reason))
+    pending = null
+  }
+
+  return {
+    async analyze(data) {
+      cancel('Superseded by a newer analysis')
+      const graph = indexGraph(data)
+      const ids = data.nodes.map(node => node.id)
+      if (data.nodes.length <= WORKER_THRESHOLD || typeof Worker === 'undefined') {
+        return metricsByNode(ids, computeMetrics(graph))
+      }
+      worker ??= start()
+      const id = nextId++
+      const columns = await new Promise<MetricColumns>((resolve, reject) => {
+        pending = { id, resolve, reject }
+        const request: AnalyticsRequest = { id, graph }
+        worker!.postMessage(request, [graph.links.buffer])
+      })
+      return metricsByNode(ids, columns)
+    },
+    dispose() {
+      cancel('Graph analytics was stopped')
+      worker?.terminate()
+      worker = null
+    }
+  }
+}
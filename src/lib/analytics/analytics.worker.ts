@@ -0,0 +1,16 @@
+import type { AnalyticsRequest, AnalyticsResponse } from './analytics'
+import { computeMetrics } from './metrics'
+
+/**
+ * Web Worker side of the graph analytics, see createGraphAnalytics
+ */
+
+// The DOM lib types `self` as Window; inside a worker it behaves like this
+const scope = self as unknown as Worker
+
+scope.onmessage = (event: MessageEvent<AnalyticsRequest>) => {
+  const { id, graph } = event.data
+  const columns = computeMetrics(graph)
+  const response: AnalyticsResponse = { id, columns }
+  scope.postMessage(response, Object.values(columns).map(column => column.buffer))
+}
@@ -0,0 +1,10 @@
+export { createGraphAnalytics, type GraphAnalytics } from './analytics'
+export {
+  centralityMetrics,
+  computeMetrics,
+  formatMetric,
+  indexGraph,
+  metricLabels,
+  metricsByNode,
+  scaleMetric
+} from './metrics'
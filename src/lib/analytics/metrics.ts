@@ -0,0 +1,225 @@
+import type { GraphData, GraphMetrics, MetricKey, NodeMetrics } from '../../types'
+import { endpointId } from '../graph'
+
+/** A graph as the analytics worker receives it */
+export interface IndexedGraph {
+  nodeCount: number
+  /** Source and target node index per relationship */
+  links: Int32Array
+}
+
+/** One value per node and metric, in node order */
+export type MetricColumns = Record<MetricKey, Float64Array>
+
+export const metricLabels: Record<MetricKey, string> = {
+  degree: 'Degree',
+  inDegree: 'In-degree',
+  outDegree: 'Out-degree',
+  pageRank: 'PageRank',
+  betweenness: 'Betweenness',
+  closeness: 'Closeness',
+  component: 'Component'
+}
+
+/** Metrics where more means more central, usable for sizing and as a retrieval prior */
+export const centralityMetrics: MetricKey[] = ['degree', 'inDegree', 'outDegree', 'pageRank', 'betweenness', 'closeness']
+
+const DAMPING = 0.85
+const MAX_ITERATIONS = 100
+const TOLERANCE = 1e-9
+
+/**
+ * Node indices of every relationship; relationships with a missing endpoint are dropped
+ */
+export function indexGraph(data: GraphData): IndexedGraph {
+  const index = new Map(data.nodes.map((node, i) => [node.id, i]))
+  const pairs = data.relationships.flatMap(rel => {
+    const source = index.get(endpointId(rel.source))
+    const target = index.get(endpointId(rel.target))
+    return source === undefined || target === undefined ? [] : [source, target]
+  })
+  return { nodeCount: data.nodes.length, links: Int32Array.from(pairs) }
+}
+
+/**
+ * Computes every metric of an indexed graph
+ *
+ * Degrees and PageRank follow relationship direction. Betweenness,
+ * closeness and components treat the graph as undirected, so a node linking
+ * two otherwise separate areas counts as central whichever way its
+ * relationships point
+ */
+export function computeMetrics({ nodeCount: n, links }: IndexedGraph): MetricColumns {
+  const inDegree = new Float64Array(n)
+  const outDegree = new Float64Array(n)
+  for (let i = 0; i < links.length; i += 2) {
+    outDegree[links[i]]++
+    inDegree[links[i + 1]]++
+  }
+  const degree = inDegree.map((value, i) => value + outDegree[i])
+
+  // Undirected neighbours without duplicates or self-loops
+  const neighbors: number[][] = Array.from({ length: n }, () => [])
+  const seen = new Set<number>()
+  for (let i = 0; i < links.length; i += 2) {
+    const [a, b] = links[i] < links[i + 1] ? [links[i], links[i + 1]] : [links[i + 1], links[i]]
+    if (a === b || seen.has(a * n + b)) continue
+    seen.add(a * n + b)
+    neighbors[a].push(b)
+    neighbors[b].push(a)
+  }
+
+  return {
+    inDegree,
+    outDegree,
+    degree,
+    pageRank: pageRank(n, links, outDegree),
+    ...shortestPathCentrality(n, neighbors),
+    component: components(n, neighbors)
+  }
+}
+
+/**
+ * Power iteration; nodes without outgoing relationships spread their rank evenly
+ */
+function pageRank(n: number, links: Int32Array, outDegree: Float64Array): Float64Array {
+  let rank = new Float64Array(n).fill(1 / n)
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let dangling = 0
+    for (let i = 0; i < n; i++) if (outDegree[i] === 0) dangling += rank[i]
+    const next = new Float64Array(n).fill((1 - DAMPING) / n + (DAMPING * dangling) / n)
+    for (let i = 0; i < links.length; i += 2) {
+      next[links[i + 1]] += (DAMPING * rank[links[i]]) / outDegree[links[i]]
+    }
+    let change = 0
+    for (let i = 0; i < n; i++) change += Math.abs(next[i] - rank[i])
+    rank = next
+    if (change < TOLERANCE) break
+  }
+  return rank
+}
+
+/**
+ * Brandes' betweenness, with closeness taken from the same breadth-first
+ * searches. Closeness uses the Wasserman-Faust form, scaled by the share of
+ * nodes reached, so nodes in small components don't look central
+ */
+function shortestPathCentrality(n: number, neighbors: number[][]): Pick<MetricColumns, 'betweenness' | 'closeness'> {
+  const betweenness = new Float64Array(n)
+  const closeness = new Float64Array(n)
+  const distance = new Int32Array(n)
+  const paths = new Float64Array(n)
+  const dependency = new Float64Array(n)
+  const order = new Int32Array(n)
+
+  for (let source = 0; source < n; source++) {
+    distance.fill(-1)
+    paths.fill(0)
+    dependency.fill(0)
+    distance[source] = 0
+    paths[source] = 1
+    order[0] = source
+    let head = 0
+    let tail = 1
+    let total = 0
+    while (head < tail) {
+      const v = order[head++]
+      total += distance[v]
+      for (const w of neighbors[v]) {
+        if (distance[w] < 0) {
+          distance[w] = distance[v] + 1
+          order[tail++] = w
+        }
+        if (distance[w] === distance[v] + 1) paths[w] += paths[v]
+      }
+    }
+
+    const reached = tail - 1
+    closeness[source] = reached > 0 && n > 1 ? (reached / (n - 1)) * (reached / total) : 0
+
+    // Unweighted graph: the predecessors of w are its neighbours one step closer
+    for (let i = tail - 1; i > 0; i--) {
+      const w = order[i]
+      for (const v of neighbors[w]) {
+        if (distance[v] === distance[w] - 1) dependency[v] += (paths[v] / paths[w]) * (1 + dependency[w])
+      }
+      betweenness[w] += dependency[w]
+    }
+  }
+
+  // Each pair was counted from both ends; scale by the number of pairs excluding the node
+  const scale = n > 2 ? 1 / ((n - 1) * (n - 2)) : 0
+  return { betweenness: betweenness.map(value => value * scale), closeness }
+}
+
+/**
+ * Connected components, numbered by decreasing size
+ */
+function components(n: number, neighbors: number[][]): Float64Array {
+  const raw = new Int32Array(n).fill(-1)
+  const sizes: number[] = []
+  for (let start = 0; start < n; start++) {
+    if (raw[start] >= 0) continue
+    const id = sizes.length
+    const stack = [start]
+    raw[start] = id
+    let size = 0
+    while (stack.length > 0) {
+      const v = stack.pop()!
+      size++
+      for (const w of neighbors[v]) {
+        if (raw[w] < 0) {
+          raw[w] = id
+          stack.push(w)
+        }
+      }
+    }
+    sizes.push(size)
+  }
+  const rank = new Map(sizes
+    .map((size, id) => ({ size, id }))
+    .sort((a, b) => b.size - a.size || a.id - b.id)
+    .map(({ id }, position) => [id, position]))
+  return Float64Array.from(raw, id => rank.get(id)!)
+}
+
+/**
+ * Metrics per node id from the columns computed for `nodeIds`, in the same order
+ */
+export function metricsByNode(nodeIds: string[], columns: MetricColumns): GraphMetrics {
+  return Object.fromEntries(nodeIds.map((id, i): [string, NodeMetrics] => [id, {
+    inDegree: columns.inDegree[i],
+    outDegree: columns.outDegree[i],
+    degree: columns.degree[i],
+    pageRank: columns.pageRank[i],
+    betweenness: columns.betweenness[i],
+    closeness: columns.closeness[i],
+    component: columns.component[i]
+  }]))
+}
+
+/**
+ * A metric rescaled to 0-1 between its lowest and highest value
+ */
+export function scaleMetric(metrics: GraphMetrics, key: MetricKey): Record<string, number> {
+  let min = Infinity
+  let max = -Infinity
+  Object.values(metrics).forEach(node => {
+    min = Math.min(min, node[key])
+    max = Math.max(max, node[key])
+  })
+  const range = max - min
+  return Object.fromEntries(Object.entries(metrics).map(([id, node]) => [
+    id,
+    range > 0 ? (node[key] - min) / range : 0
+  ]))
+}
+
+/**
+ * A metric value for display: counts as integers, scores to three significant digits
+ */
+export function formatMetric(key: MetricKey, value: number): string {
+  if (key === 'degree' || key === 'inDegree' || key === 'outDegree') return String(value)
+  if (key === 'component') return `#${value + 1}`
+  return value === 0 ? '0' : value.toPrecision(3)
+}
@@ -0,0 +1,201 @@
+import type { GraphNode, Message } from '../types'
+import { nodeLabels } from './graph'
+import { stem } from './retrieval'
+
+/**
+ * A node the conversation has touched on, and how prominently
+ */
+export interface DiscussedEntity {
+  node: GraphNode
+  /** Turns ago it came up, 0 being the latest question and its answer */
+  turn: number
+  /** Named in a question, retrieved for an answer, or selected in the graph */
+  via: 'question' | 'answer' | 'selection'
+  salience: number
+}
+
+/**
+ * Entities discussed so far, most salient first
+ */
+export interface ConversationState {
+  entities: DiscussedEntity[]
+}
+
+export interface ResolvedReference {
+  /** Words replaced in the question, e.g. "those companies" */
+  phrase: string
+  nodes: GraphNode[]
+}
+
+export interface StandaloneQuestion {
+  /** The question with its references replaced by the entities they point to */
+  query: string
+  references: ResolvedReference[]
+}
+
+// Answer sources weigh less than entities the user named themselves
+const ANSWER_WEIGHT = 0.8
+// Selecting a node is the most recent thing the user pointed at
+const SELECTION_SALIENCE = 1.1
+// Most entities a plural reference expands to
+const MAX_PLURAL = 5
+
+// "that company", "of those", "it", "their"... Demonstratives only count when
+// followed by a node type or preceded by "of", so "companies that use" is left alone
+const REFERENCE = /\b(?:(of)\s+)?(this|that|these|those)(?:\s+(?!(?:itself|its|it|they|them|their)\b)([a-z]+))?\b|\b(itself|its|it|they|them|their)\b/gi
+
+/**
+ * Collects the entities of previous turns: nodes named in each question
+ * (as rewritten, so resolved references carry over), each answer's scored
+ * sources, and the node selected in the graph
+ */
+export function buildConversationState(
+  messages: Message[],
+  nodes: GraphNode[],
+  selectedNode: GraphNode | null
+): ConversationState {
+  const best = new Map<string, DiscussedEntity>()
+  const add = (entity: DiscussedEntity) => {
+    const current = best.get(entity.node.id)
+    if (!current || current.salience < entity.salience) best.set(entity.node.id, entity)
+  }
+
+  let turn = 0
+  for (let i = messages.length - 1; i >= 0; i--) {
+    const message = messages[i]
+    const recency = 1 / (turn + 1)
+    if (message.role === 'assistant') {
+      message.sources?.forEach(node => add({
+        node,
+        turn,
+        via: 'answer',
+        salience: ANSWER_WEIGHT * (message.sourceScores?.[node.id] ?? 0.5) * recency
+      }))
+    } else {
+      mentionedNodes(message.standaloneQuery ?? message.content, nodes)
+        .forEach(node => add({ node, turn, via: 'question', salience: recency }))
+      turn++
+    }
+  }
+  if (selectedNode) add({ node: selectedNode, turn: 0, via: 'selection', salience: SELECTION_SALIENCE })
+
+  return { entities: [...best.values()].sort((a, b) => b.salience - a.salience) }
+}
+
+/**
+ * Nodes whose label (or the parts of a label like "RAG (Retrieval Augmented
+ * Generation)") appears as whole words in the text
+ */
+export function mentionedNodes(text: string, nodes: GraphNode[]): GraphNode[] {
+  const lower = text.toLowerCase()
+  return nodes.filter(node => nodeNames(node).some(name => (
+    lower.includes(name) && new RegExp(`(?<![a-z0-9])${escapeRegExp(name)}(?![a-z0-9])`).test(lower)
+  )))
+}
+
+function nodeNames(node: GraphNode): string[] {
+  const label = node.label.toLowerCase().trim()
+  const parts = label.match(/^(.+?)\s*\((.+)\)$/)
+  return [label, ...(parts ? [parts[1], parts[2]] : [])].filter(name => name.length > 2)
+}
+
+/**
+ * Rewrites a follow-up into a standalone question by replacing pronouns
+ * ("it", "they") and demonstratives ("that company", "those") with the
+ * discussed entities they most likely refer to
+ *
+ * Singular references take the most salient entity (of the named type);
+ * plural ones take the matching entities of the latest turn that has any.
+ * Entities named in the question itself are never the referent
+ */
+export function resolveFollowUp(
+  question: string,
+  state: ConversationState,
+  nodes: GraphNode[]
+): StandaloneQuestion {
+  const named = new Set(mentionedNodes(question, nodes).map(node => node.id))
+  const candidates = state.entities.filter(entity => !named.has(entity.node.id))
+  // In "companies that use it", "it" is not one of the companies
+  const words = new Set(question.toLowerCase().split(/[^a-z]+/).map(stem))
+  const others = candidates.filter(entity => !nodeLabels(entity.node).some(label => words.has(stem(label.toLowerCase()))))
+  const references: ResolvedReference[] = []
+
+  const resolve = (phrase: string, found: GraphNode[], render: (labels: string) => string) => {
+    if (found.length === 0) return phrase
+    references.push({ phrase, nodes: found })
+    return render(joinLabels(found))
+  }
+
+  const query = question.replace(REFERENCE, (match, of?: string, demonstrative?: string, noun?: string, pronoun?: string) => {
+    if (pronoun) {
+      const word = pronoun.toLowerCase()
+      const preferred = singular(others)
+      const referent = preferred.length > 0 ? preferred : singular(candidates)
+      if (word === 'it' || word === 'itself') return resolve(match, referent, labels => labels)
+      if (word === 'its') return resolve(match, referent, labels => `${labels}'s`)
+      return resolve(match, plural(candidates), labels => (word === 'their' ? `${labels}'s` : labels))
+    }
+
+    const isPlural = /^th[eo]se$/i.test(demonstrative!)
+    const type = noun ? matchingType(noun, candidates) : undefined
+    const prefix = of ? `${of} ` : ''
+    if (type) {
+      const found = isPlural ? plural(candidates, type) : singular(candidates, type)
+      return resolve(match, found, labels => `${prefix}${labels}`)
+    }
+    // "of those" without a type: the word after it is kept
+    if (of && isPlural) {
+      const phrase = `${of} ${demonstrative}`
+      const rest = match.slice(match.toLowerCase().indexOf(demonstrative!.toLowerCase()) + demonstrative!.length)
+      return resolve(phrase, plural(candidates), labels => `${of} ${labels}`) + rest
+    }
+    return match
+  })
+
+  return { query, references }
+}
+
+function hasType(entity: DiscussedEntity, type?: string): boolean {
+  return !type || nodeLabels(entity.node).includes(type)
+}
+
+/**
+ * Node type a noun like "companies" refers to, among the discussed entities
+ */
+function matchingType(noun: string, entities: DiscussedEntity[]): string | undefined {
+  const word = stem(noun.toLowerCase())
+  return entities
+    .flatMap(entity => nodeLabels(entity.node))
+    .find(label => stem(label.toLowerCase()) === word)
+}
+
+function singular(entities: DiscussedEntity[], type?: string): GraphNode[] {
+  const found = entities.find(entity => hasType(entity, type))
+  return found ? [found.node] : []
+}
+
+/**
+ * Entities of the latest turn with any of the type; untyped, the entities
+ * named in that turn's question if several were, otherwise its top sources
+ */
+function plural(entities: DiscussedEntity[], type?: string): GraphNode[] {
+  const matching = entities.filter(entity => hasType(entity, type))
+  if (matching.length === 0) return []
+  const latest = Math.min(...matching.map(entity => entity.turn))
+  const inTurn = matching.filter(entity => entity.turn === latest)
+  if (!type) {
+    const named = inTurn.filter(entity => entity.via === 'question')
+    if (named.length > 1) return named.slice(0, MAX_PLURAL).map(entity => entity.node)
+    return inTurn.filter(entity => entity.via !== 'selection').slice(0, 3).map(entity => entity.node)
+  }
+  return inTurn.slice(0, MAX_PLURAL).map(entity => entity.node)
+}
+
+function joinLabels(nodes: GraphNode[]): string {
+  const labels = nodes.map(node => node.label)
+  return labels.length <= 1 ? labels.join('') : `${labels.slice(0, -1).join(', ')} and ${labels.at(-1)}`
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,102 @@
+/**
+ * Abstract syntax tree for the supported Cypher subset
+ */
+
+export type Expression =
+  | { kind: 'literal'; value: string | number | boolean | null }
+  | { kind: 'parameter'; name: string }
+  | { kind: 'variable'; name: string }
+  | { kind: 'property'; object: Expression; key: string }
+  | { kind: 'index'; object: Expression; index: Expression }
+  | { kind: 'list'; items: Expression[] }
+  | { kind: 'map'; entries: { key: string; value: Expression }[] }
+  | { kind: 'unary'; operator: 'NOT' | '-' | '+'; operand: Expression }
+  | { kind: 'binary'; operator: BinaryOperator; left: Expression; right: Expression }
+  | { kind: 'isNull'; operand: Expression; negated: boolean }
+  | { kind: 'function'; name: string; args: Expression[]; distinct: boolean }
+  | { kind: 'countStar' }
+  | { kind: 'case'; subject?: Expression; branches: { when: Expression; then: Expression }[]; otherwise?: Expression }
+
+export type BinaryOperator =
+  | 'AND' | 'OR' | 'XOR'
+  | '=' | '<>' | '<' | '>' | '<=' | '>='
+  | '+' | '-' | '*' | '/' | '%' | '^'
+  | 'IN' | 'CONTAINS' | 'STARTS WITH' | 'ENDS WITH' | '=~'
+
+/** Source span of a syntax element, used for diagnostics */
+export interface Span {
+  start: number
+  end: number
+}
+
+export interface NodePattern extends Span {
+  variable?: string
+  labels: string[]
+  properties?: Extract<Expression, { kind: 'map' | 'parameter' }>
+}
+
+export interface RelationshipPattern extends Span {
+  variable?: string
+  types: string[]
+  direction: 'out' | 'in' | 'both'
+  properties?: Extract<Expression, { kind: 'map' | 'parameter' }>
+  /** Present for variable-length patterns such as [*1..3] */
+  length?: { min: number; max?: number }
+}
+
+export interface PathPattern extends Span {
+  /** Name bound by `p = (...)` */
+  variable?: string
+  head: NodePattern
+  chain: { relationship: RelationshipPattern; node: NodePattern }[]
+}
+
+export interface ProjectionItem {
+  expression: Expression
+  alias?: string
+  /** Original source text, used as the column name when there is no alias */
+  text: string
+}
+
+export interface SortItem {
+  expression: Expression
+  descending: boolean
+}
+
+export interface Projection {
+  distinct: boolean
+  /** RETURN * / WITH * */
+  star: boolean
+  items: ProjectionItem[]
+  orderBy?: SortItem[]
+  skip?: Expression
+  limit?: Expression
+}
+
+/** One assignment of a SET clause (or MERGE ... ON CREATE / ON MATCH SET) */
+export type SetItem =
+  | { kind: 'property'; variable: string; key: string; value: Expression }
+  /** n = {map} replaces all properties, n += {map} merges them */
+  | { kind: 'properties'; variable: string; value: Expression; merge: boolean }
+  | { kind: 'labels'; variable: string; labels: string[] }
+
+/** One item of a REMOVE clause */
+export type RemoveItem =
+  | { kind: 'property'; variable: string; key: string }
+  | { kind: 'labels'; variable: string; labels: string[] }
+
+export type Clause =
+  | { kind: 'match'; optional: boolean; patterns: PathPattern[]; where?: Expression }
+  | { kind: 'unwind'; expression: Expression; variable: string }
+  | { kind: 'with'; projection: Projection; where?: Expression }
+  | { kind: 'create'; patterns: PathPattern[] }
+  | { kind: 'merge'; pattern: PathPattern; onCreate: SetItem[]; onMatch: SetItem[] }
+  | { kind: 'set'; items: SetItem[] }
+  | { kind: 'remove'; items: RemoveItem[] }
+  /** DETACH DELETE also deletes the relationships of deleted nodes */
+  | { kind: 'delete'; detach: boolean; expressions: Expression[] }
+  | { kind: 'return'; projection: Projection }
+
+export interface Query {
+  clauses: Clause[]
+}
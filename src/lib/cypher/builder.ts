@@ -0,0 +1,125 @@
+import type { CypherStatement } from '../../types'
+
+/**
+ * Collects the parameters of one statement while its text is written
+ *
+ * Values never enter the query text: `param` stores them and returns a
+ * `$placeholder`. Labels, relationship types and property keys go through
+ * `name`, which backtick-escapes anything that is not a plain identifier
+ *
+ *   const cypher = createCypherBuilder()
+ *   cypher.build(`MATCH (n${cypher.labels(['Person'])} {id: ${cypher.param(id, 'id')}}) RETURN n`)
+ */
+export interface CypherBuilder {
+  /** Stores a value and returns its placeholder, e.g. `$id`, or `$id_2` when `id` is taken */
+  param(value: unknown, name?: string): string
+  /** A label, relationship type or property key, escaped */
+  name(name: string): string
+  /** Labels as a pattern suffix, e.g. `:Person:\`Open Source\`` */
+  labels(labels: string[]): string
+  /** The statement with every parameter stored so far */
+  build(query: string): CypherStatement
+}
+
+export function createCypherBuilder(): CypherBuilder {
+  const params: Record<string, unknown> = {}
+
+  return {
+    param(value, name = 'param') {
+      const base = name.replace(/[^A-Za-z0-9_]/g, '_').replace(/^(?=\d)/, '_') || 'param'
+      let key = base
+      for (let n = 2; key in params; n++) key = `${base}_${n}`
+      params[key] = value
+      return `$${key}`
+    },
+    name: cypherName,
+    labels: labels => labels.map(label => `:${cypherName(label)}`).join(''),
+    build: query => ({ query, params: { ...params } })
+  }
+}
+
+/**
+ * Backtick-quotes a label, type or key unless it is a plain identifier
+ */
+export function cypherName(name: string): string {
+  return /^[A-Za-z_][A-Za-z0-9_]*$/.test(name) ? name : `\`${name.replace(/`/g, '``')}\``
+}
+
+/** Prefix of relationship ids built from Neo4j element ids, see the Neo4j data source */
+export const RELATIONSHIP_ID_PREFIX = 'rel-'
+
+/**
+ * WHERE condition finding an element by its explorer id: the `id`
+ * property, or the Neo4j element id for elements loaded without one
+ * (relationships carry it behind RELATIONSHIP_ID_PREFIX)
+ *
+ * The property is compared as text, since explorer ids are strings even
+ * for nodes whose `id` is stored as a number
+ */
+export function idPredicate(
+  cypher: CypherBuilder,
+  variable: string,
+  id: string,
+  kind: 'node' | 'relationship' = 'node',
+  name = 'id'
+): string {
+  const param = cypher.param(id, name)
+  const elementId = kind === 'relationship' && id.startsWith(RELATIONSHIP_ID_PREFIX)
+    ? cypher.param(id.slice(RELATIONSHIP_ID_PREFIX.length), `${name}_element`)
+    : param
+  return `(toString(${variable}.id) = ${param} OR elementId(${variable}) = ${elementId})`
+}
+
+/**
+ * Renders a parameter value as a Cypher literal, for `:param` lines
+ */
+export function cypherLiteral(value: unknown): string {
+  if (value === null || value === undefined) return 'null'
+  if (typeof value === 'string') {
+    return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'").replace(/\n/g, '\\n').replace(/\r/g, '\\r')}'`
+  }
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'null'
+  if (typeof value === 'boolean') return String(value)
+  if (Array.isArray(value)) return `[${value.map(cypherLiteral).join(', ')}]`
+  if (typeof value === 'object') {
+    return `{${Object.entries(value).map(([key, item]) => `${cypherName(key)}: ${cypherLiteral(item)}`).join(', ')}}`
+  }
+  return cypherLiteral(String(value))
+}
+
+/**
+ * A value as Neo4j can store it as a property: maps, which are not valid
+ * property values, are kept as JSON text
+ */
+export function storableValue(value: unknown): unknown {
+  if (Array.isArray(value)) return value.map(item => (item !== null && typeof item === 'object' ? JSON.stringify(item) : item))
+  return value !== null && typeof value === 'object' ? JSON.stringify(value) : value
+}
+
+/**
+ * Properties as Neo4j can store them, without nulls
+ */
+export function storableProperties(values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(values)
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => [key, storableValue(value)])
+  )
+}
+
+/**
+ * Parameters as cypher-shell / Neo4j Browser `:param` commands, one per line
+ */
+export function cypherParamLines(params: Record<string, unknown>): string[] {
+  return Object.entries(params).map(([name, value]) => `:param ${cypherName(name)} => ${cypherLiteral(value)}`)
+}
+
+/**
+ * Statements as a runnable script, each preceded by the `:param` commands
+ * setting its parameters
+ */
+export function toCypherScriptText(statements: CypherStatement[]): string {
+  return statements
+    .map(({ query, params }) => [...cypherParamLines(params), `${query};`].join('\n'))
+    .join('\n')
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import { sampleGraphData, sampleQueries } from '../../data/sampleGraph'
+import { cloneGraphData } from '../graph'
+import { executeCypher } from './evaluator'
+import { CypherSyntaxError } from './lexer'
+
+const run = (query: string, params?: Record<string, unknown>) => executeCypher(query, cloneGraphData(sampleGraphData), params)
+
+describe('executeCypher', () => {
+  it.each([
+    { sample: sampleQueries[0], columns: ['path'], rowCount: 5 },
+    { sample: sampleQueries[1], columns: ['Company', 'UseCase', 'Achievement'], rowCount: 2 },
+    { sample: sampleQueries[2], columns: ['graphrag', 'rag', 'tech', 'altTech'], rowCount: 1 },
+    { sample: sampleQueries[3], columns: ['Challenge', 'Description', 'Severity'], rowCount: 2 }
+  ])('answers the sample query $sample.natural', ({ sample, columns, rowCount }) => {
+    const result = run(sample.cypher)
+
+    expect(result.columns).toEqual(columns)
+    expect(result.rows).toHaveLength(rowCount)
+    expect(result.counters).toBeUndefined()
+  })
+
+  it('returns the rows of the sample queries', () => {
+    expect(run(sampleQueries[1].cypher).rows.map(row => [row.Company, row.UseCase])).toEqual([
+      ['NASA', 'Enterprise Knowledge Management'],
+      ['ICIJ', 'Fraud Detection']
+    ])
+    expect(run(sampleQueries[3].cypher).rows.map(row => row.Challenge)).toEqual(['AI Explainability', 'Response Accuracy'])
+  })
+
+  it('matches variable-length patterns', () => {
+    const exact = run("MATCH (a {id: 'graphrag'})-[*2]->(b) RETURN DISTINCT b.id AS id ORDER BY id")
+    expect(exact.rows.map(row => row.id)).toEqual(['accuracy', 'context', 'cypher', 'genai', 'vectordb'])
+
+    const ranged = run("MATCH (a {id: 'nasa'})-[rs*1..2]->(b) RETURN b.id AS id, size(rs) AS hops ORDER BY hops, id")
+    expect(ranged.rows).toEqual([
+      { id: 'knowledge-management', hops: 1 },
+      { id: 'neo4j', hops: 1 },
+      { id: 'context', hops: 2 },
+      { id: 'cypher', hops: 2 },
+      { id: 'graphrag', hops: 2 },
+      { id: 'vectordb', hops: 2 }
+    ])
+  })
+
+  it('binds named paths', () => {
+    const result = run(`MATCH p = (:Company {id: 'nasa'})-[:USES]->(t)
+RETURN length(p) AS length, size(nodes(p)) AS size, nodes(p)[1].id AS end, type(relationships(p)[0]) AS type`)
+
+    expect(result.rows).toEqual([{ length: 1, size: 2, end: 'neo4j', type: 'USES' }])
+  })
+
+  it('orders, limits and aggregates through WITH', () => {
+    const result = run('MATCH (n) WITH labels(n)[0] AS type, count(*) AS c ORDER BY c DESC, type LIMIT 2 RETURN type, c')
+
+    expect(result.rows).toEqual([{ type: 'Concept', c: 7 }, { type: 'Technology', c: 6 }])
+  })
+
+  it('groups aggregates by the other returned columns', () => {
+    const result = run('MATCH (c:Company)-[:USES]->(t) RETURN t.label AS tech, collect(c.label) AS companies, count(c) AS n')
+
+    expect(result.rows).toEqual([{ tech: 'Neo4j', companies: ['NASA', 'ICIJ'], n: 2 }])
+  })
+
+  it('reads parameters', () => {
+    const result = run('MATCH (n:Technology) WHERE n.label STARTS WITH $prefix RETURN n.id AS id', { prefix: 'G' })
+
+    expect(result.rows).toEqual([{ id: 'graphrag' }])
+    expect(() => run('MATCH (n) WHERE n.id = $id RETURN n')).toThrow('Expected parameter: $id')
+  })
+
+  it('counts what write queries change', () => {
+    const data = cloneGraphData(sampleGraphData)
+
+    const created = executeCypher("CREATE (n:Concept {id: 'x', label: 'X'})-[:RELATES_TO]->(m:Concept:Extra {id: 'y'}) SET n.weight = 1", data)
+    expect(created.counters).toMatchObject({ nodesCreated: 2, relationshipsCreated: 1, labelsAdded: 3, propertiesSet: 1 })
+
+    const updated = executeCypher("MATCH (n {id: 'nasa'}) SET n:Agency, n.founded = 1958 REMOVE n.achievement", data)
+    expect(updated.counters).toMatchObject({ labelsAdded: 1, propertiesSet: 2 })
+
+    const deleted = executeCypher("MATCH (n {id: 'icij'}) DETACH DELETE n", data)
+    expect(deleted.counters).toMatchObject({ nodesDeleted: 1, relationshipsDeleted: 2 })
+    expect(data.nodes).toHaveLength(sampleGraphData.nodes.length + 1)
+
+    const merged = executeCypher("MERGE (n:Technology {id: 'neo4j'}) RETURN n.label AS label", data)
+    expect(merged.rows).toEqual([{ label: 'Neo4j' }])
+    expect(Object.values(merged.counters!).every(count => count === 0)).toBe(true)
+  })
+
+  it('rejects pattern predicates and UNION as syntax errors', () => {
+    expect(() => run('MATCH (n) WHERE (n)-[:USES]->() RETURN n')).toThrow(CypherSyntaxError)
+    expect(() => run('MATCH (n) WHERE NOT (:Company)-->(n) RETURN n')).toThrow('Patterns are not supported in expressions')
+    expect(() => run('MATCH (n:Company) RETURN n.label UNION MATCH (n:Technology) RETURN n.label')).toThrow('UNION is not supported')
+    // Parentheses around expressions still parse
+    expect(run('MATCH (n) WHERE (n.id) = "neo4j" RETURN (1 + 2) * 3 AS x').rows).toEqual([{ x: 9 }])
+  })
+
+  it('reports runtime errors', () => {
+    expect(() => run('MATCH (n)')).toThrow('Query must end with a RETURN clause')
+    expect(() => run('MATCH (n) RETURN foo(n)')).toThrow("Unknown function 'foo'")
+    expect(() => run("MATCH (n {id: 'neo4j'}) DELETE n")).toThrow('use DETACH DELETE')
+  })
+})
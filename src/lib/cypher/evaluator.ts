@@ -0,0 +1,1273 @@
+import type {
+  CypherCounters,
+  CypherResult,
+  GraphData,
+  GraphNode,
+  GraphPath,
+  GraphRelationship
+} from '../../types'
+import { endpointId, isGraphNode, isGraphRelationship, nodeLabels, toGraphNode } from '../graph'
+import type {
+  Clause,
+  Expression,
+  NodePattern,
+  PathPattern,
+  Projection,
+  ProjectionItem,
+  Query,
+  RelationshipPattern,
+  RemoveItem,
+  SetItem
+} from './ast'
+import { parseCypher } from './parser'
+
+const WRITE_CLAUSES = new Set<Clause['kind']>(['create', 'merge', 'set', 'remove', 'delete'])
+
+/** Upper bound for unbounded variable-length patterns such as [*] */
+const MAX_UNBOUNDED_HOPS = 10
+
+const AGGREGATE_FUNCTIONS = new Set(['count', 'collect', 'sum', 'avg', 'min', 'max'])
+
+/**
+ * A binding row flowing between clauses
+ * nodeIds/relationshipIds trace every element matched to produce the row,
+ * so tabular projections can still highlight the subgraph behind them
+ */
+interface Row {
+  vars: Record<string, unknown>
+  nodeIds: string[]
+  relationshipIds: string[]
+}
+
+interface Context {
+  data: GraphData
+  nodes: GraphNode[]
+  nodeById: Map<string, GraphNode>
+  relationshipById: Map<string, GraphRelationship>
+  outgoing: Map<string, GraphRelationship[]>
+  incoming: Map<string, GraphRelationship[]>
+  nodeSet: Set<unknown>
+  relationshipSet: Set<unknown>
+  paths: WeakSet<object>
+  params: Record<string, unknown>
+  counters: CypherCounters
+}
+
+interface Scope {
+  vars: Record<string, unknown>
+  /** Rows of the current group while evaluating aggregations */
+  group?: Row[]
+}
+
+/**
+ * Runs a Cypher query against in-memory graph data
+ *
+ * Supports MATCH / OPTIONAL MATCH with labels, property maps, directed and
+ * undirected relationships, variable-length and named paths, WHERE, UNWIND,
+ * WITH, RETURN (aliases, DISTINCT, aggregation), ORDER BY, SKIP and LIMIT
+ *
+ * CREATE, MERGE, SET, REMOVE and DELETE modify `data` in place; queries that write may
+ * omit RETURN, in which case the result lists the touched elements only
+ * Results of queries that write carry counters of what they changed
+ */
+export function executeCypher(
+  query: string | Query,
+  data: GraphData,
+  params: Record<string, unknown> = {}
+): CypherResult {
+  const ast = typeof query === 'string' ? parseCypher(query) : query
+  const last = ast.clauses[ast.clauses.length - 1]
+  const writes = ast.clauses.some(clause => WRITE_CLAUSES.has(clause.kind))
+  if (last.kind !== 'return' && !writes) {
+    throw new Error('Query must end with a RETURN clause')
+  }
+
+  const ctx = createContext(data, params)
+  let rows: Row[] = [{ vars: {}, nodeIds: [], relationshipIds: [] }]
+  let columns: string[] = []
+
+  for (const clause of ast.clauses) {
+    rows = runClause(clause, rows, ctx)
+    if (clause.kind === 'return') {
+      columns = projectionColumns(clause.projection, rows)
+    }
+  }
+
+  const result = { ...collectResult(columns, rows, ctx), ...(writes ? { counters: ctx.counters } : {}) }
+  return last.kind === 'return' ? result : { ...result, rows: [] }
+}
+
+function createContext(data: GraphData, params: Record<string, unknown>): Context {
+  const outgoing = new Map<string, GraphRelationship[]>()
+  const incoming = new Map<string, GraphRelationship[]>()
+  data.relationships.forEach(rel => {
+    const source = endpointId(rel.source)
+    const target = endpointId(rel.target)
+    if (!outgoing.has(source)) outgoing.set(source, [])
+    if (!incoming.has(target)) incoming.set(target, [])
+    outgoing.get(source)!.push(rel)
+    incoming.get(target)!.push(rel)
+  })
+
+  return {
+    data,
+    nodes: data.nodes,
+    nodeById: new Map(data.nodes.map(node => [node.id, node])),
+    relationshipById: new Map(data.relationships.map(rel => [rel.id, rel])),
+    outgoing,
+    incoming,
+    nodeSet: new Set(data.nodes),
+    relationshipSet: new Set(data.relationships),
+    paths: new WeakSet(),
+    params,
+    counters: {
+      nodesCreated: 0,
+      nodesDeleted: 0,
+      relationshipsCreated: 0,
+      relationshipsDeleted: 0,
+      propertiesSet: 0,
+      labelsAdded: 0,
+      labelsRemoved: 0
+    }
+  }
+}
+
+function runClause(clause: Clause, rows: Row[], ctx: Context): Row[] {
+  switch (clause.kind) {
+    case 'match':
+      return runMatch(clause, rows, ctx)
+    case 'with': {
+      const projected = project(clause.projection, rows, ctx)
+      return clause.where
+        ? projected.filter(row => evaluate(clause.where!, { vars: row.vars }, ctx) === true)
+        : projected
+    }
+    case 'return':
+      return project(clause.projection, rows, ctx)
+    case 'unwind':
+      return rows.flatMap(row => {
+        const value = evaluate(clause.expression, { vars: row.vars }, ctx)
+        const items = value === null ? [] : Array.isArray(value) ? value : [value]
+        return items.map(item => ({ ...row, vars: bind(row.vars, clause.variable, item) }))
+      })
+    case 'create':
+      return rows.map(row => clause.patterns.reduce((current, pattern) =>
+        createPath(pattern, current, ctx, 'CREATE'), row))
+    case 'merge':
+      return rows.flatMap(row => runMerge(clause, row, ctx))
+    case 'set':
+      rows.forEach(row => clause.items.forEach(item => applySetItem(item, row, ctx)))
+      return rows
+    case 'remove':
+      rows.forEach(row => clause.items.forEach(item => applyRemoveItem(item, row, ctx)))
+      return rows
+    case 'delete':
+      rows.forEach(row => clause.expressions.forEach(expression =>
+        deleteValue(evaluate(expression, { vars: row.vars }, ctx), clause.detach, ctx)))
+      return rows
+  }
+}
+
+// ---- Pattern matching ----
+
+interface MatchState {
+  row: Row
+  /** Relationship ids already used in this MATCH clause (Cypher relationship uniqueness) */
+  used: Set<string>
+}
+
+function runMatch(clause: Extract<Clause, { kind: 'match' }>, rows: Row[], ctx: Context): Row[] {
+  const output: Row[] = []
+
+  for (const row of rows) {
+    let states: MatchState[] = [{ row, used: new Set() }]
+    for (const pattern of clause.patterns) {
+      states = states.flatMap(state => [...matchPath(pattern, state, ctx)])
+    }
+
+    let matches = states.map(state => state.row)
+    if (clause.where) {
+      matches = matches.filter(match => evaluate(clause.where!, { vars: match.vars }, ctx) === true)
+    }
+
+    if (matches.length === 0 && clause.optional) {
+      const vars = { ...row.vars }
+      clause.patterns.forEach(pattern => patternVariables(pattern).forEach(name => {
+        if (!(name in vars)) vars[name] = null
+      }))
+      output.push({ ...row, vars })
+    } else {
+      output.push(...matches)
+    }
+  }
+
+  return output
+}
+
+function patternVariables(pattern: PathPattern): string[] {
+  const names = [pattern.variable, pattern.head.variable]
+  pattern.chain.forEach(({ relationship, node }) => names.push(relationship.variable, node.variable))
+  return names.filter((name): name is string => Boolean(name))
+}
+
+function* matchPath(pattern: PathPattern, state: MatchState, ctx: Context): Generator<MatchState> {
+  for (const startNode of nodeCandidates(pattern.head, state.row.vars, ctx)) {
+    const vars = bind(state.row.vars, pattern.head.variable, startNode)
+    yield* extendPath(pattern, 0, startNode, {
+      row: { ...state.row, vars },
+      used: state.used
+    }, [startNode], [], ctx)
+  }
+}
+
+function* extendPath(
+  pattern: PathPattern,
+  index: number,
+  current: GraphNode,
+  state: MatchState,
+  pathNodes: GraphNode[],
+  pathRelationships: GraphRelationship[],
+  ctx: Context
+): Generator<MatchState> {
+  if (index === pattern.chain.length) {
+    let vars = state.row.vars
+    if (pattern.variable) {
+      const path: GraphPath = { nodes: pathNodes, relationships: pathRelationships }
+      ctx.paths.add(path)
+      vars = bind(vars, pattern.variable, path)
+    }
+    yield {
+      row: {
+        vars,
+        nodeIds: [...state.row.nodeIds, ...pathNodes.map(n => n.id)],
+        relationshipIds: [...state.row.relationshipIds, ...pathRelationships.map(r => r.id)]
+      },
+      used: new Set([...state.used, ...pathRelationships.map(r => r.id)])
+    }
+    return
+  }
+
+  const { relationship: relPattern, node: nodePattern } = pattern.chain[index]
+  const bound = relPattern.variable ? state.row.vars[relPattern.variable] : undefined
+
+  if (relPattern.length) {
+    for (const walk of expandVariableLength(current, relPattern, state, pathRelationships, ctx)) {
+      const end = walk.nodes[walk.nodes.length - 1]
+      if (!nodeMatches(end, nodePattern, state.row.vars, ctx)) continue
+      if (bound !== undefined) continue
+      let vars = bind(state.row.vars, relPattern.variable, walk.relationships)
+      vars = bind(vars, nodePattern.variable, end)
+      yield* extendPath(
+        pattern,
+        index + 1,
+        end,
+        { row: { ...state.row, vars }, used: state.used },
+        [...pathNodes, ...walk.nodes.slice(1)],
+        [...pathRelationships, ...walk.relationships],
+        ctx
+      )
+    }
+    return
+  }
+
+  for (const { relationship, other } of steps(current, relPattern, ctx)) {
+    if (state.used.has(relationship.id) || pathRelationships.includes(relationship)) continue
+    if (bound !== undefined && bound !== relationship) continue
+    if (!propertiesMatch(relationship, relPattern.properties, state.row.vars, ctx)) continue
+    if (!nodeMatches(other, nodePattern, state.row.vars, ctx)) continue
+
+    let vars = bind(state.row.vars, relPattern.variable, relationship)
+    vars = bind(vars, nodePattern.variable, other)
+    yield* extendPath(
+      pattern,
+      index + 1,
+      other,
+      { row: { ...state.row, vars }, used: state.used },
+      [...pathNodes, other],
+      [...pathRelationships, relationship],
+      ctx
+    )
+  }
+}
+
+function* expandVariableLength(
+  start: GraphNode,
+  relPattern: RelationshipPattern,
+  state: MatchState,
+  pathRelationships: GraphRelationship[],
+  ctx: Context
+): Generator<GraphPath> {
+  const min = relPattern.length!.min
+  const max = relPattern.length!.max ?? MAX_UNBOUNDED_HOPS
+
+  function* walk(node: GraphNode, nodes: GraphNode[], relationships: GraphRelationship[]): Generator<GraphPath> {
+    if (relationships.length >= min) yield { nodes, relationships }
+    if (relationships.length >= max) return
+
+    for (const { relationship, other } of steps(node, relPattern, ctx)) {
+      if (state.used.has(relationship.id) || relationships.includes(relationship)) continue
+      if (pathRelationships.includes(relationship)) continue
+      if (!propertiesMatch(relationship, relPattern.properties, state.row.vars, ctx)) continue
+      yield* walk(other, [...nodes, other], [...relationships, relationship])
+    }
+  }
+
+  yield* walk(start, [start], [])
+}
+
+function* steps(
+  node: GraphNode,
+  relPattern: RelationshipPattern,
+  ctx: Context
+): Generator<{ relationship: GraphRelationship; other: GraphNode }> {
+  const typeMatches = (rel: GraphRelationship) =>
+    relPattern.types.length === 0 || relPattern.types.includes(rel.type)
+
+  if (relPattern.direction !== 'in') {
+    for (const rel of ctx.outgoing.get(node.id) ?? []) {
+      const other = ctx.nodeById.get(endpointId(rel.target))
+      if (other && typeMatches(rel)) yield { relationship: rel, other }
+    }
+  }
+  if (relPattern.direction !== 'out') {
+    for (const rel of ctx.incoming.get(node.id) ?? []) {
+      // Self-loops were already produced by the outgoing pass
+      if (relPattern.direction === 'both' && endpointId(rel.source) === node.id) continue
+      const other = ctx.nodeById.get(endpointId(rel.source))
+      if (other && typeMatches(rel)) yield { relationship: rel, other }
+    }
+  }
+}
+
+function nodeCandidates(pattern: NodePattern, vars: Record<string, unknown>, ctx: Context): GraphNode[] {
+  if (pattern.variable && pattern.variable in vars) {
+    const bound = vars[pattern.variable]
+    return ctx.nodeSet.has(bound) && nodeMatches(bound as GraphNode, pattern, vars, ctx)
+      ? [bound as GraphNode]
+      : []
+  }
+  return ctx.nodes.filter(node => nodeMatches(node, pattern, vars, ctx))
+}
+
+function nodeMatches(node: GraphNode, pattern: NodePattern, vars: Record<string, unknown>, ctx: Context): boolean {
+  if (pattern.variable && pattern.variable in vars && vars[pattern.variable] !== node) return false
+  if (!pattern.labels.every(label => nodeLabels(node).includes(label))) return false
+  return propertiesMatch(node, pattern.properties, vars, ctx)
+}
+
+function propertiesMatch(
+  element: GraphNode | GraphRelationship,
+  properties: NodePattern['properties'],
+  vars: Record<string, unknown>,
+  ctx: Context
+): boolean {
+  if (!properties) return true
+  const expected = evaluate(properties, { vars }, ctx)
+  if (expected === null || typeof expected !== 'object') return false
+
+  return Object.entries(expected as Record<string, unknown>).every(([key, value]) =>
+    equals(propertyOf(element, key, ctx), value) === true
+  )
+}
+
+function bind(vars: Record<string, unknown>, name: string | undefined, value: unknown) {
+  return name ? { ...vars, [name]: value } : vars
+}
+
+// ---- Writes ----
+
+function runMerge(clause: Extract<Clause, { kind: 'merge' }>, row: Row, ctx: Context): Row[] {
+  const matches = [...matchPath(clause.pattern, { row, used: new Set() }, ctx)].map(state => state.row)
+  if (matches.length > 0) {
+    matches.forEach(match => clause.onMatch.forEach(item => applySetItem(item, match, ctx)))
+    return matches
+  }
+
+  const created = createPath(clause.pattern, row, ctx, 'MERGE')
+  clause.onCreate.forEach(item => applySetItem(item, created, ctx))
+  return [created]
+}
+
+/**
+ * Creates the unbound nodes and all relationships of a pattern,
+ * reusing nodes already bound in the row
+ */
+function createPath(pattern: PathPattern, row: Row, ctx: Context, clause: 'CREATE' | 'MERGE'): Row {
+  let vars = row.vars
+  const nodes: GraphNode[] = []
+  const relationships: GraphRelationship[] = []
+
+  const resolveNode = (nodePattern: NodePattern): GraphNode => {
+    if (nodePattern.variable && nodePattern.variable in vars) {
+      const bound = vars[nodePattern.variable]
+      if (!ctx.nodeSet.has(bound)) throw new Error(`Variable \`${nodePattern.variable}\` is not a node`)
+      return bound as GraphNode
+    }
+    const node = createNode(nodePattern, vars, ctx)
+    vars = bind(vars, nodePattern.variable, node)
+    return node
+  }
+
+  let current = resolveNode(pattern.head)
+  nodes.push(current)
+  for (const { relationship: relPattern, node: nodePattern } of pattern.chain) {
+    const other = resolveNode(nodePattern)
+    if (relPattern.length) throw new Error(`${clause} cannot use variable-length relationships`)
+    if (relPattern.types.length !== 1) throw new Error(`${clause} requires exactly one relationship type`)
+    if (relPattern.direction === 'both' && clause === 'CREATE') {
+      throw new Error('CREATE requires a relationship direction')
+    }
+
+    const [source, target] = relPattern.direction === 'in' ? [other, current] : [current, other]
+    const properties = patternProperties(relPattern.properties, vars, ctx)
+    const { id, ...rest } = properties
+    const rel: GraphRelationship = {
+      id: id !== undefined ? String(id) : nextId('rel', ctx.relationshipById),
+      source: source.id,
+      target: target.id,
+      type: relPattern.types[0],
+      properties: rest
+    }
+    addRelationship(rel, ctx)
+    vars = bind(vars, relPattern.variable, rel)
+    relationships.push(rel)
+    nodes.push(other)
+    current = other
+  }
+
+  if (pattern.variable) {
+    const path: GraphPath = { nodes, relationships }
+    ctx.paths.add(path)
+    vars = bind(vars, pattern.variable, path)
+  }
+
+  return {
+    vars,
+    nodeIds: [...row.nodeIds, ...nodes.map(n => n.id)],
+    relationshipIds: [...row.relationshipIds, ...relationships.map(r => r.id)]
+  }
+}
+
+function createNode(pattern: NodePattern, vars: Record<string, unknown>, ctx: Context): GraphNode {
+  const node = toGraphNode(
+    pattern.labels,
+    patternProperties(pattern.properties, vars, ctx),
+    nextId('node', ctx.nodeById)
+  )
+  if (ctx.nodeById.has(node.id)) throw new Error(`A node with id '${node.id}' already exists`)
+
+  ctx.data.nodes.push(node)
+  ctx.nodeById.set(node.id, node)
+  ctx.nodeSet.add(node)
+  ctx.counters.nodesCreated++
+  ctx.counters.labelsAdded += nodeLabels(node).length
+  ctx.counters.propertiesSet += Object.keys(node.properties).length
+  return node
+}
+
+function addRelationship(rel: GraphRelationship, ctx: Context) {
+  if (ctx.relationshipById.has(rel.id)) throw new Error(`A relationship with id '${rel.id}' already exists`)
+  const source = endpointId(rel.source)
+  const target = endpointId(rel.target)
+
+  ctx.data.relationships.push(rel)
+  ctx.relationshipById.set(rel.id, rel)
+  ctx.relationshipSet.add(rel)
+  ctx.counters.relationshipsCreated++
+  ctx.counters.propertiesSet += Object.keys(rel.properties ?? {}).length
+  if (!ctx.outgoing.has(source)) ctx.outgoing.set(source, [])
+  if (!ctx.incoming.has(target)) ctx.incoming.set(target, [])
+  ctx.outgoing.get(source)!.push(rel)
+  ctx.incoming.get(target)!.push(rel)
+}
+
+function patternProperties(
+  properties: NodePattern['properties'],
+  vars: Record<string, unknown>,
+  ctx: Context
+): Record<string, unknown> {
+  if (!properties) return {}
+  const value = evaluate(properties, { vars }, ctx)
+  if (value === null || typeof value !== 'object' || Array.isArray(value)) {
+    throw new Error(`Expected a property map but got ${describeValue(value)}`)
+  }
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => {
+    assertPropertyValue(v)
+    return v !== null
+  }))
+}
+
+function nextId(prefix: string, existing: Map<string, unknown>): string {
+  let n = existing.size + 1
+  while (existing.has(`${prefix}-${n}`)) n++
+  return `${prefix}-${n}`
+}
+
+function applySetItem(item: SetItem, row: Row, ctx: Context) {
+  const target = row.vars[item.variable]
+  if (target === undefined) throw new Error(`Variable \`${item.variable}\` not defined`)
+  // Setting on a null from OPTIONAL MATCH is a no-op, as in Neo4j
+  if (target === null) return
+
+  const isNode = ctx.nodeSet.has(target)
+  if (!isNode && !ctx.relationshipSet.has(target)) {
+    throw new Error(`SET expects a node or relationship but \`${item.variable}\` is ${describeValue(target)}`)
+  }
+
+  if (item.kind === 'labels') {
+    if (!isNode) throw new Error('Labels can only be set on nodes')
+    // Labels are added to the existing ones, the primary label stays first
+    const node = target as GraphNode
+    const labels = [...new Set([...nodeLabels(node), ...item.labels])]
+    ctx.counters.labelsAdded += labels.length - nodeLabels(node).length
+    if (labels.length > 1) node.labels = labels
+    return
+  }
+
+  if (item.kind === 'property') {
+    setProperty(target as GraphNode | GraphRelationship, isNode, item.key, evaluate(item.value, { vars: row.vars }, ctx), ctx)
+    return
+  }
+
+  const value = evaluate(item.value, { vars: row.vars }, ctx)
+  const element = target as GraphNode | GraphRelationship
+  if (!item.merge) element.properties = {}
+  Object.entries(elementProperties(value, ctx)).forEach(([key, v]) => setProperty(element, isNode, key, v, ctx))
+}
+
+function setProperty(element: GraphNode | GraphRelationship, isNode: boolean, key: string, value: unknown, ctx: Context) {
+  assertPropertyValue(value)
+  if (key === 'id' && value !== element.id) throw new Error('Ids cannot be changed with SET')
+  if (key === 'id') return
+  ctx.counters.propertiesSet++
+  if (isNode && key === 'label') {
+    if (value !== null) (element as GraphNode).label = String(value)
+    return
+  }
+
+  const properties = element.properties ?? {}
+  if (value === null) {
+    delete properties[key]
+  } else {
+    properties[key] = value
+  }
+  element.properties = properties
+}
+
+function applyRemoveItem(item: RemoveItem, row: Row, ctx: Context) {
+  const target = row.vars[item.variable]
+  if (target === undefined) throw new Error(`Variable \`${item.variable}\` not defined`)
+  if (target === null) return
+
+  const isNode = ctx.nodeSet.has(target)
+  if (!isNode && !ctx.relationshipSet.has(target)) {
+    throw new Error(`REMOVE expects a node or relationship but \`${item.variable}\` is ${describeValue(target)}`)
+  }
+
+  if (item.kind === 'property') {
+    setProperty(target as GraphNode | GraphRelationship, isNode, item.key, null, ctx)
+    return
+  }
+
+  if (!isNode) throw new Error('Labels can only be removed from nodes')
+  const node = target as GraphNode
+  const labels = nodeLabels(node).filter(label => !item.labels.includes(label))
+  // GraphNode always has a primary label
+  if (labels.length === 0) throw new Error(`Node '${node.id}' must keep at least one label`)
+  ctx.counters.labelsRemoved += nodeLabels(node).length - labels.length
+  node.type = labels[0]
+  if (labels.length > 1) {
+    node.labels = labels
+  } else {
+    delete node.labels
+  }
+}
+
+/**
+ * Deletes a node, relationship, path or list of them; deleting something
+ * already deleted in the same query is a no-op
+ */
+function deleteValue(value: unknown, detach: boolean, ctx: Context) {
+  if (value === null) return
+  if (Array.isArray(value)) {
+    value.forEach(item => deleteValue(item, detach, ctx))
+    return
+  }
+  if (ctx.paths.has(value as object)) {
+    const path = value as GraphPath
+    path.relationships.forEach(rel => deleteValue(rel, detach, ctx))
+    path.nodes.forEach(node => deleteValue(node, detach, ctx))
+    return
+  }
+  if (ctx.relationshipSet.has(value)) {
+    removeRelationship(value as GraphRelationship, ctx)
+    return
+  }
+  if (!ctx.nodeSet.has(value)) {
+    // Elements deleted earlier in the query are no longer in the sets
+    if (isGraphNode(value) || isGraphRelationship(value)) return
+    throw new Error(`DELETE expects a node, relationship or path but got ${describeValue(value)}`)
+  }
+
+  const node = value as GraphNode
+  const attached = [...(ctx.outgoing.get(node.id) ?? []), ...(ctx.incoming.get(node.id) ?? [])]
+  if (attached.length > 0 && !detach) {
+    throw new Error(`Cannot delete node '${node.id}' because it still has relationships; use DETACH DELETE`)
+  }
+  attached.forEach(rel => removeRelationship(rel, ctx))
+
+  ctx.data.nodes.splice(ctx.data.nodes.indexOf(node), 1)
+  ctx.nodeById.delete(node.id)
+  ctx.nodeSet.delete(node)
+  ctx.counters.nodesDeleted++
+  ctx.outgoing.delete(node.id)
+  ctx.incoming.delete(node.id)
+}
+
+function removeRelationship(rel: GraphRelationship, ctx: Context) {
+  if (!ctx.relationshipSet.has(rel)) return
+  const without = (list: GraphRelationship[] | undefined) => list?.filter(other => other !== rel) ?? []
+
+  ctx.data.relationships.splice(ctx.data.relationships.indexOf(rel), 1)
+  ctx.relationshipById.delete(rel.id)
+  ctx.relationshipSet.delete(rel)
+  ctx.counters.relationshipsDeleted++
+  ctx.outgoing.set(endpointId(rel.source), without(ctx.outgoing.get(endpointId(rel.source))))
+  ctx.incoming.set(endpointId(rel.target), without(ctx.incoming.get(endpointId(rel.target))))
+}
+
+function assertPropertyValue(value: unknown) {
+  const isPrimitive = (v: unknown) => v === null || ['string', 'number', 'boolean'].includes(typeof v)
+  if (isPrimitive(value) || (Array.isArray(value) && value.every(isPrimitive))) return
+  throw new Error(`Property values must be primitives or lists of primitives, got ${describeValue(value)}`)
+}
+
+// ---- Projection ----
+
+function projectionItems(projection: Projection, rows: Row[]): ProjectionItem[] {
+  if (!projection.star) return projection.items
+  const names = new Set<string>()
+  rows.forEach(row => Object.keys(row.vars).forEach(name => names.add(name)))
+  const starItems: ProjectionItem[] = [...names].sort().map(name => ({
+    expression: { kind: 'variable', name },
+    text: name
+  }))
+  return [...starItems, ...projection.items]
+}
+
+function projectionColumns(projection: Projection, rows: Row[]): string[] {
+  return projectionItems(projection, rows).map(item => item.alias ?? item.text)
+}
+
+function project(projection: Projection, rows: Row[], ctx: Context): Row[] {
+  const items = projectionItems(projection, rows)
+  const names = items.map(item => item.alias ?? item.text)
+  const aggregating = items.some(item => containsAggregate(item.expression))
+
+  // Each projected row keeps the pre-projection vars so ORDER BY can reach them
+  let projected: { row: Row; source: Record<string, unknown> }[]
+
+  if (aggregating) {
+    const groups = new Map<string, { keys: unknown[]; rows: Row[] }>()
+    rows.forEach(row => {
+      const keys = items.map(item =>
+        containsAggregate(item.expression) ? undefined : evaluate(item.expression, { vars: row.vars }, ctx)
+      )
+      const key = valueKey(keys)
+      if (!groups.has(key)) groups.set(key, { keys, rows: [] })
+      groups.get(key)!.rows.push(row)
+    })
+
+    // Pure aggregations over zero rows still produce one row (e.g. count(*) = 0)
+    if (groups.size === 0 && items.every(item => containsAggregate(item.expression))) {
+      groups.set('', { keys: [], rows: [] })
+    }
+
+    projected = [...groups.values()].map(group => {
+      const vars: Record<string, unknown> = {}
+      items.forEach((item, i) => {
+        vars[names[i]] = containsAggregate(item.expression)
+          ? evaluate(item.expression, { vars: group.rows[0]?.vars ?? {}, group: group.rows }, ctx)
+          : group.keys[i]
+      })
+      return {
+        row: {
+          vars,
+          nodeIds: group.rows.flatMap(row => row.nodeIds),
+          relationshipIds: group.rows.flatMap(row => row.relationshipIds)
+        },
+        source: {}
+      }
+    })
+  } else {
+    projected = rows.map(row => ({
+      row: {
+        ...row,
+        vars: Object.fromEntries(items.map((item, i) => [
+          names[i],
+          evaluate(item.expression, { vars: row.vars }, ctx)
+        ]))
+      },
+      source: row.vars
+    }))
+  }
+
+  if (projection.distinct) {
+    const seen = new Map<string, { row: Row; source: Record<string, unknown> }>()
+    projected.forEach(entry => {
+      const key = valueKey(names.map(name => entry.row.vars[name]))
+      const existing = seen.get(key)
+      if (existing) {
+        existing.row.nodeIds.push(...entry.row.nodeIds)
+        existing.row.relationshipIds.push(...entry.row.relationshipIds)
+      } else {
+        seen.set(key, { ...entry, row: { ...entry.row, nodeIds: [...entry.row.nodeIds], relationshipIds: [...entry.row.relationshipIds] } })
+      }
+    })
+    projected = [...seen.values()]
+  }
+
+  if (projection.orderBy) {
+    const sortItems = projection.orderBy
+    const keyed = projected.map(entry => {
+      const scope = { vars: { ...entry.source, ...entry.row.vars } }
+      return { entry, keys: sortItems.map(item => evaluate(item.expression, scope, ctx)) }
+    })
+    keyed.sort((a, b) => {
+      for (let i = 0; i < sortItems.length; i++) {
+        const order = compareForSort(a.keys[i], b.keys[i])
+        if (order !== 0) return sortItems[i].descending ? -order : order
+      }
+      return 0
+    })
+    projected = keyed.map(k => k.entry)
+  }
+
+  let result = projected.map(entry => entry.row)
+  if (projection.skip) result = result.slice(evaluateCount(projection.skip, 'SKIP', ctx))
+  if (projection.limit) result = result.slice(0, evaluateCount(projection.limit, 'LIMIT', ctx))
+  return result
+}
+
+function evaluateCount(expression: Expression, clause: string, ctx: Context): number {
+  const value = evaluate(expression, { vars: {} }, ctx)
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 0) {
+    throw new Error(`${clause} expects a non-negative integer`)
+  }
+  return value
+}
+
+function containsAggregate(expression: Expression): boolean {
+  switch (expression.kind) {
+    case 'countStar':
+      return true
+    case 'function':
+      return AGGREGATE_FUNCTIONS.has(expression.name.toLowerCase()) || expression.args.some(containsAggregate)
+    case 'property':
+      return containsAggregate(expression.object)
+    case 'index':
+      return containsAggregate(expression.object) || containsAggregate(expression.index)
+    case 'list':
+      return expression.items.some(containsAggregate)
+    case 'map':
+      return expression.entries.some(entry => containsAggregate(entry.value))
+    case 'unary':
+    case 'isNull':
+      return containsAggregate(expression.operand)
+    case 'binary':
+      return containsAggregate(expression.left) || containsAggregate(expression.right)
+    case 'case':
+      return [expression.subject, expression.otherwise, ...expression.branches.flatMap(b => [b.when, b.then])]
+        .some(e => e !== undefined && containsAggregate(e))
+    default:
+      return false
+  }
+}
+
+// ---- Expressions ----
+
+function evaluate(expression: Expression, scope: Scope, ctx: Context): unknown {
+  switch (expression.kind) {
+    case 'literal':
+      return expression.value
+
+    case 'parameter':
+      if (!(expression.name in ctx.params)) throw new Error(`Expected parameter: $${expression.name}`)
+      return ctx.params[expression.name]
+
+    case 'variable':
+      if (!(expression.name in scope.vars)) throw new Error(`Variable \`${expression.name}\` not defined`)
+      return scope.vars[expression.name]
+
+    case 'property': {
+      const object = evaluate(expression.object, scope, ctx)
+      return propertyOf(object, expression.key, ctx)
+    }
+
+    case 'index': {
+      const object = evaluate(expression.object, scope, ctx)
+      const index = evaluate(expression.index, scope, ctx)
+      if (object === null || index === null) return null
+      if (Array.isArray(object) && typeof index === 'number') {
+        return object[index < 0 ? object.length + index : index] ?? null
+      }
+      if (typeof index === 'string') return propertyOf(object, index, ctx)
+      return null
+    }
+
+    case 'list':
+      return expression.items.map(item => evaluate(item, scope, ctx))
+
+    case 'map':
+      return Object.fromEntries(expression.entries.map(entry => [entry.key, evaluate(entry.value, scope, ctx)]))
+
+    case 'unary': {
+      const operand = evaluate(expression.operand, scope, ctx)
+      if (expression.operator === 'NOT') return operand === null ? null : !toBoolean(operand)
+      if (operand === null) return null
+      if (typeof operand !== 'number') throw new Error(`Cannot apply unary ${expression.operator} to ${describeValue(operand)}`)
+      return expression.operator === '-' ? -operand : operand
+    }
+
+    case 'isNull': {
+      const isNull = evaluate(expression.operand, scope, ctx) === null
+      return expression.negated ? !isNull : isNull
+    }
+
+    case 'binary':
+      return evaluateBinary(expression, scope, ctx)
+
+    case 'case': {
+      const subject = expression.subject ? evaluate(expression.subject, scope, ctx) : undefined
+      for (const branch of expression.branches) {
+        const when = evaluate(branch.when, scope, ctx)
+        const hit = expression.subject ? equals(subject, when) === true : when === true
+        if (hit) return evaluate(branch.then, scope, ctx)
+      }
+      return expression.otherwise ? evaluate(expression.otherwise, scope, ctx) : null
+    }
+
+    case 'countStar':
+      if (!scope.group) throw new Error('count(*) is only allowed in WITH or RETURN')
+      return scope.group.length
+
+    case 'function':
+      return evaluateFunction(expression, scope, ctx)
+  }
+}
+
+function evaluateBinary(
+  expression: Extract<Expression, { kind: 'binary' }>,
+  scope: Scope,
+  ctx: Context
+): unknown {
+  const { operator } = expression
+
+  // Three-valued boolean logic
+  if (operator === 'AND' || operator === 'OR' || operator === 'XOR') {
+    const left = evaluate(expression.left, scope, ctx)
+    const right = evaluate(expression.right, scope, ctx)
+    const l = left === null ? null : toBoolean(left)
+    const r = right === null ? null : toBoolean(right)
+    if (operator === 'AND') {
+      if (l === false || r === false) return false
+      return l === null || r === null ? null : true
+    }
+    if (operator === 'OR') {
+      if (l === true || r === true) return true
+      return l === null || r === null ? null : false
+    }
+    return l === null || r === null ? null : l !== r
+  }
+
+  const left = evaluate(expression.left, scope, ctx)
+  const right = evaluate(expression.right, scope, ctx)
+
+  switch (operator) {
+    case '=':
+      return equals(left, right)
+    case '<>': {
+      const eq = equals(left, right)
+      return eq === null ? null : !eq
+    }
+    case '<':
+    case '>':
+    case '<=':
+    case '>=': {
+      const order = compareValues(left, right)
+      if (order === null) return null
+      if (operator === '<') return order < 0
+      if (operator === '>') return order > 0
+      if (operator === '<=') return order <= 0
+      return order >= 0
+    }
+    case 'IN': {
+      if (right === null) return null
+      if (!Array.isArray(right)) throw new Error('IN expects a list on the right-hand side')
+      if (right.some(item => equals(left, item) === true)) return true
+      return left === null || right.some(item => item === null) ? null : false
+    }
+    case 'CONTAINS':
+    case 'STARTS WITH':
+    case 'ENDS WITH': {
+      if (typeof left !== 'string' || typeof right !== 'string') return null
+      if (operator === 'CONTAINS') return left.includes(right)
+      if (operator === 'STARTS WITH') return left.startsWith(right)
+      return left.endsWith(right)
+    }
+    case '=~':
+      if (typeof left !== 'string' || typeof right !== 'string') return null
+      return new RegExp(`^(?:${right})$`).test(left)
+    default:
+      return evaluateArithmetic(operator, left, right)
+  }
+}
+
+function evaluateArithmetic(operator: string, left: unknown, right: unknown): unknown {
+  if (left === null || right === null) return null
+
+  if (operator === '+') {
+    if (Array.isArray(left)) return left.concat(right)
+    if (Array.isArray(right)) return [left, ...right]
+    if (typeof left === 'string' || typeof right === 'string') {
+      return `${stringify(left)}${stringify(right)}`
+    }
+  }
+
+  if (typeof left !== 'number' || typeof right !== 'number') {
+    throw new Error(`Cannot apply ${operator} to ${describeValue(left)} and ${describeValue(right)}`)
+  }
+
+  switch (operator) {
+    case '+': return left + right
+    case '-': return left - right
+    case '*': return left * right
+    case '/':
+      if (Number.isInteger(left) && Number.isInteger(right)) {
+        if (right === 0) throw new Error('Division by zero')
+        return Math.trunc(left / right)
+      }
+      return left / right
+    case '%': return left % right
+    case '^': return Math.pow(left, right)
+    default:
+      throw new Error(`Unsupported operator ${operator}`)
+  }
+}
+
+function evaluateFunction(
+  expression: Extract<Expression, { kind: 'function' }>,
+  scope: Scope,
+  ctx: Context
+): unknown {
+  const name = expression.name.toLowerCase()
+
+  if (AGGREGATE_FUNCTIONS.has(name)) {
+    if (!scope.group) throw new Error(`${expression.name}() is only allowed in WITH or RETURN`)
+    let values = scope.group
+      .map(row => evaluate(expression.args[0], { vars: row.vars }, ctx))
+      .filter(value => value !== null && value !== undefined)
+    if (expression.distinct) {
+      const seen = new Set<string>()
+      values = values.filter(value => {
+        const key = valueKey(value)
+        if (seen.has(key)) return false
+        seen.add(key)
+        return true
+      })
+    }
+    return aggregate(name, values)
+  }
+
+  const args = expression.args.map(arg => evaluate(arg, scope, ctx))
+  const [first, second, third] = args
+  const nullIfNull = (fn: () => unknown) => (first === null ? null : fn())
+
+  switch (name) {
+    case 'id':
+    case 'elementid':
+      return nullIfNull(() => (first as GraphNode | GraphRelationship).id)
+    case 'labels':
+      return nullIfNull(() => nodeLabels(asNode(first, name, ctx)))
+    case 'type':
+      return nullIfNull(() => asRelationship(first, name, ctx).type)
+    case 'properties':
+      return nullIfNull(() => elementProperties(first, ctx))
+    case 'keys':
+      return nullIfNull(() => Object.keys(elementProperties(first, ctx)))
+    case 'startnode':
+      return nullIfNull(() => ctx.nodeById.get(endpointId(asRelationship(first, name, ctx).source)) ?? null)
+    case 'endnode':
+      return nullIfNull(() => ctx.nodeById.get(endpointId(asRelationship(first, name, ctx).target)) ?? null)
+    case 'nodes':
+      return nullIfNull(() => asPath(first, name, ctx).nodes)
+    case 'relationships':
+    case 'rels':
+      return nullIfNull(() => asPath(first, name, ctx).relationships)
+    case 'length':
+      return nullIfNull(() => (ctx.paths.has(first as object) ? (first as GraphPath).relationships.length : sizeOf(first)))
+    case 'size':
+      return nullIfNull(() => sizeOf(first))
+    case 'head':
+      return nullIfNull(() => (first as unknown[])[0] ?? null)
+    case 'last':
+      return nullIfNull(() => (first as unknown[])[(first as unknown[]).length - 1] ?? null)
+    case 'tail':
+      return nullIfNull(() => (first as unknown[]).slice(1))
+    case 'reverse':
+      return nullIfNull(() => (typeof first === 'string' ? [...first].reverse().join('') : [...(first as unknown[])].reverse()))
+    case 'range': {
+      const step = (third as number | undefined) ?? 1
+      const values: number[] = []
+      for (let i = first as number; step > 0 ? i <= (second as number) : i >= (second as number); i += step) values.push(i)
+      return values
+    }
+    case 'coalesce':
+      return args.find(arg => arg !== null) ?? null
+    case 'exists':
+      return first !== null && first !== undefined
+    case 'tolower':
+    case 'lower':
+      return nullIfNull(() => String(first).toLowerCase())
+    case 'toupper':
+    case 'upper':
+      return nullIfNull(() => String(first).toUpperCase())
+    case 'trim':
+      return nullIfNull(() => String(first).trim())
+    case 'tostring':
+      return nullIfNull(() => stringify(first))
+    case 'tointeger': {
+      if (first === null) return null
+      const parsed = typeof first === 'number' ? first : parseFloat(String(first))
+      return Number.isNaN(parsed) ? null : Math.trunc(parsed)
+    }
+    case 'tofloat': {
+      if (first === null) return null
+      const parsed = typeof first === 'number' ? first : parseFloat(String(first))
+      return Number.isNaN(parsed) ? null : parsed
+    }
+    case 'toboolean':
+      if (typeof first === 'boolean') return first
+      if (first === 'true') return true
+      if (first === 'false') return false
+      return null
+    case 'replace':
+      return nullIfNull(() => String(first).split(String(second)).join(String(third)))
+    case 'split':
+      return nullIfNull(() => String(first).split(String(second)))
+    case 'substring':
+      return nullIfNull(() => String(first).substr(second as number, third as number | undefined))
+    case 'left':
+      return nullIfNull(() => String(first).slice(0, second as number))
+    case 'right':
+      return nullIfNull(() => String(first).slice(-(second as number)))
+    case 'abs':
+      return nullIfNull(() => Math.abs(first as number))
+    case 'round':
+      return nullIfNull(() => Math.round(first as number))
+    case 'ceil':
+      return nullIfNull(() => Math.ceil(first as number))
+    case 'floor':
+      return nullIfNull(() => Math.floor(first as number))
+    case 'sqrt':
+      return nullIfNull(() => Math.sqrt(first as number))
+    default:
+      throw new Error(`Unknown function '${expression.name}'`)
+  }
+}
+
+function aggregate(name: string, values: unknown[]): unknown {
+  switch (name) {
+    case 'count':
+      return values.length
+    case 'collect':
+      return values
+    case 'sum':
+      return values.reduce<number>((total, value) => total + (value as number), 0)
+    case 'avg':
+      return values.length === 0
+        ? null
+        : values.reduce<number>((total, value) => total + (value as number), 0) / values.length
+    case 'min':
+    case 'max': {
+      if (values.length === 0) return null
+      return values.reduce((best, value) => {
+        const order = compareForSort(value, best)
+        return (name === 'min' ? order < 0 : order > 0) ? value : best
+      })
+    }
+    default:
+      return null
+  }
+}
+
+// ---- Values ----
+
+function propertyOf(value: unknown, key: string, ctx: Context): unknown {
+  if (value === null || value === undefined) return null
+  if (ctx.nodeSet.has(value)) {
+    const node = value as GraphNode
+    if (key === 'id') return node.id
+    if (key === 'label') return node.label
+    return node.properties[key] ?? null
+  }
+  if (ctx.relationshipSet.has(value)) {
+    const rel = value as GraphRelationship
+    if (rel.properties && key in rel.properties) return rel.properties[key]
+    return key === 'id' ? rel.id : null
+  }
+  if (typeof value === 'object' && !Array.isArray(value)) {
+    return (value as Record<string, unknown>)[key] ?? null
+  }
+  throw new Error(`Cannot read property '${key}' of ${describeValue(value)}`)
+}
+
+function elementProperties(value: unknown, ctx: Context): Record<string, unknown> {
+  if (ctx.nodeSet.has(value)) {
+    const node = value as GraphNode
+    return { id: node.id, label: node.label, ...node.properties }
+  }
+  if (ctx.relationshipSet.has(value)) return { ...(value as GraphRelationship).properties }
+  if (value && typeof value === 'object' && !Array.isArray(value)) return value as Record<string, unknown>
+  throw new Error(`Expected a node, relationship or map but got ${describeValue(value)}`)
+}
+
+function asNode(value: unknown, fn: string, ctx: Context): GraphNode {
+  if (!ctx.nodeSet.has(value)) throw new Error(`${fn}() expects a node`)
+  return value as GraphNode
+}
+
+function asRelationship(value: unknown, fn: string, ctx: Context): GraphRelationship {
+  if (!ctx.relationshipSet.has(value)) throw new Error(`${fn}() expects a relationship`)
+  return value as GraphRelationship
+}
+
+function asPath(value: unknown, fn: string, ctx: Context): GraphPath {
+  if (typeof value !== 'object' || value === null || !ctx.paths.has(value)) throw new Error(`${fn}() expects a path`)
+  return value as GraphPath
+}
+
+function sizeOf(value: unknown): number {
+  if (typeof value === 'string' || Array.isArray(value)) return value.length
+  throw new Error(`size() expects a string or list but got ${describeValue(value)}`)
+}
+
+function toBoolean(value: unknown): boolean {
+  if (typeof value !== 'boolean') throw new Error(`Expected a boolean but got ${describeValue(value)}`)
+  return value
+}
+
+function equals(left: unknown, right: unknown): boolean | null {
+  if (left === null || right === null || left === undefined || right === undefined) return null
+  if (Array.isArray(left) && Array.isArray(right)) {
+    if (left.length !== right.length) return false
+    let result: boolean | null = true
+    for (let i = 0; i < left.length; i++) {
+      const eq = equals(left[i], right[i])
+      if (eq === false) return false
+      if (eq === null) result = null
+    }
+    return result
+  }
+  if (typeof left === 'object' && typeof right === 'object') {
+    return left === right || valueKey(left) === valueKey(right)
+  }
+  return left === right
+}
+
+/**
+ * Orders two comparable values, or null when they cannot be compared
+ */
+function compareValues(left: unknown, right: unknown): number | null {
+  if (left === null || right === null) return null
+  if (typeof left === 'number' && typeof right === 'number') return left - right
+  if (typeof left === 'string' && typeof right === 'string') return left < right ? -1 : left > right ? 1 : 0
+  if (typeof left === 'boolean' && typeof right === 'boolean') return Number(left) - Number(right)
+  return null
+}
+
+/**
+ * Total order used by ORDER BY, min and max: nulls sort last, mixed types by kind
+ */
+function compareForSort(left: unknown, right: unknown): number {
+  const leftNull = left === null || left === undefined
+  const rightNull = right === null || right === undefined
+  if (leftNull || rightNull) return leftNull === rightNull ? 0 : leftNull ? 1 : -1
+
+  const order = compareValues(left, right)
+  if (order !== null) return order
+
+  const rank = (value: unknown) => ['object', 'string', 'boolean', 'number'].indexOf(typeof value)
+  return rank(left) - rank(right) || valueKey(left).localeCompare(valueKey(right))
+}
+
+/**
+ * Stable identity key for grouping and DISTINCT
+ * Graph elements are keyed by id so copies of the same node compare equal
+ */
+function valueKey(value: unknown): string {
+  if (value === null || value === undefined) return 'null'
+  if (Array.isArray(value)) return `[${value.map(valueKey).join(',')}]`
+  if (typeof value === 'object') {
+    const record = value as Record<string, unknown>
+    if ('id' in record && 'label' in record && 'properties' in record) return `node:${record.id}`
+    if ('id' in record && 'source' in record && 'target' in record) return `rel:${record.id}`
+    if ('nodes' in record && 'relationships' in record) {
+      return `path:${valueKey(record.nodes)}:${valueKey(record.relationships)}`
+    }
+    return `{${Object.keys(record).sort().map(key => `${key}:${valueKey(record[key])}`).join(',')}}`
+  }
+  return `${typeof value}:${String(value)}`
+}
+
+function stringify(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value)
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'a list'
+  return typeof value === 'object' ? 'a map' : `${typeof value} ${JSON.stringify(value)}`
+}
+
+// ---- Result collection ----
+
+function collectResult(columns: string[], rows: Row[], ctx: Context): CypherResult {
+  const nodeIds = new Set<string>()
+  const relationshipIds = new Set<string>()
+
+  const visit = (value: unknown): void => {
+    if (value === null || typeof value !== 'object') return
+    if (ctx.nodeSet.has(value)) {
+      nodeIds.add((value as GraphNode).id)
+    } else if (ctx.relationshipSet.has(value)) {
+      const rel = value as GraphRelationship
+      relationshipIds.add(rel.id)
+      nodeIds.add(endpointId(rel.source))
+      nodeIds.add(endpointId(rel.target))
+    } else if (ctx.paths.has(value)) {
+      const path = value as GraphPath
+      path.nodes.forEach(visit)
+      path.relationships.forEach(visit)
+    } else if (Array.isArray(value)) {
+      value.forEach(visit)
+    } else {
+      Object.values(value).forEach(visit)
+    }
+  }
+
+  rows.forEach(row => {
+    row.nodeIds.forEach(id => nodeIds.add(id))
+    row.relationshipIds.forEach(id => relationshipIds.add(id))
+    Object.values(row.vars).forEach(visit)
+  })
+
+  return {
+    columns,
+    rows: rows.map(row => Object.fromEntries(columns.map(column => [column, row.vars[column] ?? null]))),
+    nodes: [...nodeIds].map(id => ctx.nodeById.get(id)).filter((n): n is GraphNode => Boolean(n)),
+    relationships: [...relationshipIds]
+      .map(id => ctx.relationshipById.get(id))
+      .filter((r): r is GraphRelationship => Boolean(r))
+  }
+}
@@ -0,0 +1,17 @@
+export type * from './ast'
+export { tokenize, splitStatements, CypherSyntaxError, KEYWORDS, type Token, type TokenType } from './lexer'
+export { parseCypher } from './parser'
+export { executeCypher } from './evaluator'
+export { walkExpression, clauseExpressions, queryPatterns } from './walk'
+export {
+  createCypherBuilder,
+  cypherLiteral,
+  cypherName,
+  cypherParamLines,
+  idPredicate,
+  RELATIONSHIP_ID_PREFIX,
+  storableProperties,
+  storableValue,
+  toCypherScriptText,
+  type CypherBuilder
+} from './builder'
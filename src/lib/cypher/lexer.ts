@@ -0,0 +1,222 @@
+/**
+ * Cypher tokenizer
+ *
+ * Produces every token including whitespace and comments, so the same
+ * stream can drive both the parser and syntax highlighting
+ */
+
+export type TokenType =
+  | 'keyword'
+  | 'identifier'
+  | 'string'
+  | 'number'
+  | 'parameter'
+  | 'operator'
+  | 'punctuation'
+  | 'whitespace'
+  | 'comment'
+
+export interface Token {
+  type: TokenType
+  /** Source text of the token */
+  text: string
+  /** Decoded value: unquoted string, unescaped identifier, upper-cased keyword */
+  value: string
+  start: number
+  end: number
+}
+
+/**
+ * Error raised for malformed queries, carrying the offending source offset
+ */
+export class CypherSyntaxError extends Error {
+  readonly position: number
+
+  constructor(message: string, position: number) {
+    super(message)
+    this.name = 'CypherSyntaxError'
+    this.position = position
+  }
+}
+
+export const KEYWORDS = new Set([
+  'MATCH', 'OPTIONAL', 'WHERE', 'RETURN', 'WITH', 'AS', 'ORDER', 'BY',
+  'ASC', 'ASCENDING', 'DESC', 'DESCENDING', 'SKIP', 'LIMIT', 'DISTINCT',
+  'AND', 'OR', 'XOR', 'NOT', 'IN', 'IS', 'NULL', 'TRUE', 'FALSE',
+  'CONTAINS', 'STARTS', 'ENDS', 'CREATE', 'MERGE', 'SET', 'DELETE',
+  'DETACH', 'REMOVE', 'UNWIND', 'CASE', 'WHEN', 'THEN', 'ELSE', 'END',
+  'CALL', 'YIELD', 'UNION', 'ALL', 'ON'
+])
+
+// Longest operators first so '<=' wins over '<'
+const OPERATORS = ['=~', '<>', '<=', '>=', '..', '+=', '=', '<', '>', '+', '-', '*', '/', '%', '^', '.', '|']
+const PUNCTUATION = new Set(['(', ')', '[', ']', '{', '}', ',', ':', ';'])
+
+const ESCAPES: Record<string, string> = {
+  n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '\\': '\\', "'": "'", '"': '"'
+}
+
+const isIdentifierStart = (ch: string) => /[A-Za-z_]/.test(ch)
+const isIdentifierPart = (ch: string) => /[A-Za-z0-9_]/.test(ch)
+const isDigit = (ch: string) => ch >= '0' && ch <= '9'
+
+/**
+ * Splits a query into tokens
+ * Throws CypherSyntaxError on unterminated strings or unknown characters
+ */
+export function tokenize(query: string): Token[] {
+  const tokens: Token[] = []
+  let pos = 0
+
+  const push = (type: TokenType, start: number, value?: string) => {
+    const text = query.slice(start, pos)
+    tokens.push({ type, text, value: value ?? text, start, end: pos })
+  }
+
+  while (pos < query.length) {
+    const start = pos
+    const ch = query[pos]
+
+    if (/\s/.test(ch)) {
+      while (pos < query.length && /\s/.test(query[pos])) pos++
+      push('whitespace', start)
+      continue
+    }
+
+    if (query.startsWith('//', pos)) {
+      while (pos < query.length && query[pos] !== '\n') pos++
+      push('comment', start)
+      continue
+    }
+
+    if (query.startsWith('/*', pos)) {
+      const close = query.indexOf('*/', pos + 2)
+      if (close === -1) throw new CypherSyntaxError('Unterminated comment', start)
+      pos = close + 2
+      push('comment', start)
+      continue
+    }
+
+    if (ch === "'" || ch === '"') {
+      let value = ''
+      pos++
+      while (pos < query.length && query[pos] !== ch) {
+        if (query[pos] === '\\' && pos + 1 < query.length) {
+          const next = query[pos + 1]
+          if (next === 'u' && /^[0-9a-fA-F]{4}$/.test(query.slice(pos + 2, pos + 6))) {
+            value += String.fromCharCode(parseInt(query.slice(pos + 2, pos + 6), 16))
+            pos += 6
+          } else {
+            value += ESCAPES[next] ?? next
+            pos += 2
+          }
+        } else {
+          value += query[pos++]
+        }
+      }
+      if (pos >= query.length) throw new CypherSyntaxError('Unterminated string literal', start)
+      pos++
+      push('string', start, value)
+      continue
+    }
+
+    if (ch === '`') {
+      let value = ''
+      pos++
+      while (pos < query.length) {
+        if (query[pos] === '`') {
+          // Doubled backticks escape a literal backtick
+          if (query[pos + 1] === '`') {
+            value += '`'
+            pos += 2
+            continue
+          }
+          break
+        }
+        value += query[pos++]
+      }
+      if (pos >= query.length) throw new CypherSyntaxError('Unterminated escaped identifier', start)
+      pos++
+      push('identifier', start, value)
+      continue
+    }
+
+    if (isDigit(ch)) {
+      while (pos < query.length && isDigit(query[pos])) pos++
+      // A single dot followed by a digit is a decimal point; '..' is a range
+      if (query[pos] === '.' && isDigit(query[pos + 1] ?? '')) {
+        pos++
+        while (pos < query.length && isDigit(query[pos])) pos++
+      }
+      if (/[eE]/.test(query[pos] ?? '') && /[-+0-9]/.test(query[pos + 1] ?? '')) {
+        pos += 2
+        while (pos < query.length && isDigit(query[pos])) pos++
+      }
+      push('number', start)
+      continue
+    }
+
+    if (ch === '$') {
+      pos++
+      while (pos < query.length && isIdentifierPart(query[pos])) pos++
+      if (pos === start + 1) throw new CypherSyntaxError('Expected parameter name after $', start)
+      push('parameter', start, query.slice(start + 1, pos))
+      continue
+    }
+
+    if (isIdentifierStart(ch)) {
+      while (pos < query.length && isIdentifierPart(query[pos])) pos++
+      const word = query.slice(start, pos)
+      const upper = word.toUpperCase()
+      if (KEYWORDS.has(upper)) {
+        push('keyword', start, upper)
+      } else {
+        push('identifier', start, word)
+      }
+      continue
+    }
+
+    if (PUNCTUATION.has(ch)) {
+      pos++
+      push('punctuation', start)
+      continue
+    }
+
+    const operator = OPERATORS.find(op => query.startsWith(op, pos))
+    if (operator) {
+      pos += operator.length
+      push('operator', start)
+      continue
+    }
+
+    throw new CypherSyntaxError(`Unexpected character '${ch}'`, start)
+  }
+
+  return tokens
+}
+
+/**
+ * Splits a script into statements on semicolons outside strings and comments
+ * Empty statements are dropped; `start` is the offset of each statement in the script
+ */
+export function splitStatements(script: string): { text: string; start: number }[] {
+  const statements: { text: string; start: number }[] = []
+  let start = 0
+
+  const flush = (end: number) => {
+    const text = script.slice(start, end)
+    if (tokenize(text).some(t => t.type !== 'whitespace' && t.type !== 'comment')) {
+      statements.push({ text: text.trim(), start: start + (text.length - text.trimStart().length) })
+    }
+  }
+
+  tokenize(script).forEach(token => {
+    if (token.type === 'punctuation' && token.text === ';') {
+      flush(token.start)
+      start = token.end
+    }
+  })
+  flush(script.length)
+
+  return statements
+}
@@ -0,0 +1,569 @@
+import type {
+  BinaryOperator,
+  Clause,
+  Expression,
+  NodePattern,
+  PathPattern,
+  Projection,
+  ProjectionItem,
+  Query,
+  RelationshipPattern,
+  RemoveItem,
+  SetItem,
+  SortItem
+} from './ast'
+import { CypherSyntaxError, tokenize, type Token } from './lexer'
+
+const COMPARISON_OPERATORS = ['=', '<>', '<', '>', '<=', '>=', '=~']
+
+/**
+ * Recursive-descent parser for the supported Cypher subset:
+ * MATCH / OPTIONAL MATCH, WHERE, UNWIND, WITH, RETURN, ORDER BY, SKIP and LIMIT,
+ * plus CREATE, MERGE (with ON CREATE / ON MATCH), SET, REMOVE and
+ * (DETACH) DELETE for writes
+ */
+export function parseCypher(source: string): Query {
+  const tokens = tokenize(source).filter(t => t.type !== 'whitespace' && t.type !== 'comment')
+  let pos = 0
+
+  // ---- Token helpers ----
+
+  const peek = (offset = 0): Token | undefined => tokens[pos + offset]
+  const atEnd = () => pos >= tokens.length
+  const lastEnd = () => (pos > 0 ? tokens[pos - 1].end : 0)
+
+  const describe = (token?: Token) => (token ? `'${token.text}'` : 'end of query')
+
+  const fail = (message: string, token: Token | undefined = peek()): never => {
+    throw new CypherSyntaxError(message, token ? token.start : source.length)
+  }
+
+  const isKeyword = (keyword: string, offset = 0) => {
+    const token = peek(offset)
+    return token?.type === 'keyword' && token.value === keyword
+  }
+
+  const acceptKeyword = (keyword: string) => {
+    if (!isKeyword(keyword)) return false
+    pos++
+    return true
+  }
+
+  const expectKeyword = (keyword: string) => {
+    if (!acceptKeyword(keyword)) fail(`Expected ${keyword} but found ${describe(peek())}`)
+  }
+
+  const isSymbol = (symbol: string, offset = 0) => {
+    const token = peek(offset)
+    return (token?.type === 'operator' || token?.type === 'punctuation') && token.text === symbol
+  }
+
+  const acceptSymbol = (symbol: string) => {
+    if (!isSymbol(symbol)) return false
+    pos++
+    return true
+  }
+
+  const expectSymbol = (symbol: string) => {
+    if (!acceptSymbol(symbol)) fail(`Expected '${symbol}' but found ${describe(peek())}`)
+  }
+
+  // Labels, property keys and map keys may reuse keywords (e.g. n.end)
+  const expectName = (what: string): string => {
+    const token = peek()
+    if (token?.type === 'identifier') {
+      pos++
+      return token.value
+    }
+    if (token?.type === 'keyword') {
+      pos++
+      return token.text
+    }
+    return fail(`Expected ${what} but found ${describe(token)}`)
+  }
+
+  const isVariable = (offset = 0) => peek(offset)?.type === 'identifier'
+
+  const expectVariable = (): string => {
+    const token = peek()
+    if (token?.type !== 'identifier') return fail(`Expected a variable but found ${describe(token)}`)
+    pos++
+    return token.value
+  }
+
+  // ---- Clauses ----
+
+  function parseQuery(): Query {
+    const clauses: Clause[] = []
+
+    while (!atEnd()) {
+      if (acceptSymbol(';')) {
+        if (!atEnd()) fail('Only a single statement is supported')
+        break
+      }
+      clauses.push(parseClause())
+    }
+
+    if (clauses.length === 0) fail('Empty query')
+    return { clauses }
+  }
+
+  function parseClause(): Clause {
+    if (isKeyword('OPTIONAL')) {
+      pos++
+      expectKeyword('MATCH')
+      return parseMatch(true)
+    }
+    if (acceptKeyword('MATCH')) return parseMatch(false)
+    if (acceptKeyword('UNWIND')) {
+      const expression = parseExpression()
+      expectKeyword('AS')
+      return { kind: 'unwind', expression, variable: expectVariable() }
+    }
+    if (acceptKeyword('WITH')) {
+      const projection = parseProjection()
+      const where = acceptKeyword('WHERE') ? parseExpression() : undefined
+      return { kind: 'with', projection, where }
+    }
+    if (acceptKeyword('RETURN')) {
+      const projection = parseProjection()
+      if (isKeyword('UNION')) fail('UNION is not supported')
+      if (!atEnd() && !isSymbol(';')) fail(`Unexpected ${describe(peek())} after RETURN`)
+      return { kind: 'return', projection }
+    }
+    if (acceptKeyword('CREATE')) {
+      const patterns = [parsePathPattern()]
+      while (acceptSymbol(',')) patterns.push(parsePathPattern())
+      return { kind: 'create', patterns }
+    }
+    if (acceptKeyword('MERGE')) return parseMerge()
+    if (acceptKeyword('SET')) return { kind: 'set', items: parseSetItems() }
+    if (acceptKeyword('REMOVE')) {
+      const items = [parseRemoveItem()]
+      while (acceptSymbol(',')) items.push(parseRemoveItem())
+      return { kind: 'remove', items }
+    }
+    const detach = acceptKeyword('DETACH')
+    if (acceptKeyword('DELETE')) {
+      const expressions = [parseExpression()]
+      while (acceptSymbol(',')) expressions.push(parseExpression())
+      return { kind: 'delete', detach, expressions }
+    }
+    if (detach) fail(`Expected DELETE after DETACH but found ${describe(peek())}`)
+    return fail(`Expected MATCH, UNWIND, WITH, CREATE, MERGE, SET, REMOVE, DELETE or RETURN but found ${describe(peek())}`)
+  }
+
+  function parseMerge(): Clause {
+    const pattern = parsePathPattern()
+    const onCreate: SetItem[] = []
+    const onMatch: SetItem[] = []
+    while (acceptKeyword('ON')) {
+      const target = acceptKeyword('CREATE') ? onCreate : onMatch
+      if (target === onMatch) expectKeyword('MATCH')
+      expectKeyword('SET')
+      target.push(...parseSetItems())
+    }
+    return { kind: 'merge', pattern, onCreate, onMatch }
+  }
+
+  function parseSetItems(): SetItem[] {
+    const items = [parseSetItem()]
+    while (acceptSymbol(',')) items.push(parseSetItem())
+    return items
+  }
+
+  function parseSetItem(): SetItem {
+    const variable = expectVariable()
+    if (acceptSymbol('.')) {
+      const key = expectName('property key')
+      expectSymbol('=')
+      return { kind: 'property', variable, key, value: parseExpression() }
+    }
+    if (isSymbol(':')) {
+      const labels: string[] = []
+      while (acceptSymbol(':')) labels.push(expectName('label'))
+      return { kind: 'labels', variable, labels }
+    }
+    if (acceptSymbol('+=')) return { kind: 'properties', variable, value: parseExpression(), merge: true }
+    if (acceptSymbol('=')) return { kind: 'properties', variable, value: parseExpression(), merge: false }
+    return fail(`Expected '.', ':', '=' or '+=' after ${variable} but found ${describe(peek())}`)
+  }
+
+  function parseRemoveItem(): RemoveItem {
+    const variable = expectVariable()
+    if (acceptSymbol('.')) return { kind: 'property', variable, key: expectName('property key') }
+    if (!isSymbol(':')) fail(`Expected '.' or ':' after ${variable} but found ${describe(peek())}`)
+    const labels: string[] = []
+    while (acceptSymbol(':')) labels.push(expectName('label'))
+    return { kind: 'labels', variable, labels }
+  }
+
+  function parseMatch(optional: boolean): Clause {
+    const patterns = [parsePathPattern()]
+    while (acceptSymbol(',')) patterns.push(parsePathPattern())
+    const where = acceptKeyword('WHERE') ? parseExpression() : undefined
+    return { kind: 'match', optional, patterns, where }
+  }
+
+  function parseProjection(): Projection {
+    const projection: Projection = {
+      distinct: acceptKeyword('DISTINCT'),
+      star: false,
+      items: []
+    }
+
+    if (acceptSymbol('*')) {
+      projection.star = true
+      if (acceptSymbol(',')) projection.items = parseProjectionItems()
+    } else {
+      projection.items = parseProjectionItems()
+    }
+
+    if (acceptKeyword('ORDER')) {
+      expectKeyword('BY')
+      projection.orderBy = [parseSortItem()]
+      while (acceptSymbol(',')) projection.orderBy.push(parseSortItem())
+    }
+    if (acceptKeyword('SKIP')) projection.skip = parseExpression()
+    if (acceptKeyword('LIMIT')) projection.limit = parseExpression()
+
+    return projection
+  }
+
+  function parseProjectionItems(): ProjectionItem[] {
+    const items = [parseProjectionItem()]
+    while (acceptSymbol(',')) items.push(parseProjectionItem())
+    return items
+  }
+
+  function parseProjectionItem(): ProjectionItem {
+    const start = peek()?.start ?? source.length
+    const expression = parseExpression()
+    const text = source.slice(start, lastEnd())
+    const alias = acceptKeyword('AS') ? expectName('alias') : undefined
+    return { expression, alias, text }
+  }
+
+  function parseSortItem(): SortItem {
+    const expression = parseExpression()
+    let descending = false
+    if (acceptKeyword('DESC') || acceptKeyword('DESCENDING')) {
+      descending = true
+    } else if (!acceptKeyword('ASC')) {
+      acceptKeyword('ASCENDING')
+    }
+    return { expression, descending }
+  }
+
+  // ---- Patterns ----
+
+  function parsePathPattern(): PathPattern {
+    const start = peek()?.start ?? source.length
+    let variable: string | undefined
+    if (isVariable() && isSymbol('=', 1)) {
+      variable = peek()!.value
+      pos += 2
+    }
+
+    const first = parseNodePattern()
+    const chain: PathPattern['chain'] = []
+    while (isSymbol('-') || (isSymbol('<') && isSymbol('-', 1))) {
+      const relationship = parseRelationshipPattern()
+      const node = parseNodePattern()
+      chain.push({ relationship, node })
+    }
+
+    return { variable, head: first, chain, ...spanFrom(start) }
+  }
+
+  function parseNodePattern(): NodePattern {
+    const start = peek()?.start ?? source.length
+    expectSymbol('(')
+
+    const variable = isVariable() ? tokens[pos++].value : undefined
+    const labels: string[] = []
+    while (acceptSymbol(':')) labels.push(expectName('label'))
+    const properties = parsePatternProperties()
+
+    expectSymbol(')')
+    return { variable, labels, properties, ...spanFrom(start) }
+  }
+
+  function parseRelationshipPattern(): RelationshipPattern {
+    const start = peek()?.start ?? source.length
+    const pointsLeft = acceptSymbol('<')
+    expectSymbol('-')
+
+    const relationship: RelationshipPattern = { types: [], direction: 'both', start, end: start }
+
+    if (acceptSymbol('[')) {
+      if (isVariable()) relationship.variable = tokens[pos++].value
+
+      if (acceptSymbol(':')) {
+        relationship.types.push(expectName('relationship type'))
+        while (acceptSymbol('|')) {
+          acceptSymbol(':')
+          relationship.types.push(expectName('relationship type'))
+        }
+      }
+
+      if (acceptSymbol('*')) {
+        relationship.length = parseLengthRange()
+      }
+
+      relationship.properties = parsePatternProperties()
+      expectSymbol(']')
+    }
+
+    expectSymbol('-')
+    const pointsRight = acceptSymbol('>')
+
+    if (pointsLeft && pointsRight) fail('A relationship cannot point in both directions', tokens[pos - 1])
+    relationship.direction = pointsLeft ? 'in' : pointsRight ? 'out' : 'both'
+    relationship.end = lastEnd()
+    return relationship
+  }
+
+  function parseLengthRange(): { min: number; max?: number } {
+    const readInt = () => {
+      const token = peek()
+      if (token?.type !== 'number' || !/^\d+$/.test(token.text)) return undefined
+      pos++
+      return parseInt(token.text, 10)
+    }
+
+    const min = readInt()
+    if (acceptSymbol('..')) {
+      return { min: min ?? 1, max: readInt() }
+    }
+    // [*] is unbounded, [*2] is exactly two hops
+    return min === undefined ? { min: 1 } : { min, max: min }
+  }
+
+  function parsePatternProperties(): NodePattern['properties'] {
+    if (isSymbol('{')) return parseMap()
+    const token = peek()
+    if (token?.type === 'parameter') {
+      pos++
+      return { kind: 'parameter', name: token.value }
+    }
+    return undefined
+  }
+
+  function spanFrom(start: number) {
+    return { start, end: lastEnd() }
+  }
+
+  // ---- Expressions (lowest to highest precedence) ----
+
+  function parseExpression(): Expression {
+    return parseOr()
+  }
+
+  function parseOr(): Expression {
+    let left = parseXor()
+    while (acceptKeyword('OR')) left = { kind: 'binary', operator: 'OR', left, right: parseXor() }
+    return left
+  }
+
+  function parseXor(): Expression {
+    let left = parseAnd()
+    while (acceptKeyword('XOR')) left = { kind: 'binary', operator: 'XOR', left, right: parseAnd() }
+    return left
+  }
+
+  function parseAnd(): Expression {
+    let left = parseNot()
+    while (acceptKeyword('AND')) left = { kind: 'binary', operator: 'AND', left, right: parseNot() }
+    return left
+  }
+
+  function parseNot(): Expression {
+    if (acceptKeyword('NOT')) return { kind: 'unary', operator: 'NOT', operand: parseNot() }
+    return parseComparison()
+  }
+
+  function parseComparison(): Expression {
+    let left = parsePredicate()
+    while (peek()?.type === 'operator' && COMPARISON_OPERATORS.includes(peek()!.text)) {
+      const operator = tokens[pos++].text as BinaryOperator
+      left = { kind: 'binary', operator, left, right: parsePredicate() }
+    }
+    return left
+  }
+
+  function parsePredicate(): Expression {
+    let left = parseAdditive()
+
+    for (;;) {
+      if (acceptKeyword('IN')) {
+        left = { kind: 'binary', operator: 'IN', left, right: parseAdditive() }
+      } else if (acceptKeyword('CONTAINS')) {
+        left = { kind: 'binary', operator: 'CONTAINS', left, right: parseAdditive() }
+      } else if (acceptKeyword('STARTS')) {
+        expectKeyword('WITH')
+        left = { kind: 'binary', operator: 'STARTS WITH', left, right: parseAdditive() }
+      } else if (acceptKeyword('ENDS')) {
+        expectKeyword('WITH')
+        left = { kind: 'binary', operator: 'ENDS WITH', left, right: parseAdditive() }
+      } else if (acceptKeyword('IS')) {
+        const negated = acceptKeyword('NOT')
+        expectKeyword('NULL')
+        left = { kind: 'isNull', operand: left, negated }
+      } else {
+        return left
+      }
+    }
+  }
+
+  function parseAdditive(): Expression {
+    let left = parseMultiplicative()
+    while (isSymbol('+') || isSymbol('-')) {
+      const operator = tokens[pos++].text as BinaryOperator
+      left = { kind: 'binary', operator, left, right: parseMultiplicative() }
+    }
+    return left
+  }
+
+  function parseMultiplicative(): Expression {
+    let left = parsePower()
+    while (isSymbol('*') || isSymbol('/') || isSymbol('%')) {
+      const operator = tokens[pos++].text as BinaryOperator
+      left = { kind: 'binary', operator, left, right: parsePower() }
+    }
+    return left
+  }
+
+  function parsePower(): Expression {
+    let left = parseUnary()
+    while (acceptSymbol('^')) left = { kind: 'binary', operator: '^', left, right: parseUnary() }
+    return left
+  }
+
+  function parseUnary(): Expression {
+    if (isSymbol('-') || isSymbol('+')) {
+      const operator = tokens[pos++].text as '-' | '+'
+      return { kind: 'unary', operator, operand: parseUnary() }
+    }
+    return parsePostfix()
+  }
+
+  function parsePostfix(): Expression {
+    let expression = parseAtom()
+    for (;;) {
+      if (acceptSymbol('.')) {
+        expression = { kind: 'property', object: expression, key: expectName('property key') }
+      } else if (acceptSymbol('[')) {
+        const index = parseExpression()
+        expectSymbol(']')
+        expression = { kind: 'index', object: expression, index }
+      } else {
+        return expression
+      }
+    }
+  }
+
+  function parseAtom(): Expression {
+    const token = peek()
+    if (!token) return fail('Unexpected end of query')
+
+    switch (token.type) {
+      case 'number':
+        pos++
+        return { kind: 'literal', value: Number(token.text) }
+      case 'string':
+        pos++
+        return { kind: 'literal', value: token.value }
+      case 'parameter':
+        pos++
+        return { kind: 'parameter', name: token.value }
+      case 'identifier':
+        pos++
+        if (isSymbol('(')) return parseFunctionCall(token.value)
+        return { kind: 'variable', name: token.value }
+    }
+
+    if (acceptKeyword('TRUE')) return { kind: 'literal', value: true }
+    if (acceptKeyword('FALSE')) return { kind: 'literal', value: false }
+    if (acceptKeyword('NULL')) return { kind: 'literal', value: null }
+    if (acceptKeyword('CASE')) return parseCase()
+
+    if (isSymbol('(')) {
+      if (startsPattern()) fail('Patterns are not supported in expressions; MATCH them instead')
+      pos++
+      const expression = parseExpression()
+      expectSymbol(')')
+      return expression
+    }
+
+    if (acceptSymbol('[')) {
+      const items: Expression[] = []
+      if (!isSymbol(']')) {
+        items.push(parseExpression())
+        while (acceptSymbol(',')) items.push(parseExpression())
+      }
+      expectSymbol(']')
+      return { kind: 'list', items }
+    }
+
+    if (isSymbol('{')) return parseMap()
+
+    return fail(`Unexpected ${describe(token)}`)
+  }
+
+  // "()", "(:Label", "(n:Label", "(n)-[", "(n)--", "(n)->" and "(n)<-" open a node pattern, not a parenthesised expression
+  function startsPattern(): boolean {
+    if (isSymbol(')', 1) || isSymbol(':', 1)) return true
+    if (!isVariable(1)) return false
+    if (isSymbol(':', 2) || isSymbol('{', 2)) return true
+    if (!isSymbol(')', 2)) return false
+    return (isSymbol('-', 3) && ['[', '-', '>'].some(symbol => isSymbol(symbol, 4))) || (isSymbol('<', 3) && isSymbol('-', 4))
+  }
+
+  function parseFunctionCall(name: string): Expression {
+    expectSymbol('(')
+    if (name.toLowerCase() === 'count' && acceptSymbol('*')) {
+      expectSymbol(')')
+      return { kind: 'countStar' }
+    }
+
+    const distinct = acceptKeyword('DISTINCT')
+    const args: Expression[] = []
+    if (!isSymbol(')')) {
+      args.push(parseExpression())
+      while (acceptSymbol(',')) args.push(parseExpression())
+    }
+    expectSymbol(')')
+    return { kind: 'function', name, args, distinct }
+  }
+
+  function parseCase(): Expression {
+    const subject = isKeyword('WHEN') ? undefined : parseExpression()
+    const branches: { when: Expression; then: Expression }[] = []
+    while (acceptKeyword('WHEN')) {
+      const when = parseExpression()
+      expectKeyword('THEN')
+      branches.push({ when, then: parseExpression() })
+    }
+    if (branches.length === 0) fail('CASE requires at least one WHEN branch')
+    const otherwise = acceptKeyword('ELSE') ? parseExpression() : undefined
+    expectKeyword('END')
+    return { kind: 'case', subject, branches, otherwise }
+  }
+
+  function parseMap(): Extract<Expression, { kind: 'map' }> {
+    expectSymbol('{')
+    const entries: { key: string; value: Expression }[] = []
+    if (!isSymbol('}')) {
+      do {
+        const key = expectName('map key')
+        expectSymbol(':')
+        entries.push({ key, value: parseExpression() })
+      } while (acceptSymbol(','))
+    }
+    expectSymbol('}')
+    return { kind: 'map', entries }
+  }
+
+  return parseQuery()
+}
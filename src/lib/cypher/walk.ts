@@ -0,0 +1,105 @@
+import type { Clause, Expression, PathPattern, Query, SetItem } from './ast'
+
+/**
+ * Calls `visit` for an expression and every sub-expression beneath it
+ */
+export function walkExpression(expression: Expression, visit: (expression: Expression) => void): void {
+  visit(expression)
+  const recurse = (child: Expression | undefined) => {
+    if (child) walkExpression(child, visit)
+  }
+
+  switch (expression.kind) {
+    case 'property':
+      recurse(expression.object)
+      break
+    case 'index':
+      recurse(expression.object)
+      recurse(expression.index)
+      break
+    case 'list':
+      expression.items.forEach(recurse)
+      break
+    case 'map':
+      expression.entries.forEach(entry => recurse(entry.value))
+      break
+    case 'unary':
+    case 'isNull':
+      recurse(expression.operand)
+      break
+    case 'binary':
+      recurse(expression.left)
+      recurse(expression.right)
+      break
+    case 'function':
+      expression.args.forEach(recurse)
+      break
+    case 'case':
+      recurse(expression.subject)
+      expression.branches.forEach(branch => {
+        recurse(branch.when)
+        recurse(branch.then)
+      })
+      recurse(expression.otherwise)
+      break
+  }
+}
+
+/**
+ * Top-level expressions of a clause (patterns, WHERE, projections, SET values,
+ * ORDER BY, SKIP, LIMIT)
+ */
+export function clauseExpressions(clause: Clause): Expression[] {
+  switch (clause.kind) {
+    case 'match':
+      return [
+        ...clause.patterns.flatMap(patternExpressions),
+        ...(clause.where ? [clause.where] : [])
+      ]
+    case 'unwind':
+      return [clause.expression]
+    case 'create':
+      return clause.patterns.flatMap(patternExpressions)
+    case 'merge':
+      return [
+        ...patternExpressions(clause.pattern),
+        ...[...clause.onCreate, ...clause.onMatch].flatMap(setItemExpressions)
+      ]
+    case 'set':
+      return clause.items.flatMap(setItemExpressions)
+    case 'remove':
+      return []
+    case 'delete':
+      return clause.expressions
+    case 'with':
+    case 'return': {
+      const { projection } = clause
+      return [
+        ...projection.items.map(item => item.expression),
+        ...(projection.orderBy ?? []).map(item => item.expression),
+        ...(projection.skip ? [projection.skip] : []),
+        ...(projection.limit ? [projection.limit] : []),
+        ...(clause.kind === 'with' && clause.where ? [clause.where] : [])
+      ]
+    }
+  }
+}
+
+function setItemExpressions(item: SetItem): Expression[] {
+  return item.kind === 'labels' ? [] : [item.value]
+}
+
+function patternExpressions(pattern: PathPattern): Expression[] {
+  const properties = [
+    pattern.head.properties,
+    ...pattern.chain.flatMap(({ relationship, node }) => [relationship.properties, node.properties])
+  ]
+  return properties.filter((p): p is NonNullable<typeof p> => Boolean(p))
+}
+
+/**
+ * Every MATCH path pattern in a query, in source order
+ */
+export function queryPatterns(query: Query): PathPattern[] {
+  return query.clauses.flatMap(clause => (clause.kind === 'match' ? clause.patterns : []))
+}
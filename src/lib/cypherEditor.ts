@@ -0,0 +1,333 @@
+import type { GraphSchema } from '../types'
+import { CypherSyntaxError, cypherName, KEYWORDS, parseCypher, tokenize, type Token, type TokenType } from './cypher'
+import { validateCypher, type CypherDiagnostic } from './textToCypher'
+
+/**
+ * Role of a piece of query text, as coloured by the editor
+ * Identifiers are split by where they appear; `invalid` covers text the
+ * tokenizer rejected, such as an unterminated string
+ */
+export type HighlightKind =
+  | Exclude<TokenType, 'identifier'>
+  | 'label'
+  | 'relationshipType'
+  | 'property'
+  | 'function'
+  | 'variable'
+  | 'invalid'
+
+export interface HighlightToken {
+  kind: HighlightKind
+  text: string
+  start: number
+  end: number
+}
+
+/** Problem shown under the editor, underlined in the query when it has a position */
+export interface EditorDiagnostic extends CypherDiagnostic {
+  severity: 'error' | 'warning'
+}
+
+export interface CompletionItem {
+  label: string
+  kind: 'label' | 'relationshipType' | 'property' | 'keyword' | 'function' | 'variable'
+  /** Text that replaces the word at the cursor */
+  insert: string
+}
+
+/** Suggestions for the word spanning `from`-`to` */
+export interface Completion {
+  from: number
+  to: number
+  items: CompletionItem[]
+}
+
+/** A bracket next to the cursor and its partner, null when it is unbalanced */
+export interface BracketMatch {
+  at: number
+  match: number | null
+}
+
+// Functions the in-memory evaluator supports, as they are usually written
+const FUNCTIONS = [
+  'abs', 'avg', 'ceil', 'coalesce', 'collect', 'count', 'elementId', 'endNode',
+  'exists', 'floor', 'head', 'id', 'keys', 'labels', 'last', 'left', 'length',
+  'max', 'min', 'nodes', 'properties', 'range', 'relationships', 'replace',
+  'reverse', 'right', 'round', 'size', 'split', 'sqrt', 'startNode', 'substring',
+  'sum', 'tail', 'toBoolean', 'toFloat', 'toInteger', 'toLower', 'toString',
+  'toUpper', 'trim', 'type'
+]
+
+const OPENING: Record<string, string> = { '(': ')', '[': ']', '{': '}' }
+const CLOSING: Record<string, string> = { ')': '(', ']': '[', '}': '{' }
+
+const COMPLETION_LIMIT = 50
+
+/**
+ * Tokenizes a query that may be half-typed: text the lexer rejects becomes
+ * an `invalid` token (the rest of the query for an unterminated string or
+ * comment, otherwise one character) and tokenizing resumes after it
+ */
+function lenientTokens(query: string): (Omit<Token, 'type'> & { type: TokenType | 'invalid' })[] {
+  const tokens: (Omit<Token, 'type'> & { type: TokenType | 'invalid' })[] = []
+  const shift = (offset: number) => (token: Token) => ({ ...token, start: token.start + offset, end: token.end + offset })
+  let offset = 0
+
+  while (offset < query.length) {
+    const rest = query.slice(offset)
+    try {
+      tokens.push(...tokenize(rest).map(shift(offset)))
+      break
+    } catch (error) {
+      if (!(error instanceof CypherSyntaxError)) throw error
+      tokens.push(...tokenize(rest.slice(0, error.position)).map(shift(offset)))
+      const start = offset + error.position
+      const end = /^(['"`]|\/\*)/.test(query.slice(start)) ? query.length : start + 1
+      const text = query.slice(start, end)
+      tokens.push({ type: 'invalid', text, value: text, start, end })
+      offset = end
+    }
+  }
+
+  return tokens
+}
+
+const isSignificant = (token: { type: string }) => token.type !== 'whitespace' && token.type !== 'comment'
+
+/**
+ * Splits a query into highlighted tokens covering every character
+ *
+ * Identifiers after `:` (or `|` between types) are labels inside node
+ * patterns and relationship types inside relationship patterns; after `.`
+ * they are property keys, before `(` function names, and before `:` in a
+ * map they are keys as well
+ */
+export function highlightCypher(query: string): HighlightToken[] {
+  const tokens = lenientTokens(query)
+  const significant = tokens.filter(isSignificant)
+  const stack: string[] = []
+  const kinds = new Map<number, HighlightKind>()
+
+  significant.forEach((token, index) => {
+    const previous = significant[index - 1]
+    const next = significant[index + 1]
+    const enclosing = stack[stack.length - 1]
+
+    if (token.type === 'punctuation' && OPENING[token.text]) stack.push(token.text)
+    if (token.type === 'punctuation' && CLOSING[token.text] && enclosing === CLOSING[token.text]) stack.pop()
+    if (token.type !== 'identifier') return
+
+    let kind: HighlightKind = 'variable'
+    if (previous?.text === ':' && enclosing !== '{') {
+      kind = enclosing === '[' ? 'relationshipType' : 'label'
+    } else if (previous?.text === '|' && enclosing === '[') {
+      kind = 'relationshipType'
+    } else if (previous?.type === 'operator' && previous.text === '.') {
+      kind = 'property'
+    } else if (next?.text === '(') {
+      kind = 'function'
+    } else if (enclosing === '{' && next?.text === ':') {
+      kind = 'property'
+    }
+    kinds.set(token.start, kind)
+  })
+
+  return tokens.map(token => ({
+    kind: token.type === 'identifier' ? kinds.get(token.start) ?? 'variable' : token.type,
+    text: token.text,
+    start: token.start,
+    end: token.end
+  }))
+}
+
+/**
+ * Finds the bracket just before or at the cursor and its partner, skipping
+ * brackets inside strings and comments
+ */
+export function matchBracket(query: string, cursor: number): BracketMatch | null {
+  const brackets = lenientTokens(query).filter(token =>
+    token.type === 'punctuation' && (OPENING[token.text] || CLOSING[token.text]))
+  const partners = new Map<number, number | null>()
+  const open: typeof brackets = []
+
+  brackets.forEach(token => {
+    if (OPENING[token.text]) {
+      open.push(token)
+      return
+    }
+    const top = open[open.length - 1]
+    if (top && OPENING[top.text] === token.text) {
+      open.pop()
+      partners.set(top.start, token.start)
+      partners.set(token.start, top.start)
+    } else {
+      partners.set(token.start, null)
+    }
+  })
+  open.forEach(token => partners.set(token.start, null))
+
+  const at = [cursor - 1, cursor].find(offset => partners.has(offset))
+  return at === undefined ? null : { at, match: partners.get(at)! }
+}
+
+/**
+ * Suggests completions for the word at the cursor: labels after `:` in a
+ * node pattern, relationship types in a relationship pattern, property keys
+ * after `variable.` or as map keys (narrowed to the labels or types bound to
+ * the variable or pattern), and keywords, functions and variables elsewhere
+ *
+ * With `explicit` unset, nothing is offered for an empty word outside
+ * those positions, so typing a space does not open the list
+ */
+export function completeCypher(
+  query: string,
+  cursor: number,
+  schema: GraphSchema,
+  explicit = false
+): Completion | null {
+  let from = cursor
+  while (from > 0 && /[A-Za-z0-9_]/.test(query[from - 1])) from--
+  let to = cursor
+  while (to < query.length && /[A-Za-z0-9_]/.test(query[to])) to++
+  const prefix = query.slice(from, cursor).toLowerCase()
+
+  const tokens = highlightCypher(query).filter(token => token.kind !== 'whitespace' && token.kind !== 'comment')
+  const before = tokens.filter(token => token.end <= from)
+  const previous = before[before.length - 1]
+
+  // Brackets open at the word, with the index of the token that opened them
+  const stack: { text: string; index: number }[] = []
+  before.forEach((token, index) => {
+    if (token.kind !== 'punctuation') return
+    if (OPENING[token.text]) stack.push({ text: token.text, index })
+    if (CLOSING[token.text] && stack[stack.length - 1]?.text === CLOSING[token.text]) stack.pop()
+  })
+  const enclosing = stack[stack.length - 1]
+
+  const bindings = variableBindings(tokens)
+  let items: CompletionItem[]
+
+  if (previous?.text === ':' && enclosing?.text !== '{') {
+    items = enclosing?.text === '['
+      ? schema.relationshipTypes.map(type => ({ label: type, kind: 'relationshipType', insert: cypherName(type) }))
+      : schema.labels.map(label => ({ label, kind: 'label', insert: cypherName(label) }))
+  } else if (previous?.text === '|' && enclosing?.text === '[') {
+    items = schema.relationshipTypes.map(type => ({ label: type, kind: 'relationshipType', insert: cypherName(type) }))
+  } else if (previous?.kind === 'operator' && previous.text === '.') {
+    const owner = before[before.length - 2]
+    items = propertyItems(schema, owner?.kind === 'variable' ? bindings.get(owner.text) : undefined)
+  } else if (enclosing?.text === '{' && (previous?.text === '{' || previous?.text === ',')) {
+    // Keys of a pattern's property map, e.g. (p:Person {na
+    const outer = stack[stack.length - 2]
+    const names = outer ? before.slice(outer.index).filter(t => t.kind === 'label' || t.kind === 'relationshipType') : []
+    items = propertyItems(schema, names.length > 0
+      ? { kind: names[0].kind === 'label' ? 'node' : 'relationship', names: names.map(t => t.text) }
+      : undefined)
+  } else if (prefix || explicit) {
+    const variables = [...new Set(tokens
+      .filter(token => token.kind === 'variable' && token.start !== from)
+      .map(token => token.text))]
+    items = [
+      ...variables.map((name): CompletionItem => ({ label: name, kind: 'variable', insert: name })),
+      ...[...KEYWORDS].sort().map((keyword): CompletionItem => ({ label: keyword, kind: 'keyword', insert: keyword })),
+      ...FUNCTIONS.map((name): CompletionItem => ({ label: name, kind: 'function', insert: name }))
+    ]
+  } else {
+    return null
+  }
+
+  const matches = items
+    .filter(item => item.label.toLowerCase().startsWith(prefix))
+    .slice(0, COMPLETION_LIMIT)
+  // A word already typed out in full needs no list
+  if (matches.length === 0 || (matches.length === 1 && matches[0].insert === query.slice(from, to))) return null
+  return { from, to, items: matches }
+}
+
+type Binding = { kind: 'node' | 'relationship'; names: string[] }
+
+/**
+ * Labels and relationship types bound to each variable by the patterns in
+ * the query, e.g. `p` to Person in `(p:Person)`
+ */
+function variableBindings(tokens: HighlightToken[]): Map<string, Binding> {
+  const bindings = new Map<string, Binding>()
+  tokens.forEach((token, index) => {
+    if (token.kind !== 'variable' || tokens[index + 1]?.text !== ':') return
+    const names: string[] = []
+    let kind: Binding['kind'] | null = null
+    for (let i = index + 2; i < tokens.length; i += 2) {
+      const name = tokens[i]
+      if (name.kind !== 'label' && name.kind !== 'relationshipType') break
+      kind = name.kind === 'label' ? 'node' : 'relationship'
+      names.push(name.text)
+      if (tokens[i + 1]?.text !== ':' && tokens[i + 1]?.text !== '|') break
+    }
+    if (!kind) return
+    const existing = bindings.get(token.text)
+    bindings.set(token.text, { kind, names: [...(existing?.names ?? []), ...names] })
+  })
+  return bindings
+}
+
+function propertyItems(schema: GraphSchema, binding?: Binding): CompletionItem[] {
+  const index = binding?.kind === 'relationship' ? schema.relationshipProperties : schema.nodeProperties
+  const keys = binding
+    ? [...new Set(binding.names.flatMap(name => index[name] ?? []))].sort()
+    : schema.propertyKeys
+  return (keys.length > 0 ? keys : schema.propertyKeys)
+    .map(key => ({ label: key, kind: 'property', insert: cypherName(key) }))
+}
+
+/**
+ * Checks a query as it is typed: syntax errors, then the schema checks used
+ * for generated queries (unknown labels, types and property keys, impossible
+ * directions) as warnings. Write queries need no RETURN here
+ */
+export function lintCypher(query: string, schema: GraphSchema): EditorDiagnostic[] {
+  if (!query.trim()) return []
+  try {
+    parseCypher(query)
+  } catch (error) {
+    if (!(error instanceof CypherSyntaxError)) throw error
+    const token = lenientTokens(query).find(t => isSignificant(t) && t.end > error.position)
+    const start = token?.start ?? Math.max(0, query.trimEnd().length - 1)
+    return [{ message: error.message, start, end: token?.end ?? start + 1, severity: 'error' }]
+  }
+  return validateCypher(query, schema, { requireReturn: false })
+    .map(diagnostic => ({ ...diagnostic, severity: 'warning' }))
+}
+
+/** One-based line and column of an offset, for diagnostics */
+export function lineAndColumn(text: string, offset: number): { line: number; column: number } {
+  const lines = text.slice(0, offset).split('\n')
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 }
+}
+
+const HISTORY_KEY = 'graphrag-explorer:cypher-history'
+const HISTORY_LIMIT = 50
+
+/**
+ * Queries run in this browser session, most recent first
+ */
+export function loadQueryHistory(): string[] {
+  try {
+    const saved = sessionStorage.getItem(HISTORY_KEY)
+    return saved ? JSON.parse(saved) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Moves a query to the top of the session history
+ */
+export function recordQuery(query: string): string[] {
+  const history = [query, ...loadQueryHistory().filter(previous => previous !== query)].slice(0, HISTORY_LIMIT)
+  try {
+    sessionStorage.setItem(HISTORY_KEY, JSON.stringify(history))
+  } catch {
+    // Storage full or disabled: the history lasts until the page is reloaded
+  }
+  return history
+}
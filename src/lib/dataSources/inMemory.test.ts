@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest'
+import type { GraphData } from '../../types'
+import { createInMemoryDataSource } from './inMemory'
+
+const data = (): GraphData => ({
+  nodes: [
+    { id: 'nasa', label: 'NASA', type: 'Company', properties: {} },
+    { id: 'neo4j', label: 'Neo4j', type: 'Technology', properties: {} }
+  ],
+  relationships: [{ id: 'r1', source: 'nasa', target: 'neo4j', type: 'USES', properties: {} }]
+})
+
+describe('createInMemoryDataSource', () => {
+  it('writes to its own copy of the data', async () => {
+    const original = data()
+    const source = createInMemoryDataSource(original)
+
+    const result = await source.runCypher('MATCH (n:Company) DETACH DELETE n')
+
+    expect(result.counters).toMatchObject({ nodesDeleted: 1, relationshipsDeleted: 1 })
+    expect(original).toEqual(data())
+    expect((await source.loadGraph()).nodes.map(node => node.id)).toEqual(['neo4j'])
+  })
+})
@@ -0,0 +1,42 @@
+import type { ExpandOptions, GraphData, GraphDataSource, GraphSchema } from '../../types'
+import { cloneGraphData, cloneNode, cloneRelationship, getNeighborhood } from '../graph'
+import { executeCypher } from '../cypher'
+import { extractSchema } from '../schema'
+
+/**
+ * Data source backed by a GraphData object held in memory
+ *
+ * The source holds its own copy of `data`, which write queries change, and
+ * every call returns a fresh copy, so D3 mutating the rendered graph
+ * (positions, link endpoints) never leaks back into the source data
+ */
+export function createInMemoryDataSource(
+  data: GraphData,
+  name: string = 'In-memory graph'
+): GraphDataSource {
+  const graph = cloneGraphData(data)
+  return {
+    name,
+
+    async loadGraph() {
+      return cloneGraphData(graph)
+    },
+
+    async getNeighbors(nodeId: string, options?: ExpandOptions) {
+      return cloneGraphData(getNeighborhood(graph, nodeId, options))
+    },
+
+    async runCypher(query: string, params?: Record<string, unknown>) {
+      const result = executeCypher(query, graph, params)
+      return {
+        ...result,
+        nodes: result.nodes.map(cloneNode),
+        relationships: result.relationships.map(cloneRelationship)
+      }
+    },
+
+    async getSchema(): Promise<GraphSchema> {
+      return extractSchema(graph)
+    }
+  }
+}
@@ -0,0 +1,31 @@
+import type { GraphDataSource } from '../../types'
+import { sampleGraphData } from '../../data/sampleGraph'
+import { createInMemoryDataSource } from './inMemory'
+import { createNeo4jHttpDataSource } from './neo4jHttp'
+
+export { createInMemoryDataSource } from './inMemory'
+export { createNeo4jHttpDataSource, type Neo4jHttpConfig } from './neo4jHttp'
+export { createPendingEditsDataSource } from './pending'
+
+/**
+ * Picks the data source from Vite env variables
+ *
+ * Set VITE_NEO4J_URL (plus optional VITE_NEO4J_DATABASE, VITE_NEO4J_USER,
+ * VITE_NEO4J_PASSWORD) to explore a live database; otherwise the bundled
+ * sample graph is used
+ */
+export function createDefaultDataSource(): GraphDataSource {
+  const env = import.meta.env
+  const url = env.VITE_NEO4J_URL as string | undefined
+
+  if (url) {
+    return createNeo4jHttpDataSource({
+      url,
+      database: env.VITE_NEO4J_DATABASE as string | undefined,
+      username: env.VITE_NEO4J_USER as string | undefined,
+      password: env.VITE_NEO4J_PASSWORD as string | undefined
+    })
+  }
+
+  return createInMemoryDataSource(sampleGraphData, 'Sample knowledge graph')
+}
@@ -0,0 +1,214 @@
+import { describe, expect, it } from 'vitest'
+import { createNeo4jHttpDataSource } from './neo4jHttp'
+
+interface Request {
+  url: string
+  headers: Record<string, string>
+  statements: { statement: string; parameters: Record<string, unknown>; includeStats?: boolean }[]
+}
+
+/**
+ * Stands in for the transactional endpoint: records each request and
+ * answers with the next of the given bodies
+ */
+function mockServer(...bodies: unknown[]) {
+  const requests: Request[] = []
+  const fetch = (async (url: string, init: RequestInit) => {
+    requests.push({ url, headers: init.headers as Record<string, string>, ...JSON.parse(String(init.body)) })
+    const body = bodies.shift()
+    return typeof body === 'number'
+      ? new Response('', { status: body })
+      : new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json' } })
+  }) as typeof globalThis.fetch
+  return { requests, fetch }
+}
+
+const ok = (...results: unknown[]) => ({ results, errors: [] })
+const rows = (...values: unknown[][]) => ({ columns: ['value'], data: values.map(row => ({ row })) })
+
+// (NASA {id: 'nasa'})-[:USES]->(Neo4j without an id property)
+const graphResult = {
+  columns: ['n', 'r', 'm'],
+  data: [{
+    row: [{}, {}, {}],
+    meta: [
+      { id: 1, elementId: '4:db:1', type: 'node' },
+      { id: 7, elementId: '5:db:7', type: 'relationship' },
+      { id: 2, elementId: '4:db:2', type: 'node' }
+    ],
+    graph: {
+      nodes: [
+        { id: '1', elementId: '4:db:1', labels: ['Company', 'Agency'], properties: { id: 'nasa', label: 'NASA', founded: 1958 } },
+        { id: '2', elementId: '4:db:2', labels: ['Technology'], properties: { name: 'Neo4j' } }
+      ],
+      relationships: [{
+        id: '7',
+        elementId: '5:db:7',
+        type: 'USES',
+        startNode: '1',
+        endNode: '2',
+        startNodeElementId: '4:db:1',
+        endNodeElementId: '4:db:2',
+        properties: { since: 2016 }
+      }]
+    }
+  }]
+}
+
+describe('createNeo4jHttpDataSource', () => {
+  it('posts statements to the transactional endpoint of the database', async () => {
+    const server = mockServer(ok(rows([1])))
+    const source = createNeo4jHttpDataSource({
+      url: 'http://localhost:7474/',
+      database: 'movies',
+      username: 'neo4j',
+      password: 'secret',
+      fetch: server.fetch
+    })
+
+    await source.runCypher('RETURN $x AS value', { x: 1 })
+
+    const [request] = server.requests
+    expect(request.url).toBe('http://localhost:7474/db/movies/tx/commit')
+    expect(request.headers.Authorization).toBe(`Basic ${btoa('neo4j:secret')}`)
+    expect(request.statements).toEqual([
+      expect.objectContaining({ statement: 'RETURN $x AS value', parameters: { x: 1 }, includeStats: true })
+    ])
+  })
+
+  it('keeps id properties and falls back to element ids', async () => {
+    const source = createNeo4jHttpDataSource({ url: 'http://neo4j', fetch: mockServer(ok(graphResult)).fetch })
+
+    const graph = await source.loadGraph()
+
+    expect(graph.nodes).toEqual([
+      { id: 'nasa', label: 'NASA', type: 'Company', labels: ['Company', 'Agency'], properties: { founded: 1958 } },
+      { id: '4:db:2', label: 'Neo4j', type: 'Technology', properties: { name: 'Neo4j' } }
+    ])
+    expect(graph.relationships).toEqual([
+      { id: 'rel-5:db:7', source: 'nasa', target: '4:db:2', type: 'USES', properties: { since: 2016 } }
+    ])
+  })
+
+  it('resolves row values to the mapped nodes and relationships', async () => {
+    const source = createNeo4jHttpDataSource({ url: 'http://neo4j', fetch: mockServer(ok(graphResult)).fetch })
+
+    const result = await source.runCypher('MATCH (n)-[r]->(m) RETURN n, r, m')
+
+    expect(result.columns).toEqual(['n', 'r', 'm'])
+    expect(result.rows[0].n).toMatchObject({ id: 'nasa' })
+    expect(result.rows[0].r).toMatchObject({ id: 'rel-5:db:7', source: 'nasa', target: '4:db:2' })
+    expect(result.rows[0].m).toMatchObject({ id: '4:db:2' })
+  })
+
+  it('resolves paths from their meta entries', async () => {
+    const pathResult = {
+      columns: ['p'],
+      data: [{ ...graphResult.data[0], row: [[{}, {}, {}]], meta: [graphResult.data[0].meta] }]
+    }
+    const source = createNeo4jHttpDataSource({ url: 'http://neo4j', fetch: mockServer(ok(pathResult)).fetch })
+
+    const { rows: [row] } = await source.runCypher('MATCH p = ()-->() RETURN p')
+
+    expect(row.p).toMatchObject({
+      nodes: [{ id: 'nasa' }, { id: '4:db:2' }],
+      relationships: [{ id: 'rel-5:db:7' }]
+    })
+  })
+
+  it('reports write counters from the query statistics', async () => {
+    const stats = {
+      nodes_created: 1,
+      nodes_deleted: 0,
+      relationships_created: 2,
+      relationship_deleted: 0,
+      properties_set: 3,
+      labels_added: 1,
+      labels_removed: 0
+    }
+    const source = createNeo4jHttpDataSource({
+      url: 'http://neo4j',
+      fetch: mockServer(ok({ columns: [], data: [], stats })).fetch
+    })
+
+    const result = await source.runCypher('CREATE (n:Concept)')
+
+    expect(result.counters).toEqual({
+      nodesCreated: 1,
+      nodesDeleted: 0,
+      relationshipsCreated: 2,
+      relationshipsDeleted: 0,
+      propertiesSet: 3,
+      labelsAdded: 1,
+      labelsRemoved: 0
+    })
+  })
+
+  it('matches neighbours by id property or element id', async () => {
+    const server = mockServer(ok(graphResult))
+    const source = createNeo4jHttpDataSource({ url: 'http://neo4j', fetch: server.fetch })
+
+    await source.getNeighbors('4:db:2', { direction: 'incoming', types: ['USES'], limit: 5 })
+
+    const [{ statement, parameters }] = server.requests[0].statements
+    expect(statement).toContain('WHERE toString(n.id) = $id OR elementId(n) = $id')
+    expect(statement).toContain('(n)<-[r]-(m)')
+    expect(parameters).toEqual({ id: '4:db:2', types: ['USES'], limit: 5 })
+  })
+
+  it('matches numeric id properties by their text', async () => {
+    const numeric = {
+      columns: ['n', 'r', 'm'],
+      data: [{
+        row: [{}, null, null],
+        meta: [{ id: 3, elementId: '4:db:3', type: 'node' }, null, null],
+        graph: { nodes: [{ id: '3', elementId: '4:db:3', labels: ['Company'], properties: { id: 42, name: 'Acme' } }], relationships: [] }
+      }]
+    }
+    const server = mockServer(ok(numeric), ok(numeric))
+    const source = createNeo4jHttpDataSource({ url: 'http://neo4j', fetch: server.fetch })
+
+    const [node] = (await source.loadGraph()).nodes
+    await source.getNeighbors(node.id)
+
+    expect(node.id).toBe('42')
+    const [{ statement, parameters }] = server.requests[1].statements
+    expect(statement).toContain('toString(n.id) = $id')
+    expect(parameters.id).toBe('42')
+  })
+
+  it('builds the schema from the db procedures', async () => {
+    const server = mockServer(ok(
+      rows(['Technology'], ['Company']),
+      rows(['USES']),
+      rows(['name'], ['since']),
+      { columns: ['source', 'type', 'target'], data: [{ row: ['Company', 'USES', 'Technology'] }] },
+      { columns: ['nodeLabels', 'propertyName'], data: [{ row: [['Technology'], 'name'] }] },
+      { columns: ['relType', 'propertyName'], data: [{ row: [':`USES`', 'since'] }] }
+    ))
+    const source = createNeo4jHttpDataSource({ url: 'http://neo4j', fetch: server.fetch })
+
+    const schema = await source.getSchema()
+
+    expect(server.requests[0].statements).toHaveLength(6)
+    expect(schema).toEqual({
+      labels: ['Company', 'Technology'],
+      relationshipTypes: ['USES'],
+      propertyKeys: ['id', 'label', 'name', 'since'],
+      relationshipPatterns: [{ source: 'Company', type: 'USES', target: 'Technology' }],
+      nodeProperties: { Company: ['id', 'label'], Technology: ['id', 'label', 'name'] },
+      relationshipProperties: { USES: ['since'] }
+    })
+  })
+
+  it('surfaces HTTP failures and Neo4j errors', async () => {
+    const failing = createNeo4jHttpDataSource({ url: 'http://neo4j', fetch: mockServer(401).fetch })
+    await expect(failing.loadGraph()).rejects.toThrow('Neo4j request failed with HTTP 401')
+
+    const erroring = createNeo4jHttpDataSource({
+      url: 'http://neo4j',
+      fetch: mockServer({ results: [], errors: [{ code: 'Neo.ClientError.Statement.SyntaxError', message: 'Invalid input' }] }).fetch
+    })
+    await expect(erroring.runCypher('MATC (n)')).rejects.toThrow('Neo.ClientError.Statement.SyntaxError: Invalid input')
+  })
+})
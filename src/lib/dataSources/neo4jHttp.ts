@@ -0,0 +1,303 @@
+import type {
+  CypherResult,
+  ExpandOptions,
+  GraphData,
+  GraphDataSource,
+  GraphNode,
+  GraphPath,
+  GraphRelationship
+} from '../../types'
+import { RELATIONSHIP_ID_PREFIX } from '../cypher'
+import { toGraphNode } from '../graph'
+
+export interface Neo4jHttpConfig {
+  /** Base URL of the Neo4j HTTP API, e.g. http://localhost:7474 */
+  url: string
+  database?: string
+  username?: string
+  password?: string
+  /** Maximum number of nodes fetched by loadGraph */
+  nodeLimit?: number
+  /** Injected fetch, e.g. to point tests at a mock server */
+  fetch?: typeof fetch
+}
+
+interface Statement {
+  statement: string
+  parameters?: Record<string, unknown>
+}
+
+// Shapes returned by the transactional endpoint with resultDataContents ['row', 'graph']
+interface RawNode {
+  id: string
+  elementId?: string
+  labels: string[]
+  properties: Record<string, unknown>
+}
+
+interface RawRelationship {
+  id: string
+  elementId?: string
+  type: string
+  startNode: string
+  endNode: string
+  startNodeElementId?: string
+  endNodeElementId?: string
+  properties: Record<string, unknown>
+}
+
+interface RawMeta {
+  id: number
+  elementId?: string
+  type: 'node' | 'relationship'
+}
+
+// Query statistics, returned with includeStats
+interface RawStats {
+  nodes_created: number
+  nodes_deleted: number
+  relationships_created: number
+  relationship_deleted: number
+  properties_set: number
+  labels_added: number
+  labels_removed: number
+}
+
+interface RawResult {
+  columns: string[]
+  stats?: RawStats
+  data: {
+    row: unknown[]
+    meta?: (RawMeta | RawMeta[] | null)[]
+    graph?: { nodes: RawNode[]; relationships: RawRelationship[] }
+  }[]
+}
+
+interface RawResponse {
+  results: RawResult[]
+  errors: { code: string; message: string }[]
+}
+
+/**
+ * Data source talking to Neo4j through the HTTP transactional endpoint
+ * (POST /db/{database}/tx/commit)
+ *
+ * Node ids use the `id` property when present so graphs imported from
+ * sampleGraphData keep their ids, falling back to Neo4j's element id
+ */
+export function createNeo4jHttpDataSource(config: Neo4jHttpConfig): GraphDataSource {
+  const database = config.database ?? 'neo4j'
+  const endpoint = `${config.url.replace(/\/+$/, '')}/db/${encodeURIComponent(database)}/tx/commit`
+  const doFetch = config.fetch ?? fetch.bind(globalThis)
+
+  async function commit(statements: Statement[]): Promise<RawResult[]> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      Accept: 'application/json'
+    }
+    if (config.username) {
+      headers.Authorization = `Basic ${btoa(`${config.username}:${config.password ?? ''}`)}`
+    }
+
+    const response = await doFetch(endpoint, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        statements: statements.map(s => ({
+          statement: s.statement,
+          parameters: s.parameters ?? {},
+          resultDataContents: ['row', 'graph'],
+          includeStats: true
+        }))
+      })
+    })
+
+    if (!response.ok) {
+      throw new Error(`Neo4j request failed with HTTP ${response.status}`)
+    }
+
+    const body = await response.json() as RawResponse
+    if (body.errors?.length) {
+      throw new Error(`${body.errors[0].code}: ${body.errors[0].message}`)
+    }
+    return body.results
+  }
+
+  async function query(statement: string, parameters?: Record<string, unknown>) {
+    const [result] = await commit([{ statement, parameters }])
+    return toCypherResult(result)
+  }
+
+  return {
+    name: `Neo4j (${database})`,
+
+    async loadGraph() {
+      const result = await query(
+        `MATCH (n) WITH n LIMIT $limit
+OPTIONAL MATCH (n)-[r]->(m)
+RETURN n, r, m`,
+        { limit: config.nodeLimit ?? 500 }
+      )
+      return toGraphData(result)
+    },
+
+    async getNeighbors(nodeId: string, options: ExpandOptions = {}) {
+      const pattern = {
+        outgoing: '(n)-[r]->(m)',
+        incoming: '(n)<-[r]-(m)',
+        both: '(n)-[r]-(m)'
+      }[options.direction ?? 'both']
+      const result = await query(
+        `MATCH (n) WHERE toString(n.id) = $id OR elementId(n) = $id
+OPTIONAL MATCH ${pattern} WHERE size($types) = 0 OR type(r) IN $types
+RETURN n, r, m LIMIT $limit`,
+        { id: nodeId, types: options.types ?? [], limit: options.limit ?? config.nodeLimit ?? 500 }
+      )
+      return toGraphData(result)
+    },
+
+    runCypher: query,
+
+    async getSchema() {
+      const [labels, types, keys, patterns, nodeKeys, relKeys] = await commit([
+        { statement: 'CALL db.labels()' },
+        { statement: 'CALL db.relationshipTypes()' },
+        { statement: 'CALL db.propertyKeys()' },
+        {
+          statement: `MATCH (a)-[r]->(b)
+WITH DISTINCT labels(a) AS sources, type(r) AS type, labels(b) AS targets LIMIT $limit
+UNWIND sources AS source
+UNWIND targets AS target
+RETURN DISTINCT source, type, target`,
+          parameters: { limit: config.nodeLimit ?? 500 }
+        },
+        { statement: 'CALL db.schema.nodeTypeProperties() YIELD nodeLabels, propertyName RETURN nodeLabels, propertyName' },
+        { statement: 'CALL db.schema.relTypeProperties() YIELD relType, propertyName RETURN relType, propertyName' }
+      ])
+      const firstColumn = (result: RawResult) =>
+        result.data.map(d => String(d.row[0])).sort()
+
+      // Node ids and labels are resolved from these properties, so they are always addressable
+      const nodeProperties: Record<string, string[]> = {}
+      const addKey = (index: Record<string, string[]>, name: string, key: unknown) => {
+        index[name] ??= []
+        if (typeof key === 'string' && !index[name].includes(key)) index[name].push(key)
+      }
+      firstColumn(labels).forEach(label => {
+        addKey(nodeProperties, label, 'id')
+        addKey(nodeProperties, label, 'label')
+      })
+      nodeKeys.data.forEach(({ row: [nodeLabels, key] }) => {
+        (nodeLabels as string[]).forEach(label => addKey(nodeProperties, label, key))
+      })
+
+      // relTypeProperties reports types as ":`TYPE`"
+      const relationshipProperties: Record<string, string[]> = {}
+      relKeys.data.forEach(({ row: [relType, key] }) => {
+        addKey(relationshipProperties, String(relType).replace(/^:`?|`$/g, ''), key)
+      })
+
+      return {
+        labels: firstColumn(labels),
+        relationshipTypes: firstColumn(types),
+        propertyKeys: [...new Set(['id', 'label', ...firstColumn(keys)])].sort(),
+        relationshipPatterns: patterns.data.map(({ row: [source, type, target] }) => ({
+          source: String(source),
+          type: String(type),
+          target: String(target)
+        })),
+        nodeProperties,
+        relationshipProperties
+      }
+    }
+  }
+}
+
+function toGraphData(result: CypherResult): GraphData {
+  return { nodes: result.nodes, relationships: result.relationships }
+}
+
+/**
+ * Converts a raw statement result, resolving row values through the graph
+ * section so nodes and relationships come back as GraphNode/GraphRelationship
+ */
+function toCypherResult(result: RawResult): CypherResult {
+  const nodes = new Map<string, GraphNode>()
+  const relationships = new Map<string, GraphRelationship>()
+  // Raw Neo4j id -> GraphNode id, needed to resolve relationship endpoints
+  const nodeIds = new Map<string, string>()
+
+  const rawRelationships: RawRelationship[] = []
+  result.data.forEach(({ graph }) => {
+    graph?.nodes.forEach(raw => {
+      const node = toGraphNode(raw.labels, raw.properties, raw.elementId ?? raw.id)
+      nodeIds.set(raw.id, node.id)
+      if (raw.elementId) nodeIds.set(raw.elementId, node.id)
+      nodes.set(node.id, node)
+    })
+    graph?.relationships.forEach(raw => rawRelationships.push(raw))
+  })
+
+  const relationshipsByRawId = new Map<string, GraphRelationship>()
+  rawRelationships.forEach(raw => {
+    const rel: GraphRelationship = {
+      id: `${RELATIONSHIP_ID_PREFIX}${raw.elementId ?? raw.id}`,
+      source: nodeIds.get(raw.startNodeElementId ?? raw.startNode) ?? raw.startNode,
+      target: nodeIds.get(raw.endNodeElementId ?? raw.endNode) ?? raw.endNode,
+      type: raw.type,
+      properties: raw.properties
+    }
+    relationshipsByRawId.set(raw.id, rel)
+    if (raw.elementId) relationshipsByRawId.set(raw.elementId, rel)
+    relationships.set(rel.id, rel)
+  })
+
+  const nodesByRawId = new Map<string, GraphNode>()
+  nodeIds.forEach((id, rawId) => nodesByRawId.set(rawId, nodes.get(id)!))
+
+  const resolve = (value: unknown, meta: RawMeta | RawMeta[] | null | undefined): unknown => {
+    if (Array.isArray(meta) && Array.isArray(value)) {
+      // Paths arrive as alternating node/relationship entries
+      const path: GraphPath = { nodes: [], relationships: [] }
+      meta.forEach(m => {
+        const key = m.elementId ?? String(m.id)
+        if (m.type === 'node') {
+          const node = nodesByRawId.get(key) ?? nodesByRawId.get(String(m.id))
+          if (node) path.nodes.push(node)
+        } else {
+          const rel = relationshipsByRawId.get(key) ?? relationshipsByRawId.get(String(m.id))
+          if (rel) path.relationships.push(rel)
+        }
+      })
+      return path
+    }
+    if (meta && !Array.isArray(meta)) {
+      const key = meta.elementId ?? String(meta.id)
+      const lookup = meta.type === 'node' ? nodesByRawId : relationshipsByRawId
+      return lookup.get(key) ?? lookup.get(String(meta.id)) ?? value
+    }
+    return value
+  }
+
+  return {
+    columns: result.columns,
+    rows: result.data.map(({ row, meta }) =>
+      Object.fromEntries(result.columns.map((column, i) => [column, resolve(row[i], meta?.[i])]))
+    ),
+    nodes: [...nodes.values()],
+    relationships: [...relationships.values()],
+    ...(result.stats
+      ? {
+        counters: {
+          nodesCreated: result.stats.nodes_created,
+          nodesDeleted: result.stats.nodes_deleted,
+          relationshipsCreated: result.stats.relationships_created,
+          relationshipsDeleted: result.stats.relationship_deleted,
+          propertiesSet: result.stats.properties_set,
+          labelsAdded: result.stats.labels_added,
+          labelsRemoved: result.stats.labels_removed
+        }
+      }
+      : {})
+  }
+}
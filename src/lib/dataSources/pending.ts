@@ -0,0 +1,42 @@
+import type { ExpandOptions, GraphData, GraphDataSource } from '../../types'
+import { cloneGraphData, getNeighborhood } from '../graph'
+import { applyEdit, type GraphEdit } from '../editing'
+
+/**
+ * Wraps a data source so graph reads reflect edits not yet applied to it
+ *
+ * `local` is the edited graph on screen. Neighbourhoods combine what the
+ * source returns (minus deleted elements) with the local neighbourhood, so
+ * new relationships and edited nodes show up. Cypher still runs against the
+ * source as it is
+ */
+export function createPendingEditsDataSource(
+  source: GraphDataSource,
+  edits: GraphEdit[],
+  local: GraphData
+): GraphDataSource {
+  return {
+    name: source.name,
+
+    async loadGraph() {
+      return edits.reduce(applyEdit, await source.loadGraph())
+    },
+
+    async getNeighbors(nodeId: string, options?: ExpandOptions) {
+      const fetched = edits
+        .filter(edit => edit.kind !== 'createNode' && edit.kind !== 'createSubgraph')
+        .reduce(applyEdit, await source.getNeighbors(nodeId, options))
+      const edited = cloneGraphData(getNeighborhood(local, nodeId, options))
+      const nodeIds = new Set(edited.nodes.map(node => node.id))
+      const relationshipIds = new Set(edited.relationships.map(rel => rel.id))
+      return {
+        nodes: [...edited.nodes, ...fetched.nodes.filter(node => !nodeIds.has(node.id))],
+        relationships: [...edited.relationships, ...fetched.relationships.filter(rel => !relationshipIds.has(rel.id))]
+          .slice(0, options?.limit)
+      }
+    },
+
+    runCypher: (query, params) => source.runCypher(query, params),
+    getSchema: () => source.getSchema()
+  }
+}
@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest'
+import type { GraphData, GraphNode } from '../types'
+import { executeCypher } from './cypher'
+import {
+  applyEdit,
+  createNodeEdit,
+  createRelationshipEdit,
+  createSubgraphEdit,
+  deleteNodeEdit,
+  describeEdit,
+  deleteRelationshipEdit,
+  editToCypher,
+  editWasApplied,
+  revertEdit,
+  updateNodeEdit,
+  type GraphEdit
+} from './editing'
+import { cloneGraphData } from './graph'
+
+const nasa: GraphNode = {
+  id: 'nasa',
+  label: 'NASA',
+  type: 'Company',
+  labels: ['Company', 'Agency'],
+  properties: { founded: 1958, achievement: 'Mars' }
+}
+
+const graph = (): GraphData => ({
+  nodes: [
+    { ...nasa, properties: { ...nasa.properties } },
+    { id: 'neo4j', label: 'Neo4j', type: 'Technology', properties: {} }
+  ],
+  relationships: [{ id: 'r1', source: 'nasa', target: 'neo4j', type: 'USES', properties: { since: 2016 } }]
+})
+
+const renamed: GraphNode = { ...nasa, label: 'NASA JPL', labels: ['Company', 'Lab'], properties: { founded: 1936 } }
+
+/** Order-independent plain copy, for comparing graphs */
+const plain = (data: GraphData) => {
+  const { nodes, relationships } = cloneGraphData(data)
+  const byId = (a: { id: string }, b: { id: string }) => a.id.localeCompare(b.id)
+  return { nodes: nodes.sort(byId), relationships: relationships.sort(byId) }
+}
+
+const edits: [string, GraphEdit][] = [
+  ['createNode', createNodeEdit({ id: 'rag', label: 'RAG', type: 'Concept', properties: { year: 2020 } })],
+  ['deleteNode', deleteNodeEdit(graph(), graph().nodes[0])],
+  ['updateNode', updateNodeEdit(nasa, renamed)],
+  ['createRelationship', createRelationshipEdit({ id: 'r2', source: 'neo4j', target: 'nasa', type: 'SERVES', properties: {} })],
+  ['deleteRelationship', deleteRelationshipEdit(graph().relationships[0])],
+  ['createSubgraph', createSubgraphEdit({
+    nodes: [
+      { id: 'doc', label: 'Report', type: 'Document', properties: { chunks: 1 } },
+      { id: 'doc-chunk-1', label: 'Report #1', type: 'Chunk', properties: { text: 'NASA uses Neo4j.' } }
+    ],
+    relationships: [
+      { id: 'doc-rel-1', source: 'doc', target: 'doc-chunk-1', type: 'HAS_CHUNK', properties: {} },
+      { id: 'doc-rel-2', source: 'doc-chunk-1', target: 'nasa', type: 'MENTIONS', properties: {} },
+      { id: 'doc-rel-3', source: 'doc-chunk-1', target: 'neo4j', type: 'MENTIONS', properties: {} }
+    ]
+  })]
+]
+
+describe('applyEdit and revertEdit', () => {
+  it.each(edits)('undo and redo a %s edit', (_, edit) => {
+    const original = graph()
+
+    const applied = applyEdit(original, edit)
+    const undone = revertEdit(applied, edit)
+    const redone = applyEdit(undone, edit)
+
+    expect(plain(applied)).not.toEqual(plain(original))
+    expect(plain(undone)).toEqual(plain(original))
+    expect(plain(redone)).toEqual(plain(applied))
+    expect(original).toEqual(graph())
+  })
+
+  it('brings a deleted node back with its relationships', () => {
+    const edit = deleteNodeEdit(graph(), graph().nodes[1])
+
+    const applied = applyEdit(graph(), edit)
+    expect(applied.relationships).toEqual([])
+    expect(revertEdit(applied, edit).relationships.map(rel => rel.id)).toEqual(['r1'])
+  })
+})
+
+describe('editToCypher', () => {
+  it('sets changed properties and labels and removes dropped ones', () => {
+    expect(editToCypher(updateNodeEdit(nasa, renamed))).toEqual({
+      query: 'MATCH (n:Company) WHERE (toString(n.id) = $id OR elementId(n) = $id) ' +
+        'SET n.label = $label, n.founded = $founded, n:Lab REMOVE n.achievement, n:Agency',
+      params: { id: 'nasa', label: 'NASA JPL', founded: 1936 }
+    })
+  })
+
+  it('leaves out SET or REMOVE when there is nothing for them', () => {
+    const { query } = editToCypher(updateNodeEdit(nasa, { ...nasa, properties: { founded: 1958 } }))
+
+    expect(query).toBe('MATCH (n:Company) WHERE (toString(n.id) = $id OR elementId(n) = $id) REMOVE n.achievement')
+  })
+
+  it.each(edits)('makes the same %s change in the query engine as in the graph', (_, edit) => {
+    const data = graph()
+    const { query, params } = editToCypher(edit)
+
+    const result = executeCypher(query, data, params)
+
+    expect(editWasApplied(result)).toBe(true)
+    expect(plain(data)).toEqual(plain(applyEdit(graph(), edit)))
+  })
+
+  it('creates a subgraph in one statement that changes nothing when an existing endpoint is missing', () => {
+    const [, subgraph] = edits[5]
+    const { query, params } = editToCypher(subgraph)
+
+    expect(query).toMatch(/^MATCH \(m1\) WHERE .* MATCH \(m2\) WHERE .* CREATE \(n1:Document \$node1\), /)
+    expect(query.match(/\bMATCH\b/g)).toHaveLength(2)
+    const data = graph()
+    data.nodes = data.nodes.filter(node => node.id !== 'neo4j')
+    expect(editWasApplied(executeCypher(query, data, params))).toBe(false)
+    expect(data.nodes.map(node => node.id)).toEqual(['nasa'])
+  })
+
+  it('reports an edit that matched nothing as not applied', () => {
+    const { query, params } = editToCypher(deleteNodeEdit(graph(), { ...nasa, id: 'missing' }))
+
+    expect(editWasApplied(executeCypher(query, graph(), params))).toBe(false)
+    expect(editWasApplied({ columns: [], rows: [], nodes: [], relationships: [] })).toBe(true)
+  })
+})
+
+describe('describeEdit', () => {
+  it('summarises a subgraph by its size and first node', () => {
+    const [, subgraph] = edits[5]
+
+    expect(describeEdit(subgraph, id => id)).toBe('Added 2 nodes and 3 relationships, starting with Document “Report”')
+  })
+})
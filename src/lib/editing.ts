@@ -0,0 +1,378 @@
+import type { CypherResult, CypherStatement, GraphData, GraphNode, GraphRelationship } from '../types'
+import { cloneNode, cloneRelationship, endpointId, nodeLabels } from './graph'
+import { createCypherBuilder, idPredicate, storableProperties, storableValue, type CypherBuilder } from './cypher'
+
+/**
+ * One change to the graph, holding enough of the old state to be undone
+ *
+ * Nodes and relationships are stored as plain copies (endpoints as ids),
+ * never as the objects the renderers mutate
+ */
+export type GraphEdit =
+  | { kind: 'createNode'; node: GraphNode }
+  /** Deleting a node also deletes its relationships */
+  | { kind: 'deleteNode'; node: GraphNode; relationships: GraphRelationship[] }
+  /** Caption, labels or properties changed */
+  | { kind: 'updateNode'; before: GraphNode; after: GraphNode }
+  | { kind: 'createRelationship'; relationship: GraphRelationship }
+  | { kind: 'deleteRelationship'; relationship: GraphRelationship }
+  /** Nodes and relationships added as one change, e.g. an ingested document; relationships may end at existing nodes */
+  | { kind: 'createSubgraph'; nodes: GraphNode[]; relationships: GraphRelationship[] }
+
+/**
+ * Undo and redo stacks; `done` is also the change set not yet applied
+ * to the data source, oldest first
+ */
+export interface EditHistory {
+  done: GraphEdit[]
+  undone: GraphEdit[]
+}
+
+export const emptyEditHistory: EditHistory = { done: [], undone: [] }
+
+export function createNodeEdit(node: GraphNode): GraphEdit {
+  return { kind: 'createNode', node: cloneNode(node) }
+}
+
+/**
+ * Deletes a node together with every relationship attached to it
+ */
+export function deleteNodeEdit(data: GraphData, node: GraphNode): GraphEdit {
+  return {
+    kind: 'deleteNode',
+    node: cloneNode(node),
+    relationships: data.relationships
+      .filter(rel => endpointId(rel.source) === node.id || endpointId(rel.target) === node.id)
+      .map(cloneRelationship)
+  }
+}
+
+export function updateNodeEdit(before: GraphNode, after: GraphNode): GraphEdit {
+  return { kind: 'updateNode', before: cloneNode(before), after: cloneNode(after) }
+}
+
+export function createRelationshipEdit(relationship: GraphRelationship): GraphEdit {
+  return { kind: 'createRelationship', relationship: cloneRelationship(relationship) }
+}
+
+export function deleteRelationshipEdit(relationship: GraphRelationship): GraphEdit {
+  return { kind: 'deleteRelationship', relationship: cloneRelationship(relationship) }
+}
+
+/**
+ * Adds a whole subgraph, undone and applied to the data source in one step
+ */
+export function createSubgraphEdit(data: GraphData): GraphEdit {
+  return { kind: 'createSubgraph', nodes: data.nodes.map(cloneNode), relationships: data.relationships.map(cloneRelationship) }
+}
+
+/**
+ * Applies an edit without mutating `data`
+ *
+ * Untouched nodes and relationships keep their objects, so positions the
+ * renderers stored on them carry over; an updated node keeps its position.
+ * Relationships whose endpoints are not in `data` (e.g. outside an
+ * exploration) are skipped
+ */
+export function applyEdit(data: GraphData, edit: GraphEdit): GraphData {
+  switch (edit.kind) {
+    case 'createNode':
+      if (data.nodes.some(node => node.id === edit.node.id)) return data
+      return { nodes: [...data.nodes, cloneNode(edit.node)], relationships: data.relationships }
+
+    case 'deleteNode': {
+      const { id } = edit.node
+      const nodes = data.nodes.filter(node => node.id !== id)
+      if (nodes.length === data.nodes.length) return data
+      return {
+        nodes,
+        relationships: data.relationships.filter(rel =>
+          endpointId(rel.source) !== id && endpointId(rel.target) !== id
+        )
+      }
+    }
+
+    case 'updateNode': {
+      const { after } = edit
+      const current = data.nodes.find(node => node.id === after.id)
+      if (!current) return data
+      const updated: GraphNode = {
+        ...cloneNode(after),
+        x: current.x,
+        y: current.y,
+        fx: current.fx,
+        fy: current.fy
+      }
+      return {
+        nodes: data.nodes.map(node => (node === current ? updated : node)),
+        // D3 may have replaced endpoint ids with the old node object
+        relationships: data.relationships.map(rel =>
+          rel.source === current || rel.target === current ? cloneRelationship(rel) : rel
+        )
+      }
+    }
+
+    case 'createRelationship': {
+      const { relationship } = edit
+      const ids = new Set(data.nodes.map(node => node.id))
+      if (!ids.has(endpointId(relationship.source)) || !ids.has(endpointId(relationship.target))) return data
+      if (data.relationships.some(rel => rel.id === relationship.id)) return data
+      return { nodes: data.nodes, relationships: [...data.relationships, cloneRelationship(relationship)] }
+    }
+
+    case 'deleteRelationship': {
+      const relationships = data.relationships.filter(rel => rel.id !== edit.relationship.id)
+      return relationships.length === data.relationships.length ? data : { nodes: data.nodes, relationships }
+    }
+
+    case 'createSubgraph':
+      return edit.relationships.reduce(
+        (current, relationship) => applyEdit(current, { kind: 'createRelationship', relationship }),
+        edit.nodes.reduce((current, node) => applyEdit(current, { kind: 'createNode', node }), data)
+      )
+  }
+}
+
+/**
+ * Reverts an edit, bringing a deleted node back with its relationships
+ */
+export function revertEdit(data: GraphData, edit: GraphEdit): GraphData {
+  switch (edit.kind) {
+    case 'createNode':
+      return applyEdit(data, { kind: 'deleteNode', node: edit.node, relationships: [] })
+    case 'deleteNode':
+      return edit.relationships.reduce(
+        (current, relationship) => applyEdit(current, { kind: 'createRelationship', relationship }),
+        applyEdit(data, { kind: 'createNode', node: edit.node })
+      )
+    case 'updateNode':
+      return applyEdit(data, { kind: 'updateNode', before: edit.after, after: edit.before })
+    case 'createRelationship':
+      return applyEdit(data, { kind: 'deleteRelationship', relationship: edit.relationship })
+    case 'deleteRelationship':
+      return applyEdit(data, { kind: 'createRelationship', relationship: edit.relationship })
+    case 'createSubgraph':
+      return edit.nodes.reduce(
+        (current, node) => applyEdit(current, { kind: 'deleteNode', node, relationships: [] }),
+        edit.relationships.reduce(
+          (current, relationship) => applyEdit(current, { kind: 'deleteRelationship', relationship }),
+          data
+        )
+      )
+  }
+}
+
+/**
+ * Records a new edit; it can no longer be followed by a redo
+ */
+export function recordEdit(history: EditHistory, edit: GraphEdit): EditHistory {
+  return { done: [...history.done, edit], undone: [] }
+}
+
+/**
+ * An id not used by any of the given elements, e.g. `node-16`
+ */
+export function unusedId(prefix: string, elements: { id: string }[]): string {
+  const taken = new Set(elements.map(element => element.id))
+  let n = elements.length + 1
+  while (taken.has(`${prefix}-${n}`)) n++
+  return `${prefix}-${n}`
+}
+
+// ---- Cypher ----
+
+function matchNode(cypher: CypherBuilder, variable: string, node: GraphNode): string {
+  return `(${variable}${cypher.labels(nodeLabels(node).slice(0, 1))}) WHERE ${idPredicate(cypher, variable, node.id)}`
+}
+
+/**
+ * The Cypher statement making the same change in Neo4j
+ *
+ * Elements are matched on their `id` property or, when they were loaded from
+ * Neo4j without one, their element id. The caption is stored as the `label`
+ * property, as in the Cypher export
+ */
+export function editToCypher(edit: GraphEdit): CypherStatement {
+  const cypher = createCypherBuilder()
+  switch (edit.kind) {
+    case 'createNode': {
+      const { node } = edit
+      const properties = storableProperties({ id: node.id, label: node.label, ...node.properties })
+      return cypher.build(`CREATE (n${cypher.labels(nodeLabels(node))} ${cypher.param(properties, 'properties')})`)
+    }
+
+    case 'deleteNode':
+      return cypher.build(`MATCH ${matchNode(cypher, 'n', edit.node)} DETACH DELETE n`)
+
+    case 'updateNode': {
+      const { before, after } = edit
+      const match = matchNode(cypher, 'n', before)
+      const sets: string[] = []
+      const removes: string[] = []
+      if (after.label !== before.label) sets.push(`n.label = ${cypher.param(after.label, 'label')}`)
+      Object.entries(after.properties).forEach(([key, value]) => {
+        if (JSON.stringify(value) !== JSON.stringify(before.properties[key])) {
+          sets.push(`n.${cypher.name(key)} = ${cypher.param(storableValue(value), key)}`)
+        }
+      })
+      Object.keys(before.properties)
+        .filter(key => !(key in after.properties))
+        .forEach(key => removes.push(`n.${cypher.name(key)}`))
+      // Labels are added before others are removed, so the node always keeps one
+      const beforeLabels = nodeLabels(before)
+      const afterLabels = nodeLabels(after)
+      const added = afterLabels.filter(label => !beforeLabels.includes(label))
+      const removed = beforeLabels.filter(label => !afterLabels.includes(label))
+      if (added.length > 0) sets.push(`n${cypher.labels(added)}`)
+      if (removed.length > 0) removes.push(`n${cypher.labels(removed)}`)
+      return cypher.build([
+        `MATCH ${match}`,
+        ...(sets.length > 0 ? [`SET ${sets.join(', ')}`] : []),
+        ...(removes.length > 0 ? [`REMOVE ${removes.join(', ')}`] : [])
+      ].join(' '))
+    }
+
+    case 'createRelationship': {
+      const { relationship } = edit
+      const properties = storableProperties({ id: relationship.id, ...relationship.properties })
+      return cypher.build([
+        `MATCH (a), (b) WHERE ${idPredicate(cypher, 'a', endpointId(relationship.source), 'node', 'source')}`,
+        `AND ${idPredicate(cypher, 'b', endpointId(relationship.target), 'node', 'target')}`,
+        `CREATE (a)-[r:${cypher.name(relationship.type)} ${cypher.param(properties, 'properties')}]->(b)`
+      ].join(' '))
+    }
+
+    case 'deleteRelationship': {
+      const { relationship } = edit
+      return cypher.build(
+        `MATCH ()-[r:${cypher.name(relationship.type)}]->() WHERE ${idPredicate(cypher, 'r', relationship.id, 'relationship')} DELETE r`
+      )
+    }
+
+    case 'createSubgraph': {
+      // Endpoints outside the subgraph are matched first; if one is missing
+      // the statement creates nothing
+      const created = new Map(edit.nodes.map((node, index) => [node.id, `n${index + 1}`]))
+      const matched = new Map<string, string>()
+      const matches: string[] = []
+      const endpoint = (id: string) => {
+        let variable = created.get(id) ?? matched.get(id)
+        if (!variable) {
+          variable = `m${matched.size + 1}`
+          matched.set(id, variable)
+          matches.push(`MATCH (${variable}) WHERE ${idPredicate(cypher, variable, id)}`)
+        }
+        return variable
+      }
+      const patterns = [
+        ...edit.nodes.map((node, index) => {
+          const properties = storableProperties({ id: node.id, label: node.label, ...node.properties })
+          return `(n${index + 1}${cypher.labels(nodeLabels(node))} ${cypher.param(properties, `node${index + 1}`)})`
+        }),
+        ...edit.relationships.map((relationship, index) => {
+          const properties = storableProperties({ id: relationship.id, ...relationship.properties })
+          const source = endpoint(endpointId(relationship.source))
+          const target = endpoint(endpointId(relationship.target))
+          return `(${source})-[:${cypher.name(relationship.type)} ${cypher.param(properties, `relationship${index + 1}`)}]->(${target})`
+        })
+      ]
+      return cypher.build([...matches, `CREATE ${patterns.join(', ')}`].join(' '))
+    }
+  }
+}
+
+/**
+ * Whether running an edit's statement changed anything, judged by the
+ * counters the data source reported; sources reporting none are trusted
+ */
+export function editWasApplied(result: CypherResult): boolean {
+  return !result.counters || Object.values(result.counters).some(count => count > 0)
+}
+
+/**
+ * One-line summary of an edit for the change log, naming nodes through `nodeLabel`
+ */
+export function describeEdit(edit: GraphEdit, nodeLabel: (id: string) => string): string {
+  switch (edit.kind) {
+    case 'createNode':
+      return `Added ${edit.node.type} “${edit.node.label}”`
+    case 'deleteNode': {
+      const count = edit.relationships.length
+      const cascade = count > 0 ? ` and ${count} relationship${count === 1 ? '' : 's'}` : ''
+      return `Deleted ${edit.node.type} “${edit.node.label}”${cascade}`
+    }
+    case 'updateNode': {
+      const { before, after } = edit
+      const keys = new Set([...Object.keys(before.properties), ...Object.keys(after.properties)])
+      const changed = [...keys].filter(key =>
+        JSON.stringify(before.properties[key]) !== JSON.stringify(after.properties[key])
+      )
+      if (after.label !== before.label) changed.unshift('caption')
+      if (nodeLabels(after).join() !== nodeLabels(before).join()) changed.unshift('labels')
+      return `Edited “${after.label}”: ${changed.join(', ') || 'no changes'}`
+    }
+    case 'createRelationship':
+    case 'deleteRelationship': {
+      const { relationship } = edit
+      const verb = edit.kind === 'createRelationship' ? 'Connected' : 'Disconnected'
+      return `${verb} ${nodeLabel(endpointId(relationship.source))} -[:${relationship.type}]→ ${nodeLabel(endpointId(relationship.target))}`
+    }
+    case 'createSubgraph': {
+      const [first] = edit.nodes
+      const nodes = `${edit.nodes.length} node${edit.nodes.length === 1 ? '' : 's'}`
+      const relationships = `${edit.relationships.length} relationship${edit.relationships.length === 1 ? '' : 's'}`
+      return `Added ${nodes} and ${relationships}${first ? `, starting with ${first.type} “${first.label}”` : ''}`
+    }
+  }
+}
+
+// ---- Typed property values ----
+
+export type PropertyType = 'string' | 'number' | 'boolean' | 'list'
+
+export const propertyTypes: PropertyType[] = ['string', 'number', 'boolean', 'list']
+
+export function propertyType(value: unknown): PropertyType {
+  if (Array.isArray(value)) return 'list'
+  if (typeof value === 'number') return 'number'
+  if (typeof value === 'boolean') return 'boolean'
+  return 'string'
+}
+
+/**
+ * Text shown when editing a value: lists as comma separated items
+ */
+export function propertyText(value: unknown): string {
+  if (Array.isArray(value)) return value.map(String).join(', ')
+  if (value !== null && typeof value === 'object') return JSON.stringify(value)
+  return String(value ?? '')
+}
+
+/**
+ * Reads a typed property value from text; list items are numbers when they
+ * all are, booleans when they all are, strings otherwise
+ * @throws Error when the text is not a valid value of that type
+ */
+export function parsePropertyValue(text: string, type: PropertyType): unknown {
+  const trimmed = text.trim()
+  switch (type) {
+    case 'string':
+      return text
+    case 'number': {
+      const value = Number(trimmed)
+      if (trimmed === '' || !Number.isFinite(value)) throw new Error(`"${text}" is not a number`)
+      return value
+    }
+    case 'boolean':
+      if (/^(true|false)$/i.test(trimmed)) return trimmed.toLowerCase() === 'true'
+      throw new Error('Booleans are true or false')
+    case 'list': {
+      const items = trimmed.replace(/^\[|\]$/g, '').split(',').map(item => item.trim()).filter(Boolean)
+      if (items.length > 0 && items.every(item => Number.isFinite(Number(item)))) return items.map(Number)
+      if (items.length > 0 && items.every(item => /^(true|false)$/i.test(item))) {
+        return items.map(item => item.toLowerCase() === 'true')
+      }
+      return items.map(item => item.replace(/^(["'])(.*)\1$/, '$2'))
+    }
+  }
+}
@@ -0,0 +1,100 @@
+import type { ExpandOptions, GraphData, GraphNode } from '../types'
+import { endpointId } from './graph'
+
+/**
+ * The part of the graph on screen, grown from seed nodes by expanding them
+ *
+ * Node and relationship objects are shared between explorations, so the
+ * positions D3 stores on them carry over when nodes are added or removed
+ */
+export interface Exploration {
+  graph: GraphData
+  /** Node whose expansion brought each node into view; seeds have none */
+  origin: Record<string, string>
+  /** Nodes whose neighbours have been merged in */
+  expanded: string[]
+}
+
+/** One entry of the exploration history, shown as a breadcrumb */
+export interface ExplorationStep {
+  id: string
+  label: string
+  exploration: Exploration
+}
+
+/**
+ * Starts exploring from the given nodes (a seed node, search results or the
+ * whole loaded graph), keeping the relationships between them
+ */
+export function startExploration(graph: GraphData): Exploration {
+  return { graph, origin: {}, expanded: [] }
+}
+
+/**
+ * Merges the neighbours of an expanded node into view
+ * Nodes and relationships already on screen keep their objects
+ */
+export function expandNode(exploration: Exploration, nodeId: string, neighbors: GraphData): Exploration {
+  const { graph } = exploration
+  const nodeIds = new Set(graph.nodes.map(node => node.id))
+  const relationshipIds = new Set(graph.relationships.map(rel => rel.id))
+
+  const addedNodes = neighbors.nodes.filter(node => !nodeIds.has(node.id))
+  addedNodes.forEach(node => nodeIds.add(node.id))
+  const addedRelationships = neighbors.relationships.filter(rel =>
+    !relationshipIds.has(rel.id) &&
+    nodeIds.has(endpointId(rel.source)) &&
+    nodeIds.has(endpointId(rel.target))
+  )
+
+  const origin = { ...exploration.origin }
+  addedNodes.forEach(node => {
+    origin[node.id] = nodeId
+  })
+
+  return {
+    graph: {
+      nodes: addedNodes.length ? [...graph.nodes, ...addedNodes] : graph.nodes,
+      relationships: addedRelationships.length ? [...graph.relationships, ...addedRelationships] : graph.relationships
+    },
+    origin,
+    expanded: exploration.expanded.includes(nodeId) ? exploration.expanded : [...exploration.expanded, nodeId]
+  }
+}
+
+/**
+ * Removes what expanding a node brought into view, including whatever
+ * expanding those nodes brought in turn
+ */
+export function collapseNode(exploration: Exploration, nodeId: string): Exploration {
+  const removed = new Set<string>()
+  const queue = [nodeId]
+  while (queue.length > 0) {
+    const parent = queue.shift()!
+    Object.entries(exploration.origin).forEach(([id, from]) => {
+      if (from !== parent || removed.has(id)) return
+      removed.add(id)
+      queue.push(id)
+    })
+  }
+
+  return {
+    graph: {
+      nodes: exploration.graph.nodes.filter(node => !removed.has(node.id)),
+      relationships: exploration.graph.relationships.filter(rel =>
+        !removed.has(endpointId(rel.source)) && !removed.has(endpointId(rel.target))
+      )
+    },
+    origin: Object.fromEntries(Object.entries(exploration.origin).filter(([id]) => !removed.has(id))),
+    expanded: exploration.expanded.filter(id => id !== nodeId && !removed.has(id))
+  }
+}
+
+/**
+ * Breadcrumb text for an expansion, e.g. "Neo4j → USES"
+ */
+export function describeExpansion(node: GraphNode, options: ExpandOptions = {}): string {
+  const arrow = { outgoing: '→', incoming: '←', both: '—' }[options.direction ?? 'both']
+  const types = options.types?.length ? options.types.join(', ') : 'all'
+  return `${node.label} ${arrow} ${types}`
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest'
+import type { GraphData } from '../../types'
+import { toCsv, toCsvText } from './csv'
+
+describe('toCsv', () => {
+  it('keeps properties named like the other table\'s columns', () => {
+    const data: GraphData = {
+      nodes: [
+        { id: 'rag', label: 'RAG', type: 'Concept', properties: { source: 'Notes', target: 'LLMs' } },
+        { id: 'neo4j', label: 'Neo4j', type: 'Technology', properties: {} }
+      ],
+      relationships: [{ id: 'r1', source: 'rag', target: 'neo4j', type: 'USES', properties: { label: 'often' } }]
+    }
+
+    expect(toCsv(data)).toEqual({
+      nodes: 'id,label,type,source,target\r\nrag,RAG,Concept,Notes,LLMs\r\nneo4j,Neo4j,Technology,,\r\n',
+      relationships: 'id,source,target,type,label\r\nr1,rag,neo4j,USES,often\r\n'
+    })
+  })
+
+  it('prefixes properties that clash with the table\'s own columns', () => {
+    const data: GraphData = {
+      nodes: [{ id: 'n1', label: 'Acme', type: 'Company', labels: ['Company', 'Vendor'], properties: { type: 'supplier', property_type: 'taken' } }],
+      relationships: []
+    }
+
+    expect(toCsv(data).nodes).toBe(
+      'id,label,type,property_type,property_property_type\r\nn1,Acme,Company;Vendor,taken,supplier\r\n'
+    )
+  })
+})
+
+describe('toCsvText', () => {
+  it('quotes fields with separators and writes objects as JSON', () => {
+    expect(toCsvText([['a,b', 'say "hi"', ['x', 1], null]])).toBe('"a,b","say ""hi""","[""x"",1]",\r\n')
+  })
+})
@@ -0,0 +1,69 @@
+import type { GraphData } from '../../types'
+import { endpointId, nodeLabels } from '../graph'
+
+const NODE_COLUMNS = ['id', 'label', 'type']
+const RELATIONSHIP_COLUMNS = ['id', 'source', 'target', 'type']
+
+/**
+ * Writes a node CSV and a relationship CSV with one column per property key
+ * Headers match what the CSV importer maps automatically; multiple labels
+ * are joined with ";" as neo4j-admin does. A property named like one of its
+ * table's own columns (a node's `type`, say) is written as `property_type`
+ */
+export function toCsv(data: GraphData): { nodes: string; relationships: string } {
+  const nodeKeys = propertyColumns(data.nodes.map(node => node.properties), NODE_COLUMNS)
+  const relationshipKeys = propertyColumns(data.relationships.map(rel => rel.properties ?? {}), RELATIONSHIP_COLUMNS)
+
+  const nodes = [
+    [...NODE_COLUMNS, ...nodeKeys.map(({ header }) => header)],
+    ...data.nodes.map(node => [
+      node.id,
+      node.label,
+      nodeLabels(node).join(';'),
+      ...nodeKeys.map(({ key }) => node.properties[key])
+    ])
+  ]
+  const relationships = [
+    [...RELATIONSHIP_COLUMNS, ...relationshipKeys.map(({ header }) => header)],
+    ...data.relationships.map(rel => [
+      rel.id,
+      endpointId(rel.source),
+      endpointId(rel.target),
+      rel.type,
+      ...relationshipKeys.map(({ key }) => rel.properties?.[key])
+    ])
+  ]
+
+  return { nodes: toCsvText(nodes), relationships: toCsvText(relationships) }
+}
+
+/**
+ * Serialises rows as RFC 4180 CSV; objects and lists are written as JSON
+ */
+export function toCsvText(rows: unknown[][]): string {
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  const text = typeof value === 'object' ? JSON.stringify(value) : String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+/**
+ * Property keys in header order, each with the column it is written to:
+ * its own name, or a prefixed one when the table already has that column
+ */
+function propertyColumns(records: Record<string, unknown>[], reserved: string[]): { key: string; header: string }[] {
+  const keys = new Set<string>()
+  records.forEach(record => Object.keys(record).forEach(key => keys.add(key)))
+  const sorted = [...keys].sort()
+  const taken = new Set([...reserved, ...sorted])
+  return sorted.map(key => {
+    if (!reserved.includes(key)) return { key, header: key }
+    let header = `property_${key}`
+    while (taken.has(header)) header = `property_${header}`
+    taken.add(header)
+    return { key, header }
+  })
+}
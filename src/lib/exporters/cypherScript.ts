@@ -0,0 +1,80 @@
+import type { CypherStatement, GraphData } from '../../types'
+import { endpointId, nodeLabels } from '../graph'
+import { createCypherBuilder, storableProperties, toCypherScriptText } from '../cypher'
+
+// Rows per UNWIND statement, small enough for a comfortable transaction
+const BATCH_SIZE = 500
+
+/**
+ * Writes a runnable script that MERGEs every node on its id and every
+ * relationship on its id between the matched endpoints, so running it
+ * twice leaves the database unchanged
+ *
+ * Elements sharing labels (or a type and endpoint labels) are written in
+ * batches: a `:param rows => [...]` command followed by an UNWIND over it
+ */
+export function toCypherScript(data: GraphData): string {
+  const typeOf = new Map(data.nodes.map(node => [node.id, node.type]))
+  const statements: CypherStatement[] = []
+
+  const nodeGroups = groupBy(data.nodes, node => nodeLabels(node).join('\u0000'))
+  nodeGroups.forEach(nodes => {
+    const [primary, ...others] = nodeLabels(nodes[0])
+    const rows = nodes.map(node => ({ id: node.id, properties: storableProperties({ label: node.label, ...node.properties }) }))
+    batches(rows).forEach(batch => {
+      const cypher = createCypherBuilder()
+      const extraLabels = others.length > 0 ? `, n${cypher.labels(others)}` : ''
+      statements.push(cypher.build(
+        `UNWIND ${cypher.param(batch, 'rows')} AS row MERGE (n${cypher.labels([primary])} {id: row.id}) SET n += row.properties${extraLabels}`
+      ))
+    })
+  })
+
+  const relationshipGroups = groupBy(data.relationships, rel =>
+    [rel.type, typeOf.get(endpointId(rel.source)) ?? '', typeOf.get(endpointId(rel.target)) ?? ''].join('\u0000')
+  )
+  relationshipGroups.forEach(relationships => {
+    const [first] = relationships
+    const sourceType = typeOf.get(endpointId(first.source))
+    const targetType = typeOf.get(endpointId(first.target))
+    const rows = relationships.map(rel => ({
+      id: rel.id,
+      source: endpointId(rel.source),
+      target: endpointId(rel.target),
+      properties: storableProperties(rel.properties ?? {})
+    }))
+    batches(rows).forEach(batch => {
+      const cypher = createCypherBuilder()
+      const match = (variable: string, type: string | undefined, key: string) =>
+        `(${variable}${type ? cypher.labels([type]) : ''} {id: row.${key}})`
+      statements.push(cypher.build([
+        `UNWIND ${cypher.param(batch, 'rows')} AS row`,
+        `MATCH ${match('a', sourceType, 'source')}, ${match('b', targetType, 'target')}`,
+        `MERGE (a)-[r:${cypher.name(first.type)} {id: row.id}]->(b)`,
+        'SET r += row.properties'
+      ].join(' ')))
+    })
+  })
+
+  return [
+    `// ${data.nodes.length} nodes, ${data.relationships.length} relationships`,
+    toCypherScriptText(statements),
+    ''
+  ].join('\n')
+}
+
+function groupBy<T>(items: T[], key: (item: T) => string): T[][] {
+  const groups = new Map<string, T[]>()
+  items.forEach(item => {
+    const group = groups.get(key(item))
+    if (group) group.push(item)
+    else groups.set(key(item), [item])
+  })
+  return [...groups.values()]
+}
+
+function batches<T>(items: T[]): T[][] {
+  const result: T[][] = []
+  for (let i = 0; i < items.length; i += BATCH_SIZE) result.push(items.slice(i, i + BATCH_SIZE))
+  return result
+}
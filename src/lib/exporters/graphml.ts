@@ -0,0 +1,89 @@
+import type { GraphData } from '../../types'
+import { endpointId, nodeLabels } from '../graph'
+
+type GraphMLType = 'string' | 'int' | 'double' | 'boolean'
+
+/**
+ * Writes GraphML in the shape apoc.export.graphml produces: node labels in a
+ * `labels` attribute and data key (":Label"), relationship types in `label`
+ * Lists and other non-scalar values are stored as JSON strings
+ */
+export function toGraphML(data: GraphData): string {
+  const nodeKeys = collectKeys(data.nodes.map(node => ({ label: node.label, ...node.properties })))
+  const edgeKeys = collectKeys(data.relationships.map(rel => rel.properties ?? {}))
+
+  const keyElements = [
+    '  <key id="n_labels" for="node" attr.name="labels" attr.type="string"/>',
+    ...[...nodeKeys].map(([name, type]) =>
+      `  <key id="n_${escapeXml(name)}" for="node" attr.name="${escapeXml(name)}" attr.type="${type}"/>`),
+    '  <key id="e_label" for="edge" attr.name="label" attr.type="string"/>',
+    ...[...edgeKeys].map(([name, type]) =>
+      `  <key id="e_${escapeXml(name)}" for="edge" attr.name="${escapeXml(name)}" attr.type="${type}"/>`)
+  ]
+
+  const dataElements = (prefix: string, values: Record<string, unknown>) =>
+    Object.entries(values)
+      .filter(([, value]) => value !== null && value !== undefined)
+      .map(([key, value]) => `      <data key="${prefix}_${escapeXml(key)}">${escapeXml(formatValue(value))}</data>`)
+
+  const nodes = data.nodes.flatMap(node => {
+    const labels = escapeXml(nodeLabels(node).map(label => `:${label}`).join(''))
+    return [
+      `    <node id="${escapeXml(node.id)}" labels="${labels}">`,
+      `      <data key="n_labels">${labels}</data>`,
+      ...dataElements('n', { label: node.label, ...node.properties }),
+      '    </node>'
+    ]
+  })
+
+  const edges = data.relationships.flatMap(rel => [
+    `    <edge id="${escapeXml(rel.id)}" source="${escapeXml(endpointId(rel.source))}" target="${escapeXml(endpointId(rel.target))}" label="${escapeXml(rel.type)}">`,
+    `      <data key="e_label">${escapeXml(rel.type)}</data>`,
+    ...dataElements('e', rel.properties ?? {}),
+    '    </edge>'
+  ])
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<graphml xmlns="http://graphml.graphdrawing.org/xmlns">',
+    ...keyElements,
+    '  <graph id="G" edgedefault="directed">',
+    ...nodes,
+    ...edges,
+    '  </graph>',
+    '</graphml>',
+    ''
+  ].join('\n')
+}
+
+/**
+ * Property names with a GraphML type; keys holding mixed types fall back to string
+ */
+function collectKeys(records: Record<string, unknown>[]): Map<string, GraphMLType> {
+  const keys = new Map<string, GraphMLType>()
+  records.forEach(record => Object.entries(record).forEach(([key, value]) => {
+    if (value === null || value === undefined) return
+    const type = typeOf(value)
+    const existing = keys.get(key)
+    keys.set(key, existing && existing !== type ? 'string' : type)
+  }))
+  return keys
+}
+
+function typeOf(value: unknown): GraphMLType {
+  if (typeof value === 'boolean') return 'boolean'
+  if (typeof value === 'number') return Number.isInteger(value) ? 'int' : 'double'
+  return 'string'
+}
+
+function formatValue(value: unknown): string {
+  return typeof value === 'object' ? JSON.stringify(value) : String(value)
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
@@ -0,0 +1,164 @@
+import type { GraphData } from '../../types'
+import { endpointId } from '../graph'
+import { nodeColor } from '../styles'
+
+export interface LegendEntry {
+  label: string
+  color: string
+}
+
+export interface StandaloneSvg {
+  markup: string
+  width: number
+  height: number
+}
+
+// Presentation properties Tailwind applies through classes, which a standalone file loses
+const INLINED_STYLES = ['fill', 'stroke', 'font-size', 'font-family', 'font-weight']
+const PADDING = 40
+const LEGEND_ROW_HEIGHT = 18
+const NODE_RADIUS = 20
+
+/**
+ * Serialises the graph SVG as a standalone document framing the whole graph
+ * (not just the zoomed viewport) with a legend in the top-right corner
+ */
+export function serializeGraphSvg(svg: SVGSVGElement, legend: LegendEntry[]): StandaloneSvg {
+  const root = svg.querySelector<SVGGElement>(':scope > g')
+  if (!root) return standaloneSvg('', { x: 0, y: 0, width: svg.clientWidth, height: svg.clientHeight }, legend)
+  const clone = root.cloneNode(true) as SVGGElement
+
+  // Copy computed class styles onto the clone, element by element
+  const originals = root.querySelectorAll<SVGElement>('text')
+  const copies = clone.querySelectorAll<SVGElement>('text')
+  originals.forEach((original, index) => {
+    const computed = getComputedStyle(original)
+    const style = INLINED_STYLES.map(name => `${name}:${computed.getPropertyValue(name)}`).join(';')
+    copies[index].setAttribute('style', style)
+    copies[index].removeAttribute('class')
+  })
+
+  // Frame the content in its own coordinates, ignoring the current zoom transform
+  clone.removeAttribute('transform')
+  return standaloneSvg(new XMLSerializer().serializeToString(clone), root.getBBox(), legend)
+}
+
+/**
+ * Draws a graph as a standalone SVG from node positions, for renderers that
+ * have no SVG of their own; nodes without a position are left out
+ */
+export function renderGraphSvg(
+  data: GraphData,
+  positionOf: (id: string) => { x: number; y: number } | undefined,
+  legend: LegendEntry[]
+): StandaloneSvg {
+  const links = data.relationships.flatMap(rel => {
+    const source = positionOf(endpointId(rel.source))
+    const target = positionOf(endpointId(rel.target))
+    if (!source || !target) return []
+    return [
+      `<line x1="${source.x}" y1="${source.y}" x2="${target.x}" y2="${target.y}" stroke="#cbd5e1" stroke-width="1.5" stroke-opacity="0.6"/>`,
+      `<text x="${(source.x + target.x) / 2}" y="${(source.y + target.y) / 2 - 5}" font-size="10" fill="#475569" fill-opacity="0.7" text-anchor="middle">${escapeText(rel.type.replace(/_/g, ' '))}</text>`
+    ]
+  })
+
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity
+  const nodes = data.nodes.flatMap(node => {
+    const position = positionOf(node.id)
+    if (!position) return []
+    const { x, y } = position
+    minX = Math.min(minX, x - NODE_RADIUS)
+    maxX = Math.max(maxX, x + NODE_RADIUS)
+    minY = Math.min(minY, y - NODE_RADIUS)
+    maxY = Math.max(maxY, y + NODE_RADIUS + 20)
+    return [
+      `<g transform="translate(${x},${y})">`,
+      `<circle r="${NODE_RADIUS}" fill="${nodeColor(node)}" stroke="#ffffff" stroke-width="2"/>`,
+      `<text dy="5" font-size="10" font-weight="700" fill="#ffffff" text-anchor="middle">${escapeText(node.type.charAt(0))}</text>`,
+      `<text dy="35" font-size="12" font-weight="500" fill="#334155" text-anchor="middle">${escapeText(node.label)}</text>`,
+      '</g>'
+    ]
+  })
+
+  const box = nodes.length > 0
+    ? { x: minX, y: minY, width: maxX - minX, height: maxY - minY }
+    : { x: 0, y: 0, width: 0, height: 0 }
+  const content = `<g font-family="system-ui, sans-serif">${[...links, ...nodes].join('')}</g>`
+  return standaloneSvg(content, box, legend)
+}
+
+/**
+ * Wraps graph markup in an SVG document with a white background, padding
+ * around the content box and the legend
+ */
+function standaloneSvg(
+  content: string,
+  box: { x: number; y: number; width: number; height: number },
+  legend: LegendEntry[]
+): StandaloneSvg {
+  const legendWidth = legend.length > 0
+    ? 40 + Math.max(...legend.map(entry => entry.label.length)) * 7
+    : 0
+  const x = box.x - PADDING
+  const y = box.y - PADDING
+  const width = box.width + PADDING * 2 + legendWidth
+  const height = Math.max(box.height + PADDING * 2, legend.length * LEGEND_ROW_HEIGHT + 40)
+
+  const legendGroup = legend.length > 0
+    ? [
+      `<g transform="translate(${x + width - legendWidth - 10},${y + 10})" font-family="system-ui, sans-serif" font-size="12">`,
+      `<rect width="${legendWidth}" height="${legend.length * LEGEND_ROW_HEIGHT + 32}" rx="8" fill="#ffffff" stroke="#e2e8f0"/>`,
+      '<text x="12" y="20" font-weight="600" fill="#334155">Labels</text>',
+      ...legend.map((entry, i) => {
+        const rowY = 38 + i * LEGEND_ROW_HEIGHT
+        return `<circle cx="18" cy="${rowY - 4}" r="6" fill="${entry.color}"/>` +
+          `<text x="30" y="${rowY}" fill="#475569">${escapeText(entry.label)}</text>`
+      }),
+      '</g>'
+    ].join('')
+    : ''
+
+  const markup = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${x} ${y} ${width} ${height}" width="${Math.round(width)}" height="${Math.round(height)}">`,
+    `<rect x="${x}" y="${y}" width="${width}" height="${height}" fill="#ffffff"/>`,
+    content,
+    legendGroup,
+    '</svg>'
+  ].join('\n')
+  return { markup, width, height }
+}
+
+/**
+ * Rasterises standalone SVG markup to a PNG
+ */
+export function svgToPng(markup: string, width: number, height: number, scale = 2): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(new Blob([markup], { type: 'image/svg+xml' }))
+    const image = new Image()
+    image.onload = () => {
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.round(width * scale)
+      canvas.height = Math.round(height * scale)
+      const context = canvas.getContext('2d')
+      if (!context) {
+        URL.revokeObjectURL(url)
+        reject(new Error('Canvas is not available'))
+        return
+      }
+      context.scale(scale, scale)
+      context.drawImage(image, 0, 0, width, height)
+      URL.revokeObjectURL(url)
+      canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('PNG encoding failed'))), 'image/png')
+    }
+    image.onerror = () => {
+      URL.revokeObjectURL(url)
+      reject(new Error('Could not render the SVG'))
+    }
+    image.src = url
+  })
+}
+
+function escapeText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/"/g, '&quot;')
+}
@@ -0,0 +1,51 @@
+import type { GraphData } from '../../types'
+import { cloneGraphData } from '../graph'
+import { toCsv } from './csv'
+import { toCypherScript } from './cypherScript'
+import { toGraphML } from './graphml'
+
+export { toCsv, toCsvText } from './csv'
+export { toCypherScript } from './cypherScript'
+export { toGraphML } from './graphml'
+export { serializeGraphSvg, renderGraphSvg, svgToPng, type LegendEntry, type StandaloneSvg } from './image'
+
+export type ExportFormat = 'json' | 'graphml' | 'cypher' | 'csv'
+
+export interface ExportFile {
+  fileName: string
+  mimeType: string
+  content: string
+}
+
+export const exportFormats: Record<ExportFormat, string> = {
+  json: 'JSON',
+  graphml: 'GraphML',
+  cypher: 'Cypher',
+  csv: 'CSV'
+}
+
+/**
+ * Serialises graph data to one or more files (CSV produces a node and a relationship file)
+ *
+ * The data is cloned first: endpoints D3 replaced with node objects go back
+ * to ids and simulation fields (x, vx, fx, ...) are dropped
+ */
+export function exportGraph(data: GraphData, format: ExportFormat, baseName: string): ExportFile[] {
+  const clean = cloneGraphData(data)
+
+  switch (format) {
+    case 'json':
+      return [{ fileName: `${baseName}.json`, mimeType: 'application/json', content: JSON.stringify(clean, null, 2) }]
+    case 'graphml':
+      return [{ fileName: `${baseName}.graphml`, mimeType: 'application/xml', content: toGraphML(clean) }]
+    case 'cypher':
+      return [{ fileName: `${baseName}.cypher`, mimeType: 'text/plain', content: toCypherScript(clean) }]
+    case 'csv': {
+      const { nodes, relationships } = toCsv(clean)
+      return [
+        { fileName: `${baseName}-nodes.csv`, mimeType: 'text/csv', content: nodes },
+        { fileName: `${baseName}-relationships.csv`, mimeType: 'text/csv', content: relationships }
+      ]
+    }
+  }
+}
@@ -0,0 +1,218 @@
+import type { GraphData, GraphNode, SchemaElement } from '../types'
+import { endpointId, nodeLabels, subgraph } from './graph'
+
+export type PredicateOperator = '=' | '!=' | '>' | '>=' | '<' | '<=' | 'contains' | 'exists' | 'missing'
+
+/**
+ * Condition on a node property, e.g. `severity = high` or `has achievement`
+ */
+export interface PropertyPredicate {
+  key: string
+  operator: PredicateOperator
+  /** Compared value; unused by exists and missing */
+  value: string
+}
+
+/** Whether filtered-out elements disappear or are drawn faintly */
+export type FilterMode = 'hide' | 'dim'
+
+export interface GraphFilter {
+  /** Nodes carrying any of these labels are left out */
+  hiddenLabels: string[]
+  hiddenRelationshipTypes: string[]
+  /** Every predicate must hold for a node to be kept */
+  predicates: PropertyPredicate[]
+  /** Nodes with fewer relationships than this are left out */
+  minDegree: number
+  /** Only instances of this label or relationship pattern are kept (picked in the schema view) */
+  schema: SchemaElement | null
+  mode: FilterMode
+  /** Restricts chat retrieval to the nodes and relationships the filter keeps */
+  limitRetrieval: boolean
+}
+
+export const defaultGraphFilter: GraphFilter = {
+  hiddenLabels: [],
+  hiddenRelationshipTypes: [],
+  predicates: [],
+  minDegree: 0,
+  schema: null,
+  mode: 'dim',
+  limitRetrieval: false
+}
+
+/** Ids of what a filter keeps */
+export interface FilterResult {
+  nodeIds: Set<string>
+  relationshipIds: Set<string>
+}
+
+export function isFilterActive(filter: GraphFilter): boolean {
+  return filter.hiddenLabels.length > 0 ||
+    filter.hiddenRelationshipTypes.length > 0 ||
+    filter.predicates.length > 0 ||
+    filter.minDegree > 0 ||
+    filter.schema !== null
+}
+
+/**
+ * Applies a filter: nodes must pass the label, predicate and degree checks
+ * (degree counted in the unfiltered graph), relationships must be of a shown
+ * type and join two kept nodes; with a schema element, both must also be
+ * instances of it
+ */
+export function applyFilter(data: GraphData, filter: GraphFilter): FilterResult {
+  const hiddenLabels = new Set(filter.hiddenLabels)
+  const hiddenTypes = new Set(filter.hiddenRelationshipTypes)
+  const degree = filter.minDegree > 0 ? nodeDegrees(data) : new Map<string, number>()
+  const instances = filter.schema ? schemaInstances(data, filter.schema) : null
+
+  const nodeIds = new Set(data.nodes
+    .filter(node =>
+      !nodeLabels(node).some(label => hiddenLabels.has(label)) &&
+      filter.predicates.every(predicate => matchesPredicate(node, predicate)) &&
+      (degree.get(node.id) ?? 0) >= filter.minDegree &&
+      (!instances || instances.nodeIds.has(node.id))
+    )
+    .map(node => node.id))
+
+  const relationshipIds = new Set(data.relationships
+    .filter(rel =>
+      !hiddenTypes.has(rel.type) &&
+      (!instances || instances.relationshipIds.has(rel.id)) &&
+      nodeIds.has(endpointId(rel.source)) &&
+      nodeIds.has(endpointId(rel.target))
+    )
+    .map(rel => rel.id))
+
+  return { nodeIds, relationshipIds }
+}
+
+/**
+ * Instances of a schema element: the nodes carrying a label and the
+ * relationships among them, or the relationships matching a
+ * (source)-[type]->(target) pattern together with their endpoints
+ */
+export function schemaInstances(data: GraphData, element: SchemaElement): FilterResult {
+  if (element.kind === 'label') {
+    const nodeIds = new Set(data.nodes.filter(node => nodeLabels(node).includes(element.label)).map(node => node.id))
+    const relationshipIds = new Set(data.relationships
+      .filter(rel => nodeIds.has(endpointId(rel.source)) && nodeIds.has(endpointId(rel.target)))
+      .map(rel => rel.id))
+    return { nodeIds, relationshipIds }
+  }
+
+  const labelsOf = new Map(data.nodes.map(node => [node.id, nodeLabels(node)]))
+  const nodeIds = new Set<string>()
+  const relationshipIds = new Set<string>()
+  data.relationships.forEach(rel => {
+    const source = endpointId(rel.source)
+    const target = endpointId(rel.target)
+    if (
+      rel.type === element.type &&
+      labelsOf.get(source)?.includes(element.source) &&
+      labelsOf.get(target)?.includes(element.target)
+    ) {
+      relationshipIds.add(rel.id)
+      nodeIds.add(source)
+      nodeIds.add(target)
+    }
+  })
+  return { nodeIds, relationshipIds }
+}
+
+/**
+ * Relationships per node id; a self-loop counts once
+ */
+export function nodeDegrees(data: GraphData): Map<string, number> {
+  const degree = new Map<string, number>()
+  data.relationships.forEach(rel => {
+    const source = endpointId(rel.source)
+    const target = endpointId(rel.target)
+    degree.set(source, (degree.get(source) ?? 0) + 1)
+    if (target !== source) degree.set(target, (degree.get(target) ?? 0) + 1)
+  })
+  return degree
+}
+
+/**
+ * The part of a graph a filter keeps
+ */
+export function filterGraph(data: GraphData, filter: GraphFilter): GraphData {
+  const { nodeIds, relationshipIds } = applyFilter(data, filter)
+  return subgraph(data, nodeIds, relationshipIds)
+}
+
+/**
+ * Tests a node property; equality ignores case, ordering compares numbers
+ * when both sides are numeric, and list values match if any item does
+ */
+export function matchesPredicate(node: GraphNode, { key, operator, value }: PropertyPredicate): boolean {
+  const property = node.properties[key]
+  const present = property !== undefined && property !== null && property !== ''
+  if (operator === 'exists') return present
+  if (operator === 'missing') return !present
+  if (!present) return operator === '!='
+  if (Array.isArray(property)) {
+    return operator === '!='
+      ? property.every(item => compare(item, '!=', value))
+      : property.some(item => compare(item, operator, value))
+  }
+  return compare(property, operator, value)
+}
+
+function compare(property: unknown, operator: PredicateOperator, value: string): boolean {
+  const text = typeof property === 'object' ? JSON.stringify(property) : String(property)
+  const numeric = typeof property === 'number' || (text.trim() !== '' && !Number.isNaN(Number(text)))
+  const bothNumeric = numeric && value.trim() !== '' && !Number.isNaN(Number(value))
+  const order = bothNumeric
+    ? Number(text) - Number(value)
+    : text.localeCompare(value, undefined, { sensitivity: 'base' })
+  switch (operator) {
+    case '=': return order === 0
+    case '!=': return order !== 0
+    case '>': return order > 0
+    case '>=': return order >= 0
+    case '<': return order < 0
+    case '<=': return order <= 0
+    case 'contains': return text.toLowerCase().includes(value.toLowerCase())
+    default: return false
+  }
+}
+
+const COMPARISON = /^(`[^`]+`|[\w.-]+)\s*(!=|>=|<=|=|>|<|~|contains\b)\s*(.+)$/i
+
+/**
+ * Parses predicates typed as text:
+ * `severity = high`, `year >= 2020`, `name contains graph` (or `~`),
+ * `has achievement` and `missing achievement`
+ */
+export function parsePredicate(text: string): PropertyPredicate | null {
+  const trimmed = text.trim()
+  const existence = trimmed.match(/^(has|has property|missing|not has)\s+(`[^`]+`|[\w.-]+)$/i)
+  if (existence) {
+    return {
+      key: unquote(existence[2]),
+      operator: existence[1].toLowerCase() === 'has' || existence[1].toLowerCase() === 'has property' ? 'exists' : 'missing',
+      value: ''
+    }
+  }
+  const comparison = trimmed.match(COMPARISON)
+  if (!comparison) return null
+  const symbol = comparison[2].toLowerCase()
+  return {
+    key: unquote(comparison[1]),
+    operator: symbol === '~' ? 'contains' : symbol as PredicateOperator,
+    value: unquote(comparison[3].trim())
+  }
+}
+
+function unquote(text: string): string {
+  return /^(["'`]).*\1$/.test(text) ? text.slice(1, -1) : text
+}
+
+export function describePredicate({ key, operator, value }: PropertyPredicate): string {
+  if (operator === 'exists') return `has ${key}`
+  if (operator === 'missing') return `missing ${key}`
+  return `${key} ${operator} ${value}`
+}
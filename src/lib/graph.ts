@@ -0,0 +1,153 @@
+import type { ExpandOptions, GraphData, GraphNode, GraphPath, GraphRelationship } from '../types'
+
+/**
+ * Resolves a relationship endpoint to a node id
+ * D3's link force replaces string ids with node objects, so every
+ * consumer of relationships has to handle both shapes
+ */
+export function endpointId(endpoint: string | GraphNode): string {
+  return typeof endpoint === 'string' ? endpoint : endpoint.id
+}
+
+/**
+ * All labels of a node, primary label first
+ */
+export function nodeLabels(node: GraphNode): string[] {
+  return node.labels?.length ? node.labels : [node.type]
+}
+
+// Properties that map onto the top-level GraphNode label, in order of preference
+const LABEL_KEYS = ['label', 'name', 'title']
+
+/**
+ * Builds a GraphNode from labels and a property map as stored in Neo4j or an
+ * import file: the `id` property becomes the node id (else `fallbackId`) and
+ * the first of label/name/title its caption
+ */
+export function toGraphNode(
+  labels: string[],
+  rawProperties: Record<string, unknown>,
+  fallbackId: string
+): GraphNode {
+  const { id, ...properties } = rawProperties
+  const labelKey = LABEL_KEYS.find(key => typeof properties[key] === 'string')
+  const label = labelKey ? String(properties[labelKey]) : undefined
+  if (labelKey === 'label') delete properties.label
+
+  const nodeId = typeof id === 'string' || typeof id === 'number' ? String(id) : fallbackId
+
+  return {
+    id: nodeId,
+    label: label ?? nodeId,
+    type: labels[0] ?? 'Concept',
+    ...(labels.length > 1 ? { labels: [...labels] } : {}),
+    properties
+  }
+}
+
+export function isGraphNode(value: unknown): value is GraphNode {
+  return typeof value === 'object' && value !== null &&
+    'id' in value && 'label' in value && 'properties' in value
+}
+
+export function isGraphRelationship(value: unknown): value is GraphRelationship {
+  return typeof value === 'object' && value !== null &&
+    'id' in value && 'source' in value && 'target' in value && 'type' in value
+}
+
+export function isGraphPath(value: unknown): value is GraphPath {
+  return typeof value === 'object' && value !== null &&
+    Array.isArray((value as GraphPath).nodes) && Array.isArray((value as GraphPath).relationships)
+}
+
+/**
+ * Short human readable rendering of a Cypher result value
+ */
+export function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return 'null'
+  if (isGraphNode(value)) return `(${value.label})`
+  if (isGraphRelationship(value)) return `[:${value.type}]`
+  if (isGraphPath(value)) {
+    return value.nodes.map(node => `(${node.label})`).join('→')
+  }
+  if (Array.isArray(value)) return `[${value.map(formatValue).join(', ')}]`
+  if (typeof value === 'object') return JSON.stringify(value)
+  return String(value)
+}
+
+/**
+ * Restricts graph data to the given node ids, keeping relationships between them
+ * When relationshipIds is given only those relationships are kept
+ */
+export function subgraph(data: GraphData, nodeIds: Iterable<string>, relationshipIds?: Iterable<string>): GraphData {
+  const nodes = new Set(nodeIds)
+  const relationships = relationshipIds ? new Set(relationshipIds) : null
+  return {
+    nodes: data.nodes.filter(node => nodes.has(node.id)),
+    relationships: data.relationships.filter(rel =>
+      nodes.has(endpointId(rel.source)) &&
+      nodes.has(endpointId(rel.target)) &&
+      (!relationships || relationships.has(rel.id))
+    )
+  }
+}
+
+/**
+ * Copies a node without D3 simulation state (x, y, vx, vy, fx, fy)
+ */
+export function cloneNode(node: GraphNode): GraphNode {
+  return {
+    id: node.id,
+    label: node.label,
+    type: node.type,
+    ...(node.labels ? { labels: [...node.labels] } : {}),
+    properties: { ...node.properties }
+  }
+}
+
+/**
+ * Copies a relationship with its endpoints normalised back to ids
+ */
+export function cloneRelationship(rel: GraphRelationship): GraphRelationship {
+  return {
+    id: rel.id,
+    source: endpointId(rel.source),
+    target: endpointId(rel.target),
+    type: rel.type,
+    ...(rel.properties ? { properties: { ...rel.properties } } : {})
+  }
+}
+
+/**
+ * Deep copies graph data so D3 can mutate the copy freely
+ */
+export function cloneGraphData(data: GraphData): GraphData {
+  return {
+    nodes: data.nodes.map(cloneNode),
+    relationships: data.relationships.map(cloneRelationship)
+  }
+}
+
+/**
+ * Returns a node together with its direct neighbours and the relationships joining them,
+ * optionally restricted by direction and relationship type
+ */
+export function getNeighborhood(data: GraphData, nodeId: string, options: ExpandOptions = {}): GraphData {
+  const { direction = 'both', types, limit } = options
+  const relationships = data.relationships.filter(rel => {
+    if (types?.length && !types.includes(rel.type)) return false
+    const outgoing = endpointId(rel.source) === nodeId
+    const incoming = endpointId(rel.target) === nodeId
+    return direction === 'outgoing' ? outgoing : direction === 'incoming' ? incoming : outgoing || incoming
+  }).slice(0, limit)
+  const ids = new Set([nodeId])
+  relationships.forEach(rel => {
+    ids.add(endpointId(rel.source))
+    ids.add(endpointId(rel.target))
+  })
+
+  return {
+    nodes: data.nodes.filter(node => ids.has(node.id)),
+    relationships
+  }
+}
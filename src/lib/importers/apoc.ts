@@ -0,0 +1,65 @@
+import type { GraphNode, GraphRelationship, ParsedImport } from '../../types'
+import { toGraphNode } from '../graph'
+
+interface ApocNode {
+  type: 'node'
+  id: string
+  labels?: string[]
+  properties?: Record<string, unknown>
+}
+
+interface ApocRelationship {
+  type: 'relationship'
+  id: string
+  label: string
+  properties?: Record<string, unknown>
+  start: { id: string }
+  end: { id: string }
+}
+
+/**
+ * Parses the output of `CALL apoc.export.json.*`: one JSON object per line
+ * (the default JSON_LINES format) or a JSON array (ARRAY_JSON)
+ */
+export function parseApocJson(text: string): ParsedImport {
+  const trimmed = text.trim()
+  const records: unknown[] = trimmed.startsWith('[')
+    ? JSON.parse(trimmed)
+    : trimmed.split(/\r?\n/).filter(line => line.trim()).map((line, index) => {
+      try {
+        return JSON.parse(line)
+      } catch {
+        throw new Error(`Line ${index + 1} is not valid JSON`)
+      }
+    })
+
+  const warnings: string[] = []
+  const nodes: GraphNode[] = []
+  const rawRelationships: ApocRelationship[] = []
+  // apoc's internal ids -> GraphNode ids (the `id` property when present)
+  const nodeIds = new Map<string, string>()
+
+  records.forEach((record, index) => {
+    const { type } = record as { type?: string }
+    if (type === 'node') {
+      const raw = record as ApocNode
+      const node = toGraphNode(raw.labels ?? [], raw.properties ?? {}, `node-${raw.id}`)
+      nodeIds.set(String(raw.id), node.id)
+      nodes.push(node)
+    } else if (type === 'relationship') {
+      rawRelationships.push(record as ApocRelationship)
+    } else {
+      warnings.push(`Record #${index + 1} has unknown type "${type}" and was skipped`)
+    }
+  })
+
+  const relationships = rawRelationships.map((raw): GraphRelationship => ({
+    id: `rel-${raw.id}`,
+    source: nodeIds.get(String(raw.start.id)) ?? `node-${raw.start.id}`,
+    target: nodeIds.get(String(raw.end.id)) ?? `node-${raw.end.id}`,
+    type: raw.label,
+    properties: raw.properties ?? {}
+  }))
+
+  return { data: { nodes, relationships }, warnings }
+}
@@ -0,0 +1,197 @@
+import type { GraphNode, GraphRelationship, ParsedImport } from '../../types'
+
+/** Column names for each GraphData field; unmapped columns become properties */
+export interface CsvMapping {
+  nodes: {
+    id: string
+    label?: string
+    type?: string
+    /** Used when there is no type column or a row leaves it empty */
+    defaultType: string
+  }
+  relationships: {
+    source: string
+    target: string
+    type?: string
+    id?: string
+    defaultType: string
+  }
+}
+
+export interface CsvTable {
+  headers: string[]
+  rows: string[][]
+}
+
+/**
+ * RFC 4180 CSV parser: quoted fields may contain commas, newlines and "" escapes
+ */
+export function parseCsv(text: string): CsvTable {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i]
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (ch === '"') {
+        quoted = false
+      } else {
+        field += ch
+      }
+    } else if (ch === '"') {
+      quoted = true
+    } else if (ch === ',') {
+      record.push(field)
+      field = ''
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ''
+    } else {
+      field += ch
+    }
+  }
+  if (quoted) throw new Error('Unterminated quoted field')
+  if (field || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+
+  const nonEmpty = records.filter(r => r.some(value => value.trim()))
+  const [headers = [], ...rows] = nonEmpty
+  return { headers: headers.map(h => h.trim()), rows }
+}
+
+// Header conventions recognised when guessing a mapping, including neo4j-admin's
+const ID_COLUMNS = ['id', ':id', 'nodeid', 'node_id']
+const LABEL_COLUMNS = ['label', 'name', 'title', 'caption']
+const TYPE_COLUMNS = ['type', ':label', 'labels', 'kind', 'category']
+const SOURCE_COLUMNS = ['source', ':start_id', 'start', 'from', 'src', 'source_id']
+const TARGET_COLUMNS = ['target', ':end_id', 'end', 'to', 'dst', 'target_id']
+const REL_TYPE_COLUMNS = ['type', ':type', 'relationship', 'rel_type', 'label']
+
+/**
+ * Suggests a mapping from the header rows of a node and a relationship file
+ */
+export function guessCsvMapping(nodeHeaders: string[], relationshipHeaders: string[]): CsvMapping {
+  // "personId:ID(Person)" is matched as ":id"
+  const find = (headers: string[], candidates: string[]) => {
+    const normalised = headers.map(h => h.toLowerCase().replace(/\(.*\)$/, ''))
+    const index = normalised.findIndex(h => candidates.includes(h))
+    const suffixIndex = normalised.findIndex(h => h.includes(':') && candidates.includes(`:${h.split(':').pop()}`))
+    const match = index !== -1 ? index : suffixIndex
+    return match === -1 ? undefined : headers[match]
+  }
+
+  return {
+    nodes: {
+      id: find(nodeHeaders, ID_COLUMNS) ?? nodeHeaders[0] ?? '',
+      label: find(nodeHeaders, LABEL_COLUMNS),
+      type: find(nodeHeaders, TYPE_COLUMNS),
+      defaultType: 'Concept'
+    },
+    relationships: {
+      source: find(relationshipHeaders, SOURCE_COLUMNS) ?? relationshipHeaders[0] ?? '',
+      target: find(relationshipHeaders, TARGET_COLUMNS) ?? relationshipHeaders[1] ?? '',
+      type: find(relationshipHeaders, REL_TYPE_COLUMNS),
+      id: find(relationshipHeaders, ['id', 'rel_id', 'relationship_id']),
+      defaultType: 'RELATED_TO'
+    }
+  }
+}
+
+/**
+ * Builds a graph from a node table and a relationship table
+ * Values that look like numbers, booleans or JSON lists and maps (as the CSV
+ * exporter writes them) are converted; empty cells are omitted
+ */
+export function csvToGraph(nodeTable: CsvTable, relationshipTable: CsvTable, mapping: CsvMapping): ParsedImport {
+  const warnings: string[] = []
+  const column = (table: CsvTable, name: string | undefined) =>
+    name ? table.headers.indexOf(name) : -1
+
+  const nodeColumns = {
+    id: column(nodeTable, mapping.nodes.id),
+    label: column(nodeTable, mapping.nodes.label),
+    type: column(nodeTable, mapping.nodes.type)
+  }
+  if (nodeColumns.id === -1) throw new Error(`Node id column "${mapping.nodes.id}" not found`)
+
+  const nodes = nodeTable.rows.flatMap((row, index): GraphNode[] => {
+    const id = row[nodeColumns.id]?.trim()
+    if (!id) {
+      warnings.push(`Node row ${index + 2} has no id and was skipped`)
+      return []
+    }
+    // neo4j-admin stores multiple labels as "A;B"
+    const labels = nodeColumns.type === -1
+      ? []
+      : (row[nodeColumns.type] ?? '').split(';').map(label => label.trim()).filter(Boolean)
+    return [{
+      id,
+      label: (nodeColumns.label !== -1 && row[nodeColumns.label]?.trim()) || id,
+      type: labels[0] ?? mapping.nodes.defaultType,
+      ...(labels.length > 1 ? { labels } : {}),
+      properties: rowProperties(nodeTable.headers, row, Object.values(nodeColumns))
+    }]
+  })
+
+  const relColumns = {
+    source: column(relationshipTable, mapping.relationships.source),
+    target: column(relationshipTable, mapping.relationships.target),
+    type: column(relationshipTable, mapping.relationships.type),
+    id: column(relationshipTable, mapping.relationships.id)
+  }
+  if (relColumns.source === -1 || relColumns.target === -1) {
+    throw new Error('Relationship source and target columns must be mapped')
+  }
+
+  const relationships = relationshipTable.rows.flatMap((row, index): GraphRelationship[] => {
+    const source = row[relColumns.source]?.trim()
+    const target = row[relColumns.target]?.trim()
+    if (!source || !target) {
+      warnings.push(`Relationship row ${index + 2} is missing its source or target and was skipped`)
+      return []
+    }
+    return [{
+      id: (relColumns.id !== -1 && row[relColumns.id]?.trim()) || `rel-${index + 1}`,
+      source,
+      target,
+      type: (relColumns.type !== -1 && row[relColumns.type]?.trim()) || mapping.relationships.defaultType,
+      properties: rowProperties(relationshipTable.headers, row, Object.values(relColumns))
+    }]
+  })
+
+  return { data: { nodes, relationships }, warnings }
+}
+
+function rowProperties(headers: string[], row: string[], mapped: number[]): Record<string, unknown> {
+  const properties: Record<string, unknown> = {}
+  headers.forEach((header, index) => {
+    const value = row[index]?.trim()
+    if (mapped.includes(index) || !value) return
+    // Drop neo4j-admin type suffixes such as "age:int"
+    properties[header.split(':')[0] || header] = parseCsvValue(value)
+  })
+  return properties
+}
+
+function parseCsvValue(value: string): unknown {
+  if (value === 'true' || value === 'false') return value === 'true'
+  if (/^-?\d+(\.\d+)?([eE][-+]?\d+)?$/.test(value)) return Number(value)
+  if (/^\[.*\]$|^\{.*\}$/s.test(value)) {
+    try {
+      return JSON.parse(value)
+    } catch {
+      return value
+    }
+  }
+  return value
+}
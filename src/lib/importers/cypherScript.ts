@@ -0,0 +1,77 @@
+import type { GraphData, ParsedImport } from '../../types'
+import { executeCypher, splitStatements } from '../cypher'
+
+// Schema and procedure statements that have no effect on an in-memory graph
+const SKIPPED_STATEMENTS = /^(CREATE|DROP)\s+(CONSTRAINT|INDEX)\b|^CALL\b/i
+
+/**
+ * Builds a graph by running a script of CREATE / MERGE / SET statements,
+ * e.g. the output of apoc.export.cypher or a hand-written seed file
+ *
+ * `:param name => value` and `:params {map}` commands set the parameters of
+ * the statements after them; other cypher-shell commands (:begin, :commit)
+ * and schema statements are skipped
+ */
+export function parseCypherScript(text: string): ParsedImport {
+  const data: GraphData = { nodes: [], relationships: [] }
+  const warnings: string[] = []
+  const params: Record<string, unknown> = {}
+  let statementCount = 0
+
+  // Commands are whole lines, so the script runs in stretches between them
+  const runStatements = (script: string) => {
+    splitStatements(script).forEach(statement => {
+      statementCount++
+      if (SKIPPED_STATEMENTS.test(statement.text)) {
+        warnings.push(`Statement ${statementCount} skipped: ${statement.text.split('\n')[0]}`)
+        return
+      }
+      try {
+        executeCypher(statement.text, data, params)
+      } catch (error) {
+        throw new Error(`Statement ${statementCount}: ${(error as Error).message}`)
+      }
+    })
+  }
+
+  let pending: string[] = []
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (!/^\s*:/.test(line)) {
+      pending.push(line)
+      return
+    }
+    runStatements(pending.join('\n'))
+    pending = []
+    Object.assign(params, parseParamCommand(line.trim(), index + 1))
+  })
+  runStatements(pending.join('\n'))
+
+  return { data, warnings }
+}
+
+/**
+ * Parameters set by a `:param` / `:params` line; other commands set none
+ * Values are Cypher expressions, evaluated without a graph
+ */
+function parseParamCommand(line: string, lineNumber: number): Record<string, unknown> {
+  const command = /^:params?\s+(.*)$/i.exec(line)
+  if (!command) return {}
+  const evaluate = (expression: string) => {
+    try {
+      return executeCypher(`RETURN ${expression} AS value`, { nodes: [], relationships: [] }).rows[0].value
+    } catch (error) {
+      throw new Error(`Line ${lineNumber}: invalid parameter value: ${(error as Error).message}`)
+    }
+  }
+
+  const assignment = /^(`(?:[^`]|``)+`|[A-Za-z_][A-Za-z0-9_]*)\s*=>\s*([\s\S]+)$/.exec(command[1])
+  if (assignment) {
+    const name = assignment[1].startsWith('`') ? assignment[1].slice(1, -1).replace(/``/g, '`') : assignment[1]
+    return { [name]: evaluate(assignment[2]) }
+  }
+  const map = evaluate(command[1])
+  if (typeof map !== 'object' || map === null || Array.isArray(map)) {
+    throw new Error(`Line ${lineNumber}: expected :param name => value or :params {map}`)
+  }
+  return map as Record<string, unknown>
+}
@@ -0,0 +1,99 @@
+import type { GraphNode, GraphRelationship, ParsedImport } from '../../types'
+import { toGraphNode } from '../graph'
+
+interface GraphMLKey {
+  name: string
+  type: string
+}
+
+// Data keys holding labels/types rather than properties (apoc.export.graphml uses "labels" and "label")
+const NODE_LABEL_KEYS = ['labels', 'type']
+const EDGE_TYPE_KEYS = ['label', 'type']
+
+/**
+ * Parses GraphML, including files written by apoc.export.graphml and yEd/Gephi
+ * Node labels come from a `labels` attribute or data key (":Person:Employee"),
+ * edge types from a `label` attribute or data key
+ */
+export function parseGraphML(text: string): ParsedImport {
+  const doc = new DOMParser().parseFromString(text, 'application/xml')
+  const error = doc.querySelector('parsererror')
+  if (error) throw new Error(`Invalid GraphML: ${error.textContent?.split('\n')[0] ?? 'parse error'}`)
+  if (!doc.querySelector('graphml')) throw new Error('Not a GraphML document')
+
+  const keys = new Map<string, GraphMLKey>()
+  doc.querySelectorAll('key').forEach(key => {
+    keys.set(key.getAttribute('id') ?? '', {
+      name: key.getAttribute('attr.name') ?? key.getAttribute('id') ?? '',
+      type: key.getAttribute('attr.type') ?? 'string'
+    })
+  })
+
+  const readData = (element: Element) => {
+    const data: Record<string, unknown> = {}
+    element.querySelectorAll(':scope > data').forEach(entry => {
+      const key = keys.get(entry.getAttribute('key') ?? '') ?? {
+        name: entry.getAttribute('key') ?? '',
+        type: 'string'
+      }
+      data[key.name] = convert(entry.textContent ?? '', key.type)
+    })
+    return data
+  }
+
+  const warnings: string[] = []
+  const nodes: GraphNode[] = []
+  // GraphML ids -> GraphNode ids (the `id` property when present)
+  const nodeIds = new Map<string, string>()
+
+  doc.querySelectorAll('node').forEach(element => {
+    const xmlId = element.getAttribute('id') ?? `node-${nodes.length + 1}`
+    const data = readData(element)
+    const labelText = element.getAttribute('labels') ??
+      NODE_LABEL_KEYS.map(key => data[key]).find(value => typeof value === 'string') as string | undefined
+    NODE_LABEL_KEYS.forEach(key => delete data[key])
+
+    const labels = (labelText ?? '').split(':').map(label => label.trim()).filter(Boolean)
+    const node = toGraphNode(labels, data, xmlId)
+    nodeIds.set(xmlId, node.id)
+    nodes.push(node)
+  })
+
+  const relationships: GraphRelationship[] = []
+  doc.querySelectorAll('edge').forEach((element, index) => {
+    const source = element.getAttribute('source')
+    const target = element.getAttribute('target')
+    if (!source || !target) {
+      warnings.push(`Edge #${index + 1} has no source or target and was skipped`)
+      return
+    }
+    const data = readData(element)
+    const type = element.getAttribute('label') ??
+      EDGE_TYPE_KEYS.map(key => data[key]).find(value => typeof value === 'string') as string | undefined
+    EDGE_TYPE_KEYS.forEach(key => delete data[key])
+
+    relationships.push({
+      id: element.getAttribute('id') ?? `rel-${index + 1}`,
+      source: nodeIds.get(source) ?? source,
+      target: nodeIds.get(target) ?? target,
+      type: type || 'RELATED_TO',
+      properties: data
+    })
+  })
+
+  return { data: { nodes, relationships }, warnings }
+}
+
+function convert(value: string, type: string): unknown {
+  switch (type) {
+    case 'int':
+    case 'long':
+    case 'float':
+    case 'double':
+      return Number(value)
+    case 'boolean':
+      return value.trim().toLowerCase() === 'true'
+    default:
+      return value
+  }
+}
@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest'
+import type { GraphData } from '../../types'
+import { sampleGraphData } from '../../data/sampleGraph'
+import { exportGraph } from '../exporters'
+import { cloneGraphData } from '../graph'
+import {
+  applyImport,
+  csvToGraph,
+  detectFormat,
+  guessCsvMapping,
+  parseApocJson,
+  parseCsv,
+  parseCypherScript,
+  parseGraphJson,
+  validateImport
+} from '.'
+
+const graph: GraphData = {
+  nodes: [
+    {
+      id: 'nasa',
+      label: 'NASA',
+      type: 'Company',
+      labels: ['Company', 'Agency'],
+      properties: { founded: 1958, active: true, note: 'says "hi", then\nleaves' }
+    },
+    { id: '42', label: 'Neo4j', type: 'Technology', properties: { tags: ['graph', 'database'] } }
+  ],
+  relationships: [{ id: 'r1', source: 'nasa', target: '42', type: 'USES', properties: { since: 2016 } }]
+}
+
+const exported = (format: 'json' | 'cypher' | 'csv') => exportGraph(graph, format, 'graph').map(file => file.content)
+
+describe('importing exported graphs', () => {
+  it('reads back GraphData JSON', () => {
+    expect(parseGraphJson(exported('json')[0])).toEqual({ data: graph, warnings: [] })
+  })
+
+  it('reads back a Cypher script', () => {
+    expect(parseCypherScript(exported('cypher')[0])).toEqual({ data: graph, warnings: [] })
+  })
+
+  it('reads back node and relationship CSV with the guessed mapping', () => {
+    const [nodes, relationships] = exported('csv').map(parseCsv)
+
+    const parsed = csvToGraph(nodes, relationships, guessCsvMapping(nodes.headers, relationships.headers))
+
+    expect(parsed).toEqual({ data: graph, warnings: [] })
+  })
+})
+
+describe('malformed input', () => {
+  it('rejects files that are not GraphData JSON', () => {
+    expect(() => parseGraphJson('{')).toThrow(SyntaxError)
+    expect(() => parseGraphJson('{"nodes": 1}')).toThrow('Expected a "nodes" array')
+    expect(() => parseGraphJson('{"nodes": [], "relationships": {}}')).toThrow('Expected a "relationships" array')
+  })
+
+  it('skips records it cannot use and says so', () => {
+    const parsed = parseGraphJson('{"nodes": [{"label": "No id"}], "relationships": [{"source": "a"}]}')
+
+    expect(parsed.data).toEqual({ nodes: [], relationships: [] })
+    expect(parsed.warnings).toEqual([
+      'Node #1 has no id and was skipped',
+      'Relationship #1 needs source, target and type and was skipped'
+    ])
+  })
+
+  it('rejects broken CSV and unmapped columns', () => {
+    expect(() => parseCsv('id,label\n"nasa,NASA')).toThrow('Unterminated quoted field')
+
+    const relationships = parseCsv('source,target\nnasa,\n')
+    const mapping = guessCsvMapping(['id'], relationships.headers)
+    expect(() => csvToGraph(parseCsv('name\nNASA'), relationships, mapping)).toThrow('Node id column "id" not found')
+    expect(csvToGraph(parseCsv('id\nnasa'), relationships, mapping).warnings).toEqual([
+      'Relationship row 2 is missing its source or target and was skipped'
+    ])
+  })
+
+  it('keeps cells that only look like JSON as text', () => {
+    const parsed = csvToGraph(parseCsv('id,note\nnasa,[draft'), parseCsv('source,target'), guessCsvMapping(['id'], ['source', 'target']))
+
+    expect(parsed.data.nodes[0].properties).toEqual({ note: '[draft' })
+  })
+
+  it('names the statement or line that failed', () => {
+    expect(() => parseCypherScript('CREATE (n:Company {id: 1})\n;\nCREATE (m:Company {id: 2}')).toThrow(/^Statement 2: /)
+    expect(() => parseApocJson('{"type": "node", "id": "1", "labels": []}\nnot json')).toThrow('Line 2 is not valid JSON')
+  })
+})
+
+describe('validateImport', () => {
+  const parsed = {
+    data: {
+      nodes: [
+        { id: 'pluto', label: 'Pluto', type: 'Planet', properties: {} },
+        { id: 'pluto', label: 'Pluto again', type: 'Planet', properties: {} },
+        { id: 'neo4j', label: 'Neo4j 5', type: 'Technology', properties: { version: 5 } }
+      ],
+      relationships: [
+        { id: 'orbit', source: 'pluto', target: 'sun', type: 'ORBITS', properties: {} },
+        { id: 'uses', source: 'nasa', target: 'neo4j', type: 'USES', properties: {} }
+      ]
+    },
+    warnings: ['Node #4 has no id and was skipped']
+  }
+
+  it('reports duplicates, dangling endpoints, new types and updated nodes when merging', () => {
+    expect(validateImport(parsed, sampleGraphData, 'merge')).toEqual({
+      nodeCount: 2,
+      relationshipCount: 1,
+      duplicateNodeIds: ['pluto'],
+      duplicateRelationshipIds: [],
+      danglingRelationships: [{ id: 'orbit', type: 'ORBITS', missing: ['sun'] }],
+      unknownNodeTypes: ['Planet'],
+      unknownRelationshipTypes: ['ORBITS'],
+      updatedNodeIds: ['neo4j'],
+      warnings: ['Node #4 has no id and was skipped']
+    })
+  })
+
+  it('only counts the imported nodes as endpoints when replacing', () => {
+    const report = validateImport(parsed, sampleGraphData, 'replace')
+
+    expect(report.danglingRelationships.map(rel => rel.id)).toEqual(['orbit', 'uses'])
+    expect(report.updatedNodeIds).toEqual([])
+  })
+})
+
+describe('applyImport', () => {
+  const imported: GraphData = {
+    nodes: [
+      { id: 'neo4j', label: 'Neo4j 5', type: 'Technology', properties: { version: 5 } },
+      { id: 'neo4j', label: 'Ignored', type: 'Technology', properties: {} }
+    ],
+    relationships: [{ id: 'dangling', source: 'neo4j', target: 'sun', type: 'ORBITS', properties: {} }]
+  }
+
+  it('updates existing nodes and drops duplicates and dangling relationships when merging', () => {
+    const current = cloneGraphData(sampleGraphData)
+
+    const merged = applyImport(imported, current, 'merge')
+
+    expect(merged.nodes).toHaveLength(sampleGraphData.nodes.length)
+    expect(merged.relationships).toHaveLength(sampleGraphData.relationships.length)
+    expect(merged.nodes.find(node => node.id === 'neo4j')).toMatchObject({
+      label: 'Neo4j 5',
+      properties: { description: 'Leading graph database platform', version: 5 }
+    })
+    expect(current).toEqual(cloneGraphData(sampleGraphData))
+  })
+
+  it('keeps only the imported graph when replacing', () => {
+    expect(applyImport(imported, sampleGraphData, 'replace')).toEqual({ nodes: [imported.nodes[0]], relationships: [] })
+  })
+})
+
+describe('detectFormat', () => {
+  it.each([
+    { fileName: 'nodes.csv', text: 'id,label', format: 'csv' },
+    { fileName: 'export.xml', text: '<?xml version="1.0"?><graphml>', format: 'graphml' },
+    { fileName: 'export.json', text: '{"type": "node", "id": "1"}', format: 'apoc' },
+    { fileName: 'graph.json', text: '{"nodes": []}', format: 'json' },
+    { fileName: 'script.txt', text: 'CREATE (n)', format: 'cypher' }
+  ])('reads $fileName as $format', ({ fileName, text, format }) => {
+    expect(detectFormat(fileName, text)).toBe(format)
+  })
+})
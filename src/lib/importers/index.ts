@@ -0,0 +1,54 @@
+import type { ImportFormat, ParsedImport } from '../../types'
+import { parseApocJson } from './apoc'
+import { parseCypherScript } from './cypherScript'
+import { parseGraphML } from './graphml'
+import { parseGraphJson } from './json'
+
+export { parseApocJson } from './apoc'
+export { csvToGraph, guessCsvMapping, parseCsv, type CsvMapping, type CsvTable } from './csv'
+export { parseCypherScript } from './cypherScript'
+export { parseGraphML } from './graphml'
+export { parseGraphJson } from './json'
+export { applyImport, validateImport } from './validate'
+
+export const importFormats: Record<ImportFormat, { label: string; extensions: string[] }> = {
+  json: { label: 'GraphData JSON', extensions: ['.json'] },
+  apoc: { label: 'apoc.export.json', extensions: ['.jsonl', '.json'] },
+  csv: { label: 'Node/relationship CSV', extensions: ['.csv'] },
+  graphml: { label: 'GraphML', extensions: ['.graphml', '.xml'] },
+  cypher: { label: 'Cypher script', extensions: ['.cypher', '.cql', '.txt'] }
+}
+
+/**
+ * Guesses the format of a file from its name and first characters
+ */
+export function detectFormat(fileName: string, text: string): ImportFormat {
+  const name = fileName.toLowerCase()
+  const start = text.trimStart()
+
+  if (name.endsWith('.csv')) return 'csv'
+  if (name.endsWith('.graphml') || start.startsWith('<')) return 'graphml'
+  if (name.endsWith('.cypher') || name.endsWith('.cql')) return 'cypher'
+  if (name.endsWith('.jsonl')) return 'apoc'
+  if (start.startsWith('{') || start.startsWith('[')) {
+    // apoc records carry "type": "node" / "relationship" at the top level
+    return /^\[?\s*\{\s*"type"\s*:\s*"(node|relationship)"/.test(start) ? 'apoc' : 'json'
+  }
+  return 'cypher'
+}
+
+/**
+ * Parses a single-file import; CSV needs two tables and a mapping, see csvToGraph
+ */
+export function parseImport(format: Exclude<ImportFormat, 'csv'>, text: string): ParsedImport {
+  switch (format) {
+    case 'json':
+      return parseGraphJson(text)
+    case 'apoc':
+      return parseApocJson(text)
+    case 'graphml':
+      return parseGraphML(text)
+    case 'cypher':
+      return parseCypherScript(text)
+  }
+}
@@ -0,0 +1,46 @@
+import type { GraphData, GraphNode, GraphRelationship, ParsedImport } from '../../types'
+import { cloneNode, endpointId } from '../graph'
+
+/**
+ * Parses the explorer's own GraphData JSON ({ nodes, relationships })
+ * Relationship endpoints may be ids or node objects, as saved from a D3-mutated graph
+ */
+export function parseGraphJson(text: string): ParsedImport {
+  const raw = JSON.parse(text) as Partial<Record<keyof GraphData, unknown>>
+  if (!Array.isArray(raw.nodes)) throw new Error('Expected a "nodes" array')
+  const rawRelationships = raw.relationships ?? []
+  if (!Array.isArray(rawRelationships)) throw new Error('Expected a "relationships" array')
+
+  const warnings: string[] = []
+
+  const nodes = raw.nodes.flatMap((value: Partial<GraphNode>, index): GraphNode[] => {
+    if (value?.id === undefined || value.id === null) {
+      warnings.push(`Node #${index + 1} has no id and was skipped`)
+      return []
+    }
+    const id = String(value.id)
+    return [cloneNode({
+      id,
+      label: value.label !== undefined ? String(value.label) : id,
+      type: value.type ?? value.labels?.[0] ?? 'Concept',
+      ...(Array.isArray(value.labels) && value.labels.length > 1 ? { labels: value.labels.map(String) } : {}),
+      properties: value.properties ?? {}
+    })]
+  })
+
+  const relationships = rawRelationships.flatMap((value: Partial<GraphRelationship>, index): GraphRelationship[] => {
+    if (!value?.source || !value.target || !value.type) {
+      warnings.push(`Relationship #${index + 1} needs source, target and type and was skipped`)
+      return []
+    }
+    return [{
+      id: value.id !== undefined ? String(value.id) : `rel-${index + 1}`,
+      source: endpointId(value.source),
+      target: endpointId(value.target),
+      type: value.type,
+      properties: value.properties ?? {}
+    }]
+  })
+
+  return { data: { nodes, relationships }, warnings }
+}
@@ -0,0 +1,81 @@
+import type { GraphData, GraphNode, GraphRelationship, ImportMode, ImportReport, ParsedImport } from '../../types'
+import { cloneGraphData, cloneNode, cloneRelationship, endpointId, nodeLabels } from '../graph'
+
+/**
+ * Checks an import against the current graph before it is applied
+ */
+export function validateImport(parsed: ParsedImport, current: GraphData, mode: ImportMode): ImportReport {
+  const { nodes, relationships } = parsed.data
+
+  const nodeIds = new Set(nodes.map(node => node.id))
+  const existingIds = new Set(mode === 'merge' ? current.nodes.map(node => node.id) : [])
+  const currentNodeTypes = new Set(current.nodes.flatMap(nodeLabels))
+  const currentRelationshipTypes = new Set(current.relationships.map(rel => rel.type))
+
+  const danglingRelationships = relationships.flatMap(rel => {
+    const missing = [endpointId(rel.source), endpointId(rel.target)]
+      .filter(id => !nodeIds.has(id) && !existingIds.has(id))
+    return missing.length > 0 ? [{ id: rel.id, type: rel.type, missing: [...new Set(missing)] }] : []
+  })
+
+  return {
+    nodeCount: nodeIds.size,
+    relationshipCount: new Set(relationships.map(rel => rel.id)).size - danglingRelationships.length,
+    duplicateNodeIds: duplicates(nodes.map(node => node.id)),
+    duplicateRelationshipIds: duplicates(relationships.map(rel => rel.id)),
+    danglingRelationships,
+    unknownNodeTypes: [...new Set(nodes.flatMap(nodeLabels))].filter(type => !currentNodeTypes.has(type)).sort(),
+    unknownRelationshipTypes: [...new Set(relationships.map(rel => rel.type))]
+      .filter(type => !currentRelationshipTypes.has(type))
+      .sort(),
+    updatedNodeIds: [...nodeIds].filter(id => existingIds.has(id)),
+    warnings: parsed.warnings
+  }
+}
+
+/**
+ * Produces the graph resulting from an import
+ *
+ * Duplicate ids keep their first occurrence and dangling relationships are
+ * dropped. When merging, imported nodes update existing nodes with the same id
+ * (label, labels and properties) and relationships with the same id are replaced
+ */
+export function applyImport(imported: GraphData, current: GraphData, mode: ImportMode): GraphData {
+  const base = mode === 'merge' ? cloneGraphData(current) : { nodes: [], relationships: [] }
+
+  const nodes = new Map<string, GraphNode>(base.nodes.map(node => [node.id, node]))
+  const seenNodes = new Set<string>()
+  imported.nodes.forEach(node => {
+    if (seenNodes.has(node.id)) return
+    seenNodes.add(node.id)
+    const existing = nodes.get(node.id)
+    nodes.set(node.id, existing
+      ? {
+        ...cloneNode(node),
+        properties: { ...existing.properties, ...node.properties }
+      }
+      : cloneNode(node))
+  })
+
+  const relationships = new Map<string, GraphRelationship>(base.relationships.map(rel => [rel.id, rel]))
+  const seenRelationships = new Set<string>()
+  imported.relationships.forEach(rel => {
+    if (seenRelationships.has(rel.id)) return
+    seenRelationships.add(rel.id)
+    relationships.set(rel.id, cloneRelationship(rel))
+  })
+
+  return {
+    nodes: [...nodes.values()],
+    relationships: [...relationships.values()].filter(rel =>
+      nodes.has(endpointId(rel.source)) && nodes.has(endpointId(rel.target))
+    )
+  }
+}
+
+function duplicates(ids: string[]): string[] {
+  const seen = new Set<string>()
+  const repeated = new Set<string>()
+  ids.forEach(id => (seen.has(id) ? repeated.add(id) : seen.add(id)))
+  return [...repeated]
+}
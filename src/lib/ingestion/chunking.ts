@@ -0,0 +1,161 @@
+import type { DocumentFormat, TextChunk } from '../../types'
+
+export interface ChunkOptions {
+  /** Longest chunk, in characters; longer sentences are split on words */
+  maxChars: number
+  /** Sentences repeated at the start of the next chunk, so relations spanning a boundary are not lost */
+  overlap: number
+}
+
+export const defaultChunkOptions: ChunkOptions = { maxChars: 800, overlap: 1 }
+
+interface Section {
+  heading?: string
+  paragraphs: string[]
+}
+
+/**
+ * Splits a document into passages of whole sentences
+ *
+ * Markdown headings start a new chunk and are kept as the chunk's heading;
+ * paragraphs are packed together until a chunk would grow past `maxChars`
+ */
+export function chunkDocument(text: string, format: DocumentFormat, options: ChunkOptions = defaultChunkOptions): TextChunk[] {
+  const chunks: TextChunk[] = []
+
+  toSections(text, format).forEach(({ heading, paragraphs }) => {
+    const sentences = paragraphs.flatMap(paragraph =>
+      splitSentences(paragraph, options.maxChars).map((sentence, i) => ({ text: sentence, paragraphStart: i === 0 }))
+    )
+
+    let start = 0
+    let previousEnd = 0
+    while (start < sentences.length) {
+      // Every chunk takes at least one sentence the previous one did not have
+      let end = start
+      let length = 0
+      while (end < sentences.length && (end <= previousEnd || length + sentences[end].text.length <= options.maxChars)) {
+        length += sentences[end].text.length + 1
+        end++
+      }
+      const body = sentences
+        .slice(start, end)
+        .map((sentence, i) => (i === 0 ? '' : sentence.paragraphStart ? '\n\n' : ' ') + sentence.text)
+        .join('')
+      chunks.push({ index: chunks.length, text: body, ...(heading ? { heading } : {}) })
+      if (end >= sentences.length) break
+      previousEnd = end
+      start = Math.max(end - options.overlap, start + 1)
+    }
+  })
+
+  return chunks
+}
+
+/**
+ * Sentences of a paragraph; a sentence longer than `maxChars` is cut on
+ * word boundaries
+ */
+export function splitSentences(paragraph: string, maxChars = Infinity): string[] {
+  return paragraph
+    .split(/(?<=[.!?])\s+(?=["'([]?[A-Z0-9])/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean)
+    .flatMap(sentence => {
+      if (sentence.length <= maxChars) return [sentence]
+      const pieces: string[] = []
+      let piece = ''
+      sentence.split(/\s+/).forEach(word => {
+        if (piece && piece.length + word.length + 1 > maxChars) {
+          pieces.push(piece)
+          piece = ''
+        }
+        piece = piece ? `${piece} ${word}` : word
+      })
+      if (piece) pieces.push(piece)
+      return pieces
+    })
+}
+
+function toSections(text: string, format: DocumentFormat): Section[] {
+  const normalized = text.replace(/\r\n?/g, '\n').replace(/\f/g, '\n\n')
+  if (format === 'markdown') return markdownSections(normalized)
+  const cleaned = format === 'pdf' ? cleanPdfText(normalized) : normalized
+  return [{ paragraphs: paragraphsOf(cleaned) }]
+}
+
+/**
+ * Undoes the layout of text copied out of a PDF: words hyphenated across
+ * lines are joined and lines holding only a page number are dropped
+ */
+function cleanPdfText(text: string): string {
+  return text
+    .replace(/([A-Za-z])-\n([a-z])/g, '$1$2')
+    .split('\n')
+    .filter(line => !/^\s*(page\s+)?\d+(\s+of\s+\d+)?\s*$/i.test(line))
+    .join('\n')
+}
+
+// Blank lines separate paragraphs; single line breaks are soft wraps
+function paragraphsOf(text: string): string[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.replace(/\s*\n\s*/g, ' ').replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+}
+
+/**
+ * Sections under each heading, with the Markdown syntax removed from the
+ * prose; code blocks are left out, list items become paragraphs
+ */
+function markdownSections(text: string): Section[] {
+  const sections: Section[] = [{ paragraphs: [] }]
+  let block: string[] = []
+  let inCode = false
+
+  const flushBlock = () => {
+    sections[sections.length - 1].paragraphs.push(...paragraphsOf(block.map(stripInlineMarkdown).join('\n')))
+    block = []
+  }
+
+  text.split('\n').forEach(line => {
+    if (/^\s*(```|~~~)/.test(line)) {
+      inCode = !inCode
+      flushBlock()
+      return
+    }
+    if (inCode) return
+
+    const heading = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/.exec(line)
+    if (heading) {
+      flushBlock()
+      sections.push({ heading: stripInlineMarkdown(heading[1]), paragraphs: [] })
+      return
+    }
+    const item = /^\s*(?:[-*+]|\d+[.)])\s+(.*)$/.exec(line)
+    if (item) {
+      // Each list item is a paragraph of its own
+      flushBlock()
+      block.push(item[1])
+      flushBlock()
+      return
+    }
+    if (/^\s*\|/.test(line)) {
+      // Table rows read as their cells; the |---| separator row is dropped
+      if (!/^[\s|:-]+$/.test(line)) block.push(line.split('|').map(cell => cell.trim()).filter(Boolean).join('; '))
+      return
+    }
+    block.push(line.replace(/^\s*>\s?/, ''))
+  })
+  flushBlock()
+
+  return sections.filter(section => section.paragraphs.length > 0)
+}
+
+function stripInlineMarkdown(text: string): string {
+  return text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/<[^>]+>/g, '')
+    .replace(/(\*\*|__|\*|_|~~|`)(\S(?:.*?\S)?)\1/g, '$2')
+}
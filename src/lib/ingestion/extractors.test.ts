@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest'
+import type { GraphData, GraphSchema } from '../../types'
+import { buildExtractionPrompt } from '../llm'
+import { createMockProvider } from '../llm/mock'
+import { createDictionaryExtractor, createLLMExtractor, parseExtraction } from './extractors'
+
+const graph: GraphData = {
+  nodes: [
+    { id: 'neo4j', label: 'Neo4j', type: 'Technology', properties: {} },
+    { id: 'graphrag', label: 'GraphRAG', type: 'Concept', properties: {} },
+    { id: 'nasa', label: 'NASA', type: 'Company', properties: {} }
+  ],
+  relationships: [{ id: 'r1', source: 'nasa', target: 'neo4j', type: 'USES' }]
+}
+
+const extract = (text: string) => createDictionaryExtractor(graph)({ index: 0, text })
+
+const triples = (relations: { source: string; type: string; target: string }[]) =>
+  relations.map(({ source, type, target }) => `${source} ${type} ${target}`)
+
+describe('createDictionaryExtractor', () => {
+  it('finds graph entities and relates them through known relationship types', async () => {
+    const { entities, relations } = await extract('Today NASA uses Neo4j for lessons learned.')
+
+    expect(entities).toEqual([{ name: 'NASA', type: 'Company' }, { name: 'Neo4j', type: 'Technology' }])
+    expect(triples(relations)).toEqual(['NASA USES Neo4j'])
+  })
+
+  it('keeps a name starting the sentence when a verb follows it', async () => {
+    const { entities, relations } = await extract('Microsoft developed GraphRAG.')
+
+    expect(entities).toContainEqual({ name: 'Microsoft', type: 'Concept' })
+    expect(triples(relations)).toEqual(['Microsoft DEVELOPED GraphRAG'])
+  })
+
+  it('keeps mixed-case names starting the sentence', async () => {
+    const { relations } = await extract('LangChain is built on Neo4j.')
+
+    expect(triples(relations)).toEqual(['LangChain BUILT_ON Neo4j'])
+  })
+
+  it('keeps a name starting the sentence when the chunk capitalises it elsewhere', async () => {
+    const { entities } = await extract('Pinecone, a vector store. Teams pair Neo4j with Pinecone.')
+
+    expect(entities.map(entity => entity.name)).toContain('Pinecone')
+  })
+
+  it('skips words capitalised only for starting the sentence', async () => {
+    const { entities } = await extract('Researchers developed GraphRAG. Graphs store connected data.')
+
+    expect(entities.map(entity => entity.name)).toEqual(['GraphRAG'])
+  })
+})
+
+describe('parseExtraction', () => {
+  it('reads fenced JSON and adds entities only named by relations', () => {
+    const reply = 'Here you go:\n```json\n{"entities": [{"name": "Neo4j", "type": "graph database"}], ' +
+      '"relations": [{"source": "LangChain", "type": "built on", "target": "Neo4j", "evidence": "…"}]}\n```'
+
+    expect(parseExtraction(reply)).toEqual({
+      entities: [{ name: 'Neo4j', type: 'GraphDatabase' }, { name: 'LangChain', type: 'Concept' }],
+      relations: [{ source: 'LangChain', type: 'BUILT_ON', target: 'Neo4j', evidence: '…' }]
+    })
+  })
+
+  it('rejects replies without JSON', () => {
+    expect(() => parseExtraction('I could not find any entities.')).toThrow('The model did not reply with JSON')
+  })
+})
+
+describe('createLLMExtractor', () => {
+  it('parses what the provider streams back', async () => {
+    const schema: GraphSchema = {
+      labels: [], relationshipTypes: [], propertyKeys: [], relationshipPatterns: [], nodeProperties: {}, relationshipProperties: {}
+    }
+    // The mock answers by the last user message, which is the prompt for the passage
+    const prompt = buildExtractionPrompt('NASA', schema).filter(message => message.role === 'user').at(-1)!.content
+    const provider = createMockProvider({
+      delayMs: 0,
+      completions: { [prompt]: '{"entities": [{"name": "NASA", "type": "Company"}], "relations": []}' }
+    })
+    const extractor = createLLMExtractor(provider, schema)
+
+    expect(await extractor({ index: 0, text: 'NASA' })).toEqual({ entities: [{ name: 'NASA', type: 'Company' }], relations: [] })
+  })
+})
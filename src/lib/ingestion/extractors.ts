@@ -0,0 +1,243 @@
+import type { GraphData, GraphSchema, LLMProvider, TextChunk } from '../../types'
+import { buildExtractionPrompt, collectStream } from '../llm'
+import { stem } from '../retrieval'
+import { splitSentences } from './chunking'
+import { DOCUMENT_TYPES, entityNames } from './matching'
+
+export interface ExtractedEntity {
+  name: string
+  type: string
+}
+
+/** A relationship between two entities, named as in the text */
+export interface ExtractedRelation {
+  source: string
+  type: string
+  target: string
+  evidence: string
+}
+
+export interface Extraction {
+  entities: ExtractedEntity[]
+  relations: ExtractedRelation[]
+}
+
+/** Reads the entities and relations stated in one chunk */
+export type EntityExtractor = (chunk: TextChunk, signal?: AbortSignal) => Promise<Extraction>
+
+/** Label given to new entities when nothing suggests a better one */
+export const DEFAULT_ENTITY_TYPE = 'Concept'
+
+// Capitalised words that start sentences or phrases without naming anything
+const LEADING_WORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'but', 'by', 'each', 'for', 'from', 'if', 'in', 'it', 'its', 'many', 'most',
+  'no', 'not', 'of', 'on', 'or', 'our', 'since', 'so', 'some', 'that', 'the', 'their', 'then', 'these', 'this',
+  'those', 'to', 'unlike', 'we', 'when', 'while', 'with', 'i', 'however', 'today', 'both', 'all'
+])
+
+// Words between two entities that carry no meaning as a relationship type
+const FILLER_WORDS = new Set([
+  'a', 'also', 'an', 'are', 'be', 'been', 'being', 'both', 'can', 'could', 'has', 'have', 'had', 'is', 'it',
+  'its', 'may', 'now', 'often', 'that', 'the', 'their', 'which', 'was', 'were', 'will', 'would', 'widely', 'directly'
+])
+
+const NEGATIONS = new Set(['not', 'never', 'no', 'nor', "doesn't", "don't", "isn't"])
+
+// Verbs that, following a word, make it the subject of a statement ("LangChain is built on …")
+const LINKING_VERBS = new Set(['is', 'are', 'was', 'were', 'has', 'have', 'had'])
+
+// Company name endings; anything else new is a Concept
+const COMPANY_SUFFIX = /\b(Inc|Corp|Corporation|Ltd|LLC|GmbH|Company|Labs)\.?$/
+
+/**
+ * Offline extractor: finds the graph's existing nodes by name (the
+ * dictionary) and proposes capitalised phrases and acronyms as new entities
+ *
+ * Two entities following each other in a sentence are related when the
+ * words between them name a relationship type of the graph ("uses" → USES),
+ * or, failing that, form a short verb phrase ("is built on" → BUILT_ON)
+ */
+export function createDictionaryExtractor(graph: GraphData): EntityExtractor {
+  const dictionary = graph.nodes
+    .filter(node => !DOCUMENT_TYPES.has(node.type))
+    .flatMap(node => entityNames(node.label).map(name => ({
+      name,
+      type: node.type,
+      // Short acronyms only match in capitals, so "AI" does not match "ai"; other names also match as plurals
+      pattern: /^[A-Z0-9]{2,4}$/.test(name)
+        ? new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(name)}(?![A-Za-z0-9])`, 'g')
+        : new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(name)}(?:e?s)?(?![A-Za-z0-9])`, 'gi')
+    })))
+    // Longest first, so "Knowledge Graph" wins over "Graph"
+    .sort((a, b) => b.name.length - a.name.length)
+  // Most specific first, so "often uses" is OFTEN_USES rather than USES
+  const relationshipTypes = [...new Set(graph.relationships.map(rel => rel.type))]
+    .sort((a, b) => b.split('_').length - a.split('_').length)
+
+  return async chunk => {
+    const entities = new Map<string, ExtractedEntity>()
+    const relations: ExtractedRelation[] = []
+
+    const sentences = splitSentences(chunk.text.replace(/\n+/g, ' '))
+    const midSentenceWords = new Set(sentences.flatMap(sentence =>
+      [...sentence.matchAll(/(?<=\s)[A-Z][A-Za-z0-9&+.-]*[A-Za-z0-9+]/g)].map(match => match[0])
+    ))
+
+    sentences.forEach(sentence => {
+      const mentions: (ExtractedEntity & { start: number; end: number })[] = []
+      const overlaps = (start: number, end: number) => mentions.some(m => start < m.end && end > m.start)
+
+      dictionary.forEach(({ name, type, pattern }) => {
+        for (const match of sentence.matchAll(pattern)) {
+          const end = match.index + match[0].length
+          if (!overlaps(match.index, end)) mentions.push({ name, type, start: match.index, end })
+        }
+      })
+      // Kept at the start of a sentence: mixed case ("LangChain"), capitalised elsewhere in the
+      // chunk, or the subject of a verb; plurals like "Researchers developed" are not names
+      capitalisedPhrases(sentence, word =>
+        /[a-z][A-Z]/.test(word) ||
+        midSentenceWords.has(word) ||
+        (!/[^s]s$/.test(word) && verbFollows(sentence.slice(word.length), relationshipTypes))
+      ).forEach(({ name, start, end }) => {
+        if (!overlaps(start, end)) mentions.push({ name, type: COMPANY_SUFFIX.test(name) ? 'Company' : DEFAULT_ENTITY_TYPE, start, end })
+      })
+
+      mentions.sort((a, b) => a.start - b.start)
+      mentions.forEach(({ name, type }) => {
+        if (!entities.has(name.toLowerCase())) entities.set(name.toLowerCase(), { name, type })
+      })
+      mentions.slice(1).forEach((target, i) => {
+        const source = mentions[i]
+        const type = relationType(sentence.slice(source.end, target.start), relationshipTypes)
+        if (type) relations.push({ source: source.name, type, target: target.name, evidence: sentence })
+      })
+    })
+
+    return { entities: [...entities.values()], relations }
+  }
+}
+
+/**
+ * Extractor backed by an LLM provider, prompted with the graph schema so it
+ * reuses existing labels and relationship types
+ */
+export function createLLMExtractor(provider: LLMProvider, schema: GraphSchema): EntityExtractor {
+  return async (chunk, signal) => {
+    const passage = chunk.heading ? `${chunk.heading}\n\n${chunk.text}` : chunk.text
+    return parseExtraction(await collectStream(provider.streamChat(buildExtractionPrompt(passage, schema), signal)))
+  }
+}
+
+/**
+ * Reads the JSON an LLM replied with, preferring a fenced code block
+ * Entries missing a name are dropped; relations may name entities the
+ * entity list forgot
+ */
+export function parseExtraction(reply: string): Extraction {
+  const fenced = /```(?:json)?\s*([\s\S]*?)```/i.exec(reply)
+  const body = fenced ? fenced[1] : reply.slice(reply.indexOf('{'), reply.lastIndexOf('}') + 1)
+  let raw: unknown
+  try {
+    raw = JSON.parse(body)
+  } catch {
+    throw new Error('The model did not reply with JSON')
+  }
+  if (!isRecord(raw)) throw new Error('The model replied with JSON that is not an object')
+
+  const text = (value: unknown) => (typeof value === 'string' ? value.trim() : '')
+  const entities = (Array.isArray(raw.entities) ? raw.entities : [])
+    .filter(isRecord)
+    .map(entity => ({ name: text(entity.name), type: typeName(text(entity.type)) || DEFAULT_ENTITY_TYPE }))
+    .filter(entity => entity.name)
+  const relations = (Array.isArray(raw.relations) ? raw.relations : [])
+    .filter(isRecord)
+    .map(relation => ({
+      source: text(relation.source),
+      type: text(relation.type).toUpperCase().replace(/[^A-Z0-9]+/g, '_').replace(/^_|_$/g, ''),
+      target: text(relation.target),
+      evidence: text(relation.evidence)
+    }))
+    .filter(relation => relation.source && relation.type && relation.target)
+
+  const named = new Set(entities.map(entity => entity.name.toLowerCase()))
+  relations.forEach(({ source, target }) => [source, target].forEach(name => {
+    if (named.has(name.toLowerCase())) return
+    named.add(name.toLowerCase())
+    entities.push({ name, type: DEFAULT_ENTITY_TYPE })
+  }))
+
+  return { entities, relations }
+}
+
+/**
+ * Runs of capitalised words and acronyms, e.g. "Apache Spark" or "NASA",
+ * without leading words like "The"; a lone capitalised word starting the
+ * sentence is only kept when `isName` vouches for it, as it is usually
+ * capitalised for the sentence rather than being a name
+ */
+function capitalisedPhrases(sentence: string, isName: (word: string) => boolean): { name: string; start: number; end: number }[] {
+  const phrases: { name: string; start: number; end: number }[] = []
+  for (const match of sentence.matchAll(/[A-Z][A-Za-z0-9&+.-]*[A-Za-z0-9+](?:\s+[A-Z][A-Za-z0-9&+.-]*[A-Za-z0-9+])*|[A-Z]/g)) {
+    let words = match[0].split(/\s+/)
+    let start = match.index
+    while (words.length > 0 && LEADING_WORDS.has(words[0].toLowerCase())) {
+      start = sentence.indexOf(words[1] ?? '', start + words[0].length)
+      words = words.slice(1)
+    }
+    if (words.length === 0) continue
+    const isAcronym = words.length === 1 && /^[A-Z0-9&+-]{2,}$/.test(words[0])
+    if (words.length === 1 && !isAcronym && (words[0].length < 3 || (start === 0 && !isName(words[0])))) continue
+    const name = words.join(' ')
+    phrases.push({ name, start, end: start + name.length })
+  }
+  return phrases
+}
+
+/**
+ * Whether the text after a word opens with a verb: a linking verb, a past
+ * tense ("developed") or the verb of a known relationship type ("uses")
+ */
+function verbFollows(rest: string, knownTypes: string[]): boolean {
+  const next = /^\s+([a-z]+)\b/.exec(rest)?.[1]
+  if (!next) return false
+  return LINKING_VERBS.has(next) || /[^e]ed$/.test(next) || knownTypes.some(type => similar(next, type.split('_')[0].toLowerCase()))
+}
+
+function relationType(between: string, knownTypes: string[]): string | undefined {
+  if (/[;:()]/.test(between)) return undefined
+  const words = between.toLowerCase().split(/[^a-z']+/).filter(Boolean)
+  if (words.length === 0 || words.length > 6 || words.some(word => NEGATIONS.has(word))) return undefined
+
+  // Every word of the type must appear, so "powers" is not read as POWERED_BY
+  const known = knownTypes.find(type =>
+    type.toLowerCase().split('_').filter(Boolean).every(part => words.some(word => similar(word, part)))
+  )
+  if (known) return known
+
+  const phrase = words.filter(word => !FILLER_WORDS.has(word))
+  // "and", "or" and commas list entities rather than relate them
+  if (phrase.length === 0 || phrase.length > 3 || /^(and|or|,)$/.test(phrase[0]) || between.includes(',')) return undefined
+  return phrase.join('_').toUpperCase()
+}
+
+// "use" ~ "used" ~ "uses", "improve" ~ "improves"
+function similar(a: string, b: string): boolean {
+  const [x, y] = [stem(a), stem(b)]
+  if (x === y) return true
+  const [shorter, longer] = x.length < y.length ? [x, y] : [y, x]
+  return shorter.length >= 3 && longer.length - shorter.length <= 2 && longer.startsWith(shorter)
+}
+
+function typeName(text: string): string {
+  return text.replace(/[^A-Za-z0-9]+(.)?/g, (_, next: string | undefined) => (next ?? '').toUpperCase())
+    .replace(/^./, first => first.toUpperCase())
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
@@ -0,0 +1,190 @@
+import type {
+  DocumentFormat,
+  GraphData,
+  GraphNode,
+  GraphRelationship,
+  IngestionEntity,
+  IngestionProposal,
+  IngestionTriple
+} from '../../types'
+import { chunkDocument, defaultChunkOptions, type ChunkOptions } from './chunking'
+import { DEFAULT_ENTITY_TYPE, type EntityExtractor, type Extraction } from './extractors'
+import { createEntityMatcher, entityKey } from './matching'
+
+export { chunkDocument, defaultChunkOptions, splitSentences, type ChunkOptions } from './chunking'
+export {
+  createDictionaryExtractor,
+  createLLMExtractor,
+  DEFAULT_ENTITY_TYPE,
+  parseExtraction,
+  type EntityExtractor,
+  type Extraction
+} from './extractors'
+export { createEntityMatcher, DOCUMENT_TYPES, entityKey } from './matching'
+
+export interface SourceDocument {
+  title: string
+  text: string
+  format: DocumentFormat
+}
+
+export interface IngestOptions {
+  chunking?: ChunkOptions
+  signal?: AbortSignal
+  /** Called after each chunk has been read */
+  onProgress?: (done: number, total: number) => void
+  /** Used for a chunk the extractor fails on, e.g. the dictionary extractor when the LLM errors */
+  fallback?: EntityExtractor
+}
+
+/** Elements left out of the merge on the review screen, by id */
+export interface IngestionRejections {
+  entities: Set<string>
+  triples: Set<string>
+}
+
+/**
+ * Chunks a document, extracts entities and relations from each chunk and
+ * resolves the entities against the graph
+ *
+ * Nothing is added to the graph yet: the proposal is reviewed first and
+ * turned into nodes and relationships with ingestionToGraph
+ */
+export async function ingestDocument(
+  source: SourceDocument,
+  graph: GraphData,
+  extract: EntityExtractor,
+  { chunking = defaultChunkOptions, signal, onProgress, fallback }: IngestOptions = {}
+): Promise<IngestionProposal> {
+  const chunks = chunkDocument(source.text, source.format, chunking)
+  if (chunks.length === 0) throw new Error('The document has no text to ingest')
+
+  const warnings: string[] = []
+  const extractions: Extraction[] = []
+  for (const chunk of chunks) {
+    signal?.throwIfAborted()
+    try {
+      extractions.push(await extract(chunk, signal))
+    } catch (error) {
+      if (signal?.aborted || !fallback) throw error
+      const reason = error instanceof Error ? error.message : String(error)
+      warnings.push(`Chunk ${chunk.index + 1}: ${reason}; used the rule-based extractor instead`)
+      extractions.push(await fallback(chunk, signal))
+    }
+    onProgress?.(extractions.length, chunks.length)
+  }
+
+  const match = createEntityMatcher(graph)
+  const takenIds = new Set(graph.nodes.map(node => node.id))
+  const entities = new Map<string, IngestionEntity>()
+
+  const resolve = (name: string, type: string, chunkIndex: number): IngestionEntity | undefined => {
+    const node = match(name)
+    const key = node ? `node:${node.id}` : entityKey(name)
+    if (!key) return undefined
+    let entity = entities.get(key)
+    if (!entity) {
+      entity = node
+        ? { id: node.id, name: node.label, type: node.type, existing: true, chunkIndexes: [] }
+        : { id: uniqueId(slug(name) || 'entity', takenIds), name, type, existing: false, chunkIndexes: [] }
+      entities.set(key, entity)
+    }
+    if (!entity.chunkIndexes.includes(chunkIndex)) entity.chunkIndexes.push(chunkIndex)
+    return entity
+  }
+
+  const triples = new Map<string, IngestionTriple>()
+  extractions.forEach((extraction, chunkIndex) => {
+    const types = new Map(extraction.entities.map(entity => [entity.name.toLowerCase(), entity.type]))
+    extraction.entities.forEach(entity => resolve(entity.name, entity.type, chunkIndex))
+    extraction.relations.forEach(relation => {
+      const source = resolve(relation.source, types.get(relation.source.toLowerCase()) ?? DEFAULT_ENTITY_TYPE, chunkIndex)
+      const target = resolve(relation.target, types.get(relation.target.toLowerCase()) ?? DEFAULT_ENTITY_TYPE, chunkIndex)
+      if (!source || !target || source.id === target.id) return
+      const key = [source.id, relation.type, target.id].join('\u0000')
+      if (triples.has(key)) return
+      triples.set(key, {
+        id: `triple-${triples.size + 1}`,
+        source: source.id,
+        target: target.id,
+        type: relation.type,
+        evidence: relation.evidence,
+        chunkIndex
+      })
+    })
+  })
+
+  return {
+    document: {
+      id: uniqueId(`document-${slug(source.title) || 'untitled'}`, takenIds),
+      title: source.title,
+      format: source.format,
+      characters: source.text.length
+    },
+    chunks,
+    entities: [...entities.values()],
+    triples: [...triples.values()],
+    warnings
+  }
+}
+
+/**
+ * The accepted part of a proposal as graph elements: the Document node,
+ * its Chunk nodes, new entity nodes, a MENTIONS relationship from every
+ * chunk to the entities it names and the accepted triples
+ *
+ * Existing entities are referred to by id only, so merging the result into
+ * the graph links to them without touching them
+ */
+export function ingestionToGraph(proposal: IngestionProposal, rejected: IngestionRejections): GraphData {
+  const { document } = proposal
+  const accepted = proposal.entities.filter(entity => !rejected.entities.has(entity.id))
+  const acceptedIds = new Set(accepted.map(entity => entity.id))
+  const chunkId = (index: number) => `${document.id}-chunk-${index + 1}`
+  const relationships: GraphRelationship[] = []
+  const relate = (source: string, type: string, target: string, properties?: Record<string, unknown>) => {
+    relationships.push({ id: `${document.id}-rel-${relationships.length + 1}`, source, target, type, ...(properties ? { properties } : {}) })
+  }
+
+  const nodes: GraphNode[] = [
+    {
+      id: document.id,
+      label: document.title,
+      type: 'Document',
+      properties: {
+        format: document.format,
+        characters: document.characters,
+        chunks: proposal.chunks.length,
+        ingestedAt: new Date().toISOString()
+      }
+    },
+    ...proposal.chunks.map(chunk => ({
+      id: chunkId(chunk.index),
+      label: `${document.title} #${chunk.index + 1}`,
+      type: 'Chunk',
+      properties: { index: chunk.index, text: chunk.text, ...(chunk.heading ? { heading: chunk.heading } : {}) }
+    })),
+    ...accepted
+      .filter(entity => !entity.existing)
+      .map(entity => ({ id: entity.id, label: entity.name, type: entity.type, properties: { source: document.title } }))
+  ]
+
+  proposal.chunks.forEach(chunk => relate(document.id, 'HAS_CHUNK', chunkId(chunk.index)))
+  accepted.forEach(entity => entity.chunkIndexes.forEach(index => relate(chunkId(index), 'MENTIONS', entity.id)))
+  proposal.triples
+    .filter(triple => !rejected.triples.has(triple.id) && acceptedIds.has(triple.source) && acceptedIds.has(triple.target))
+    .forEach(triple => relate(triple.source, triple.type, triple.target, { document: document.id, evidence: triple.evidence }))
+
+  return { nodes, relationships }
+}
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60)
+}
+
+function uniqueId(base: string, taken: Set<string>): string {
+  let id = base
+  for (let n = 2; taken.has(id); n++) id = `${base}-${n}`
+  taken.add(id)
+  return id
+}
@@ -0,0 +1,47 @@
+import type { GraphData, GraphNode } from '../../types'
+import { stem } from '../retrieval'
+
+/** Node types the ingestion itself creates, never matched as entities */
+export const DOCUMENT_TYPES = new Set(['Document', 'Chunk'])
+
+/**
+ * Finds the node an extracted entity name refers to
+ *
+ * A name matches a node's label ignoring case, punctuation and plurals, and
+ * "RAG (Retrieval Augmented Generation)" is also found as "RAG" or as
+ * "Retrieval Augmented Generation"
+ */
+export function createEntityMatcher(graph: GraphData): (name: string) => GraphNode | undefined {
+  const index = new Map<string, GraphNode>()
+  graph.nodes
+    .filter(node => !DOCUMENT_TYPES.has(node.type))
+    .forEach(node => {
+      entityNames(node.label).forEach(name => {
+        const key = entityKey(name)
+        if (key && !index.has(key)) index.set(key, node)
+      })
+    })
+  return name => index.get(entityKey(name))
+}
+
+/**
+ * Names a label can be referred to by: the label, and for "Short (Long
+ * form)" labels each part on its own
+ */
+export function entityNames(label: string): string[] {
+  const parenthesised = /^(.*?)\s*\((.+)\)\s*$/.exec(label)
+  return parenthesised ? [label, parenthesised[1], parenthesised[2]].filter(Boolean) : [label]
+}
+
+/**
+ * Key two spellings of the same name share, e.g. "Knowledge graphs" and
+ * "knowledge-graph"
+ */
+export function entityKey(name: string): string {
+  return name
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean)
+    .map(stem)
+    .join(' ')
+}
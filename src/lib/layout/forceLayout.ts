@@ -0,0 +1,159 @@
+import type { GraphData } from '../../types'
+import { endpointId } from '../graph'
+import type { LayoutSettings, Point } from './layouts'
+
+/** Starting position of a node; unset coordinates are chosen by d3 */
+export interface SeedPosition {
+  x?: number
+  y?: number
+}
+
+/** Layout settings with what they resolve to for the current graph */
+export interface LayoutState {
+  settings: LayoutSettings
+  center: Point
+  /** Target positions of the non-force layouts, see layoutTargets */
+  targets: Map<string, Point> | null
+}
+
+/** Layout as sent to the worker: targets as x, y pairs by node index, NaN where unset */
+interface WorkerLayout {
+  settings: LayoutSettings
+  center: Point
+  targets: Float32Array | null
+}
+
+export type ForceLayoutRequest =
+  | {
+    type: 'graph'
+    version: number
+    nodes: SeedPosition[]
+    /** Source and target node index per relationship */
+    links: [number, number][]
+    layout: WorkerLayout
+    pins: [number, number, number][]
+    /** Starting energy: 1 for a fresh layout, lower to settle a mostly placed graph */
+    alpha: number
+  }
+  | { type: 'layout'; layout: WorkerLayout; alpha: number }
+  /** Node index, x and y of every pinned node; all others are released */
+  | { type: 'pins'; pins: [number, number, number][] }
+  | { type: 'positions'; positions: Float32Array }
+  | { type: 'drag'; index: number; x: number; y: number }
+  | { type: 'dragEnd' }
+
+export interface ForceLayoutResponse {
+  type: 'tick' | 'end'
+  version: number
+  /** x, y per node, in the order of the graph's nodes */
+  positions: Float32Array
+}
+
+export interface ForceLayout {
+  /** Lays out a new graph, keeping the positions of nodes laid out before */
+  setGraph: (data: GraphData, layout: LayoutState, pins: Record<string, Point>) => void
+  /** Switches layout, or moves the targets of the current one */
+  setLayout: (layout: LayoutState) => void
+  setPins: (pins: Record<string, Point>) => void
+  /** Moves nodes to given positions, e.g. from a saved layout */
+  setPositions: (positions: Record<string, Point>) => void
+  /** Holds a node at a position while it is dragged */
+  drag: (index: number, x: number, y: number) => void
+  dragEnd: () => void
+  dispose: () => void
+}
+
+/**
+ * Runs the d3 force simulation in a Web Worker so large graphs don't block
+ * the main thread. Positions arrive through `onPositions` on every tick, as
+ * x, y pairs in the order of the nodes passed to `setGraph`
+ */
+export function createForceLayout(
+  onPositions: (positions: Float32Array, settled: boolean) => void
+): ForceLayout {
+  const worker = new Worker(new URL('./forceLayout.worker.ts', import.meta.url), { type: 'module' })
+  let version = 0
+  let ids: string[] = []
+  let index = new Map<string, number>()
+  let positions: Float32Array = new Float32Array(0)
+
+  worker.onmessage = (event: MessageEvent<ForceLayoutResponse>) => {
+    // Ticks of a graph that has since been replaced
+    if (event.data.version !== version) return
+    positions = event.data.positions
+    onPositions(positions, event.data.type === 'end')
+  }
+
+  const post = (request: ForceLayoutRequest) => worker.postMessage(request)
+
+  const toWorker = ({ settings, center, targets }: LayoutState): WorkerLayout => {
+    if (!targets) return { settings, center, targets: null }
+    const array = new Float32Array(ids.length * 2).fill(NaN)
+    targets.forEach((point, id) => {
+      const i = index.get(id)
+      if (i === undefined) return
+      array[i * 2] = point.x
+      array[i * 2 + 1] = point.y
+    })
+    return { settings, center, targets: array }
+  }
+
+  const toPins = (pins: Record<string, Point>) =>
+    Object.entries(pins).flatMap(([id, point]): [number, number, number][] => {
+      const i = index.get(id)
+      return i === undefined ? [] : [[i, point.x, point.y]]
+    })
+
+  return {
+    setGraph(data, layout, pins) {
+      const previous = index
+      index = new Map(data.nodes.map((node, i) => [node.id, i]))
+      const links = data.relationships.flatMap((rel): [number, number][] => {
+        const source = index.get(endpointId(rel.source))
+        const target = index.get(endpointId(rel.target))
+        return source === undefined || target === undefined ? [] : [[source, target]]
+      })
+
+      const seeds: SeedPosition[] = data.nodes.map(node => {
+        const i = previous.get(node.id)
+        return i === undefined || i * 2 >= positions.length ? {} : { x: positions[i * 2], y: positions[i * 2 + 1] }
+      })
+      // New nodes start next to a neighbour that already has a place
+      links.forEach(([source, target]) => {
+        const [placed, fresh] = seeds[source].x !== undefined ? [source, target] : [target, source]
+        if (seeds[fresh].x !== undefined || seeds[placed].x === undefined) return
+        seeds[fresh] = {
+          x: seeds[placed].x + (Math.random() - 0.5) * 60,
+          y: (seeds[placed].y ?? 0) + (Math.random() - 0.5) * 60
+        }
+      })
+
+      const placed = seeds.filter(seed => seed.x !== undefined).length
+      ids = data.nodes.map(node => node.id)
+      version++
+      post({
+        type: 'graph',
+        version,
+        nodes: seeds,
+        links,
+        layout: toWorker(layout),
+        pins: toPins(pins),
+        alpha: placed > data.nodes.length / 2 ? 0.3 : 1
+      })
+    },
+    setLayout: layout => post({ type: 'layout', layout: toWorker(layout), alpha: 0.5 }),
+    setPins: pins => post({ type: 'pins', pins: toPins(pins) }),
+    setPositions(saved) {
+      const array = new Float32Array(ids.length * 2)
+      ids.forEach((id, i) => {
+        const point = saved[id]
+        array[i * 2] = point?.x ?? positions[i * 2] ?? 0
+        array[i * 2 + 1] = point?.y ?? positions[i * 2 + 1] ?? 0
+      })
+      post({ type: 'positions', positions: array })
+    },
+    drag: (i, x, y) => post({ type: 'drag', index: i, x, y }),
+    dragEnd: () => post({ type: 'dragEnd' }),
+    dispose: () => worker.terminate()
+  }
+}
@@ -0,0 +1,116 @@
+import {
+  forceSimulation,
+  type Simulation,
+  type SimulationLinkDatum,
+  type SimulationNodeDatum
+} from 'd3'
+import type { ForceLayoutRequest, ForceLayoutResponse } from './forceLayout'
+import { configureForces } from './simulation'
+
+/**
+ * Web Worker side of the force layout, see createForceLayout
+ * Nodes are plain simulation datums; links refer to them by index
+ */
+
+type LayoutNode = SimulationNodeDatum
+type LayoutLink = SimulationLinkDatum<LayoutNode>
+type WorkerLayout = Extract<ForceLayoutRequest, { type: 'layout' }>['layout']
+
+// The DOM lib types `self` as Window; inside a worker it behaves like this
+const scope = self as unknown as Worker
+
+let simulation: Simulation<LayoutNode, LayoutLink> | null = null
+let nodes: LayoutNode[] = []
+let links: LayoutLink[] = []
+let version = 0
+// Node being dragged, which keeps its fixed position whatever the pins say
+let dragged: LayoutNode | null = null
+
+function post(type: ForceLayoutResponse['type']) {
+  const positions = new Float32Array(nodes.length * 2)
+  nodes.forEach((node, i) => {
+    positions[i * 2] = node.x ?? 0
+    positions[i * 2 + 1] = node.y ?? 0
+  })
+  const response: ForceLayoutResponse = { type, version, positions }
+  scope.postMessage(response, [positions.buffer])
+}
+
+function applyLayout(sim: Simulation<LayoutNode, LayoutLink>, { settings, center, targets }: WorkerLayout) {
+  configureForces(sim, {
+    settings,
+    links,
+    center,
+    target: targets
+      ? (_node, i) => Number.isNaN(targets[i * 2]) ? undefined : { x: targets[i * 2], y: targets[i * 2 + 1] }
+      : null
+  })
+}
+
+function applyPins(pins: [number, number, number][]) {
+  nodes.forEach(node => {
+    if (node === dragged) return
+    node.fx = null
+    node.fy = null
+  })
+  pins.forEach(([i, x, y]) => {
+    if (!nodes[i] || nodes[i] === dragged) return
+    nodes[i].fx = x
+    nodes[i].fy = y
+  })
+}
+
+scope.onmessage = (event: MessageEvent<ForceLayoutRequest>) => {
+  const request = event.data
+  switch (request.type) {
+    case 'graph': {
+      simulation?.stop()
+      version = request.version
+      dragged = null
+      nodes = request.nodes.map(seed => ({ x: seed.x, y: seed.y }))
+      links = request.links.map(([source, target]) => ({ source, target }))
+      applyPins(request.pins)
+
+      simulation = forceSimulation(nodes)
+        .alpha(request.alpha)
+        .on('tick', () => post('tick'))
+        .on('end', () => post('end'))
+      applyLayout(simulation, request.layout)
+      post('tick')
+      break
+    }
+    case 'layout':
+      if (!simulation) return
+      applyLayout(simulation, request.layout)
+      simulation.alpha(request.alpha).restart()
+      break
+    case 'pins':
+      applyPins(request.pins)
+      simulation?.alpha(Math.max(simulation.alpha(), 0.1)).restart()
+      break
+    case 'positions':
+      nodes.forEach((node, i) => {
+        node.x = request.positions[i * 2]
+        node.y = request.positions[i * 2 + 1]
+        node.vx = 0
+        node.vy = 0
+      })
+      simulation?.alpha(0.05).restart()
+      post('tick')
+      break
+    case 'drag': {
+      const node = nodes[request.index]
+      if (!node || !simulation) return
+      dragged = node
+      node.fx = request.x
+      node.fy = request.y
+      simulation.alphaTarget(0.3).restart()
+      break
+    }
+    case 'dragEnd':
+      // The node stays where it was dropped; the renderer reports it as pinned
+      dragged = null
+      simulation?.alphaTarget(0)
+      break
+  }
+}
@@ -0,0 +1,18 @@
+export {
+  layoutTargets,
+  layoutKinds,
+  defaultLayoutSettings,
+  type LayoutKind,
+  type LayoutSettings,
+  type ForceParameters,
+  type Point
+} from './layouts'
+export { configureForces } from './simulation'
+export { createForceLayout, type ForceLayout, type LayoutState } from './forceLayout'
+export {
+  graphKey,
+  loadSavedLayouts,
+  saveLayout,
+  deleteSavedLayout,
+  type SavedLayout
+} from './savedLayouts'
@@ -0,0 +1,257 @@
+import type { GraphData } from '../../types'
+import { endpointId } from '../graph'
+
+export type LayoutKind = 'force' | 'hierarchical' | 'radial' | 'circular' | 'grid'
+
+export interface Point {
+  x: number
+  y: number
+}
+
+export interface ForceParameters {
+  linkDistance: number
+  /** Many-body strength, negative values push nodes apart */
+  charge: number
+  collisionRadius: number
+}
+
+export interface LayoutSettings {
+  kind: LayoutKind
+  force: ForceParameters
+  /** Relationship types that define the levels of the hierarchical layout; empty for all */
+  hierarchyTypes: string[]
+}
+
+export const defaultLayoutSettings: LayoutSettings = {
+  kind: 'force',
+  force: { linkDistance: 100, charge: -300, collisionRadius: 40 },
+  hierarchyTypes: []
+}
+
+export const layoutKinds: Record<LayoutKind, { label: string; hint: string }> = {
+  force: { label: 'Force-directed', hint: 'Related nodes cluster together' },
+  hierarchical: { label: 'Hierarchical', hint: 'Levels follow relationship direction' },
+  radial: { label: 'Radial', hint: 'Rings by distance from the selected node' },
+  circular: { label: 'Circular', hint: 'One circle, ordered by label' },
+  grid: { label: 'Grid by label', hint: 'A block of nodes per label' }
+}
+
+const LEVEL_GAP = 120
+const SIBLING_GAP = 90
+const RING_GAP = 150
+const GRID_GAP = 80
+
+/**
+ * Target positions of every node for the non-force layouts, centred on
+ * `center`. Returns null for the force layout, whose positions come from
+ * the simulation alone
+ */
+export function layoutTargets(
+  data: GraphData,
+  settings: LayoutSettings,
+  options: { center: Point; focusId?: string }
+): Map<string, Point> | null {
+  let positions: Map<string, Point>
+  switch (settings.kind) {
+    case 'force':
+      return null
+    case 'hierarchical':
+      positions = hierarchicalLayout(data, settings.hierarchyTypes)
+      break
+    case 'radial':
+      positions = radialLayout(data, options.focusId)
+      break
+    case 'circular':
+      positions = circularLayout(data)
+      break
+    case 'grid':
+      positions = gridLayout(data)
+      break
+  }
+  return centred(positions, options.center)
+}
+
+function centred(positions: Map<string, Point>, center: Point): Map<string, Point> {
+  if (positions.size === 0) return positions
+  const xs = [...positions.values()].map(p => p.x)
+  const ys = [...positions.values()].map(p => p.y)
+  const dx = center.x - (Math.min(...xs) + Math.max(...xs)) / 2
+  const dy = center.y - (Math.min(...ys) + Math.max(...ys)) / 2
+  return new Map([...positions].map(([id, p]) => [id, { x: p.x + dx, y: p.y + dy }]))
+}
+
+function byLabel(data: GraphData) {
+  return [...data.nodes].sort((a, b) => a.type.localeCompare(b.type) || a.label.localeCompare(b.label))
+}
+
+/**
+ * Layered layout: each node sits one level below the deepest node pointing
+ * at it, so chains read top to bottom. Cycles are broken at back edges and
+ * nodes are ordered within a level by the average position of their parents
+ */
+function hierarchicalLayout(data: GraphData, types: string[]): Map<string, Point> {
+  const ids = byLabel(data).map(node => node.id)
+  const known = new Set(ids)
+  const children = new Map<string, string[]>(ids.map(id => [id, []]))
+  data.relationships.forEach(rel => {
+    const source = endpointId(rel.source)
+    const target = endpointId(rel.target)
+    if ((types.length > 0 && !types.includes(rel.type)) || source === target) return
+    if (known.has(source) && known.has(target)) children.get(source)!.push(target)
+  })
+
+  // Depth-first search drops edges that close a cycle
+  const state = new Map<string, 'active' | 'done'>()
+  const acyclic = new Map<string, string[]>(ids.map(id => [id, []]))
+  const visit = (root: string) => {
+    const stack: [string, number][] = [[root, 0]]
+    state.set(root, 'active')
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1]
+      const [id, next] = top
+      const targets = children.get(id)!
+      if (next >= targets.length) {
+        state.set(id, 'done')
+        stack.pop()
+        continue
+      }
+      top[1]++
+      const target = targets[next]
+      if (state.get(target) === 'active') continue
+      acyclic.get(id)!.push(target)
+      if (!state.has(target)) {
+        state.set(target, 'active')
+        stack.push([target, 0])
+      }
+    }
+  }
+  ids.forEach(id => {
+    if (!state.has(id)) visit(id)
+  })
+
+  // Longest path from the roots, in topological order
+  const indegree = new Map<string, number>(ids.map(id => [id, 0]))
+  acyclic.forEach(targets => targets.forEach(t => indegree.set(t, indegree.get(t)! + 1)))
+  const level = new Map<string, number>(ids.map(id => [id, 0]))
+  const queue = ids.filter(id => indegree.get(id) === 0)
+  const parents = new Map<string, string[]>(ids.map(id => [id, []]))
+  for (let i = 0; i < queue.length; i++) {
+    const id = queue[i]
+    acyclic.get(id)!.forEach(target => {
+      level.set(target, Math.max(level.get(target)!, level.get(id)! + 1))
+      parents.get(target)!.push(id)
+      indegree.set(target, indegree.get(target)! - 1)
+      if (indegree.get(target) === 0) queue.push(target)
+    })
+  }
+
+  const levels: string[][] = []
+  queue.forEach(id => (levels[level.get(id)!] ??= []).push(id))
+
+  const order = new Map<string, number>()
+  const positions = new Map<string, Point>()
+  levels.forEach((row, depth) => {
+    const barycenter = (id: string) => {
+      const placed = parents.get(id)!.filter(p => order.has(p))
+      return placed.length > 0
+        ? placed.reduce((sum, p) => sum + order.get(p)!, 0) / placed.length
+        : Infinity
+    }
+    const sorted = depth === 0 ? row : [...row].sort((a, b) => barycenter(a) - barycenter(b))
+    sorted.forEach((id, i) => {
+      order.set(id, i / Math.max(1, sorted.length - 1))
+      positions.set(id, { x: (i - (sorted.length - 1) / 2) * SIBLING_GAP, y: depth * LEVEL_GAP })
+    })
+  })
+  return positions
+}
+
+/**
+ * Concentric rings by hop distance from the focus node (the most connected
+ * node when none is given); each node stays close to the angle of the node
+ * it was reached from. Unreachable nodes form the outermost ring
+ */
+function radialLayout(data: GraphData, focusId?: string): Map<string, Point> {
+  const neighbours = new Map<string, string[]>(data.nodes.map(node => [node.id, []]))
+  data.relationships.forEach(rel => {
+    const source = endpointId(rel.source)
+    const target = endpointId(rel.target)
+    if (!neighbours.has(source) || !neighbours.has(target)) return
+    neighbours.get(source)!.push(target)
+    neighbours.get(target)!.push(source)
+  })
+  if (neighbours.size === 0) return new Map()
+
+  const focus = focusId && neighbours.has(focusId)
+    ? focusId
+    : [...neighbours].sort((a, b) => b[1].length - a[1].length)[0][0]
+
+  const depth = new Map<string, number>([[focus, 0]])
+  const angle = new Map<string, number>([[focus, 0]])
+  const rings: string[][] = [[focus]]
+  for (let ring = 0; rings[ring]?.length; ring++) {
+    const next: { id: string; parentAngle: number }[] = []
+    rings[ring].forEach(id => neighbours.get(id)!.forEach(neighbour => {
+      if (depth.has(neighbour)) return
+      depth.set(neighbour, ring + 1)
+      next.push({ id: neighbour, parentAngle: angle.get(id)! })
+    }))
+    next.sort((a, b) => a.parentAngle - b.parentAngle)
+    next.forEach(({ id }, i) => angle.set(id, (i / next.length) * Math.PI * 2))
+    if (next.length > 0) rings.push(next.map(entry => entry.id))
+  }
+
+  const unreached = byLabel(data).filter(node => !depth.has(node.id)).map(node => node.id)
+  unreached.forEach((id, i) => angle.set(id, (i / unreached.length) * Math.PI * 2))
+  if (unreached.length > 0) rings.push(unreached)
+
+  const positions = new Map<string, Point>()
+  rings.forEach((ring, r) => {
+    // Rings grow when they would otherwise be too crowded
+    const radius = Math.max(r * RING_GAP, (ring.length * SIBLING_GAP) / (Math.PI * 2))
+    ring.forEach(id => {
+      const a = angle.get(id)!
+      positions.set(id, { x: Math.cos(a) * radius, y: Math.sin(a) * radius })
+    })
+  })
+  return positions
+}
+
+function circularLayout(data: GraphData): Map<string, Point> {
+  const nodes = byLabel(data)
+  const radius = Math.max(RING_GAP, (nodes.length * SIBLING_GAP) / (Math.PI * 2))
+  return new Map(nodes.map((node, i) => {
+    const a = (i / nodes.length) * Math.PI * 2 - Math.PI / 2
+    return [node.id, { x: Math.cos(a) * radius, y: Math.sin(a) * radius }]
+  }))
+}
+
+/**
+ * A square block of nodes per label, blocks side by side in rows
+ */
+function gridLayout(data: GraphData): Map<string, Point> {
+  const groups = new Map<string, string[]>()
+  byLabel(data).forEach(node => groups.set(node.type, [...(groups.get(node.type) ?? []), node.id]))
+
+  const rowWidth = Math.ceil(Math.sqrt(data.nodes.length) * 1.5) * GRID_GAP
+  const positions = new Map<string, Point>()
+  let left = 0
+  let top = 0
+  let rowHeight = 0
+  groups.forEach(ids => {
+    const columns = Math.ceil(Math.sqrt(ids.length))
+    const width = columns * GRID_GAP
+    if (left > 0 && left + width > rowWidth) {
+      left = 0
+      top += rowHeight + GRID_GAP
+      rowHeight = 0
+    }
+    ids.forEach((id, i) => positions.set(id, {
+      x: left + (i % columns) * GRID_GAP,
+      y: top + Math.floor(i / columns) * GRID_GAP
+    }))
+    rowHeight = Math.max(rowHeight, Math.ceil(ids.length / columns) * GRID_GAP)
+    left += width + GRID_GAP
+  })
+  return positions
+}
@@ -0,0 +1,66 @@
+import type { GraphData } from '../../types'
+import type { LayoutSettings, Point } from './layouts'
+
+const STORAGE_KEY = 'graphrag-explorer:layouts'
+
+/**
+ * A named arrangement of one graph: every node's position, which of them
+ * are pinned and the layout settings in effect when it was saved
+ */
+export interface SavedLayout {
+  name: string
+  savedAt: string
+  settings: LayoutSettings
+  positions: Record<string, Point>
+  pinned: string[]
+}
+
+type LayoutStore = Record<string, SavedLayout[]>
+
+/**
+ * Key identifying a graph by its node ids, so layouts follow the graph
+ * rather than the data source it was loaded from
+ */
+export function graphKey(data: GraphData): string {
+  const ids = data.nodes.map(node => node.id).sort().join('\u0000')
+  let hash = 5381
+  for (let i = 0; i < ids.length; i++) hash = ((hash << 5) + hash + ids.charCodeAt(i)) | 0
+  return `${data.nodes.length}:${(hash >>> 0).toString(36)}`
+}
+
+function loadStore(): LayoutStore {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    return saved ? JSON.parse(saved) : {}
+  } catch {
+    return {}
+  }
+}
+
+function saveStore(store: LayoutStore): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(store))
+}
+
+export function loadSavedLayouts(key: string): SavedLayout[] {
+  return loadStore()[key] ?? []
+}
+
+/**
+ * Saves a layout, replacing any layout of the same name for the graph
+ */
+export function saveLayout(key: string, layout: SavedLayout): SavedLayout[] {
+  const store = loadStore()
+  const layouts = [...(store[key] ?? []).filter(saved => saved.name !== layout.name), layout]
+    .sort((a, b) => a.name.localeCompare(b.name))
+  saveStore({ ...store, [key]: layouts })
+  return layouts
+}
+
+export function deleteSavedLayout(key: string, name: string): SavedLayout[] {
+  const store = loadStore()
+  const layouts = (store[key] ?? []).filter(saved => saved.name !== name)
+  if (layouts.length > 0) store[key] = layouts
+  else delete store[key]
+  saveStore(store)
+  return layouts
+}
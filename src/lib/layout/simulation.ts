@@ -0,0 +1,57 @@
+import {
+  forceCenter,
+  forceCollide,
+  forceLink,
+  forceManyBody,
+  forceX,
+  forceY,
+  type Simulation,
+  type SimulationLinkDatum,
+  type SimulationNodeDatum
+} from 'd3'
+import type { LayoutSettings, Point } from './layouts'
+
+/**
+ * Sets up the forces of a simulation for a layout, shared by the SVG
+ * renderer and the canvas renderer's worker
+ *
+ * The force layout uses link, charge, centre and collision forces. Other
+ * layouts pull every node towards its target position instead, so switching
+ * layouts animates nodes into place and dragging keeps working
+ */
+export function configureForces<N extends SimulationNodeDatum, L extends SimulationLinkDatum<N>>(
+  simulation: Simulation<N, L>,
+  options: {
+    settings: LayoutSettings
+    links: L[]
+    center: Point
+    /** Target per node for the non-force layouts */
+    target: ((node: N, index: number) => Point | undefined) | null
+    /** Node id accessor when links refer to nodes by id rather than index */
+    nodeId?: (node: N) => string
+  }
+): Simulation<N, L> {
+  const { settings, links, center, target, nodeId } = options
+  const link = forceLink<N, L>(links)
+  if (nodeId) link.id(nodeId)
+
+  if (target) {
+    // Links are kept with no strength so D3 still resolves their endpoints
+    return simulation
+      .force('link', link.strength(0))
+      .force('charge', null)
+      .force('center', null)
+      .force('collision', null)
+      .force('x', forceX<N>((node, i) => target(node, i)?.x ?? center.x).strength(0.25))
+      .force('y', forceY<N>((node, i) => target(node, i)?.y ?? center.y).strength(0.25))
+  }
+
+  const { linkDistance, charge, collisionRadius } = settings.force
+  return simulation
+    .force('x', null)
+    .force('y', null)
+    .force('link', link.distance(linkDistance))
+    .force('charge', forceManyBody<N>().strength(charge).distanceMax(1000))
+    .force('center', forceCenter<N>(center.x, center.y))
+    .force('collision', forceCollide<N>(collisionRadius))
+}
@@ -0,0 +1,52 @@
+import type { LLMConfig, LLMProvider, LLMProviderKind } from '../../types'
+import { createMockProvider } from './mock'
+import { createOllamaProvider } from './ollama'
+import { createOpenAIProvider } from './openai'
+
+export { createMockProvider } from './mock'
+export { createOllamaProvider } from './ollama'
+export { createOpenAIProvider } from './openai'
+export { buildExtractionPrompt, buildGraphRAGPrompt, buildTextToCypherPrompt, formatGraphContext } from './prompt'
+export { collectStream } from './stream'
+
+const STORAGE_KEY = 'graphrag-explorer:llm-config'
+
+/** Endpoint and model suggested when switching provider */
+export const providerDefaults: Record<LLMProviderKind, Pick<LLMConfig, 'endpoint' | 'model'>> = {
+  mock: { endpoint: '', model: 'mock' },
+  openai: { endpoint: 'https://api.openai.com/v1', model: 'gpt-4o-mini' },
+  ollama: { endpoint: 'http://localhost:11434', model: 'llama3.1' }
+}
+
+export const defaultLLMConfig: LLMConfig = {
+  provider: 'mock',
+  ...providerDefaults.mock,
+  apiKey: ''
+}
+
+export function createLLMProvider(config: LLMConfig): LLMProvider {
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAIProvider(config)
+    case 'ollama':
+      return createOllamaProvider(config)
+    default:
+      return createMockProvider()
+  }
+}
+
+/**
+ * Reads the saved LLM settings, falling back to the offline mock provider
+ */
+export function loadLLMConfig(): LLMConfig {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    return saved ? { ...defaultLLMConfig, ...JSON.parse(saved) } : defaultLLMConfig
+  } catch {
+    return defaultLLMConfig
+  }
+}
+
+export function saveLLMConfig(config: LLMConfig): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config))
+}
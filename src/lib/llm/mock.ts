@@ -0,0 +1,99 @@
+import type { ChatMessage, LLMProvider, RAGContext } from '../../types'
+import { findSampleQuery } from '../../data/sampleGraph'
+import { streamText } from '../utils'
+
+interface MockProviderOptions {
+  /** Delay between streamed words */
+  delayMs?: number
+  /** Fixed completions for streamChat, keyed by the last user message */
+  completions?: Record<string, string>
+}
+
+// Predefined answers for the sample queries
+const cannedResponses: Record<string, string> = {
+  'How does GraphRAG improve AI accuracy?': `GraphRAG significantly improves AI accuracy by leveraging graph databases to provide relationship-aware context to language models. Unlike traditional RAG systems that retrieve isolated documents, GraphRAG understands how entities are connected. This enables the AI to:
+
+1. Follow multi-hop relationships to find relevant context
+2. Understand semantic connections between concepts
+3. Provide citations that show the reasoning path
+4. Reduce hallucinations by grounding responses in structured knowledge
+
+The graph structure naturally encodes the relationships that make responses more accurate and explainable.`,
+
+  'What companies use Neo4j and for what purpose?': `Several leading organizations use Neo4j for mission-critical applications:
+
+NASA uses Neo4j for mission planning and resource optimization, which helped them reach Mars 2 years earlier than originally planned. The graph database's ability to model complex relationships between resources, schedules, and constraints was essential.
+
+The International Consortium of Investigative Journalists (ICIJ) used Neo4j to break the Panama Papers story, uncovering hidden financial networks by traversing relationships between shell companies, individuals, and transactions.
+
+These use cases demonstrate how graph databases excel at revealing patterns in highly connected data.`,
+
+  'How is GraphRAG different from regular RAG?': `GraphRAG enhances traditional RAG by replacing or augmenting vector databases with graph databases:
+
+Traditional RAG typically uses vector databases for similarity-based retrieval, which finds semantically similar documents but doesn't capture relationships between entities.
+
+GraphRAG uses Neo4j's graph structure to:
+- Query with Cypher for precise pattern matching
+- Traverse relationships to find multi-hop context
+- Understand how entities are connected
+- Provide transparent reasoning paths
+
+While vector databases are great for similarity search, they miss the semantic relationships that graphs naturally encode. The ideal architecture often combines both: vectors for similarity, graphs for relationships.`,
+
+  'What are the main challenges facing GenAI?': `Generative AI faces several critical challenges that graph databases help address:
+
+1. **Response Accuracy**: LLMs tend to hallucinate or generate plausible-sounding but incorrect information. GraphRAG grounds responses in factual, structured knowledge from the graph.
+
+2. **AI Explainability**: Understanding how an AI arrived at a conclusion is crucial for trust and compliance. Graphs provide transparent reasoning paths by showing the relationships traversed to generate a response.
+
+3. **Contextual Understanding**: Comprehending complex relationships between entities is difficult for traditional approaches. Graphs naturally encode context through their relationship structure.
+
+These challenges are especially severe in regulated industries where accuracy and explainability are mandatory.`
+}
+
+
+/**
+ * Deterministic provider that needs no network access
+ * Used by default and in tests: sample questions get curated answers,
+ * anything else is summarised from the retrieved graph context
+ */
+export function createMockProvider(options: MockProviderOptions = {}): LLMProvider {
+  const delayMs = options.delayMs ?? 30
+
+  async function* stream(text: string, signal?: AbortSignal) {
+    for await (const chunk of streamText(text, delayMs)) {
+      if (signal?.aborted) return
+      yield chunk
+    }
+  }
+
+  return {
+    name: 'Mock (offline)',
+
+    streamChat(messages: ChatMessage[], signal?: AbortSignal) {
+      const lastUser = [...messages].reverse().find(message => message.role === 'user')
+      const text = (lastUser && options.completions?.[lastUser.content]) ??
+        'This is a mock completion. Configure an OpenAI-compatible or Ollama provider for real model output.'
+      return stream(text, signal)
+    },
+
+    streamAnswer(question: string, context: RAGContext, signal?: AbortSignal) {
+      return stream(mockAnswer(question, context), signal)
+    }
+  }
+}
+
+function mockAnswer(question: string, context: RAGContext): string {
+  const sampleQuery = findSampleQuery(question)
+  if (sampleQuery && cannedResponses[sampleQuery.natural]) {
+    return cannedResponses[sampleQuery.natural]
+  }
+
+  const sources = context.retrievedNodes
+  if (sources.length === 0) {
+    return `I searched the knowledge graph but couldn't find specific information about "${question}". The graph contains information about GenAI, graph databases, and their real-world applications. Try asking about GraphRAG, Neo4j use cases, or how graphs improve AI accuracy.`
+  }
+
+  const sourceNames = sources.map(s => s.label).join(', ')
+  return `Based on the knowledge graph, I found relevant information in ${sourceNames}. ${sources[0].properties.description || 'These concepts are interconnected in the graph, showing how they relate to your question.'} The graph structure helps me understand these relationships and provide more accurate, explainable responses.`
+}
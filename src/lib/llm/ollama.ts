@@ -0,0 +1,40 @@
+import type { ChatMessage, LLMConfig, LLMProvider } from '../../types'
+import { buildGraphRAGPrompt } from './prompt'
+import { assertOk, readLines } from './stream'
+
+/**
+ * Client for a local Ollama server's /api/chat endpoint,
+ * which streams newline-delimited JSON chunks
+ */
+export function createOllamaProvider(config: LLMConfig): LLMProvider {
+  const url = `${config.endpoint.replace(/\/+$/, '')}/api/chat`
+
+  async function* streamChat(messages: ChatMessage[], signal?: AbortSignal) {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      signal,
+      body: JSON.stringify({ model: config.model, messages, stream: true })
+    })
+    await assertOk(response, 'Ollama')
+
+    for await (const line of readLines(response)) {
+      if (!line.trim()) continue
+      const chunk = JSON.parse(line) as {
+        message?: { content?: string }
+        done?: boolean
+        error?: string
+      }
+      if (chunk.error) throw new Error(chunk.error)
+      if (chunk.message?.content) yield chunk.message.content
+      if (chunk.done) return
+    }
+  }
+
+  return {
+    name: `Ollama (${config.model})`,
+    streamChat,
+    streamAnswer: (question, context, signal) =>
+      streamChat(buildGraphRAGPrompt(question, context), signal)
+  }
+}
@@ -0,0 +1,46 @@
+import type { ChatMessage, LLMConfig, LLMProvider } from '../../types'
+import { buildGraphRAGPrompt } from './prompt'
+import { assertOk, readLines } from './stream'
+
+/**
+ * Client for any OpenAI-compatible /chat/completions endpoint,
+ * streaming tokens over server-sent events
+ */
+export function createOpenAIProvider(config: LLMConfig): LLMProvider {
+  const url = `${config.endpoint.replace(/\/+$/, '')}/chat/completions`
+
+  async function* streamChat(messages: ChatMessage[], signal?: AbortSignal) {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({ model: config.model, messages, stream: true })
+    })
+    await assertOk(response, 'OpenAI')
+
+    for await (const line of readLines(response)) {
+      // SSE frames look like "data: {...}"; comments and blank keep-alives are skipped
+      if (!line.startsWith('data:')) continue
+      const payload = line.slice(5).trim()
+      if (payload === '[DONE]') return
+
+      const chunk = JSON.parse(payload) as {
+        choices?: { delta?: { content?: string } }[]
+        error?: { message: string }
+      }
+      if (chunk.error) throw new Error(chunk.error.message)
+      const token = chunk.choices?.[0]?.delta?.content
+      if (token) yield token
+    }
+  }
+
+  return {
+    name: `OpenAI-compatible (${config.model})`,
+    streamChat,
+    streamAnswer: (question, context, signal) =>
+      streamChat(buildGraphRAGPrompt(question, context), signal)
+  }
+}
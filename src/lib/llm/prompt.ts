@@ -0,0 +1,102 @@
+import type { ChatMessage, GraphSchema, RAGContext } from '../../types'
+import { endpointId, nodeLabels } from '../graph'
+import { describeSchema } from '../schema'
+
+const SYSTEM_PROMPT = `You are the GraphRAG Assistant, answering questions about a knowledge graph.
+Answer only from the graph context provided. Mention the nodes you rely on by their label,
+and explain the relationships that connect them when they support the answer.
+If the context does not contain the answer, say so instead of guessing.`
+
+/**
+ * Serialises retrieved nodes and relationships into a compact text block
+ * Nodes are listed by descending retrieval score so truncation drops the weakest context first
+ */
+export function formatGraphContext(context: RAGContext): string {
+  const labels = new Map(context.retrievedNodes.map(node => [node.id, node.label]))
+
+  const nodes = context.retrievedNodes.map(node => {
+    const score = context.nodeScores[node.id]
+    const properties = Object.entries(node.properties)
+      .map(([key, value]) => `${key}: ${typeof value === 'object' ? JSON.stringify(value) : String(value)}`)
+      .join('; ')
+    return `- [${nodeLabels(node).join(':')}] ${node.label}${score !== undefined ? ` (score ${score.toFixed(2)})` : ''}${properties ? ` — ${properties}` : ''}`
+  })
+
+  const relationships = context.retrievedRelationships.map(rel => {
+    const source = labels.get(endpointId(rel.source)) ?? endpointId(rel.source)
+    const target = labels.get(endpointId(rel.target)) ?? endpointId(rel.target)
+    const properties = rel.properties && Object.keys(rel.properties).length > 0
+      ? ` ${JSON.stringify(rel.properties)}`
+      : ''
+    return `- (${source})-[:${rel.type}${properties}]->(${target})`
+  })
+
+  return [
+    'Nodes:',
+    ...(nodes.length > 0 ? nodes : ['(none)']),
+    '',
+    'Relationships:',
+    ...(relationships.length > 0 ? relationships : ['(none)'])
+  ].join('\n')
+}
+
+/**
+ * Builds the chat messages sent to an LLM for a grounded answer
+ */
+export function buildGraphRAGPrompt(question: string, context: RAGContext): ChatMessage[] {
+  return [
+    { role: 'system', content: SYSTEM_PROMPT },
+    {
+      role: 'user',
+      content: `Knowledge graph context:\n${formatGraphContext(context)}\n\nQuestion: ${question}`
+    }
+  ]
+}
+
+const CYPHER_SYSTEM_PROMPT = `You translate questions into read-only Cypher for the graph schema below.
+Use only the labels, relationship types, directions and property keys listed in the schema.
+Nodes are identified by their id and label properties. Always end with RETURN.
+Reply with a single query in a \`\`\`cypher code block and nothing else.`
+
+/**
+ * Builds the chat messages asking an LLM to write Cypher for a question
+ * On repair rounds the rejected query and its validation errors are fed back
+ */
+export function buildTextToCypherPrompt(
+  question: string,
+  schema: GraphSchema,
+  previous?: { query: string; errors: string[] }
+): ChatMessage[] {
+  const messages: ChatMessage[] = [
+    { role: 'system', content: `${CYPHER_SYSTEM_PROMPT}\n\n${describeSchema(schema)}` },
+    { role: 'user', content: question }
+  ]
+  if (previous) {
+    messages.push(
+      { role: 'assistant', content: `\`\`\`cypher\n${previous.query}\n\`\`\`` },
+      {
+        role: 'user',
+        content: `That query does not fit the schema:\n${previous.errors.map(e => `- ${e}`).join('\n')}\nReturn a corrected query.`
+      }
+    )
+  }
+  return messages
+}
+
+const EXTRACTION_SYSTEM_PROMPT = `You extract a knowledge graph from a passage of text.
+List the named entities the passage mentions and the relationships it states between them.
+Prefer the node labels and relationship types of the schema below when they fit; otherwise use
+a PascalCase label and an UPPER_SNAKE_CASE relationship type. Relationships point from subject to object.
+Reply with JSON only, in this shape:
+{"entities": [{"name": "...", "type": "..."}], "relations": [{"source": "...", "type": "...", "target": "...", "evidence": "sentence stating it"}]}`
+
+/**
+ * Builds the chat messages asking an LLM to extract entities and relations
+ * from one chunk of an ingested document
+ */
+export function buildExtractionPrompt(passage: string, schema: GraphSchema): ChatMessage[] {
+  return [
+    { role: 'system', content: `${EXTRACTION_SYSTEM_PROMPT}\n\n${describeSchema(schema)}` },
+    { role: 'user', content: passage }
+  ]
+}
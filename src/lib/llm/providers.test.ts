@@ -0,0 +1,122 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { LLMConfig, RAGContext } from '../../types'
+import { createMockProvider } from './mock'
+import { createOllamaProvider } from './ollama'
+import { createOpenAIProvider } from './openai'
+import { collectStream } from './stream'
+
+/** A response whose body arrives in the given pieces */
+function streamedResponse(pieces: string[], init?: ResponseInit): Response {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(encoder.encode(piece)))
+      controller.close()
+    }
+  })
+  return new Response(body, init)
+}
+
+/** Answers every request with the response and records what was sent */
+function serve(response: Response) {
+  const fetch = vi.fn<typeof globalThis.fetch>(async () => response)
+  vi.stubGlobal('fetch', fetch)
+  return fetch
+}
+
+const config = (provider: LLMConfig['provider'], endpoint: string): LLMConfig => ({
+  provider,
+  endpoint,
+  model: 'test-model',
+  apiKey: 'sk-test'
+})
+
+const messages = [{ role: 'user' as const, content: 'Hello' }]
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('OpenAI-compatible provider', () => {
+  it('streams the content deltas of server-sent events', async () => {
+    const fetch = serve(streamedResponse([
+      ': keep-alive\n\n',
+      'data: {"choices":[{"delta":{"role":"assistant"}}]}\n\n',
+      'data: {"choices":[{"delta":{"content":"Graph"}}]}\n',
+      '\ndata: {"choices":[{"del',
+      'ta":{"content":"RAG"}}]}\n\n',
+      'data: [DONE]\n\n',
+      'data: {"choices":[{"delta":{"content":"ignored"}}]}\n\n'
+    ]))
+
+    const text = await collectStream(createOpenAIProvider(config('openai', 'https://api.example.com/v1/')).streamChat(messages))
+
+    expect(text).toBe('GraphRAG')
+    const [url, init] = fetch.mock.calls[0]
+    expect(url).toBe('https://api.example.com/v1/chat/completions')
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer sk-test')
+    expect(JSON.parse(String(init?.body))).toEqual({ model: 'test-model', messages, stream: true })
+  })
+
+  it('throws errors sent in the stream', async () => {
+    serve(streamedResponse(['data: {"error":{"message":"Rate limit reached"}}\n\n']))
+    const provider = createOpenAIProvider(config('openai', 'https://api.example.com/v1'))
+    await expect(collectStream(provider.streamChat(messages))).rejects.toThrow('Rate limit reached')
+  })
+
+  it('throws on HTTP errors', async () => {
+    serve(new Response('invalid api key', { status: 401 }))
+    const provider = createOpenAIProvider(config('openai', 'https://api.example.com/v1'))
+    await expect(collectStream(provider.streamChat(messages))).rejects.toThrow('OpenAI request failed with HTTP 401: invalid api key')
+  })
+})
+
+describe('Ollama provider', () => {
+  it('streams the message content of newline-delimited JSON chunks', async () => {
+    const fetch = serve(streamedResponse([
+      '{"message":{"content":"Graph"},"done":false}\n{"mess',
+      'age":{"content":"RAG"},"done":false}\n\n',
+      '{"message":{"content":""},"done":true}\n',
+      '{"message":{"content":"ignored"},"done":false}\n'
+    ]))
+
+    const text = await collectStream(createOllamaProvider(config('ollama', 'http://localhost:11434')).streamChat(messages))
+
+    expect(text).toBe('GraphRAG')
+    expect(fetch.mock.calls[0][0]).toBe('http://localhost:11434/api/chat')
+  })
+
+  it('reads a final chunk without a trailing newline', async () => {
+    serve(streamedResponse(['{"message":{"content":"Neo4j"},"done":true}']))
+    const provider = createOllamaProvider(config('ollama', 'http://localhost:11434'))
+    expect(await collectStream(provider.streamChat(messages))).toBe('Neo4j')
+  })
+
+  it('throws errors sent in the stream', async () => {
+    serve(streamedResponse(['{"error":"model \'test-model\' not found"}\n']))
+    const provider = createOllamaProvider(config('ollama', 'http://localhost:11434'))
+    await expect(collectStream(provider.streamChat(messages))).rejects.toThrow("model 'test-model' not found")
+  })
+})
+
+describe('mock provider', () => {
+  const emptyContext = { retrievedNodes: [] } as unknown as RAGContext
+
+  it('answers chat requests from its fixed completions', async () => {
+    const provider = createMockProvider({ delayMs: 0, completions: { Hello: 'Hi there, graph fan' } })
+    expect(await collectStream(provider.streamChat(messages))).toBe('Hi there, graph fan')
+  })
+
+  it('stops streaming once aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const provider = createMockProvider({ delayMs: 0, completions: { Hello: 'Hi there' } })
+    expect(await collectStream(provider.streamChat(messages, controller.signal))).toBe('')
+  })
+
+  it('says so when retrieval found nothing', async () => {
+    const provider = createMockProvider({ delayMs: 0 })
+    const answer = await collectStream(provider.streamAnswer('Who won the 1998 World Cup?', emptyContext))
+    expect(answer).toContain("couldn't find specific information")
+  })
+})
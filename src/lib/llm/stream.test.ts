@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest'
+import { assertOk, collectStream, readLines } from './stream'
+
+/** A response whose body arrives in the given pieces */
+function streamedResponse(pieces: string[], init?: ResponseInit): Response {
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(encoder.encode(piece)))
+      controller.close()
+    }
+  })
+  return new Response(body, init)
+}
+
+async function* fromArray(items: string[]) {
+  yield* items
+}
+
+describe('readLines', () => {
+  it('yields whole lines however the body is split', async () => {
+    const response = streamedResponse(['da', 'ta: 1\r\ndata: ', '2\n\nlast'])
+    const lines: string[] = []
+    for await (const line of readLines(response)) lines.push(line)
+    expect(lines).toEqual(['data: 1', 'data: 2', '', 'last'])
+  })
+
+  it('decodes characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('café\n')
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(bytes.slice(0, 4))
+        controller.enqueue(bytes.slice(4))
+        controller.close()
+      }
+    })
+    const lines: string[] = []
+    for await (const line of readLines(new Response(body))) lines.push(line)
+    expect(lines).toEqual(['café'])
+  })
+})
+
+describe('assertOk', () => {
+  it('includes the status and body of failed responses', async () => {
+    await expect(assertOk(new Response('model not found', { status: 404 }), 'Ollama'))
+      .rejects.toThrow('Ollama request failed with HTTP 404: model not found')
+    await expect(assertOk(new Response('fine'), 'Ollama')).resolves.toBeUndefined()
+  })
+})
+
+describe('collectStream', () => {
+  it('joins the streamed chunks', async () => {
+    expect(await collectStream(fromArray(['Graph', 'RAG']))).toBe('GraphRAG')
+  })
+})
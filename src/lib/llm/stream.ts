@@ -0,0 +1,48 @@
+/**
+ * Reads a fetch response body line by line as it arrives
+ * Shared by the SSE (OpenAI) and NDJSON (Ollama) clients
+ */
+export async function* readLines(response: Response): AsyncGenerator<string> {
+  if (!response.body) throw new Error('Response has no body to stream')
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      buffer += decoder.decode(value, { stream: true })
+
+      let newline = buffer.indexOf('\n')
+      while (newline !== -1) {
+        yield buffer.slice(0, newline).replace(/\r$/, '')
+        buffer = buffer.slice(newline + 1)
+        newline = buffer.indexOf('\n')
+      }
+    }
+    buffer += decoder.decode()
+    if (buffer) yield buffer
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Throws a readable error for non-2xx responses, including the body when present
+ */
+export async function assertOk(response: Response, provider: string): Promise<void> {
+  if (response.ok) return
+  const body = await response.text().catch(() => '')
+  throw new Error(`${provider} request failed with HTTP ${response.status}${body ? `: ${body.slice(0, 200)}` : ''}`)
+}
+
+/**
+ * Joins a streamed completion into a single string
+ */
+export async function collectStream(stream: AsyncGenerator<string>): Promise<string> {
+  let text = ''
+  for await (const chunk of stream) text += chunk
+  return text
+}
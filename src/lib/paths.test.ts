@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import type { GraphData } from '../types'
+import { defaultPathSearchOptions, describePath, findPaths, pathToCypher } from './paths'
+
+const node = (id: string) => ({ id, label: id, type: 'Concept', properties: {} })
+const rel = (id: string, source: string, target: string, type = 'LINKS') => ({ id, source, target, type, properties: {} })
+
+// a → m1..m25 → b, plus a direct a → b added last
+const fan: GraphData = {
+  nodes: [node('a'), node('b'), ...Array.from({ length: 25 }, (_, i) => node(`m${i + 1}`))],
+  relationships: [
+    ...Array.from({ length: 25 }, (_, i) => [rel(`in${i + 1}`, 'a', `m${i + 1}`), rel(`out${i + 1}`, `m${i + 1}`, 'b')]).flat(),
+    rel('direct', 'a', 'b')
+  ]
+}
+
+describe('findPaths', () => {
+  it('finds the shortest simple paths first, however many longer ones come before them', () => {
+    const [path, ...rest] = findPaths(fan, 'a', 'b', { ...defaultPathSearchOptions, mode: 'allSimple', limit: 1 })
+
+    expect(rest).toEqual([])
+    expect(path.relationships.map(r => r.id)).toEqual(['direct'])
+  })
+
+  it('returns simple paths ordered by length, up to the limit', () => {
+    const paths = findPaths(fan, 'a', 'b', { ...defaultPathSearchOptions, mode: 'allSimple', limit: 4 })
+
+    expect(paths.map(path => path.relationships.length)).toEqual([1, 2, 2, 2])
+  })
+
+  it('never repeats a node and respects maxHops and direction', () => {
+    const ring: GraphData = {
+      nodes: ['a', 'b', 'c', 'd'].map(node),
+      relationships: [rel('ab', 'a', 'b'), rel('bc', 'b', 'c'), rel('cd', 'c', 'd'), rel('da', 'd', 'a')]
+    }
+    const options = { ...defaultPathSearchOptions, mode: 'allSimple' as const }
+
+    expect(findPaths(ring, 'a', 'c', options).map(describePath)).toEqual([
+      'a -[LINKS]-> b -[LINKS]-> c',
+      'a <-[LINKS]- d <-[LINKS]- c'
+    ])
+    expect(findPaths(ring, 'a', 'c', { ...options, direction: 'outgoing' }).map(describePath)).toEqual(['a -[LINKS]-> b -[LINKS]-> c'])
+    expect(findPaths(ring, 'a', 'c', { ...options, maxHops: 1 })).toEqual([])
+  })
+
+  it('lists all shortest paths', () => {
+    const paths = findPaths(fan, 'm1', 'm2', { ...defaultPathSearchOptions, mode: 'allShortest' })
+
+    expect(paths.map(describePath)).toEqual(['m1 <-[LINKS]- a -[LINKS]-> m2', 'm1 -[LINKS]-> b <-[LINKS]- m2'])
+  })
+})
+
+describe('pathToCypher', () => {
+  it('matches each node by id or element id', () => {
+    const [path] = findPaths(fan, 'a', 'b', defaultPathSearchOptions)
+
+    expect(pathToCypher(path)).toEqual({
+      query: 'MATCH p = (n0:Concept)-[:LINKS]->(n1:Concept)\nWHERE (toString(n0.id) = $id OR elementId(n0) = $id)\n  AND (toString(n1.id) = $id_2 OR elementId(n1) = $id_2)\nRETURN p',
+      params: { id: 'a', id_2: 'b' }
+    })
+  })
+})
@@ -0,0 +1,219 @@
+import type { CypherStatement, ExpandDirection, GraphData, GraphNode, GraphPath, GraphRelationship } from '../types'
+import { endpointId, nodeLabels } from './graph'
+import { createCypherBuilder, idPredicate } from './cypher'
+
+export type PathMode = 'shortest' | 'allShortest' | 'allSimple'
+
+export interface PathSearchOptions {
+  mode: PathMode
+  /** Longest path considered, in relationships */
+  maxHops: number
+  direction: ExpandDirection
+  /** Relationship types that may be traversed; empty allows all */
+  types: string[]
+  /** Most paths returned, since all simple paths grow quickly with maxHops */
+  limit: number
+}
+
+export const defaultPathSearchOptions: PathSearchOptions = {
+  mode: 'shortest',
+  maxHops: 3,
+  direction: 'both',
+  types: [],
+  limit: 50
+}
+
+export const pathModes: Record<PathMode, string> = {
+  shortest: 'Shortest',
+  allShortest: 'All shortest',
+  allSimple: 'All paths'
+}
+
+interface Hop {
+  relationship: GraphRelationship
+  to: string
+}
+
+/**
+ * Finds paths between two nodes, like Cypher's shortestPath, allShortestPaths
+ * and a variable-length match `(a)-[*1..maxHops]-(b)` without repeated nodes
+ *
+ * Results are ordered by length; nodes and relationships are those of `data`
+ */
+export function findPaths(
+  data: GraphData,
+  startId: string,
+  endId: string,
+  options: PathSearchOptions
+): GraphPath[] {
+  const nodes = new Map(data.nodes.map(node => [node.id, node]))
+  if (!nodes.has(startId) || !nodes.has(endId) || startId === endId) return []
+
+  const hops = adjacency(data, options)
+  const sequences = options.mode === 'allSimple'
+    ? simplePaths(hops, startId, endId, options)
+    : shortestPaths(hops, startId, endId, options)
+
+  return sequences
+    .sort((a, b) => a.length - b.length)
+    .slice(0, options.limit)
+    .map(sequence => ({
+      nodes: [nodes.get(startId)!, ...sequence.map(hop => nodes.get(hop.to)!)],
+      relationships: sequence.map(hop => hop.relationship)
+    }))
+}
+
+/**
+ * Traversable hops out of each node, honouring direction and allowed types
+ */
+function adjacency(data: GraphData, { direction, types }: PathSearchOptions): Map<string, Hop[]> {
+  const hops = new Map<string, Hop[]>()
+  const add = (from: string, hop: Hop) => {
+    const list = hops.get(from) ?? []
+    list.push(hop)
+    hops.set(from, list)
+  }
+  data.relationships.forEach(relationship => {
+    if (types.length > 0 && !types.includes(relationship.type)) return
+    const source = endpointId(relationship.source)
+    const target = endpointId(relationship.target)
+    if (direction !== 'incoming') add(source, { relationship, to: target })
+    if (direction !== 'outgoing' && source !== target) add(target, { relationship, to: source })
+  })
+  return hops
+}
+
+/**
+ * Breadth-first search recording every predecessor on a shortest route,
+ * then walking back from the end to list one or all shortest paths
+ */
+function shortestPaths(hops: Map<string, Hop[]>, startId: string, endId: string, options: PathSearchOptions): Hop[][] {
+  const distance = new Map([[startId, 0]])
+  const predecessors = new Map<string, { from: string; relationship: GraphRelationship }[]>()
+  let frontier = [startId]
+
+  while (frontier.length > 0 && !distance.has(endId)) {
+    const depth = distance.get(frontier[0])! + 1
+    if (depth > options.maxHops) break
+    const next: string[] = []
+    frontier.forEach(from => {
+      hops.get(from)?.forEach(({ relationship, to }) => {
+        if (!distance.has(to)) {
+          distance.set(to, depth)
+          next.push(to)
+        }
+        if (distance.get(to) === depth) {
+          predecessors.set(to, [...(predecessors.get(to) ?? []), { from, relationship }])
+        }
+      })
+    })
+    frontier = next
+  }
+
+  if (!distance.has(endId)) return []
+  const limit = options.mode === 'shortest' ? 1 : options.limit
+  const paths: Hop[][] = []
+  const walk = (id: string, suffix: Hop[]) => {
+    if (paths.length >= limit) return
+    if (id === startId) {
+      paths.push(suffix)
+      return
+    }
+    predecessors.get(id)?.forEach(({ from, relationship }) => walk(from, [{ relationship, to: id }, ...suffix]))
+  }
+  walk(endId, [])
+  return paths
+}
+
+/**
+ * Paths without repeated nodes, up to maxHops long, found in order of length
+ *
+ * Iterative deepening: each round looks for paths of exactly one length, and
+ * a route is abandoned as soon as the end is further away (by breadth-first
+ * distance) than the hops it has left, so only the rounds needed for `limit`
+ * paths run and dead branches are never walked
+ */
+function simplePaths(hops: Map<string, Hop[]>, startId: string, endId: string, options: PathSearchOptions): Hop[][] {
+  const toEnd = distancesTo(hops, endId)
+  const paths: Hop[][] = []
+  const visited = new Set([startId])
+  const route: Hop[] = []
+
+  const visit = (id: string, length: number) => {
+    if (paths.length >= options.limit) return
+    if (id === endId) {
+      if (route.length === length) paths.push([...route])
+      return
+    }
+    hops.get(id)?.forEach(hop => {
+      if (visited.has(hop.to) || route.length + 1 + (toEnd.get(hop.to) ?? Infinity) > length) return
+      visited.add(hop.to)
+      route.push(hop)
+      visit(hop.to, length)
+      route.pop()
+      visited.delete(hop.to)
+    })
+  }
+  for (let length = toEnd.get(startId) ?? Infinity; length <= options.maxHops && paths.length < options.limit; length++) {
+    visit(startId, length)
+  }
+  return paths
+}
+
+/**
+ * Fewest hops from every node that can reach `endId`, found by a
+ * breadth-first search backwards along the hops
+ */
+function distancesTo(hops: Map<string, Hop[]>, endId: string): Map<string, number> {
+  const incoming = new Map<string, string[]>()
+  hops.forEach((list, from) => list.forEach(({ to }) => {
+    const sources = incoming.get(to) ?? []
+    sources.push(from)
+    incoming.set(to, sources)
+  }))
+  const distance = new Map([[endId, 0]])
+  let frontier = [endId]
+  while (frontier.length > 0) {
+    const next: string[] = []
+    frontier.forEach(id => incoming.get(id)?.forEach(from => {
+      if (distance.has(from)) return
+      distance.set(from, distance.get(id)! + 1)
+      next.push(from)
+    }))
+    frontier = next
+  }
+  return distance
+}
+
+/**
+ * Whether a path's relationship runs along the path (from nodes[i] to nodes[i + 1])
+ */
+export function isForwardHop(path: GraphPath, index: number): boolean {
+  return endpointId(path.relationships[index].source) === path.nodes[index].id
+}
+
+/**
+ * Compact text rendering, e.g. "GraphRAG -[USES]-> Neo4j <-[BUILT_ON]- LangChain"
+ */
+export function describePath(path: GraphPath): string {
+  return path.nodes.map((node, i) => {
+    if (i === 0) return node.label
+    const type = path.relationships[i - 1].type
+    return `${isForwardHop(path, i - 1) ? `-[${type}]->` : `<-[${type}]-`} ${node.label}`
+  }).join(' ')
+}
+
+/**
+ * Cypher pattern matching exactly this path, used when it becomes a chat scope
+ */
+export function pathToCypher(path: GraphPath): CypherStatement {
+  const cypher = createCypherBuilder()
+  const nodePattern = (node: GraphNode, i: number) => `(n${i}${cypher.labels(nodeLabels(node))})`
+  const pattern = path.nodes.map((node, i) => {
+    if (i === 0) return nodePattern(node, i)
+    const type = cypher.name(path.relationships[i - 1].type)
+    return `${isForwardHop(path, i - 1) ? `-[:${type}]->` : `<-[:${type}]-`}${nodePattern(node, i)}`
+  }).join('')
+  const conditions = path.nodes.map((node, i) => idPredicate(cypher, `n${i}`, node.id))
+  return cypher.build(`MATCH p = ${pattern}\nWHERE ${conditions.join('\n  AND ')}\nRETURN p`)
+}
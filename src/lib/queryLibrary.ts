@@ -0,0 +1,177 @@
+import type { QueryParameter, QueryParameterType, SavedQuery } from '../types'
+import { sampleQueries } from '../data/sampleGraph'
+import { tokenize } from './cypher'
+
+const STORAGE_KEY = 'graphrag-explorer:saved-queries'
+const FORMAT = 'graphrag-explorer/queries'
+const VERSION = 1
+
+export const queryParameterTypes: QueryParameterType[] = ['string', 'integer', 'float', 'boolean', 'list']
+
+/**
+ * The sample queries as a read-only starter pack
+ */
+export const starterQueries: SavedQuery[] = sampleQueries.map((sample, index) => ({
+  id: `starter-${index + 1}`,
+  title: sample.natural,
+  explanation: sample.explanation,
+  tags: ['starter'],
+  cypher: sample.cypher,
+  parameters: [],
+  builtIn: true,
+  updatedAt: '1970-01-01T00:00:00.000Z'
+}))
+
+export function newQueryId(): string {
+  return `query-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Names of the `$parameters` a query uses, in order of first use
+ * A query that does not tokenize yet has none
+ */
+export function queryParameterNames(cypher: string): string[] {
+  try {
+    return [...new Set(tokenize(cypher).filter(token => token.type === 'parameter').map(token => token.value))]
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Parameter definitions for a query: existing definitions are kept for the
+ * names it still uses, new names start as strings
+ */
+export function syncParameters(cypher: string, existing: QueryParameter[]): QueryParameter[] {
+  const byName = new Map(existing.map(parameter => [parameter.name, parameter]))
+  return queryParameterNames(cypher).map(name => byName.get(name) ?? { name, type: 'string' })
+}
+
+/**
+ * Converts a typed entry to the parameter's type
+ *
+ * Lists take a JSON array or comma-separated strings. Throws with a message
+ * naming the parameter when the entry does not fit
+ */
+export function parseParameterValue({ name, type }: QueryParameter, text: string): unknown {
+  const value = text.trim()
+  if (type === 'string') return text
+  if (!value) throw new Error(`Enter a value for $${name}`)
+
+  switch (type) {
+    case 'integer':
+      if (!/^[-+]?\d+$/.test(value)) throw new Error(`$${name} must be a whole number`)
+      return Number(value)
+    case 'float':
+      if (!Number.isFinite(Number(value))) throw new Error(`$${name} must be a number`)
+      return Number(value)
+    case 'boolean':
+      if (value !== 'true' && value !== 'false') throw new Error(`$${name} must be true or false`)
+      return value === 'true'
+    case 'list':
+      if (value.startsWith('[')) {
+        let list: unknown
+        try {
+          list = JSON.parse(value)
+        } catch {
+          throw new Error(`$${name} is not a valid JSON list`)
+        }
+        if (!Array.isArray(list)) throw new Error(`$${name} must be a list`)
+        return list
+      }
+      return value.split(',').map(item => item.trim()).filter(Boolean)
+  }
+}
+
+/**
+ * Converts every entry, throwing on the first that does not fit
+ */
+export function parseParameters(parameters: QueryParameter[], values: Record<string, string>): Record<string, unknown> {
+  return Object.fromEntries(parameters.map(parameter => [
+    parameter.name,
+    parseParameterValue(parameter, values[parameter.name] ?? parameter.defaultValue ?? '')
+  ]))
+}
+
+/**
+ * The user's saved queries; the starter pack is not stored
+ */
+export function loadSavedQueries(): SavedQuery[] {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY)
+    return saved ? (JSON.parse(saved) as unknown[]).map((value, index) => reviveQuery(value, `Query #${index + 1}`)) : []
+  } catch {
+    return []
+  }
+}
+
+export function storeSavedQueries(queries: SavedQuery[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(queries.filter(query => !query.builtIn)))
+}
+
+/**
+ * Serialises queries for sharing
+ */
+export function savedQueriesToJson(queries: SavedQuery[]): string {
+  return JSON.stringify({ format: FORMAT, version: VERSION, queries: queries.filter(query => !query.builtIn) }, null, 2)
+}
+
+/**
+ * Parses queries exported by `savedQueriesToJson` (or a bare query or array
+ * of them), checking every field
+ */
+export function parseSavedQueriesJson(text: string): SavedQuery[] {
+  const raw = JSON.parse(text) as unknown
+  const list = Array.isArray(raw)
+    ? raw
+    : isRecord(raw) && Array.isArray(raw.queries) ? raw.queries : [raw]
+  if (list.length === 0) throw new Error('The file contains no queries')
+  return list.map((value, index) => reviveQuery(value, `Query #${index + 1}`))
+}
+
+/**
+ * Adds imported queries to a library; an import replaces the queries it
+ * shares ids with, so re-importing an updated file updates them
+ */
+export function mergeSavedQueries(library: SavedQuery[], imported: SavedQuery[]): SavedQuery[] {
+  const ids = new Set(imported.map(query => query.id))
+  return [...imported, ...library.filter(query => !ids.has(query.id))]
+}
+
+function reviveQuery(value: unknown, where: string): SavedQuery {
+  if (!isRecord(value)) throw new Error(`${where} is not an object`)
+  if (typeof value.cypher !== 'string' || !value.cypher.trim()) throw new Error(`${where} has no Cypher`)
+  const title = typeof value.title === 'string' && value.title.trim() ? value.title : 'Untitled query'
+  const declared = Array.isArray(value.parameters) ? value.parameters : []
+  const parameters = declared.map((parameter: unknown, index): QueryParameter => {
+    const at = `${where}, parameter #${index + 1}`
+    if (!isRecord(parameter) || typeof parameter.name !== 'string') throw new Error(`${at} has no name`)
+    const type = queryParameterTypes.includes(parameter.type as QueryParameterType) ? parameter.type as QueryParameterType : 'string'
+    return {
+      name: parameter.name,
+      type,
+      ...(typeof parameter.defaultValue === 'string' ? { defaultValue: parameter.defaultValue } : {})
+    }
+  })
+  return {
+    id: typeof value.id === 'string' ? value.id : newQueryId(),
+    title,
+    explanation: typeof value.explanation === 'string' ? value.explanation : '',
+    tags: Array.isArray(value.tags) ? value.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+    cypher: value.cypher,
+    // Placeholders the file forgot to declare still get an input
+    parameters: syncParameters(value.cypher, parameters),
+    updatedAt: typeof value.updatedAt === 'string' ? value.updatedAt : new Date().toISOString()
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Tags typed as a comma-separated list, trimmed and without duplicates
+ */
+export function parseTags(text: string): string[] {
+  return [...new Set(text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))]
+}
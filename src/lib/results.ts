@@ -0,0 +1,97 @@
+import type { CypherResult, GraphData, GraphDataSource } from '../types'
+import { cloneGraphData, cloneNode, cloneRelationship, formatValue, isGraphNode, isGraphPath, isGraphRelationship } from './graph'
+import { toCsvText } from './exporters'
+
+/**
+ * Orders two result values the way Cypher's ORDER BY does for mixed types:
+ * numbers numerically, everything else by its text, nulls last
+ */
+export function compareValues(a: unknown, b: unknown): number {
+  const aNull = a === null || a === undefined
+  const bNull = b === null || b === undefined
+  if (aNull || bNull) return aNull === bNull ? 0 : aNull ? 1 : -1
+  if (typeof a === 'number' && typeof b === 'number') return a - b
+  if (typeof a === 'boolean' && typeof b === 'boolean') return Number(a) - Number(b)
+  return formatValue(a).localeCompare(formatValue(b), undefined, { numeric: true })
+}
+
+/**
+ * Rows sorted on a column; nulls stay last in both directions
+ */
+export function sortRows(rows: Record<string, unknown>[], column: string, descending: boolean): Record<string, unknown>[] {
+  return [...rows].sort((a, b) => {
+    const order = compareValues(a[column], b[column])
+    const nullOrder = a[column] === null || a[column] === undefined || b[column] === null || b[column] === undefined
+    return descending && !nullOrder ? -order : order
+  })
+}
+
+/**
+ * Value with graph elements reduced to plain data: nodes and relationships
+ * lose D3 simulation state and relationship endpoints become ids
+ */
+export function plainValue(value: unknown): unknown {
+  if (isGraphPath(value)) {
+    return { nodes: value.nodes.map(cloneNode), relationships: value.relationships.map(cloneRelationship) }
+  }
+  if (isGraphNode(value)) return cloneNode(value)
+  if (isGraphRelationship(value)) return cloneRelationship(value)
+  if (Array.isArray(value)) return value.map(plainValue)
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, plainValue(item)]))
+  }
+  return value
+}
+
+/**
+ * Rows as indented JSON
+ */
+export function resultToJson(result: CypherResult): string {
+  return JSON.stringify(result.rows.map(plainValue), null, 2)
+}
+
+/**
+ * Rows as CSV; graph elements are written in their short form, e.g. (Neo4j)
+ * or [:USES], other lists and maps as JSON
+ */
+export function resultToCsv(result: CypherResult): string {
+  const cell = (value: unknown): unknown => {
+    if (isGraphNode(value) || isGraphRelationship(value) || isGraphPath(value)) return formatValue(value)
+    if (Array.isArray(value) && value.some(item => isGraphNode(item) || isGraphRelationship(item) || isGraphPath(item))) {
+      return formatValue(value)
+    }
+    return value
+  }
+  return toCsvText([
+    result.columns,
+    ...result.rows.map(row => result.columns.map(column => cell(row[column])))
+  ])
+}
+
+/**
+ * Nodes and relationships a result returned, copied so a renderer can
+ * mutate them
+ */
+export function resultGraph(result: CypherResult): GraphData {
+  return cloneGraphData({ nodes: result.nodes, relationships: result.relationships })
+}
+
+/**
+ * Whether a query wrote to the data source, judged by the counters it reported
+ */
+export function changedData(result: CypherResult): boolean {
+  return !!result.counters && Object.values(result.counters).some(count => count > 0)
+}
+
+/**
+ * Runs a query and records how long the data source took to answer
+ */
+export async function runTimedCypher(
+  dataSource: GraphDataSource,
+  query: string,
+  params?: Record<string, unknown>
+): Promise<CypherResult> {
+  const started = performance.now()
+  const result = await dataSource.runCypher(query, params)
+  return { ...result, elapsedMs: performance.now() - started }
+}
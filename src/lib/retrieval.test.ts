@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest'
+import type { GraphData, GraphNode } from '../types'
+import { sampleGraphData } from '../data/sampleGraph'
+import { defaultRetrievalOptions, retrieveContext, retrieveScopedContext, scoreNodes, tokenizeText } from './retrieval'
+
+const node = (id: string, label: string, properties: Record<string, unknown> = {}): GraphNode =>
+  ({ id, label, type: 'Concept', properties })
+
+const ranking = (scores: Map<string, number>) => [...scores.entries()].sort((a, b) => b[1] - a[1]).map(([id]) => id)
+
+describe('tokenizeText', () => {
+  it('drops stopwords and stems plurals', () => {
+    expect(tokenizeText('Which companies use Neo4j graphs?')).toEqual(['company', 'neo4j', 'graph'])
+  })
+})
+
+describe('scoreNodes', () => {
+  const nodes = [
+    node('spreadsheet', 'Spreadsheet'),
+    node('relational', 'Relational Database'),
+    node('graph', 'Graph'),
+    node('graph-database', 'Graph Database'),
+    node('notes', 'Notes', { summary: 'a graph of graph ideas about graph theory and many other unrelated words here' })
+  ]
+
+  it('ranks nodes matching more of the query first and leaves out nodes matching none', () => {
+    const scores = scoreNodes('graph databases', nodes)
+
+    expect(ranking(scores)[0]).toBe('graph-database')
+    expect(scores.has('spreadsheet')).toBe(false)
+  })
+
+  it('weighs rare terms above common ones', () => {
+    const scores = scoreNodes('relational graph', nodes)
+
+    expect(scores.get('relational')!).toBeGreaterThan(scores.get('graph')!)
+  })
+
+  it('favours matches in the caption over long property text', () => {
+    const scores = scoreNodes('graph', nodes)
+
+    expect(scores.get('graph')!).toBeGreaterThan(scores.get('notes')!)
+  })
+})
+
+describe('retrieveContext', () => {
+  it('seeds with the best match and expands with decaying scores', () => {
+    const context = retrieveContext('Neo4j graph database', sampleGraphData)
+
+    expect(context.retrievedNodes.slice(0, 2).map(n => n.id)).toEqual(['neo4j', 'cypher'])
+    expect(context.nodeScores).toMatchObject({ neo4j: 1, graphrag: 0.5, rag: 0.25 })
+    expect(context.relevanceScore).toBe(1)
+    expect(context.cypherParams).toEqual({ seedIds: ['neo4j', 'cypher', 'graphrag'] })
+  })
+
+  it('keeps the graph order for nodes with equal scores', () => {
+    const tied: GraphData = {
+      nodes: [node('b', 'Vector Store'), node('a', 'Vector Index'), node('c', 'Other')],
+      relationships: []
+    }
+
+    expect(retrieveContext('vector', tied).retrievedNodes.map(n => n.id)).toEqual(['b', 'a'])
+    const reversed = { ...tied, nodes: [...tied.nodes].reverse() }
+    expect(retrieveContext('vector', reversed).retrievedNodes.map(n => n.id)).toEqual(['a', 'b'])
+
+    // One hop from the seeds, all scored 0.5
+    const expanded = retrieveContext('Neo4j graph database', sampleGraphData).retrievedNodes.slice(2, 9).map(n => n.id)
+    expect(expanded).toEqual(['graphrag', 'vectordb', 'recommendation', 'fraud-detection', 'nasa', 'icij', 'context'])
+  })
+
+  it('returns nothing for a question matching no node', () => {
+    const context = retrieveContext('quantum chromodynamics', sampleGraphData, { ...defaultRetrievalOptions, hops: 2 })
+
+    expect(context.retrievedNodes).toEqual([])
+    expect(context.relevanceScore).toBe(0)
+  })
+})
+
+describe('retrieveScopedContext', () => {
+  it('only seeds and expands within the scope', () => {
+    const scope = { cypher: 'MATCH (n) RETURN n', nodeIds: ['neo4j', 'nasa', 'cypher'], relationshipIds: [] }
+
+    const context = retrieveScopedContext('Neo4j graph database', sampleGraphData, scope)
+
+    expect(context.retrievedNodes.map(n => n.id)).toEqual(['neo4j', 'cypher', 'nasa'])
+    expect(context.retrievedRelationships.map(r => r.id)).toEqual(['r6', 'r15'])
+  })
+
+  it('limits expansion to the scope\'s relationships when it lists them', () => {
+    const scope = { cypher: 'MATCH p = ()-->() RETURN p', nodeIds: ['neo4j', 'nasa', 'cypher'], relationshipIds: ['r15'] }
+
+    const context = retrieveScopedContext('Neo4j', sampleGraphData, scope)
+
+    expect(context.retrievedRelationships.map(r => r.id)).toEqual(['r15'])
+  })
+
+  it('searches the whole graph without a scope', () => {
+    expect(retrieveScopedContext('Neo4j', sampleGraphData, null)).toEqual(retrieveContext('Neo4j', sampleGraphData))
+  })
+})
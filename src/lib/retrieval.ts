@@ -0,0 +1,236 @@
+import type { GraphData, GraphMetrics, GraphNode, GraphRelationship, HybridScope, MetricKey, RAGContext } from '../types'
+import { endpointId, nodeLabels, subgraph } from './graph'
+import { scaleMetric } from './analytics'
+import { createCypherBuilder } from './cypher'
+
+/**
+ * Tunable retrieval parameters
+ */
+export interface RetrievalOptions {
+  /** Number of seed nodes taken from the BM25 ranking */
+  topK: number
+  /** How many hops to expand from the seeds */
+  hops: number
+  /** Score multiplier applied per hop away from a seed (0-1) */
+  decay: number
+  /** Centrality metric favouring central nodes when picking seeds, none to rank on text alone */
+  prior: MetricKey | null
+  /** How much the prior can raise a seed's score: up to (1 + weight) times for the most central node */
+  priorWeight: number
+}
+
+export const defaultRetrievalOptions: RetrievalOptions = {
+  topK: 3,
+  hops: 1,
+  decay: 0.5,
+  prior: null,
+  priorWeight: 0.5
+}
+
+// Keeps expansion around hub nodes from flooding the LLM context
+const MAX_CONTEXT_NODES = 25
+
+// BM25 parameters (standard values)
+const K1 = 1.2
+const B = 0.75
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for',
+  'from', 'how', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the',
+  'their', 'them', 'these', 'they', 'this', 'those', 'to', 'use', 'uses', 'was',
+  'what', 'when', 'where', 'which', 'who', 'why', 'with', 'about', 'tell', 'me'
+])
+
+/**
+ * Lower-cases, splits on non-alphanumerics, drops stopwords and applies
+ * a light plural stemmer so "companies" matches "company"
+ */
+export function tokenizeText(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(token => token.length > 1 && !STOPWORDS.has(token))
+    .map(stem)
+}
+
+/** Light plural stemmer, also used to match question words against schema names */
+export function stem(token: string): string {
+  if (token.length > 4 && token.endsWith('ies')) return `${token.slice(0, -3)}y`
+  if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss')) return token.slice(0, -1)
+  return token
+}
+
+/**
+ * Text indexed for a node: label (counted twice, as it is the strongest
+ * signal), labels/type and string property values
+ */
+function nodeDocument(node: GraphNode): string[] {
+  const values = Object.values(node.properties)
+    .filter(value => typeof value === 'string' || typeof value === 'number')
+    .join(' ')
+  const label = tokenizeText(node.label)
+  return [...label, ...label, ...tokenizeText(nodeLabels(node).join(' ')), ...tokenizeText(values)]
+}
+
+/**
+ * Scores every node against the query with Okapi BM25
+ */
+export function scoreNodes(query: string, nodes: GraphNode[]): Map<string, number> {
+  const terms = [...new Set(tokenizeText(query))]
+  const documents = nodes.map(node => ({ id: node.id, tokens: nodeDocument(node) }))
+  const averageLength = documents.reduce((sum, doc) => sum + doc.tokens.length, 0) / Math.max(documents.length, 1)
+
+  const documentFrequency = new Map<string, number>()
+  documents.forEach(doc => {
+    new Set(doc.tokens).forEach(token => {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1)
+    })
+  })
+
+  const scores = new Map<string, number>()
+  documents.forEach(doc => {
+    const termFrequency = new Map<string, number>()
+    doc.tokens.forEach(token => termFrequency.set(token, (termFrequency.get(token) ?? 0) + 1))
+
+    let score = 0
+    terms.forEach(term => {
+      const tf = termFrequency.get(term)
+      if (!tf) return
+      const df = documentFrequency.get(term) ?? 0
+      const idf = Math.log(1 + (documents.length - df + 0.5) / (df + 0.5))
+      score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * doc.tokens.length / averageLength))
+    })
+
+    if (score > 0) scores.set(doc.id, score)
+  })
+
+  return scores
+}
+
+/**
+ * Ranked GraphRAG retrieval
+ *
+ * 1. Rank nodes with BM25, boosted by the centrality prior when one is set
+ *    and `metrics` are given, and keep the top-k as seeds (scores normalised to 0-1)
+ * 2. Expand k hops from the seeds, each hop multiplying the score by `decay`
+ *    and remembering the relationship that gave each node its score
+ * 3. Score relationships between retrieved nodes by their weaker endpoint
+ *
+ * Nodes with equal scores keep their order in `data`
+ */
+export function retrieveContext(
+  query: string,
+  data: GraphData,
+  options: RetrievalOptions = defaultRetrievalOptions,
+  metrics?: GraphMetrics
+): RAGContext {
+  const order = new Map(data.nodes.map((node, index) => [node.id, index]))
+  const byScore = (a: [string, number], b: [string, number]) => b[1] - a[1] || order.get(a[0])! - order.get(b[0])!
+
+  const rawScores = scoreNodes(query, data.nodes)
+  if (options.prior && metrics) {
+    const prior = scaleMetric(metrics, options.prior)
+    rawScores.forEach((score, id) => rawScores.set(id, score * (1 + options.priorWeight * (prior[id] ?? 0))))
+  }
+  const seeds = [...rawScores.entries()]
+    .sort(byScore)
+    .slice(0, options.topK)
+  const maxScore = seeds[0]?.[1] ?? 1
+
+  const nodeScores = new Map<string, number>(
+    seeds.map(([id, score]) => [id, score / maxScore])
+  )
+
+  // Breadth-first expansion keeping the best decayed score per node
+  const adjacency = new Map<string, GraphRelationship[]>()
+  data.relationships.forEach(rel => {
+    const source = endpointId(rel.source)
+    const target = endpointId(rel.target)
+    if (!adjacency.has(source)) adjacency.set(source, [])
+    if (!adjacency.has(target)) adjacency.set(target, [])
+    adjacency.get(source)!.push(rel)
+    adjacency.get(target)!.push(rel)
+  })
+
+  // Relationship through which each expanded node got its best score
+  const reachedVia = new Map<string, string>()
+  let frontier = [...nodeScores.keys()]
+  for (let hop = 0; hop < options.hops && frontier.length > 0; hop++) {
+    const next: string[] = []
+    frontier.forEach(id => {
+      const score = nodeScores.get(id)! * options.decay
+      adjacency.get(id)?.forEach(rel => {
+        const neighbor = endpointId(rel.source) === id ? endpointId(rel.target) : endpointId(rel.source)
+        if ((nodeScores.get(neighbor) ?? 0) < score) {
+          if (!nodeScores.has(neighbor)) next.push(neighbor)
+          nodeScores.set(neighbor, score)
+          reachedVia.set(neighbor, rel.id)
+        }
+      })
+    })
+    frontier = next
+  }
+
+  const nodesById = new Map(data.nodes.map(node => [node.id, node]))
+  const retrievedNodes = [...nodeScores.entries()]
+    .sort(byScore)
+    .slice(0, MAX_CONTEXT_NODES)
+    .map(([id]) => nodesById.get(id))
+    .filter((node): node is GraphNode => Boolean(node))
+  const retrievedIds = new Set(retrievedNodes.map(node => node.id))
+
+  const relationshipScores: Record<string, number> = {}
+  const retrievedRelationships = data.relationships.filter(rel => {
+    const source = endpointId(rel.source)
+    const target = endpointId(rel.target)
+    if (!retrievedIds.has(source) || !retrievedIds.has(target)) return false
+    relationshipScores[rel.id] = Math.min(nodeScores.get(source)!, nodeScores.get(target)!)
+    return true
+  })
+
+  // Share of the question's terms that matched a seed node
+  const terms = new Set(tokenizeText(query))
+  const seedTokens = new Set(seeds.flatMap(([id]) => nodeDocument(nodesById.get(id)!)))
+  const coverage = terms.size === 0 ? 0 : [...terms].filter(term => seedTokens.has(term)).length / terms.size
+
+  return {
+    retrievedNodes,
+    retrievedRelationships,
+    traversedRelationshipIds: retrievedNodes.flatMap(node => reachedVia.get(node.id) ?? []),
+    ...retrievalCypher(seeds.map(([id]) => id), options.hops),
+    relevanceScore: coverage,
+    nodeScores: Object.fromEntries(
+      retrievedNodes.map(node => [node.id, nodeScores.get(node.id)!])
+    ),
+    relationshipScores
+  }
+}
+
+/**
+ * Retrieves ranked graph context for a question, optionally restricted to a
+ * hybrid scope: only the scope's nodes (and its relationships, when it lists
+ * any) can be seeds or be reached by expansion
+ */
+export function retrieveScopedContext(
+  query: string,
+  data: GraphData,
+  scope: HybridScope | null,
+  options: RetrievalOptions = defaultRetrievalOptions,
+  metrics?: GraphMetrics
+): RAGContext {
+  const graph = scope
+    ? subgraph(data, scope.nodeIds, scope.relationshipIds.length > 0 ? scope.relationshipIds : undefined)
+    : data
+  return retrieveContext(query, graph, options, metrics)
+}
+
+/**
+ * Cypher equivalent of the expansion step, shown for transparency
+ */
+function retrievalCypher(seedIds: string[], hops: number): Pick<RAGContext, 'cypherQuery' | 'cypherParams'> {
+  const cypher = createCypherBuilder()
+  const { query, params } = cypher.build(`MATCH (seed) WHERE seed.id IN ${cypher.param(seedIds, 'seedIds')}
+MATCH path = (seed)-[*0..${hops}]-(neighbor)
+RETURN path`)
+  return { cypherQuery: query, cypherParams: params }
+}
@@ -0,0 +1,171 @@
+import type { GraphData, GraphSchema, SchemaElement, SchemaGraph, SchemaProperty } from '../types'
+import { endpointId, nodeLabels } from './graph'
+
+// Top-level node fields that queries can address as properties
+const BUILT_IN_NODE_KEYS = ['id', 'label']
+
+/**
+ * Derives the schema actually present in a graph: labels, relationship types
+ * with the labels they connect, and the property keys used per label and type
+ */
+export function extractSchema(data: GraphData): GraphSchema {
+  const nodeProperties = new Map<string, Set<string>>()
+  const relationshipProperties = new Map<string, Set<string>>()
+  const patterns = new Map<string, GraphSchema['relationshipPatterns'][number]>()
+  const propertyKeys = new Set<string>(BUILT_IN_NODE_KEYS)
+  const labelsOf = new Map<string, string[]>()
+
+  const addAll = (index: Map<string, Set<string>>, name: string, keys: string[]) => {
+    const set = index.get(name) ?? new Set<string>()
+    keys.forEach(key => {
+      set.add(key)
+      propertyKeys.add(key)
+    })
+    index.set(name, set)
+  }
+
+  data.nodes.forEach(node => {
+    const labels = nodeLabels(node)
+    labelsOf.set(node.id, labels)
+    labels.forEach(label =>
+      addAll(nodeProperties, label, [...BUILT_IN_NODE_KEYS, ...Object.keys(node.properties)])
+    )
+  })
+
+  data.relationships.forEach(rel => {
+    addAll(relationshipProperties, rel.type, Object.keys(rel.properties ?? {}))
+    const sources = labelsOf.get(endpointId(rel.source)) ?? []
+    const targets = labelsOf.get(endpointId(rel.target)) ?? []
+    sources.forEach(source => targets.forEach(target =>
+      patterns.set(`${source}|${rel.type}|${target}`, { source, type: rel.type, target })
+    ))
+  })
+
+  const sorted = (index: Map<string, Set<string>>) =>
+    Object.fromEntries([...index].map(([name, keys]) => [name, [...keys].sort()]))
+
+  return {
+    labels: [...nodeProperties.keys()].sort(),
+    relationshipTypes: [...relationshipProperties.keys()].sort(),
+    propertyKeys: [...propertyKeys].sort(),
+    relationshipPatterns: [...patterns.values()].sort((a, b) =>
+      `${a.source}${a.type}${a.target}`.localeCompare(`${b.source}${b.type}${b.target}`)
+    ),
+    nodeProperties: sorted(nodeProperties),
+    relationshipProperties: sorted(relationshipProperties)
+  }
+}
+
+/**
+ * Compact textual form of a schema, used in LLM prompts
+ */
+export function describeSchema(schema: GraphSchema): string {
+  const nodes = schema.labels.map(label =>
+    `(:${label} {${(schema.nodeProperties[label] ?? []).join(', ')}})`
+  )
+  const relationships = schema.relationshipPatterns.map(({ source, type, target }) => {
+    const keys = schema.relationshipProperties[type] ?? []
+    return `(:${source})-[:${type}${keys.length > 0 ? ` {${keys.join(', ')}}` : ''}]->(:${target})`
+  })
+
+  return [
+    'Node labels and properties:',
+    ...nodes.map(line => `- ${line}`),
+    '',
+    'Relationships (direction matters):',
+    ...relationships.map(line => `- ${line}`)
+  ].join('\n')
+}
+
+/**
+ * Neo4j name of a value's type; lists name their item type, or Any when mixed
+ */
+export function valueType(value: unknown): string {
+  if (value === null || value === undefined) return 'Null'
+  if (Array.isArray(value)) {
+    const items = [...new Set(value.map(valueType))]
+    return `List<${items.length === 1 ? items[0] : 'Any'}>`
+  }
+  if (typeof value === 'number') return Number.isInteger(value) ? 'Integer' : 'Float'
+  if (typeof value === 'boolean') return 'Boolean'
+  if (typeof value === 'object') return 'Map'
+  return 'String'
+}
+
+interface ElementStats {
+  count: number
+  properties: Map<string, { types: Set<string>; count: number }>
+}
+
+function addElement(index: Map<string, ElementStats>, key: string, values: Record<string, unknown>) {
+  const stats = index.get(key) ?? { count: 0, properties: new Map() }
+  stats.count++
+  Object.entries(values).forEach(([name, value]) => {
+    if (value === null || value === undefined) return
+    const property = stats.properties.get(name) ?? { types: new Set<string>(), count: 0 }
+    property.types.add(valueType(value))
+    property.count++
+    stats.properties.set(name, property)
+  })
+  index.set(key, stats)
+}
+
+function schemaProperties(stats: ElementStats): SchemaProperty[] {
+  return [...stats.properties]
+    .map(([key, { types, count }]) => ({ key, types: [...types].sort(), count }))
+    .sort((a, b) => a.key.localeCompare(b.key))
+}
+
+/**
+ * Derives the schema meta-graph of a graph, with instance counts and the
+ * property keys (and their value types) seen per label and relationship pattern
+ *
+ * A node with several labels counts towards each of them, and so do its
+ * relationships towards every label combination they join
+ */
+export function extractSchemaGraph(data: GraphData): SchemaGraph {
+  const labels = new Map<string, ElementStats>()
+  const relationships = new Map<string, ElementStats>()
+  const labelsOf = new Map<string, string[]>()
+
+  data.nodes.forEach(node => {
+    const nodeLabelList = nodeLabels(node)
+    labelsOf.set(node.id, nodeLabelList)
+    nodeLabelList.forEach(label =>
+      addElement(labels, label, { id: node.id, label: node.label, ...node.properties })
+    )
+  })
+
+  data.relationships.forEach(rel => {
+    const sources = labelsOf.get(endpointId(rel.source)) ?? []
+    const targets = labelsOf.get(endpointId(rel.target)) ?? []
+    sources.forEach(source => targets.forEach(target =>
+      addElement(relationships, `${source}|${rel.type}|${target}`, rel.properties ?? {})
+    ))
+  })
+
+  return {
+    labels: [...labels]
+      .map(([label, stats]) => ({ label, count: stats.count, properties: schemaProperties(stats) }))
+      .sort((a, b) => a.label.localeCompare(b.label)),
+    relationships: [...relationships]
+      .map(([key, stats]) => {
+        const [source, type, target] = key.split('|')
+        return { source, type, target, count: stats.count, properties: schemaProperties(stats) }
+      })
+      .sort((a, b) => `${a.source}${a.type}${a.target}`.localeCompare(`${b.source}${b.type}${b.target}`))
+  }
+}
+
+/**
+ * Pattern form of a schema element, e.g. `(:Person)-[:WORKS_AT]->(:Company)`
+ */
+export function describeSchemaElement(element: SchemaElement): string {
+  return element.kind === 'label'
+    ? `(:${element.label})`
+    : `(:${element.source})-[:${element.type}]->(:${element.target})`
+}
+
+export function sameSchemaElement(a: SchemaElement | null, b: SchemaElement | null): boolean {
+  return a !== null && b !== null && describeSchemaElement(a) === describeSchemaElement(b)
+}
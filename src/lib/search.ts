@@ -0,0 +1,80 @@
+import type { GraphNode } from '../types'
+
+export interface SearchMatch {
+  node: GraphNode
+  score: number
+  /** Where the query matched: "label" or a property key */
+  field: string
+  /** Text the query matched in */
+  value: string
+}
+
+// Property matches rank below label matches of the same quality
+const PROPERTY_WEIGHT = 0.6
+
+/**
+ * Fuzzy search over node labels and property values
+ *
+ * Labels match as a substring or as a subsequence ("gdb" finds "Graph
+ * Database"); property values, often long descriptions, only as substrings
+ * so that almost any text doesn't match. Best matches first
+ */
+export function searchNodes(nodes: GraphNode[], query: string, limit = 20): SearchMatch[] {
+  const needle = query.trim().toLowerCase()
+  if (!needle) return []
+
+  const matches: SearchMatch[] = []
+  nodes.forEach(node => {
+    const candidates: SearchMatch[] = []
+    const labelScore = fuzzyScore(needle, node.label)
+    if (labelScore !== null) candidates.push({ node, score: labelScore, field: 'label', value: node.label })
+    Object.entries(node.properties).forEach(([key, raw]) => {
+      if (raw === null || raw === undefined || (typeof raw === 'object' && !Array.isArray(raw))) return
+      const value = Array.isArray(raw) ? raw.join(', ') : String(raw)
+      const score = substringScore(needle, value)
+      if (score !== null) candidates.push({ node, score: score * PROPERTY_WEIGHT, field: key, value })
+    })
+    const best = candidates.reduce<SearchMatch | null>((top, match) => (!top || match.score > top.score ? match : top), null)
+    if (best) matches.push(best)
+  })
+
+  return matches
+    .sort((a, b) => b.score - a.score || a.node.label.localeCompare(b.node.label))
+    .slice(0, limit)
+}
+
+/**
+ * Scores a lower-cased query against text: substrings score highest (more
+ * so at the start or at a word start), then subsequences with consecutive
+ * characters and word starts rewarded; null when there is no match
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  const substring = substringScore(query, text)
+  if (substring !== null) return substring
+
+  const lower = text.toLowerCase()
+  let score = 0
+  let position = -1
+  let streak = 0
+  for (const char of query) {
+    const found = lower.indexOf(char, position + 1)
+    if (found === -1) return null
+    streak = found === position + 1 ? streak + 1 : 0
+    score += 1 + streak * 2 + (isWordStart(lower, found) ? 3 : 0) - Math.min(found - position - 1, 5) * 0.2
+    position = found
+  }
+  // Scattered subsequences are noise
+  return score >= query.length * 1.5 ? score : null
+}
+
+function substringScore(query: string, text: string): number | null {
+  const lower = text.toLowerCase()
+  const index = lower.indexOf(query)
+  if (index === -1) return null
+  const placement = index === 0 ? 50 : isWordStart(lower, index) ? 25 : 0
+  return 100 + placement + query.length * 3 - Math.min(lower.length - query.length, 50) * 0.2
+}
+
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || /[^a-z0-9]/.test(text[index - 1])
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest'
+import type { ChatSession } from '../../types'
+import { parseSessionsJson, sessionFileName, sessionsToJson } from './format'
+
+const asked = new Date('2026-03-01T09:30:00.000Z')
+const answered = new Date('2026-03-01T09:30:02.500Z')
+
+const session: ChatSession = {
+  id: 'session-1',
+  name: 'What is GraphRAG?',
+  createdAt: asked,
+  updatedAt: answered,
+  messages: [
+    { id: 'm1', role: 'user', content: 'What is GraphRAG?', timestamp: asked, mode: 'natural' },
+    {
+      id: 'm2',
+      role: 'assistant',
+      content: 'GraphRAG grounds answers in a knowledge graph.',
+      timestamp: answered,
+      mode: 'natural',
+      cypherQuery: 'MATCH (n {id: $id}) RETURN n',
+      cypherParams: { id: 'graphrag' },
+      subgraph: {
+        nodes: [
+          { id: 'graphrag', label: 'GraphRAG', type: 'Technology', properties: {} },
+          { id: 'rag', label: 'RAG', type: 'Concept', properties: {} }
+        ],
+        relationships: [{ id: 'r1', source: 'graphrag', target: 'rag', type: 'EXTENDS', properties: {} }],
+        reasoningRelationshipIds: ['r1']
+      },
+      isStreaming: true
+    }
+  ]
+}
+
+describe('parseSessionsJson', () => {
+  it('reads back exported sessions with their dates as Dates', () => {
+    const [parsed] = parseSessionsJson(sessionsToJson([session]))
+
+    expect(parsed.createdAt).toBeInstanceOf(Date)
+    expect(parsed.messages.map(message => message.timestamp)).toEqual([asked, answered])
+    expect(parsed.updatedAt.getTime()).toBe(answered.getTime())
+    expect(parsed).toEqual({ ...session, messages: [session.messages[0], { ...session.messages[1], isStreaming: undefined }] })
+    expect(parsed.messages[1]).not.toHaveProperty('isStreaming')
+  })
+
+  it('stores relationship endpoints as ids', () => {
+    const graphrag = session.messages[1].subgraph!.nodes[0]
+    const rag = session.messages[1].subgraph!.nodes[1]
+    const simulated: ChatSession = {
+      ...session,
+      messages: [{
+        ...session.messages[1],
+        subgraph: {
+          ...session.messages[1].subgraph!,
+          relationships: [{ id: 'r1', source: graphrag, target: rag, type: 'EXTENDS', properties: {} }]
+        }
+      }]
+    }
+
+    const [parsed] = parseSessionsJson(sessionsToJson([simulated]))
+
+    expect(parsed.messages[0].subgraph!.relationships[0]).toMatchObject({ source: 'graphrag', target: 'rag' })
+  })
+
+  it('accepts a bare session and falls back to the message times', () => {
+    const bare = JSON.stringify({ messages: [{ role: 'user', content: 'Hi', timestamp: asked.getTime() }] })
+
+    const [parsed] = parseSessionsJson(bare)
+
+    expect(parsed).toMatchObject({ name: 'Imported conversation', createdAt: asked, updatedAt: asked })
+    expect(parsed.messages[0]).toEqual({ id: 'msg-1', role: 'user', content: 'Hi', timestamp: asked })
+  })
+
+  it('says which session or message is malformed', () => {
+    expect(() => parseSessionsJson('[]')).toThrow('The file contains no sessions')
+    expect(() => parseSessionsJson('[{"name": "x"}]')).toThrow('Session #1 has no "messages" array')
+    expect(() => parseSessionsJson('{"messages": [{"role": "system", "content": "x"}]}'))
+      .toThrow('Session #1, message #1 has an unknown role')
+    expect(() => parseSessionsJson('{"messages": [{"role": "user", "content": "x", "timestamp": "yesterday"}]}'))
+      .toThrow('Session #1, message #1 has an invalid date')
+  })
+})
+
+describe('sessionFileName', () => {
+  it('slugs the session name', () => {
+    expect(sessionFileName('What is GraphRAG?', 'md')).toBe('what-is-graphrag.md')
+    expect(sessionFileName('???', 'json')).toBe('conversation.json')
+  })
+})
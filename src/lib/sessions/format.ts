@@ -0,0 +1,139 @@
+import type { ChatSession, Message, QueryMode } from '../../types'
+import { endpointId } from '../graph'
+import { cypherParamLines } from '../cypher'
+import { storableSession } from './store'
+
+const FORMAT = 'graphrag-explorer/sessions'
+const VERSION = 1
+
+const modeLabels: Record<QueryMode, string> = {
+  natural: 'Natural language',
+  cypher: 'Cypher',
+  hybrid: 'Hybrid'
+}
+
+/**
+ * Serialises sessions for re-import; dates become ISO strings
+ */
+export function sessionsToJson(sessions: ChatSession[]): string {
+  return JSON.stringify({ format: FORMAT, version: VERSION, sessions: sessions.map(storableSession) }, null, 2)
+}
+
+/**
+ * Parses sessions exported by `sessionsToJson` (or a bare session or array
+ * of them), turning the ISO strings JSON left behind back into Dates
+ */
+export function parseSessionsJson(text: string): ChatSession[] {
+  const raw = JSON.parse(text) as unknown
+  const list = Array.isArray(raw)
+    ? raw
+    : isRecord(raw) && Array.isArray(raw.sessions) ? raw.sessions : [raw]
+  if (list.length === 0) throw new Error('The file contains no sessions')
+  return list.map((value, index) => reviveSession(value, `Session #${index + 1}`))
+}
+
+function reviveSession(value: unknown, where: string): ChatSession {
+  if (!isRecord(value)) throw new Error(`${where} is not an object`)
+  if (!Array.isArray(value.messages)) throw new Error(`${where} has no "messages" array`)
+  const messages = value.messages.map((message: unknown, index): Message => {
+    const at = `${where}, message #${index + 1}`
+    if (!isRecord(message)) throw new Error(`${at} is not an object`)
+    if (message.role !== 'user' && message.role !== 'assistant') throw new Error(`${at} has an unknown role`)
+    if (typeof message.content !== 'string') throw new Error(`${at} has no content`)
+    return {
+      ...message,
+      id: typeof message.id === 'string' ? message.id : `msg-${index + 1}`,
+      role: message.role,
+      content: message.content,
+      timestamp: reviveDate(message.timestamp, at)
+    }
+  })
+  const createdAt = value.createdAt !== undefined ? reviveDate(value.createdAt, where) : messages[0]?.timestamp ?? new Date()
+  return {
+    id: typeof value.id === 'string' ? value.id : `session-${Date.now()}`,
+    name: typeof value.name === 'string' && value.name.trim() ? value.name : 'Imported conversation',
+    createdAt,
+    updatedAt: value.updatedAt !== undefined ? reviveDate(value.updatedAt, where) : messages.at(-1)?.timestamp ?? createdAt,
+    messages
+  }
+}
+
+function reviveDate(value: unknown, where: string): Date {
+  const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null
+  if (!date || Number.isNaN(date.getTime())) throw new Error(`${where} has an invalid date`)
+  return date
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+/**
+ * Readable transcript for sharing, with each answer's Cypher, sources and
+ * reasoning path
+ */
+export function sessionToMarkdown(session: ChatSession): string {
+  const count = `${session.messages.length} ${session.messages.length === 1 ? 'message' : 'messages'}`
+  const lines = [
+    `# ${session.name}`,
+    '',
+    `_${count} · started ${session.createdAt.toLocaleString()} · exported ${new Date().toLocaleString()}_`
+  ]
+  session.messages.forEach(message => {
+    lines.push('', '---', '', ...messageToMarkdown(message))
+  })
+  return `${lines.join('\n')}\n`
+}
+
+function messageToMarkdown(message: Message): string[] {
+  const heading = [message.role === 'user' ? 'You' : 'Assistant', message.timestamp.toLocaleString()]
+  if (message.mode && message.role === 'assistant') heading.push(modeLabels[message.mode])
+  const lines = [`### ${heading.join(' · ')}`, '', message.content]
+
+  if (message.standaloneQuery) {
+    lines.push('', `_Searched as: ${message.standaloneQuery}_`)
+  }
+
+  if (message.scopeQuery) {
+    lines.push('', '**Scope**', '', '```cypher', ...cypherParamLines(message.scopeParams ?? {}), message.scopeQuery, '```')
+  }
+  if (message.cypherQuery) {
+    const attempts = message.cypherAttempts && message.cypherAttempts > 1
+      ? ` (valid after ${message.cypherAttempts} attempts)`
+      : ''
+    lines.push('', `**Cypher**${attempts}`, '', '```cypher', ...cypherParamLines(message.cypherParams ?? {}), message.cypherQuery, '```')
+  }
+  if (message.queryResult) {
+    const rows = message.queryResult.rows.length
+    lines.push('', `**Result:** ${rows} ${rows === 1 ? 'row' : 'rows'}`)
+  }
+  if (message.sources?.length) {
+    const sources = message.sources.map(node => {
+      const score = message.sourceScores?.[node.id]
+      return score !== undefined ? `${node.label} (${Math.round(score * 100)}%)` : node.label
+    })
+    lines.push('', `**Sources:** ${sources.join(', ')}`)
+  }
+  if (message.subgraph && message.subgraph.reasoningRelationshipIds.length > 0) {
+    const { nodes, relationships, reasoningRelationshipIds } = message.subgraph
+    const labels = new Map(nodes.map(node => [node.id, node.label]))
+    const byId = new Map(relationships.map(rel => [rel.id, rel]))
+    lines.push('', `**Reasoning path** (${nodes.length} nodes, ${relationships.length} relationships)`, '')
+    reasoningRelationshipIds.forEach(id => {
+      const rel = byId.get(id)
+      if (!rel) return
+      const source = endpointId(rel.source)
+      const target = endpointId(rel.target)
+      lines.push(`- ${labels.get(source) ?? source} -[${rel.type}]-> ${labels.get(target) ?? target}`)
+    })
+  }
+  return lines
+}
+
+/**
+ * File name for an exported session, e.g. "what-is-graphrag.md"
+ */
+export function sessionFileName(name: string, extension: string): string {
+  const slug = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60)
+  return `${slug || 'conversation'}.${extension}`
+}
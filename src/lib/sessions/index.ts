@@ -0,0 +1,23 @@
+import type { ChatSession } from '../../types'
+
+export { createSessionStore, storableSession, type SessionStore } from './store'
+export { parseSessionsJson, sessionFileName, sessionsToJson, sessionToMarkdown } from './format'
+
+export const DEFAULT_SESSION_NAME = 'New conversation'
+
+export function newSessionId(): string {
+  return `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+export function createSession(name = DEFAULT_SESSION_NAME): ChatSession {
+  const now = new Date()
+  return { id: newSessionId(), name, createdAt: now, updatedAt: now, messages: [] }
+}
+
+/**
+ * Name for a session taken from its first question, used until the user renames it
+ */
+export function sessionTitle(question: string): string {
+  const text = question.replace(/\s+/g, ' ').trim()
+  return text.length > 48 ? `${text.slice(0, 47)}…` : text || DEFAULT_SESSION_NAME
+}
@@ -0,0 +1,95 @@
+import type { ChatSession } from '../../types'
+import { endpointId } from '../graph'
+
+const DB_NAME = 'graphrag-explorer'
+const DB_VERSION = 1
+const STORE_NAME = 'sessions'
+
+/**
+ * Persistent chat sessions; every operation rejects when IndexedDB is
+ * unavailable (e.g. some private browsing modes)
+ */
+export interface SessionStore {
+  /** All sessions, most recently updated first */
+  list(): Promise<ChatSession[]>
+  /** Inserts or replaces a session by id */
+  save(session: ChatSession): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+/**
+ * Session store backed by IndexedDB, whose structured cloning keeps the
+ * messages' Date timestamps intact
+ */
+export function createSessionStore(dbName = DB_NAME): SessionStore {
+  let database: Promise<IDBDatabase> | null = null
+
+  const open = () => {
+    database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'))
+        return
+      }
+      const request = indexedDB.open(dbName, DB_VERSION)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error ?? new Error('Could not open the session database'))
+    })
+    // A failed open is retried on the next call
+    database.catch(() => {
+      database = null
+    })
+    return database
+  }
+
+  const run = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) => {
+    const db = await open()
+    return new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode)
+      const request = operation(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error ?? request.error)
+      transaction.onabort = () => reject(transaction.error ?? new Error('Session transaction aborted'))
+    })
+  }
+
+  return {
+    async list() {
+      const sessions = await run<ChatSession[]>('readonly', store => store.getAll())
+      return sessions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+    },
+    async save(session) {
+      await run('readwrite', store => store.put(storableSession(session)))
+    },
+    async remove(id) {
+      await run('readwrite', store => store.delete(id))
+    }
+  }
+}
+
+/**
+ * Copy of a session safe to store or serialise: relationship endpoints are
+ * ids rather than the node objects D3 swaps in, and no message is streaming
+ */
+export function storableSession(session: ChatSession): ChatSession {
+  return {
+    ...session,
+    messages: session.messages.map(message => {
+      const stored = { ...message }
+      delete stored.isStreaming
+      if (message.subgraph) {
+        stored.subgraph = {
+          ...message.subgraph,
+          relationships: message.subgraph.relationships.map(rel => ({
+            ...rel,
+            source: endpointId(rel.source),
+            target: endpointId(rel.target)
+          }))
+        }
+      }
+      return stored
+    })
+  }
+}
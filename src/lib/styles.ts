@@ -0,0 +1,106 @@
+import { interpolateRdYlBu, schemeTableau10 } from 'd3'
+import type { GraphData, GraphNode } from '../types'
+import { nodeLabels } from './graph'
+
+// Colours for the labels of the sample graph - using Neo4j brand colors
+const BASE_COLORS: Record<string, string> = {
+  Person: '#FF6B6B',
+  Company: '#4ECDC4',
+  Technology: '#008CC1', // Neo4j blue
+  Concept: '#9C27B0', // Neo4j purple
+  Document: '#95E1D3'
+}
+
+// Distinct colours handed out to other labels before falling back to generated hues
+const PALETTE = [
+  '#F4A261', '#2A9D8F', '#E76F51', '#6A4C93', '#8AC926', '#1982C4',
+  '#FFB703', '#D62828', '#43AA8B', '#B5179E', '#577590', '#F15BB5',
+  '#6D597A', '#00BBF9', '#9A6324', '#3A86FF'
+]
+
+export const FALLBACK_COLOR = '#94a3b8'
+
+const assigned = new Map<string, string>(Object.entries(BASE_COLORS))
+
+function hash(text: string): number {
+  let h = 0
+  for (let i = 0; i < text.length; i++) h = (h * 31 + text.charCodeAt(i)) | 0
+  return Math.abs(h)
+}
+
+/**
+ * Colour of a label. Unseen labels get a palette colour chosen from a hash of
+ * the name, so a label keeps its colour across reloads unless two labels
+ * collide, and no two labels share a colour until the palette runs out
+ */
+export function labelColor(label: string): string {
+  const known = assigned.get(label)
+  if (known) return known
+
+  const used = new Set(assigned.values())
+  const start = hash(label) % PALETTE.length
+  const free = PALETTE.map((_, i) => PALETTE[(start + i) % PALETTE.length]).find(color => !used.has(color))
+  // Golden-angle hues stay well apart once the palette is exhausted
+  const color = free ?? `hsl(${Math.round((hash(label) * 137.508) % 360)}, 60%, 55%)`
+  assigned.set(label, color)
+  return color
+}
+
+/**
+ * Fill colour of a node, taken from its primary label
+ */
+export function nodeColor(node: GraphNode): string {
+  return node.type ? labelColor(node.type) : FALLBACK_COLOR
+}
+
+export interface LabelStyle {
+  label: string
+  color: string
+  /** Number of nodes carrying the label */
+  count: number
+}
+
+/**
+ * Legend for the labels actually present in a graph, primary labels first
+ * in order of frequency, then labels that only occur as secondary labels
+ */
+export function graphLegend(data: GraphData): LabelStyle[] {
+  const counts = new Map<string, number>()
+  const primary = new Set<string>()
+  data.nodes.forEach(node => {
+    primary.add(node.type)
+    nodeLabels(node).forEach(label => counts.set(label, (counts.get(label) ?? 0) + 1))
+  })
+
+  // Assign colours in name order so the same graph always gets the same colours
+  return [...counts]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([label, count]) => ({ label, color: labelColor(label), count }))
+    .sort((a, b) =>
+      Number(primary.has(b.label)) - Number(primary.has(a.label)) ||
+      b.count - a.count ||
+      a.label.localeCompare(b.label)
+    )
+}
+
+/** Radius of nodes drawn at their default size */
+export const NODE_RADIUS = 20
+
+/**
+ * Radius of a node sized by a metric rescaled to 0-1; the area grows with the value
+ */
+export function metricRadius(scaled: number): number {
+  return 10 + 24 * Math.sqrt(scaled)
+}
+
+/**
+ * Fill of a node coloured by a metric rescaled to 0-1, from blue (low) to red (high)
+ */
+export function metricColor(scaled: number): string {
+  return interpolateRdYlBu(1 - scaled)
+}
+
+/** Fill of a connected component, by its number */
+export function componentColor(component: number): string {
+  return schemeTableau10[component % schemeTableau10.length]
+}
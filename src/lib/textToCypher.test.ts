@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest'
+import { sampleGraphData, sampleQueries } from '../data/sampleGraph'
+import { executeCypher } from './cypher'
+import { cloneGraphData } from './graph'
+import { extractSchema } from './schema'
+import { createRuleBasedCypherGenerator, extractCypher, generateCypher, validateCypher, type CypherGenerator } from './textToCypher'
+
+const schema = extractSchema(sampleGraphData)
+const messages = (query: string, options?: { requireReturn?: boolean }) =>
+  validateCypher(query, schema, options).map(diagnostic => diagnostic.message)
+
+describe('validateCypher', () => {
+  it.each(sampleQueries.map(sample => [sample.natural, sample.cypher]))('accepts the sample query "%s"', (_, cypher) => {
+    expect(validateCypher(cypher, schema)).toEqual([])
+  })
+
+  it('points at unknown labels and relationship types', () => {
+    expect(validateCypher('MATCH (n:Planet) RETURN n', schema)).toEqual([
+      { message: 'Unknown label :Planet (known: :Company, :Concept, :Technology)', start: 6, end: 16 }
+    ])
+    expect(messages('MATCH (a:Company)-[:OWNS]->(b) RETURN a')[0]).toMatch(/^Unknown relationship type :OWNS \(known: :APPLIED_FOR, /)
+  })
+
+  it('rejects relationship directions the schema never has', () => {
+    expect(messages('MATCH (a:Technology)-[:USES]->(b:Company) RETURN a')).toEqual([
+      'Wrong direction: [:USES] goes from (:Company) to (:Technology), use <-[:USES]-'
+    ])
+  })
+
+  it('rejects property keys the matched labels or types do not have', () => {
+    expect(messages('MATCH (c:Company) RETURN c.color')).toEqual([
+      "Property 'color' does not exist on :Company (available: achievement, application, id, label)"
+    ])
+    expect(messages('MATCH (n:Company)-[r:USES]->(t) RETURN r.weight')).toEqual([
+      "Property 'weight' does not exist on relationships of type :USES"
+    ])
+  })
+
+  it('reports syntax errors with their position', () => {
+    expect(validateCypher('MATCH (n RETURN n', schema)).toEqual([{ message: "Expected ')' but found 'RETURN'", start: 9, end: 10 }])
+  })
+
+  it('requires RETURN unless told otherwise', () => {
+    expect(messages('MATCH (n:Company) SET n.x = 1')).toEqual(['Query must end with RETURN'])
+    expect(messages('MATCH (n:Company) SET n.x = 1', { requireReturn: false })).toEqual([])
+  })
+})
+
+describe('generateCypher', () => {
+  it('feeds validation errors back to the generator until a query passes', async () => {
+    const generator = vi.fn<CypherGenerator>()
+      .mockResolvedValueOnce({ query: 'MATCH (n:Planet) RETURN n', params: {} })
+      .mockResolvedValueOnce({ query: 'MATCH (n:Company) RETURN n.label AS name', params: {} })
+
+    const result = await generateCypher('Which companies are there?', schema, generator)
+
+    expect(result.query).toBe('MATCH (n:Company) RETURN n.label AS name')
+    expect(result.attempts).toHaveLength(2)
+    expect(generator.mock.calls[1][0].previous).toEqual({
+      query: 'MATCH (n:Planet) RETURN n',
+      errors: [expect.objectContaining({ message: expect.stringContaining('Unknown label :Planet') })]
+    })
+  })
+
+  it('gives up after the allowed attempts or an empty query', async () => {
+    const invalid = vi.fn<CypherGenerator>(async () => ({ query: 'MATCH (n:Planet) RETURN n', params: {} }))
+    const failed = await generateCypher('Planets?', schema, invalid, { maxAttempts: 2 })
+    expect(failed.query).toBeUndefined()
+    expect(failed.attempts).toHaveLength(2)
+
+    const empty = await generateCypher('Planets?', schema, async () => ({ query: '', params: {} }))
+    expect(empty).toEqual({ attempts: [] })
+  })
+})
+
+describe('createRuleBasedCypherGenerator', () => {
+  const generator = createRuleBasedCypherGenerator(sampleGraphData)
+
+  it('writes a valid, parameterised query naming the entities and relationship types asked about', async () => {
+    const result = await generateCypher('Which companies use Neo4j?', schema, generator)
+
+    expect(result.query).toBe('MATCH (company:Company)-[r:USES]->(technology:Technology {id: $technology})\nRETURN DISTINCT company.label AS company')
+    expect(result.params).toEqual({ technology: 'neo4j' })
+    const { rows } = executeCypher(result.query!, cloneGraphData(sampleGraphData), result.params)
+    expect(rows.map(row => row.company)).toEqual(['NASA', 'ICIJ'])
+  })
+
+  it('relaxes relationship types on repair rounds', async () => {
+    const repaired = await generator({
+      question: 'Which companies use Neo4j?',
+      schema,
+      previous: { query: 'MATCH (n) RETURN n', errors: [{ message: 'rejected' }] }
+    })
+
+    expect(repaired.query).not.toContain(':USES')
+    expect(validateCypher(repaired.query, schema)).toEqual([])
+  })
+
+  it('writes nothing for questions naming nothing in the graph', async () => {
+    expect(await generateCypher('hello there', schema, generator)).toEqual({ attempts: [] })
+  })
+})
+
+describe('extractCypher', () => {
+  it('prefers a fenced block in the reply', () => {
+    expect(extractCypher('Here it is:\n```cypher\nMATCH (n) RETURN n\n```\nDone.')).toBe('MATCH (n) RETURN n')
+    expect(extractCypher('  MATCH (n) RETURN n  ')).toBe('MATCH (n) RETURN n')
+  })
+})
@@ -0,0 +1,457 @@
+import type { CypherStatement, GraphData, GraphNode, GraphSchema, LLMProvider } from '../types'
+import {
+  CypherSyntaxError,
+  clauseExpressions,
+  createCypherBuilder,
+  parseCypher,
+  queryPatterns,
+  walkExpression,
+  type NodePattern,
+  type Query
+} from './cypher'
+import { buildTextToCypherPrompt, collectStream } from './llm'
+import { stem } from './retrieval'
+
+/**
+ * A problem found in a generated query
+ * Positions are set when the problem can be tied to a pattern in the source
+ */
+export interface CypherDiagnostic {
+  message: string
+  start?: number
+  end?: number
+}
+
+export interface CypherGenerationRequest {
+  question: string
+  schema: GraphSchema
+  /** The previously rejected query and why, on repair rounds */
+  previous?: { query: string; errors: CypherDiagnostic[] }
+}
+
+/** Produces Cypher for a question; an empty query means none could be written */
+export type CypherGenerator = (request: CypherGenerationRequest, signal?: AbortSignal) => Promise<CypherStatement>
+
+export interface TextToCypherResult {
+  /** Final query, only set when it passed validation */
+  query?: string
+  /** Values of the final query's `$parameters` */
+  params?: Record<string, unknown>
+  attempts: { query: string; errors: CypherDiagnostic[] }[]
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3
+
+/**
+ * Generates Cypher for a question, validates it against the schema and feeds
+ * validation errors back to the generator for a bounded number of repairs
+ */
+export async function generateCypher(
+  question: string,
+  schema: GraphSchema,
+  generator: CypherGenerator,
+  options: { maxAttempts?: number; signal?: AbortSignal } = {}
+): Promise<TextToCypherResult> {
+  const attempts: TextToCypherResult['attempts'] = []
+  const maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS
+
+  while (attempts.length < maxAttempts) {
+    const previous = attempts[attempts.length - 1]
+    const generated = await generator({ question, schema, previous }, options.signal)
+    const query = generated.query.trim()
+    if (!query) break
+
+    const errors = validateCypher(query, schema)
+    attempts.push({ query, errors })
+    if (errors.length === 0) return { query, params: generated.params, attempts }
+  }
+
+  return { attempts }
+}
+
+/**
+ * Checks a query against a graph schema: syntax, unknown labels and
+ * relationship types, relationship directions that never occur between the
+ * labels involved, and property keys the matched labels or types do not have
+ *
+ * Generated queries must end with RETURN; `requireReturn: false` lets
+ * hand-written write queries through
+ */
+export function validateCypher(
+  query: string,
+  schema: GraphSchema,
+  { requireReturn = true }: { requireReturn?: boolean } = {}
+): CypherDiagnostic[] {
+  let ast: Query
+  try {
+    ast = parseCypher(query)
+  } catch (error) {
+    const position = error instanceof CypherSyntaxError ? error.position : 0
+    return [{ message: (error as Error).message, start: position, end: position + 1 }]
+  }
+
+  const errors: CypherDiagnostic[] = []
+  if (requireReturn && ast.clauses[ast.clauses.length - 1]?.kind !== 'return') {
+    errors.push({ message: 'Query must end with RETURN' })
+  }
+
+  // An empty schema means an empty graph, where only syntax can be checked
+  if (schema.labels.length === 0) return errors
+
+  const labels = new Set(schema.labels)
+  const types = new Set(schema.relationshipTypes)
+  const patterns = queryPatterns(ast)
+
+  // Labels and types bound to each variable anywhere in the query
+  const nodeVariables = new Map<string, Set<string>>()
+  const relationshipVariables = new Map<string, Set<string>>()
+  const bind = (index: Map<string, Set<string>>, variable: string | undefined, names: string[]) => {
+    if (!variable) return
+    const set = index.get(variable) ?? new Set<string>()
+    names.forEach(name => set.add(name))
+    index.set(variable, set)
+  }
+  patterns.forEach(pattern => {
+    bind(nodeVariables, pattern.head.variable, pattern.head.labels)
+    pattern.chain.forEach(({ relationship, node }) => {
+      bind(relationshipVariables, relationship.variable, relationship.types)
+      bind(nodeVariables, node.variable, node.labels)
+    })
+  })
+
+  const knownLabels = (node: NodePattern) => [
+    ...new Set([...node.labels, ...(node.variable ? nodeVariables.get(node.variable) ?? [] : [])])
+  ].filter(label => labels.has(label))
+
+  const checkNodeKey = (key: string, nodeLabels: string[], span?: NodePattern) => {
+    const message = nodeLabels.length > 0
+      ? !nodeLabels.some(label => schema.nodeProperties[label]?.includes(key)) &&
+        `Property '${key}' does not exist on ${nodeLabels.map(l => `:${l}`).join(' or ')}` +
+        ` (available: ${nodeLabels.flatMap(l => schema.nodeProperties[l] ?? []).join(', ')})`
+      : !schema.propertyKeys.includes(key) && `Unknown property key '${key}'`
+    if (message) errors.push({ message, start: span?.start, end: span?.end })
+  }
+
+  const checkRelationshipKey = (key: string, relTypes: string[]) => {
+    const known = relTypes.filter(type => types.has(type))
+    const exists = known.length > 0
+      ? known.some(type => schema.relationshipProperties[type]?.includes(key))
+      : schema.propertyKeys.includes(key)
+    if (!exists) {
+      errors.push({
+        message: known.length > 0
+          ? `Property '${key}' does not exist on relationships of type ${known.map(t => `:${t}`).join(' or ')}`
+          : `Unknown property key '${key}'`
+      })
+    }
+  }
+
+  const connects = (type: string, sources: string[], targets: string[]) =>
+    schema.relationshipPatterns.some(p =>
+      p.type === type &&
+      (sources.length === 0 || sources.includes(p.source)) &&
+      (targets.length === 0 || targets.includes(p.target))
+    )
+
+  const checkNode = (node: NodePattern) => {
+    node.labels
+      .filter(label => !labels.has(label))
+      .forEach(label => errors.push({
+        message: `Unknown label :${label}${suggest(label, schema.labels, ':')}`,
+        start: node.start,
+        end: node.end
+      }))
+    if (node.properties?.kind === 'map') {
+      const nodeLabels = knownLabels(node)
+      node.properties.entries.forEach(({ key }) => checkNodeKey(key, nodeLabels, node))
+    }
+  }
+
+  patterns.forEach(pattern => {
+    checkNode(pattern.head)
+    let left = pattern.head
+
+    pattern.chain.forEach(({ relationship, node }) => {
+      checkNode(node)
+      const span = { start: relationship.start, end: relationship.end }
+
+      relationship.types
+        .filter(type => !types.has(type))
+        .forEach(type => errors.push({
+          message: `Unknown relationship type :${type}${suggest(type, schema.relationshipTypes, ':')}`,
+          ...span
+        }))
+      if (relationship.properties?.kind === 'map') {
+        relationship.properties.entries.forEach(({ key }) => checkRelationshipKey(key, relationship.types))
+      }
+
+      // Direction is only meaningful for single hops of a known type
+      const knownTypes = relationship.types.filter(type => types.has(type))
+      if (!relationship.length && knownTypes.length > 0) {
+        const from = knownLabels(left)
+        const to = knownLabels(node)
+        const forward = knownTypes.some(type => connects(type, from, to))
+        const backward = knownTypes.some(type => connects(type, to, from))
+        const typeText = knownTypes.map(t => `:${t}`).join('|')
+        const describe = (labelsOf: string[]) => (labelsOf.length > 0 ? `:${labelsOf.join('|')}` : '')
+
+        if (!forward && !backward) {
+          errors.push({
+            message: `No [${typeText}] relationships connect (${describe(from)}) and (${describe(to)}) in this graph`,
+            ...span
+          })
+        } else if (relationship.direction === 'out' && !forward) {
+          errors.push({
+            message: `Wrong direction: [${typeText}] goes from (${describe(to)}) to (${describe(from)}), use <-[${typeText}]-`,
+            ...span
+          })
+        } else if (relationship.direction === 'in' && !backward) {
+          errors.push({
+            message: `Wrong direction: [${typeText}] goes from (${describe(from)}) to (${describe(to)}), use -[${typeText}]->`,
+            ...span
+          })
+        }
+      }
+
+      left = node
+    })
+  })
+
+  // Property access such as n.name in WHERE, WITH and RETURN
+  ast.clauses.flatMap(clauseExpressions).forEach(root =>
+    walkExpression(root, expression => {
+      if (expression.kind !== 'property' || expression.object.kind !== 'variable') return
+      const { name } = expression.object
+      if (relationshipVariables.has(name)) {
+        checkRelationshipKey(expression.key, [...relationshipVariables.get(name)!])
+      } else {
+        const nodeLabels = [...nodeVariables.get(name) ?? []].filter(label => labels.has(label))
+        checkNodeKey(expression.key, nodeLabels)
+      }
+    })
+  )
+
+  // The same problem can be reached through several patterns
+  return errors.filter((error, index) => errors.findIndex(e => e.message === error.message) === index)
+}
+
+function suggest(name: string, known: string[], prefix: string): string {
+  const lower = name.toLowerCase()
+  const match = known.find(candidate => candidate.toLowerCase() === lower) ??
+    known.find(candidate => stem(candidate.toLowerCase()) === stem(lower))
+  return match
+    ? ` (did you mean ${prefix}${match}?)`
+    : ` (known: ${known.map(k => `${prefix}${k}`).join(', ')})`
+}
+
+/**
+ * Generator backed by an LLM provider, prompted with the schema
+ */
+export function createLLMCypherGenerator(provider: LLMProvider): CypherGenerator {
+  return async ({ question, schema, previous }, signal) => {
+    const messages = buildTextToCypherPrompt(
+      question,
+      schema,
+      previous && { query: previous.query, errors: previous.errors.map(e => e.message) }
+    )
+    return { query: extractCypher(await collectStream(provider.streamChat(messages, signal))), params: {} }
+  }
+}
+
+/**
+ * Pulls the query out of a model reply, preferring a fenced code block
+ */
+export function extractCypher(reply: string): string {
+  const fenced = /```(?:cypher)?\s*([\s\S]*?)```/i.exec(reply)
+  return (fenced ? fenced[1] : reply).trim()
+}
+
+// Words in relationship type names that carry no meaning on their own
+const CONNECTIVES = new Set(['a', 'an', 'at', 'by', 'for', 'in', 'of', 'on', 'to', 'with'])
+
+/**
+ * Offline generator that maps entity names, labels and relationship type
+ * words found in the question onto patterns that exist in the schema
+ *
+ * Repair rounds relax the query to undirected, untyped relationships
+ */
+export function createRuleBasedCypherGenerator(data: GraphData): CypherGenerator {
+  return async ({ question, schema, previous }) => {
+    const words = splitWords(question)
+    const entities = findEntities(question, data.nodes)
+    const labels = schema.labels.filter(label =>
+      splitWords(label.replace(/([a-z])([A-Z])/g, '$1 $2')).every(word => words.some(w => similar(w, word)))
+    )
+    const types = previous
+      ? []
+      : schema.relationshipTypes.filter(type => {
+        const parts = splitWords(type.replace(/_/g, ' ')).filter(part => !CONNECTIVES.has(part))
+        return parts.length > 0 && parts.every(part => words.some(w => similar(w, part)))
+      })
+
+    return ruleBasedQuery({ entities, labels, types, schema, relaxed: Boolean(previous) })
+  }
+}
+
+function ruleBasedQuery({ entities, labels, types, schema, relaxed }: {
+  entities: GraphNode[]
+  labels: string[]
+  types: string[]
+  schema: GraphSchema
+  relaxed: boolean
+}): CypherStatement {
+  const [entity, other] = entities
+  const cypher = createCypherBuilder()
+  const statement = (lines: string[]) => cypher.build(lines.join('\n'))
+  const nodePattern = (variable: string, node: GraphNode) =>
+    `(${variable}${cypher.labels([node.type])} {id: ${cypher.param(node.id, variable)}})`
+  const arrow = (type: string | undefined, direction: Direction) => {
+    const body = `[r${type ? `:${cypher.name(type)}` : ''}]`
+    if (direction === 'out') return `-${body}->`
+    if (direction === 'in') return `<-${body}-`
+    return `-${body}-`
+  }
+
+  // Two named entities: how are they connected?
+  if (entity && other) {
+    return statement([
+      `MATCH path = ${nodePattern('a', entity)}-[*1..3]-${nodePattern('b', other)}`,
+      'RETURN path',
+      'LIMIT 5'
+    ])
+  }
+
+  // A named entity and a label: which nodes of that label relate to it?
+  const label = labels.find(l => l !== entity?.type) ?? (entity ? undefined : labels[0])
+  if (entity && label) {
+    const entityVar = variableFor(entity.type, label)
+    const labelVar = variableFor(label)
+    const entityPattern = nodePattern(entityVar, entity)
+    const link = relaxed ? undefined : pickLink(schema, label, entity.type, types)
+    const match = link
+      ? `MATCH (${labelVar}${cypher.labels([label])})${arrow(link.type, link.direction)}${entityPattern}`
+      : `MATCH (${labelVar}${cypher.labels([label])})-[*1..2]-${entityPattern}`
+    const relationshipColumns = link
+      ? (schema.relationshipProperties[link.type] ?? []).map(key => `r.${cypher.name(key)} AS ${cypher.name(key)}`)
+      : []
+    return statement([
+      match,
+      `RETURN DISTINCT ${[`${labelVar}.label AS ${labelVar}`, ...relationshipColumns, ...descriptionColumn(schema, label, labelVar)].join(', ')}`
+    ])
+  }
+
+  // A single entity: its neighbourhood, optionally through the mentioned relationship
+  if (entity) {
+    const entityVar = variableFor(entity.type)
+    const type = types.find(t => schema.relationshipPatterns.some(p =>
+      p.type === t && (p.source === entity.type || p.target === entity.type)
+    ))
+    const direction = type ? directionFrom(schema, entity.type, type) : 'both'
+    return statement([
+      `MATCH ${nodePattern(entityVar, entity)}${arrow(type, direction)}(related)`,
+      `RETURN ${entityVar}.label AS ${entityVar}, type(r) AS relationship, related.label AS related`
+    ])
+  }
+
+  // A label on its own: list its nodes, or what they connect to
+  if (label) {
+    const labelVar = variableFor(label)
+    const type = types.find(t => schema.relationshipPatterns.some(p =>
+      p.type === t && (p.source === label || p.target === label)
+    ))
+    if (type) {
+      return statement([
+        `MATCH (${labelVar}${cypher.labels([label])})${arrow(type, directionFrom(schema, label, type))}(related)`,
+        `RETURN ${labelVar}.label AS ${labelVar}, type(r) AS relationship, related.label AS related`
+      ])
+    }
+    return statement([
+      `MATCH (${labelVar}${cypher.labels([label])})`,
+      `RETURN ${[`${labelVar}.label AS ${labelVar}`, ...descriptionColumn(schema, label, labelVar)].join(', ')}`,
+      'LIMIT 25'
+    ])
+  }
+
+  // Only a relationship type
+  if (types.length > 0) {
+    return statement([
+      `MATCH (source)-[r:${cypher.name(types[0])}]->(target)`,
+      'RETURN source.label AS source, type(r) AS relationship, target.label AS target',
+      'LIMIT 25'
+    ])
+  }
+
+  return statement([])
+}
+
+type Direction = 'out' | 'in' | 'both'
+
+/**
+ * Relationship type connecting two labels, preferring mentioned types,
+ * with the direction seen from the first label
+ */
+function pickLink(schema: GraphSchema, from: string, to: string, mentioned: string[]) {
+  const links = schema.relationshipPatterns.flatMap(p => {
+    if (p.source === from && p.target === to) return [{ type: p.type, direction: 'out' as Direction }]
+    if (p.source === to && p.target === from) return [{ type: p.type, direction: 'in' as Direction }]
+    return []
+  })
+  return links.find(link => mentioned.includes(link.type)) ?? links[0]
+}
+
+function directionFrom(schema: GraphSchema, label: string, type: string): Direction {
+  const outgoing = schema.relationshipPatterns.some(p => p.type === type && p.source === label)
+  const incoming = schema.relationshipPatterns.some(p => p.type === type && p.target === label)
+  if (outgoing && incoming) return 'both'
+  return outgoing ? 'out' : 'in'
+}
+
+function descriptionColumn(schema: GraphSchema, label: string, variable: string): string[] {
+  return schema.nodeProperties[label]?.includes('description')
+    ? [`${variable}.description AS description`]
+    : []
+}
+
+/**
+ * Nodes whose label (or label without a parenthesised expansion) appears in
+ * the question as whole words, in order of appearance; names contained in a
+ * longer matched name are dropped
+ */
+function findEntities(question: string, nodes: GraphNode[]): GraphNode[] {
+  const matches = nodes.flatMap(node => {
+    const names = new Set([node.label, node.label.replace(/\s*\(.*\)\s*$/, '')])
+    return [...names].flatMap(name => {
+      const match = new RegExp(`(^|[^a-z0-9])${escapeRegExp(name)}($|[^a-z0-9])`, 'i').exec(question)
+      return match ? [{ node, name, index: match.index + match[1].length }] : []
+    })
+  })
+
+  const kept = matches.filter(match => !matches.some(other =>
+    other.name.length > match.name.length &&
+    other.index <= match.index &&
+    other.index + other.name.length >= match.index + match.name.length
+  ))
+
+  return [...new Map(kept.sort((a, b) => a.index - b.index).map(m => [m.node.id, m.node])).values()]
+}
+
+function splitWords(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).map(stem)
+}
+
+// "use" ~ "used", "improve" ~ "improves"
+function similar(a: string, b: string): boolean {
+  if (a === b) return true
+  const [shorter, longer] = a.length < b.length ? [a, b] : [b, a]
+  return shorter.length >= 3 && longer.length - shorter.length <= 2 && longer.startsWith(shorter)
+}
+
+function variableFor(label: string, avoid?: string): string {
+  const name = label.charAt(0).toLowerCase() + label.slice(1).replace(/[^A-Za-z0-9_]/g, '')
+  const variable = /^[a-z]/.test(name) ? name : 'n'
+  return avoid && variable === variableFor(avoid) ? `${variable}2` : variable
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
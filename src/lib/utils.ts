@@ -17,16 +17,6 @@ export async function* streamText(text: string, delayMs: number = 20): AsyncGene
   }
 }
 
-/**
- * Formats Cypher queries with syntax highlighting markup
- */
-export function formatCypherQuery(query: string): string {
-  return query
-    .replace(/(MATCH|WHERE|RETURN|CREATE|WITH|ORDER BY|LIMIT)/g, '<span class="text-neo4j-blue font-semibold">$1</span>')
-    .replace(/(\([a-z]+:[A-Z][a-zA-Z]+\))/g, '<span class="text-neo4j-green">$1</span>')
-    .replace(/(\{[^}]+\})/g, '<span class="text-neo4j-purple">$1</span>')
-}
-
 /**
  * Debounce function for performance optimization
  */
@@ -40,3 +30,17 @@ export function debounce<T extends (...args: never[]) => unknown>(
     timeout = setTimeout(() => func(...args), waitMs)
   }
 }
+
+/**
+ * Saves a string or blob as a file through a temporary object URL
+ */
+export function downloadFile(content: string | Blob, fileName: string, mimeType = 'text/plain') {
+  const blob = typeof content === 'string' ? new Blob([content], { type: mimeType }) : content
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // Revoke after the click has been handled
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
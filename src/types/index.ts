@@ -6,7 +6,10 @@
 export interface GraphNode {
   id: string
   label: string
-  type: 'Person' | 'Company' | 'Technology' | 'Concept' | 'Document'
+  /** Primary label, used for styling and in generated Cypher */
+  type: string
+  /** Every label the node carries, starting with `type`; absent when it has just the one */
+  labels?: string[]
   properties: Record<string, unknown>
   x?: number
   y?: number
@@ -34,20 +37,275 @@ export interface Message {
   role: 'user' | 'assistant'
   content: string
   timestamp: Date
+  /** Input mode the message was sent or answered in */
+  mode?: QueryMode
   sources?: GraphNode[]
+  /** Retrieval score per source node id */
+  sourceScores?: Record<string, number>
+  /** Everything the answer was grounded in, re-highlighted when the message is clicked */
+  subgraph?: RetrievedSubgraph
   cypherQuery?: string
+  /** Values of the `$parameters` in cypherQuery */
+  cypherParams?: Record<string, unknown>
+  /** Generation attempts it took for cypherQuery to pass schema validation */
+  cypherAttempts?: number
+  /** Rows returned when the message was answered by running Cypher directly */
+  queryResult?: CypherResult
+  /** Cypher scope the retrieval was restricted to (hybrid mode) */
+  scopeQuery?: string
+  scopeParams?: Record<string, unknown>
+  /** A follow-up question rewritten with its references to earlier turns resolved */
+  standaloneQuery?: string
   isStreaming?: boolean
 }
 
+/**
+ * A named conversation, persisted with everything its messages were grounded in
+ */
+export interface ChatSession {
+  id: string
+  name: string
+  createdAt: Date
+  updatedAt: Date
+  messages: Message[]
+}
+
+/**
+ * Nodes and relationships an answer was grounded in
+ */
+export interface RetrievedSubgraph extends GraphData {
+  /** Relationships traversed to reach the retrieved nodes: the answer's reasoning path */
+  reasoningRelationshipIds: string[]
+}
+
 export interface RAGContext {
   retrievedNodes: GraphNode[]
   retrievedRelationships: GraphRelationship[]
+  /** Relationships the expansion reached each retrieved node through, from the seeds outward */
+  traversedRelationshipIds: string[]
   cypherQuery: string
+  cypherParams: Record<string, unknown>
+  /** Share of the question's terms matched by the seed nodes (0-1) */
   relevanceScore: number
+  /** Per-node retrieval score (0-1), seeds highest, decaying per hop */
+  nodeScores: Record<string, number>
+  relationshipScores: Record<string, number>
+}
+
+/**
+ * Centrality and connectivity of one node, computed by lib/analytics
+ */
+export interface NodeMetrics {
+  inDegree: number
+  outDegree: number
+  /** In- plus out-degree */
+  degree: number
+  /** Share of a random walk's time spent on the node (all nodes sum to 1) */
+  pageRank: number
+  /** Share of shortest paths between other nodes that pass through the node (0-1) */
+  betweenness: number
+  /** How close the node is to the nodes it can reach (0-1) */
+  closeness: number
+  /** Connected component, numbered from the largest (0) down */
+  component: number
+}
+
+export type MetricKey = keyof NodeMetrics
+
+/** Metrics per node id */
+export type GraphMetrics = Record<string, NodeMetrics>
+
+export interface GraphPath {
+  nodes: GraphNode[]
+  relationships: GraphRelationship[]
+}
+
+/**
+ * Labels, relationship types and property keys known to a data source
+ */
+export interface GraphSchema {
+  labels: string[]
+  relationshipTypes: string[]
+  propertyKeys: string[]
+  /** Observed (source label)-[type]->(target label) combinations */
+  relationshipPatterns: { source: string; type: string; target: string }[]
+  /** Property keys seen per node label */
+  nodeProperties: Record<string, string[]>
+  /** Property keys seen per relationship type */
+  relationshipProperties: Record<string, string[]>
+}
+
+/** A property key of a schema label or relationship pattern */
+export interface SchemaProperty {
+  key: string
+  /** Value types seen for the key, e.g. String, Integer, List<String> */
+  types: string[]
+  /** Number of elements that have the key */
+  count: number
+}
+
+export interface SchemaLabel {
+  label: string
+  /** Nodes carrying the label */
+  count: number
+  properties: SchemaProperty[]
+}
+
+/** Relationships of one type between nodes of two labels */
+export interface SchemaRelationship {
+  source: string
+  type: string
+  target: string
+  count: number
+  properties: SchemaProperty[]
+}
+
+/**
+ * Meta-graph of the labels and relationship types in a graph, like Neo4j's
+ * db.schema.visualization: one node per label, one edge per
+ * (source label)-[type]->(target label) combination
+ */
+export interface SchemaGraph {
+  labels: SchemaLabel[]
+  relationships: SchemaRelationship[]
+}
+
+/** A label or relationship pattern picked in the schema view */
+export type SchemaElement =
+  | { kind: 'label'; label: string }
+  | { kind: 'relationship'; source: string; type: string; target: string }
+
+/**
+ * A Cypher query with the values it uses passed as `$parameters`
+ */
+export interface CypherStatement {
+  query: string
+  params: Record<string, unknown>
+}
+
+/**
+ * Result of running a Cypher query
+ * Rows keep the projected columns, nodes/relationships hold every graph element the query matched
+ */
+export interface CypherResult {
+  columns: string[]
+  rows: Record<string, unknown>[]
+  nodes: GraphNode[]
+  relationships: GraphRelationship[]
+  /** Milliseconds the query took, as measured by the caller */
+  elapsedMs?: number
+  /** What the query changed, when the data source reports it (the in-memory engine does for writes) */
+  counters?: CypherCounters
+}
+
+/**
+ * Changes made by a write query, as in Neo4j's query statistics
+ */
+export interface CypherCounters {
+  nodesCreated: number
+  nodesDeleted: number
+  relationshipsCreated: number
+  relationshipsDeleted: number
+  propertiesSet: number
+  labelsAdded: number
+  labelsRemoved: number
+}
+
+/** Type a query parameter's entry is converted to before the query runs */
+export type QueryParameterType = 'string' | 'integer' | 'float' | 'boolean' | 'list'
+
+/**
+ * A `$name` placeholder of a saved query
+ */
+export interface QueryParameter {
+  name: string
+  type: QueryParameterType
+  /** Value the input starts with, as it would be typed */
+  defaultValue?: string
+}
+
+/**
+ * A query in the library, with what it is for and the parameters it takes
+ */
+export interface SavedQuery {
+  id: string
+  title: string
+  explanation: string
+  tags: string[]
+  cypher: string
+  parameters: QueryParameter[]
+  /** Starter pack queries ship with the app and cannot be changed */
+  builtIn?: boolean
+  /** ISO timestamp of the last save */
+  updatedAt: string
+}
+
+export type ExpandDirection = 'outgoing' | 'incoming' | 'both'
+
+/**
+ * Which neighbours of a node to fetch when expanding it
+ * No types means every relationship type
+ */
+export interface ExpandOptions {
+  direction?: ExpandDirection
+  types?: string[]
+  /** Maximum number of relationships returned */
+  limit?: number
+}
+
+/**
+ * Backend the explorer reads its graph from
+ * Implementations live in lib/dataSources (in-memory sample data, Neo4j HTTP API)
+ */
+export interface GraphDataSource {
+  name: string
+  loadGraph(): Promise<GraphData>
+  getNeighbors(nodeId: string, options?: ExpandOptions): Promise<GraphData>
+  runCypher(query: string, params?: Record<string, unknown>): Promise<CypherResult>
+  getSchema(): Promise<GraphSchema>
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export type LLMProviderKind = 'mock' | 'openai' | 'ollama'
+
+/**
+ * Runtime LLM settings, editable from the header and kept in localStorage
+ */
+export interface LLMConfig {
+  provider: LLMProviderKind
+  endpoint: string
+  model: string
+  apiKey: string
+}
+
+/**
+ * Language model backend; implementations live in lib/llm
+ */
+export interface LLMProvider {
+  name: string
+  /** Streams a raw chat completion token by token */
+  streamChat(messages: ChatMessage[], signal?: AbortSignal): AsyncGenerator<string>
+  /** Builds the GraphRAG prompt from the retrieved context and streams the answer */
+  streamAnswer(question: string, context: RAGContext, signal?: AbortSignal): AsyncGenerator<string>
 }
 
 export type QueryMode = 'natural' | 'cypher' | 'hybrid'
 
+/**
+ * Subgraph pinned in hybrid mode; retrieval only considers these elements
+ */
+export interface HybridScope {
+  cypher: string
+  /** Values of the `$parameters` in cypher, for generated scopes */
+  params?: Record<string, unknown>
+  nodeIds: string[]
+  relationshipIds: string[]
+}
+
 export interface AppState {
   messages: Message[]
   graphData: GraphData
@@ -55,3 +313,87 @@ export interface AppState {
   queryMode: QueryMode
   isLoading: boolean
 }
+
+export type ImportFormat = 'json' | 'apoc' | 'csv' | 'graphml' | 'cypher'
+
+/** Whether an import replaces the current graph or is merged into it */
+export type ImportMode = 'replace' | 'merge'
+
+export interface ParsedImport {
+  data: GraphData
+  /** Non-fatal problems found while parsing, e.g. skipped records */
+  warnings: string[]
+}
+
+/**
+ * Problems found in an import before it is applied
+ * Duplicates and dangling relationships are dropped when the import is applied
+ */
+export interface ImportReport {
+  nodeCount: number
+  relationshipCount: number
+  duplicateNodeIds: string[]
+  duplicateRelationshipIds: string[]
+  /** Relationships whose source or target node does not exist */
+  danglingRelationships: { id: string; type: string; missing: string[] }[]
+  /** Node labels not present in the current graph */
+  unknownNodeTypes: string[]
+  /** Relationship types not present in the current graph */
+  unknownRelationshipTypes: string[]
+  /** Imported node ids that update existing nodes (merge only) */
+  updatedNodeIds: string[]
+  warnings: string[]
+}
+
+/** How ingested text is cleaned up before chunking */
+export type DocumentFormat = 'text' | 'markdown' | 'pdf'
+
+/**
+ * A passage of an ingested document, stored as a Chunk node
+ */
+export interface TextChunk {
+  index: number
+  text: string
+  /** Nearest Markdown heading above the passage */
+  heading?: string
+}
+
+/**
+ * An entity found in a document, resolved against the graph
+ */
+export interface IngestionEntity {
+  /** The matched node's id, or the id the new node will get */
+  id: string
+  name: string
+  type: string
+  /** Whether the entity was matched to a node already in the graph */
+  existing: boolean
+  /** Chunks mentioning the entity */
+  chunkIndexes: number[]
+}
+
+/**
+ * A relationship between two entities read from a document
+ */
+export interface IngestionTriple {
+  id: string
+  /** Entity ids */
+  source: string
+  target: string
+  type: string
+  /** Sentence the relationship was read from */
+  evidence: string
+  chunkIndex: number
+}
+
+/**
+ * Everything extracted from a document, awaiting review before it is merged
+ */
+export interface IngestionProposal {
+  document: { id: string; title: string; format: DocumentFormat; characters: number }
+  chunks: TextChunk[]
+  entities: IngestionEntity[]
+  triples: IngestionTriple[]
+  /** Chunks the extractor failed on, and what was done instead */
+  warnings: string[]
+}